@@ -1,23 +1,26 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
 import AWSXRay from 'aws-xray-sdk-core';
-import { AppointmentService } from '../services/AppointmentService';
+import { AppointmentService, RecurrenceScope } from '../services/AppointmentService';
+import { TrashService } from '../services/TrashService';
+import { BatchService } from '../services/BatchService';
 import { AuthService } from '../services/AuthService';
 import { ResponseHelper } from '../utils/ResponseHelper';
 import { Logger } from '../utils/Logger';
+import { AppError, ValidationError } from '../utils/Errors';
 
-// Wrap AWS SDK with X-Ray
-const AWS = AWSXRay.captureAWS(require('aws-sdk'));
+// Trace AWS SDK calls with X-Ray; Lambda's active tracing opens the segment
+AWSXRay.captureAWS(require('aws-sdk'));
 
 const appointmentService = new AppointmentService();
+const trashService = new TrashService();
+const batchService = new BatchService();
 const authService = new AuthService();
 const logger = new Logger('AppointmentsHandler');
 
-export const handler = AWSXRay.captureLambdaHandler(async (
+export const handler = async (
   event: APIGatewayProxyEvent,
   context: Context
 ): Promise<APIGatewayProxyResult> => {
-  const segment = AWSXRay.getSegment();
-  
   try {
     logger.info('Processing appointment request', {
       method: event.httpMethod,
@@ -43,26 +46,69 @@ export const handler = AWSXRay.captureLambdaHandler(async (
     // Route to appropriate handler based on HTTP method
     switch (event.httpMethod) {
       case 'GET':
-        if (event.pathParameters?.appointmentId) {
+        if (event.path.endsWith('/appointments/trash')) {
+          return await listTrash(tenantId, userRole, event.queryStringParameters);
+        } else if (event.pathParameters?.appointmentId && event.path.endsWith('/history')) {
+          return await getAppointmentHistory(tenantId, event.pathParameters.appointmentId, userId, userRole);
+        } else if (event.pathParameters?.appointmentId) {
           return await getAppointment(tenantId, event.pathParameters.appointmentId, userId, userRole);
         } else {
           return await listAppointments(tenantId, userId, userRole, event.queryStringParameters);
         }
       
       case 'POST':
-        return await createAppointment(tenantId, userId, userRole, event.body);
+        if (event.path.endsWith('/appointments/batch')) {
+          return await executeBatch(tenantId, userId, userRole, event.body, context.awsRequestId);
+        } else if (event.pathParameters?.appointmentId && event.path.endsWith('/restore')) {
+          return await restoreAppointment(
+            tenantId,
+            event.pathParameters.appointmentId,
+            userId,
+            userRole,
+            event.body,
+            context.awsRequestId
+          );
+        } else if (event.pathParameters?.appointmentId && event.path.endsWith('/reschedule')) {
+          return await rescheduleAppointment(
+            tenantId,
+            event.pathParameters.appointmentId,
+            userId,
+            userRole,
+            event.body,
+            context.awsRequestId,
+            getIfMatch(event)
+          );
+        }
+        return await createAppointment(tenantId, userId, userRole, event.body, context.awsRequestId);
       
       case 'PUT':
         if (!event.pathParameters?.appointmentId) {
           return ResponseHelper.error(400, 'Appointment ID is required for updates');
         }
-        return await updateAppointment(tenantId, event.pathParameters.appointmentId, userId, userRole, event.body);
+        return await updateAppointment(
+          tenantId,
+          event.pathParameters.appointmentId,
+          userId,
+          userRole,
+          event.body,
+          event.queryStringParameters?.scope,
+          context.awsRequestId,
+          getIfMatch(event)
+        );
       
       case 'DELETE':
         if (!event.pathParameters?.appointmentId) {
           return ResponseHelper.error(400, 'Appointment ID is required for deletion');
         }
-        return await deleteAppointment(tenantId, event.pathParameters.appointmentId, userId, userRole);
+        return await deleteAppointment(
+          tenantId,
+          event.pathParameters.appointmentId,
+          userId,
+          userRole,
+          event.queryStringParameters?.scope,
+          context.awsRequestId,
+          getIfMatch(event)
+        );
       
       default:
         return ResponseHelper.error(405, 'Method not allowed');
@@ -72,7 +118,7 @@ export const handler = AWSXRay.captureLambdaHandler(async (
     logger.error('Error processing appointment request', error);
     return ResponseHelper.error(500, 'Internal server error');
   }
-});
+};
 
 async function getAppointment(
   tenantId: string,
@@ -87,13 +133,37 @@ async function getAppointment(
       return ResponseHelper.error(404, 'Appointment not found');
     }
 
-    return ResponseHelper.success(200, appointment);
+    return ResponseHelper.success(200, appointment, { ETag: toETag(appointment.version) });
   } catch (error) {
+    if (error instanceof AppError) {
+      return ResponseHelper.error(error.statusCode, error.message, error.details);
+    }
+
     logger.error('Error getting appointment', error);
     return ResponseHelper.error(500, 'Failed to retrieve appointment');
   }
 }
 
+async function getAppointmentHistory(
+  tenantId: string,
+  appointmentId: string,
+  userId: string,
+  userRole: string
+): Promise<APIGatewayProxyResult> {
+  try {
+    const history = await appointmentService.getAppointmentHistory(tenantId, appointmentId, userId, userRole);
+
+    return ResponseHelper.success(200, { history });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return ResponseHelper.error(error.statusCode, error.message, error.details);
+    }
+
+    logger.error('Error getting appointment history', error);
+    return ResponseHelper.error(500, 'Failed to retrieve appointment history');
+  }
+}
+
 async function listAppointments(
   tenantId: string,
   userId: string,
@@ -105,26 +175,176 @@ async function listAppointments(
       startDate: queryParams?.startDate,
       endDate: queryParams?.endDate,
       status: queryParams?.status,
-      userId: queryParams?.userId
+      userId: queryParams?.userId,
+      timezone: queryParams?.timezone
+    };
+
+    const page = {
+      limit: queryParams?.limit ? Number(queryParams.limit) : undefined,
+      nextToken: queryParams?.nextToken
     };
 
-    const appointments = await appointmentService.listAppointments(tenantId, userId, userRole, filters);
+    const { appointments, nextToken, timezone } = await appointmentService.listAppointments(tenantId, userId, userRole, filters, page);
     
     return ResponseHelper.success(200, {
       appointments,
-      count: appointments.length
+      count: appointments.length,
+      nextToken,
+      ...(timezone && { timezone })
     });
   } catch (error) {
+    if (error instanceof AppError) {
+      return ResponseHelper.error(error.statusCode, error.message, error.details);
+    }
+
     logger.error('Error listing appointments', error);
     return ResponseHelper.error(500, 'Failed to retrieve appointments');
   }
 }
 
+async function listTrash(
+  tenantId: string,
+  userRole: string,
+  queryParams: { [key: string]: string } | null
+): Promise<APIGatewayProxyResult> {
+  try {
+    const { appointments, nextToken } = await trashService.listTrash(tenantId, userRole, {
+      limit: queryParams?.limit ? Number(queryParams.limit) : undefined,
+      nextToken: queryParams?.nextToken
+    });
+
+    return ResponseHelper.success(200, {
+      appointments,
+      count: appointments.length,
+      nextToken
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return ResponseHelper.error(error.statusCode, error.message, error.details);
+    }
+
+    logger.error('Error listing trash', error);
+    return ResponseHelper.error(500, 'Failed to retrieve deleted appointments');
+  }
+}
+
+async function restoreAppointment(
+  tenantId: string,
+  appointmentId: string,
+  userId: string,
+  userRole: string,
+  body: string | null,
+  requestId?: string
+): Promise<APIGatewayProxyResult> {
+  try {
+    const options = body ? JSON.parse(body) : {};
+    const appointment = await trashService.restoreAppointment(
+      tenantId,
+      appointmentId,
+      userId,
+      userRole,
+      options.overrideConflicts === true,
+      requestId
+    );
+
+    if (!appointment) {
+      return ResponseHelper.error(404, 'Deleted appointment not found');
+    }
+
+    return ResponseHelper.success(200, appointment, { ETag: toETag(appointment.version) });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ResponseHelper.error(400, 'Invalid JSON in request body');
+    }
+
+    if (error instanceof AppError) {
+      return ResponseHelper.error(error.statusCode, error.message, error.details);
+    }
+
+    logger.error('Error restoring appointment', error);
+    return ResponseHelper.error(500, 'Failed to restore appointment');
+  }
+}
+
+async function rescheduleAppointment(
+  tenantId: string,
+  appointmentId: string,
+  userId: string,
+  userRole: string,
+  body: string | null,
+  requestId?: string,
+  ifMatch?: string
+): Promise<APIGatewayProxyResult> {
+  try {
+    if (!body) {
+      return ResponseHelper.error(400, 'Request body is required');
+    }
+
+    const appointment = await appointmentService.rescheduleAppointment(
+      tenantId,
+      appointmentId,
+      userId,
+      userRole,
+      JSON.parse(body),
+      requestId,
+      parseETag(ifMatch)
+    );
+
+    if (!appointment) {
+      return ResponseHelper.error(404, 'Appointment not found');
+    }
+
+    return ResponseHelper.success(200, appointment, { ETag: toETag(appointment.version) });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ResponseHelper.error(400, 'Invalid JSON in request body');
+    }
+
+    if (error instanceof AppError) {
+      return ResponseHelper.error(error.statusCode, error.message, error.details);
+    }
+
+    logger.error('Error rescheduling appointment', error);
+    return ResponseHelper.error(500, 'Failed to reschedule appointment');
+  }
+}
+
+async function executeBatch(
+  tenantId: string,
+  userId: string,
+  userRole: string,
+  body: string | null,
+  requestId?: string
+): Promise<APIGatewayProxyResult> {
+  try {
+    if (!body) {
+      return ResponseHelper.error(400, 'Request body is required');
+    }
+
+    const result = await batchService.executeBatch(tenantId, userId, userRole, JSON.parse(body), requestId);
+
+    // 207 Multi-Status when some operations failed; each result has its own status code
+    return ResponseHelper.success(result.failed === 0 ? 200 : 207, result);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ResponseHelper.error(400, 'Invalid JSON in request body');
+    }
+
+    if (error instanceof AppError) {
+      return ResponseHelper.error(error.statusCode, error.message, error.details);
+    }
+
+    logger.error('Error processing appointment batch', error);
+    return ResponseHelper.error(500, 'Failed to process appointment batch');
+  }
+}
+
 async function createAppointment(
   tenantId: string,
   userId: string,
   userRole: string,
-  body: string | null
+  body: string | null,
+  requestId?: string
 ): Promise<APIGatewayProxyResult> {
   try {
     if (!body) {
@@ -132,13 +352,17 @@ async function createAppointment(
     }
 
     const appointmentData = JSON.parse(body);
-    const appointment = await appointmentService.createAppointment(tenantId, userId, userRole, appointmentData);
+    const appointment = await appointmentService.createAppointment(tenantId, userId, userRole, appointmentData, requestId);
     
     return ResponseHelper.success(201, appointment);
   } catch (error) {
     if (error instanceof SyntaxError) {
       return ResponseHelper.error(400, 'Invalid JSON in request body');
     }
+
+    if (error instanceof AppError) {
+      return ResponseHelper.error(error.statusCode, error.message, error.details);
+    }
     
     logger.error('Error creating appointment', error);
     return ResponseHelper.error(500, 'Failed to create appointment');
@@ -150,7 +374,10 @@ async function updateAppointment(
   appointmentId: string,
   userId: string,
   userRole: string,
-  body: string | null
+  body: string | null,
+  scope?: string,
+  requestId?: string,
+  ifMatch?: string
 ): Promise<APIGatewayProxyResult> {
   try {
     if (!body) {
@@ -158,17 +385,31 @@ async function updateAppointment(
     }
 
     const updateData = JSON.parse(body);
-    const appointment = await appointmentService.updateAppointment(tenantId, appointmentId, userId, userRole, updateData);
+    const expectedVersion = parseETag(ifMatch);
+    const appointment = await appointmentService.updateAppointment(
+      tenantId,
+      appointmentId,
+      userId,
+      userRole,
+      updateData,
+      scope as RecurrenceScope,
+      requestId,
+      expectedVersion
+    );
     
     if (!appointment) {
       return ResponseHelper.error(404, 'Appointment not found');
     }
 
-    return ResponseHelper.success(200, appointment);
+    return ResponseHelper.success(200, appointment, { ETag: toETag(appointment.version) });
   } catch (error) {
     if (error instanceof SyntaxError) {
       return ResponseHelper.error(400, 'Invalid JSON in request body');
     }
+
+    if (error instanceof AppError) {
+      return ResponseHelper.error(error.statusCode, error.message, error.details);
+    }
     
     logger.error('Error updating appointment', error);
     return ResponseHelper.error(500, 'Failed to update appointment');
@@ -179,10 +420,21 @@ async function deleteAppointment(
   tenantId: string,
   appointmentId: string,
   userId: string,
-  userRole: string
+  userRole: string,
+  scope?: string,
+  requestId?: string,
+  ifMatch?: string
 ): Promise<APIGatewayProxyResult> {
   try {
-    const success = await appointmentService.deleteAppointment(tenantId, appointmentId, userId, userRole);
+    const success = await appointmentService.deleteAppointment(
+      tenantId,
+      appointmentId,
+      userId,
+      userRole,
+      scope as RecurrenceScope,
+      requestId,
+      parseETag(ifMatch)
+    );
     
     if (!success) {
       return ResponseHelper.error(404, 'Appointment not found');
@@ -190,7 +442,32 @@ async function deleteAppointment(
 
     return ResponseHelper.success(200, { message: 'Appointment deleted successfully' });
   } catch (error) {
+    if (error instanceof AppError) {
+      return ResponseHelper.error(error.statusCode, error.message, error.details);
+    }
+
     logger.error('Error deleting appointment', error);
     return ResponseHelper.error(500, 'Failed to delete appointment');
   }
 }
+
+// ETags are the appointment version, e.g. "3"
+function toETag(version?: number): string {
+  return `"${version || 0}"`;
+}
+
+function getIfMatch(event: APIGatewayProxyEvent): string | undefined {
+  return event.headers?.['If-Match'] || event.headers?.['if-match'];
+}
+
+function parseETag(ifMatch?: string): number | undefined {
+  if (!ifMatch || ifMatch.trim() === '*') {
+    return undefined;
+  }
+
+  const match = /^(?:W\/)?"(\d+)"$/.exec(ifMatch.trim());
+  if (!match) {
+    throw new ValidationError('If-Match must be an ETag returned by this API');
+  }
+  return Number(match[1]);
+}
@@ -0,0 +1,52 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { AvailabilityService } from '../services/AvailabilityService';
+import { AuthService } from '../services/AuthService';
+import { ResponseHelper } from '../utils/ResponseHelper';
+import { Logger } from '../utils/Logger';
+import { AppError } from '../utils/Errors';
+
+const availabilityService = new AvailabilityService();
+const authService = new AuthService();
+const logger = new Logger('AvailabilityHandler');
+
+export const handler = async (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  try {
+    logger.info('Processing availability request', {
+      method: event.httpMethod,
+      path: event.path,
+      requestId: context.awsRequestId
+    });
+
+    const tenantId = event.pathParameters?.tenantId;
+    if (!tenantId) {
+      return ResponseHelper.error(400, 'Tenant ID is required');
+    }
+
+    const authResult = await authService.validateRequest(event, tenantId);
+    if (!authResult.isValid) {
+      return ResponseHelper.error(401, 'Unauthorized', authResult.error);
+    }
+
+    if (event.httpMethod !== 'GET') {
+      return ResponseHelper.error(405, 'Method not allowed');
+    }
+
+    const availability = await availabilityService.findAvailableSlots(
+      tenantId,
+      authResult.userId!,
+      event.queryStringParameters || {}
+    );
+
+    return ResponseHelper.success(200, availability);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return ResponseHelper.error(error.statusCode, error.message, error.details);
+    }
+
+    logger.error('Error processing availability request', error);
+    return ResponseHelper.error(500, 'Internal server error');
+  }
+};
@@ -0,0 +1,94 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { BookingService } from '../services/BookingService';
+import { RateLimit, RateLimitService } from '../services/RateLimitService';
+import { ResponseHelper } from '../utils/ResponseHelper';
+import { Logger } from '../utils/Logger';
+import { AppError } from '../utils/Errors';
+
+// Per client address and tenant; API Gateway throttles the routes as a whole
+const READ_LIMIT: RateLimit = { limit: 60, windowSeconds: 60 };
+const BOOKING_LIMIT: RateLimit = { limit: 5, windowSeconds: 60 * 60 };
+
+// Keeps the booking form from being used to flood someone's mailbox
+const EMAIL_LIMIT: RateLimit = { limit: 3, windowSeconds: 24 * 60 * 60 };
+
+const bookingService = new BookingService();
+const rateLimitService = new RateLimitService();
+const logger = new Logger('BookingHandler');
+
+// The public booking page's API. Nothing here is authenticated.
+export const handler = async (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  try {
+    logger.info('Processing public booking request', {
+      method: event.httpMethod,
+      path: event.path,
+      requestId: context.awsRequestId
+    });
+
+    const tenantSlug = event.pathParameters?.tenantSlug;
+    if (!tenantSlug) {
+      return ResponseHelper.error(400, 'Tenant is required');
+    }
+
+    const clientIp = event.requestContext?.identity?.sourceIp || 'unknown';
+    const appointmentId = event.pathParameters?.appointmentId;
+
+    if (event.httpMethod === 'GET') {
+      await rateLimitService.consume('booking-read', `${tenantSlug}#${clientIp}`, READ_LIMIT);
+
+      if (event.path.endsWith('/slots')) {
+        const slots = await bookingService.findSlots(tenantSlug, event.queryStringParameters || {});
+        return ResponseHelper.success(200, slots);
+      }
+
+      const page = await bookingService.getBookingPage(tenantSlug);
+      return ResponseHelper.success(200, page);
+    }
+
+    if (event.httpMethod !== 'POST') {
+      return ResponseHelper.error(405, 'Method not allowed');
+    }
+
+    if (!event.body) {
+      return ResponseHelper.error(400, 'Request body is required');
+    }
+    const body = JSON.parse(event.body);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return ResponseHelper.error(400, 'Request body must be a JSON object');
+    }
+
+    if (appointmentId) {
+      await rateLimitService.consume('booking-read', `${tenantSlug}#${clientIp}`, READ_LIMIT);
+
+      const booking = typeof body.token === 'string'
+        ? await bookingService.confirm(tenantSlug, appointmentId, body.token, context.awsRequestId)
+        : null;
+      if (!booking) {
+        return ResponseHelper.error(403, 'Invalid confirmation link');
+      }
+      return ResponseHelper.success(200, booking);
+    }
+
+    await rateLimitService.consume('booking', `${tenantSlug}#${clientIp}`, BOOKING_LIMIT);
+    if (typeof body.email === 'string') {
+      await rateLimitService.consume('booking-email', `${tenantSlug}#${body.email}`, EMAIL_LIMIT);
+    }
+
+    const booking = await bookingService.book(tenantSlug, body, context.awsRequestId);
+    return ResponseHelper.success(201, booking);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ResponseHelper.error(400, 'Invalid JSON in request body');
+    }
+
+    if (error instanceof AppError) {
+      return ResponseHelper.error(error.statusCode, error.message, error.details);
+    }
+
+    logger.error('Error processing public booking request', error);
+    return ResponseHelper.error(500, 'Internal server error');
+  }
+};
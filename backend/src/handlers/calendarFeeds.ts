@@ -0,0 +1,86 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { CalendarFeedService } from '../services/CalendarFeedService';
+import { AuthService } from '../services/AuthService';
+import { ResponseHelper } from '../utils/ResponseHelper';
+import { Logger } from '../utils/Logger';
+import { AppError } from '../utils/Errors';
+
+const calendarFeedService = new CalendarFeedService();
+const authService = new AuthService();
+const logger = new Logger('CalendarFeedsHandler');
+
+export const handler = async (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  try {
+    logger.info('Processing calendar feed request', {
+      method: event.httpMethod,
+      path: event.path,
+      requestId: context.awsRequestId
+    });
+
+    const tenantId = event.pathParameters?.tenantId;
+    if (!tenantId) {
+      return ResponseHelper.error(400, 'Tenant ID is required');
+    }
+
+    const feedId = event.pathParameters?.feedId;
+
+    // Subscribed calendar clients authenticate with the token in the feed URL
+    if (event.httpMethod === 'GET' && feedId && event.path.endsWith('/calendar.ics')) {
+      const calendar = await calendarFeedService.renderFeed(tenantId, feedId, event.queryStringParameters?.token);
+      return ResponseHelper.content(200, calendar, 'text/calendar; charset=utf-8', {
+        'Cache-Control': 'private, max-age=300'
+      });
+    }
+
+    const authResult = await authService.validateRequest(event, tenantId);
+    if (!authResult.isValid) {
+      return ResponseHelper.error(401, 'Unauthorized', authResult.error);
+    }
+
+    const userId = authResult.userId!;
+    const userRole = authResult.role!;
+
+    switch (event.httpMethod) {
+      case 'GET': {
+        const feeds = await calendarFeedService.listFeeds(tenantId, userId, userRole);
+        return ResponseHelper.success(200, { feeds });
+      }
+
+      case 'POST': {
+        const feed = await calendarFeedService.createFeed(tenantId, userId, userRole, event.body ? JSON.parse(event.body) : {});
+        return ResponseHelper.success(201, {
+          ...feed,
+          path: `/tenants/${tenantId}/feeds/${feed.feedId}/calendar.ics?token=${feed.token}`
+        });
+      }
+
+      case 'DELETE': {
+        if (!feedId) {
+          return ResponseHelper.error(400, 'Feed ID is required');
+        }
+        const revoked = await calendarFeedService.revokeFeed(tenantId, feedId, userId, userRole);
+        if (!revoked) {
+          return ResponseHelper.error(404, 'Calendar feed not found');
+        }
+        return ResponseHelper.success(200, { message: 'Calendar feed revoked' });
+      }
+
+      default:
+        return ResponseHelper.error(405, 'Method not allowed');
+    }
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ResponseHelper.error(400, 'Invalid JSON in request body');
+    }
+
+    if (error instanceof AppError) {
+      return ResponseHelper.error(error.statusCode, error.message, error.details);
+    }
+
+    logger.error('Error processing calendar feed request', error);
+    return ResponseHelper.error(500, 'Internal server error');
+  }
+};
@@ -0,0 +1,59 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { CalendarImportService } from '../services/CalendarImportService';
+import { AuthService } from '../services/AuthService';
+import { ResponseHelper } from '../utils/ResponseHelper';
+import { Logger } from '../utils/Logger';
+import { AppError } from '../utils/Errors';
+
+const calendarImportService = new CalendarImportService();
+const authService = new AuthService();
+const logger = new Logger('CalendarImportHandler');
+
+export const handler = async (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  try {
+    logger.info('Processing calendar import request', {
+      method: event.httpMethod,
+      path: event.path,
+      requestId: context.awsRequestId
+    });
+
+    const tenantId = event.pathParameters?.tenantId;
+    if (!tenantId) {
+      return ResponseHelper.error(400, 'Tenant ID is required');
+    }
+
+    if (event.httpMethod !== 'POST') {
+      return ResponseHelper.error(405, 'Method not allowed');
+    }
+
+    const authResult = await authService.validateRequest(event, tenantId);
+    if (!authResult.isValid) {
+      return ResponseHelper.error(401, 'Unauthorized', authResult.error);
+    }
+
+    const report = await calendarImportService.importCalendar(
+      tenantId,
+      authResult.userId!,
+      authResult.role!,
+      event.body ? JSON.parse(event.body) : {},
+      context.awsRequestId
+    );
+
+    // A committed import that created something answers 201, previews 200
+    return ResponseHelper.success(!report.dryRun && report.summary.created > 0 ? 201 : 200, report);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ResponseHelper.error(400, 'Invalid JSON in request body');
+    }
+
+    if (error instanceof AppError) {
+      return ResponseHelper.error(error.statusCode, error.message, error.details);
+    }
+
+    logger.error('Error processing calendar import request', error);
+    return ResponseHelper.error(500, 'Internal server error');
+  }
+};
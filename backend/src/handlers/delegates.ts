@@ -0,0 +1,78 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { DelegationService } from '../services/DelegationService';
+import { AuthService } from '../services/AuthService';
+import { ResponseHelper } from '../utils/ResponseHelper';
+import { Logger } from '../utils/Logger';
+import { AppError } from '../utils/Errors';
+
+const delegationService = new DelegationService();
+const authService = new AuthService();
+const logger = new Logger('DelegatesHandler');
+
+export const handler = async (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  try {
+    logger.info('Processing delegate request', {
+      method: event.httpMethod,
+      path: event.path,
+      requestId: context.awsRequestId
+    });
+
+    const tenantId = event.pathParameters?.tenantId;
+    if (!tenantId) {
+      return ResponseHelper.error(400, 'Tenant ID is required');
+    }
+
+    const authResult = await authService.validateRequest(event, tenantId);
+    if (!authResult.isValid) {
+      return ResponseHelper.error(401, 'Unauthorized', authResult.error);
+    }
+
+    const userId = authResult.userId!;
+    const userRole = authResult.role!;
+    const delegateId = event.pathParameters?.delegateId;
+
+    // The caller's own calendar unless an admin names another one
+    const ownerId = event.queryStringParameters?.userId || userId;
+
+    switch (event.httpMethod) {
+      case 'GET': {
+        const delegates = await delegationService.listDelegates(tenantId, ownerId, userId, userRole);
+        const calendars = await delegationService.listDelegatedCalendars(tenantId, userId);
+        return ResponseHelper.success(200, { delegates, calendars });
+      }
+
+      case 'POST': {
+        const delegation = await delegationService.grantDelegate(tenantId, ownerId, userId, userRole, event.body ? JSON.parse(event.body) : {});
+        return ResponseHelper.success(201, delegation);
+      }
+
+      case 'DELETE': {
+        if (!delegateId) {
+          return ResponseHelper.error(400, 'Delegate ID is required');
+        }
+        const revoked = await delegationService.revokeDelegate(tenantId, ownerId, delegateId, userId, userRole);
+        if (!revoked) {
+          return ResponseHelper.error(404, 'Delegate not found');
+        }
+        return ResponseHelper.success(200, { message: 'Delegate removed' });
+      }
+
+      default:
+        return ResponseHelper.error(405, 'Method not allowed');
+    }
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ResponseHelper.error(400, 'Invalid JSON in request body');
+    }
+
+    if (error instanceof AppError) {
+      return ResponseHelper.error(error.statusCode, error.message, error.details);
+    }
+
+    logger.error('Error processing delegate request', error);
+    return ResponseHelper.error(500, 'Internal server error');
+  }
+};
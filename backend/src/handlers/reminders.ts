@@ -0,0 +1,19 @@
+import { Context, ScheduledEvent } from 'aws-lambda';
+import { DispatchSummary, ReminderService } from '../services/ReminderService';
+import { Logger } from '../utils/Logger';
+
+const reminderService = new ReminderService();
+const logger = new Logger('RemindersHandler');
+
+// Invoked every minute by an EventBridge schedule
+export const handler = async (
+  event: ScheduledEvent,
+  context: Context
+): Promise<DispatchSummary> => {
+  logger.info('Dispatching due reminders', {
+    scheduledAt: event.time,
+    requestId: context.awsRequestId
+  });
+
+  return reminderService.dispatchDueReminders();
+};
@@ -0,0 +1,95 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { ResourceService } from '../services/ResourceService';
+import { AuthService } from '../services/AuthService';
+import { ResponseHelper } from '../utils/ResponseHelper';
+import { Logger } from '../utils/Logger';
+import { AppError } from '../utils/Errors';
+
+const resourceService = new ResourceService();
+const authService = new AuthService();
+const logger = new Logger('ResourcesHandler');
+
+export const handler = async (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  try {
+    logger.info('Processing resource request', {
+      method: event.httpMethod,
+      path: event.path,
+      requestId: context.awsRequestId
+    });
+
+    const tenantId = event.pathParameters?.tenantId;
+    if (!tenantId) {
+      return ResponseHelper.error(400, 'Tenant ID is required');
+    }
+
+    const authResult = await authService.validateRequest(event, tenantId);
+    if (!authResult.isValid) {
+      return ResponseHelper.error(401, 'Unauthorized', authResult.error);
+    }
+
+    const userId = authResult.userId!;
+    const userRole = authResult.role!;
+    const resourceId = event.pathParameters?.resourceId;
+
+    switch (event.httpMethod) {
+      case 'GET': {
+        if (resourceId) {
+          const resource = await resourceService.getResource(tenantId, resourceId);
+          if (!resource) {
+            return ResponseHelper.error(404, 'Resource not found');
+          }
+          return ResponseHelper.success(200, resource);
+        }
+        const resources = await resourceService.listResources(tenantId, event.queryStringParameters?.type);
+        return ResponseHelper.success(200, { resources });
+      }
+
+      case 'POST': {
+        const resource = await resourceService.createResource(tenantId, userId, userRole, event.body ? JSON.parse(event.body) : {});
+        return ResponseHelper.success(201, resource);
+      }
+
+      case 'PUT': {
+        if (!resourceId) {
+          return ResponseHelper.error(400, 'Resource ID is required');
+        }
+        if (!event.body) {
+          return ResponseHelper.error(400, 'Request body is required');
+        }
+        const resource = await resourceService.updateResource(tenantId, resourceId, userId, userRole, JSON.parse(event.body));
+        if (!resource) {
+          return ResponseHelper.error(404, 'Resource not found');
+        }
+        return ResponseHelper.success(200, resource);
+      }
+
+      case 'DELETE': {
+        if (!resourceId) {
+          return ResponseHelper.error(400, 'Resource ID is required');
+        }
+        const deleted = await resourceService.deleteResource(tenantId, resourceId, userId, userRole);
+        if (!deleted) {
+          return ResponseHelper.error(404, 'Resource not found');
+        }
+        return ResponseHelper.success(200, { message: 'Resource deleted' });
+      }
+
+      default:
+        return ResponseHelper.error(405, 'Method not allowed');
+    }
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ResponseHelper.error(400, 'Invalid JSON in request body');
+    }
+
+    if (error instanceof AppError) {
+      return ResponseHelper.error(error.statusCode, error.message, error.details);
+    }
+
+    logger.error('Error processing resource request', error);
+    return ResponseHelper.error(500, 'Internal server error');
+  }
+};
@@ -0,0 +1,64 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { RsvpService } from '../services/RsvpService';
+import { InvitationService } from '../services/InvitationService';
+import { ResponseHelper } from '../utils/ResponseHelper';
+import { Logger } from '../utils/Logger';
+import { AppError } from '../utils/Errors';
+
+const rsvpService = new RsvpService();
+const invitationService = new InvitationService();
+const logger = new Logger('RsvpHandler');
+
+export const handler = async (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  try {
+    logger.info('Processing RSVP request', {
+      method: event.httpMethod,
+      path: event.path,
+      requestId: context.awsRequestId
+    });
+
+    const tenantId = event.pathParameters?.tenantId;
+    const appointmentId = event.pathParameters?.appointmentId;
+    if (!tenantId || !appointmentId) {
+      return ResponseHelper.error(400, 'Tenant ID and appointment ID are required');
+    }
+
+    if (event.httpMethod !== 'GET' && event.httpMethod !== 'POST') {
+      return ResponseHelper.error(405, 'Method not allowed');
+    }
+
+    // Attendees authenticate with the token from their invitation, not a login
+    const body = event.httpMethod === 'POST' && event.body ? JSON.parse(event.body) : {};
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return ResponseHelper.error(400, 'Request body must be a JSON object');
+    }
+    const token = event.httpMethod === 'POST' ? body.token : event.queryStringParameters?.token;
+    const email = typeof token === 'string' ? invitationService.verifyRsvpToken(tenantId, appointmentId, token) : null;
+    if (!email) {
+      return ResponseHelper.error(403, 'Invalid RSVP link');
+    }
+
+    const invitation = event.httpMethod === 'GET'
+      ? await rsvpService.getInvitation(tenantId, appointmentId, email)
+      : await rsvpService.respondToInvitation(tenantId, appointmentId, email, body.response, context.awsRequestId);
+    if (!invitation) {
+      return ResponseHelper.error(404, 'Invitation not found');
+    }
+
+    return ResponseHelper.success(200, invitation);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ResponseHelper.error(400, 'Invalid JSON in request body');
+    }
+
+    if (error instanceof AppError) {
+      return ResponseHelper.error(error.statusCode, error.message, error.details);
+    }
+
+    logger.error('Error processing RSVP request', error);
+    return ResponseHelper.error(500, 'Internal server error');
+  }
+};
@@ -0,0 +1,95 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { ServiceCatalogService } from '../services/ServiceCatalogService';
+import { AuthService } from '../services/AuthService';
+import { ResponseHelper } from '../utils/ResponseHelper';
+import { Logger } from '../utils/Logger';
+import { AppError } from '../utils/Errors';
+
+const serviceCatalogService = new ServiceCatalogService();
+const authService = new AuthService();
+const logger = new Logger('ServicesHandler');
+
+export const handler = async (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  try {
+    logger.info('Processing service request', {
+      method: event.httpMethod,
+      path: event.path,
+      requestId: context.awsRequestId
+    });
+
+    const tenantId = event.pathParameters?.tenantId;
+    if (!tenantId) {
+      return ResponseHelper.error(400, 'Tenant ID is required');
+    }
+
+    const authResult = await authService.validateRequest(event, tenantId);
+    if (!authResult.isValid) {
+      return ResponseHelper.error(401, 'Unauthorized', authResult.error);
+    }
+
+    const userId = authResult.userId!;
+    const userRole = authResult.role!;
+    const serviceId = event.pathParameters?.serviceId;
+
+    switch (event.httpMethod) {
+      case 'GET': {
+        if (serviceId) {
+          const service = await serviceCatalogService.getService(tenantId, serviceId);
+          if (!service) {
+            return ResponseHelper.error(404, 'Service not found');
+          }
+          return ResponseHelper.success(200, service);
+        }
+        const services = await serviceCatalogService.listServices(tenantId);
+        return ResponseHelper.success(200, { services });
+      }
+
+      case 'POST': {
+        const service = await serviceCatalogService.createService(tenantId, userId, userRole, event.body ? JSON.parse(event.body) : {});
+        return ResponseHelper.success(201, service);
+      }
+
+      case 'PUT': {
+        if (!serviceId) {
+          return ResponseHelper.error(400, 'Service ID is required');
+        }
+        if (!event.body) {
+          return ResponseHelper.error(400, 'Request body is required');
+        }
+        const service = await serviceCatalogService.updateService(tenantId, serviceId, userId, userRole, JSON.parse(event.body));
+        if (!service) {
+          return ResponseHelper.error(404, 'Service not found');
+        }
+        return ResponseHelper.success(200, service);
+      }
+
+      case 'DELETE': {
+        if (!serviceId) {
+          return ResponseHelper.error(400, 'Service ID is required');
+        }
+        const deleted = await serviceCatalogService.deleteService(tenantId, serviceId, userId, userRole);
+        if (!deleted) {
+          return ResponseHelper.error(404, 'Service not found');
+        }
+        return ResponseHelper.success(200, { message: 'Service deleted' });
+      }
+
+      default:
+        return ResponseHelper.error(405, 'Method not allowed');
+    }
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ResponseHelper.error(400, 'Invalid JSON in request body');
+    }
+
+    if (error instanceof AppError) {
+      return ResponseHelper.error(error.statusCode, error.message, error.details);
+    }
+
+    logger.error('Error processing service request', error);
+    return ResponseHelper.error(500, 'Internal server error');
+  }
+};
@@ -0,0 +1,93 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { TenantService } from '../services/TenantService';
+import { AuthService } from '../services/AuthService';
+import { ResponseHelper } from '../utils/ResponseHelper';
+import { Logger } from '../utils/Logger';
+import { AppError } from '../utils/Errors';
+
+const tenantService = new TenantService();
+const authService = new AuthService();
+const logger = new Logger('TenantsHandler');
+
+export const handler = async (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  try {
+    logger.info('Processing tenant request', {
+      method: event.httpMethod,
+      path: event.path,
+      requestId: context.awsRequestId
+    });
+
+    // Only super admins pass the tenant check without a tenant, which is how
+    // tenants are created
+    const tenantId = event.pathParameters?.tenantId;
+    const authResult = await authService.validateRequest(event, tenantId || '');
+    if (!authResult.isValid) {
+      return ResponseHelper.error(401, 'Unauthorized', authResult.error);
+    }
+
+    const userId = authResult.userId!;
+    const userRole = authResult.role!;
+
+    if (!tenantId) {
+      if (event.httpMethod !== 'POST') {
+        return ResponseHelper.error(405, 'Method not allowed');
+      }
+      const tenant = await tenantService.createTenant(userId, userRole, event.body ? JSON.parse(event.body) : {});
+      return ResponseHelper.success(201, tenant);
+    }
+
+    switch (event.httpMethod) {
+      case 'GET': {
+        const tenant = await tenantService.getTenant(tenantId);
+        if (!tenant) {
+          return ResponseHelper.error(404, 'Tenant not found');
+        }
+        return ResponseHelper.success(200, tenant);
+      }
+
+      case 'PUT': {
+        if (!event.body) {
+          return ResponseHelper.error(400, 'Request body is required');
+        }
+        const tenant = await tenantService.updateTenant(tenantId, userId, userRole, JSON.parse(event.body));
+        if (!tenant) {
+          return ResponseHelper.error(404, 'Tenant not found');
+        }
+        return ResponseHelper.success(200, tenant);
+      }
+
+      case 'POST': {
+        const body = event.body ? JSON.parse(event.body) : {};
+        const tenant = event.path.endsWith('/suspend')
+          ? await tenantService.suspendTenant(tenantId, userId, userRole, body)
+          : event.path.endsWith('/reactivate')
+            ? await tenantService.reactivateTenant(tenantId, userId, userRole)
+            : undefined;
+        if (tenant === undefined) {
+          return ResponseHelper.error(405, 'Method not allowed');
+        }
+        if (!tenant) {
+          return ResponseHelper.error(404, 'Tenant not found');
+        }
+        return ResponseHelper.success(200, tenant);
+      }
+
+      default:
+        return ResponseHelper.error(405, 'Method not allowed');
+    }
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ResponseHelper.error(400, 'Invalid JSON in request body');
+    }
+
+    if (error instanceof AppError) {
+      return ResponseHelper.error(error.statusCode, error.message, error.details);
+    }
+
+    logger.error('Error processing tenant request', error);
+    return ResponseHelper.error(500, 'Internal server error');
+  }
+};
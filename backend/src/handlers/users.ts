@@ -0,0 +1,100 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { UserService } from '../services/UserService';
+import { AuthService } from '../services/AuthService';
+import { ResponseHelper } from '../utils/ResponseHelper';
+import { Logger } from '../utils/Logger';
+import { AppError } from '../utils/Errors';
+
+const userService = new UserService();
+const authService = new AuthService();
+const logger = new Logger('UsersHandler');
+
+export const handler = async (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  try {
+    logger.info('Processing user request', {
+      method: event.httpMethod,
+      path: event.path,
+      requestId: context.awsRequestId
+    });
+
+    const tenantId = event.pathParameters?.tenantId;
+    if (!tenantId) {
+      return ResponseHelper.error(400, 'Tenant ID is required');
+    }
+
+    const authResult = await authService.validateRequest(event, tenantId);
+    if (!authResult.isValid) {
+      return ResponseHelper.error(401, 'Unauthorized', authResult.error);
+    }
+
+    const actorId = authResult.userId!;
+    const actorRole = authResult.role!;
+    const userId = event.pathParameters?.userId;
+
+    switch (event.httpMethod) {
+      case 'GET': {
+        if (userId) {
+          const user = await userService.getUser(tenantId, userId, actorRole);
+          if (!user) {
+            return ResponseHelper.error(404, 'User not found');
+          }
+          return ResponseHelper.success(200, user);
+        }
+        const users = await userService.listUsers(tenantId, actorRole);
+        return ResponseHelper.success(200, { users });
+      }
+
+      case 'POST': {
+        if (!userId) {
+          const user = await userService.inviteUser(tenantId, actorId, actorRole, event.body ? JSON.parse(event.body) : {});
+          return ResponseHelper.success(201, user);
+        }
+
+        const user = event.path.endsWith('/disable')
+          ? await userService.disableUser(tenantId, userId, actorId, actorRole)
+          : event.path.endsWith('/enable')
+            ? await userService.enableUser(tenantId, userId, actorId, actorRole)
+            : undefined;
+        if (user === undefined) {
+          return ResponseHelper.error(405, 'Method not allowed');
+        }
+        if (!user) {
+          return ResponseHelper.error(404, 'User not found');
+        }
+        return ResponseHelper.success(200, user);
+      }
+
+      // Only the role can be changed; profiles belong to the users themselves
+      case 'PUT': {
+        if (!userId) {
+          return ResponseHelper.error(400, 'User ID is required');
+        }
+        if (!event.body) {
+          return ResponseHelper.error(400, 'Request body is required');
+        }
+        const user = await userService.changeRole(tenantId, userId, actorId, actorRole, JSON.parse(event.body));
+        if (!user) {
+          return ResponseHelper.error(404, 'User not found');
+        }
+        return ResponseHelper.success(200, user);
+      }
+
+      default:
+        return ResponseHelper.error(405, 'Method not allowed');
+    }
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ResponseHelper.error(400, 'Invalid JSON in request body');
+    }
+
+    if (error instanceof AppError) {
+      return ResponseHelper.error(error.statusCode, error.message, error.details);
+    }
+
+    logger.error('Error processing user request', error);
+    return ResponseHelper.error(500, 'Internal server error');
+  }
+};
@@ -0,0 +1,96 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { WaitlistService } from '../services/WaitlistService';
+import { WaitlistBookingService } from '../services/WaitlistBookingService';
+import { AuthService } from '../services/AuthService';
+import { ResponseHelper } from '../utils/ResponseHelper';
+import { Logger } from '../utils/Logger';
+import { AppError } from '../utils/Errors';
+
+const waitlistService = new WaitlistService();
+const waitlistBookingService = new WaitlistBookingService();
+const authService = new AuthService();
+const logger = new Logger('WaitlistHandler');
+
+export const handler = async (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  try {
+    logger.info('Processing waitlist request', {
+      method: event.httpMethod,
+      path: event.path,
+      requestId: context.awsRequestId
+    });
+
+    const tenantId = event.pathParameters?.tenantId;
+    if (!tenantId) {
+      return ResponseHelper.error(400, 'Tenant ID is required');
+    }
+
+    const authResult = await authService.validateRequest(event, tenantId);
+    if (!authResult.isValid) {
+      return ResponseHelper.error(401, 'Unauthorized', authResult.error);
+    }
+
+    const userId = authResult.userId!;
+    const userRole = authResult.role!;
+    const entryId = event.pathParameters?.entryId;
+
+    switch (event.httpMethod) {
+      case 'GET': {
+        if (entryId) {
+          const entry = await waitlistService.getEntry(tenantId, entryId);
+          if (!entry || !waitlistService.canManage(entry, userId, userRole)) {
+            return ResponseHelper.error(404, 'Waitlist entry not found');
+          }
+          return ResponseHelper.success(200, entry);
+        }
+        const entries = await waitlistService.listEntries(tenantId, userId, userRole);
+        return ResponseHelper.success(200, { entries });
+      }
+
+      case 'POST': {
+        if (entryId && event.path.endsWith('/accept')) {
+          const appointment = await waitlistBookingService.acceptWaitlistOffer(
+            tenantId,
+            entryId,
+            userId,
+            userRole,
+            context.awsRequestId
+          );
+          if (!appointment) {
+            return ResponseHelper.error(404, 'Waitlist entry not found');
+          }
+          return ResponseHelper.success(201, appointment);
+        }
+        const entry = await waitlistService.createEntry(tenantId, userId, userRole, event.body ? JSON.parse(event.body) : {});
+        return ResponseHelper.success(201, entry);
+      }
+
+      case 'DELETE': {
+        if (!entryId) {
+          return ResponseHelper.error(400, 'Entry ID is required');
+        }
+        const cancelled = await waitlistService.cancelEntry(tenantId, entryId, userId, userRole);
+        if (!cancelled) {
+          return ResponseHelper.error(404, 'Waitlist entry not found');
+        }
+        return ResponseHelper.success(200, cancelled);
+      }
+
+      default:
+        return ResponseHelper.error(405, 'Method not allowed');
+    }
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return ResponseHelper.error(400, 'Invalid JSON in request body');
+    }
+
+    if (error instanceof AppError) {
+      return ResponseHelper.error(error.statusCode, error.message, error.details);
+    }
+
+    logger.error('Error processing waitlist request', error);
+    return ResponseHelper.error(500, 'Internal server error');
+  }
+};
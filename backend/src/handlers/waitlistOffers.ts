@@ -0,0 +1,19 @@
+import { Context, ScheduledEvent } from 'aws-lambda';
+import { ExpirySummary, WaitlistService } from '../services/WaitlistService';
+import { Logger } from '../utils/Logger';
+
+const waitlistService = new WaitlistService();
+const logger = new Logger('WaitlistOffersHandler');
+
+// Invoked every five minutes by an EventBridge schedule
+export const handler = async (
+  event: ScheduledEvent,
+  context: Context
+): Promise<ExpirySummary> => {
+  logger.info('Expiring waitlist offers', {
+    scheduledAt: event.time,
+    requestId: context.awsRequestId
+  });
+
+  return waitlistService.expireOffers();
+};
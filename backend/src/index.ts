@@ -1,2 +1,16 @@
 // Main Lambda entry point
 export { handler as appointmentsHandler } from './handlers/appointments';
+export { handler as availabilityHandler } from './handlers/availability';
+export { handler as auditHandler } from './handlers/audit';
+export { handler as bookingHandler } from './handlers/booking';
+export { handler as calendarFeedsHandler } from './handlers/calendarFeeds';
+export { handler as calendarImportHandler } from './handlers/calendarImport';
+export { handler as delegatesHandler } from './handlers/delegates';
+export { handler as remindersHandler } from './handlers/reminders';
+export { handler as resourcesHandler } from './handlers/resources';
+export { handler as rsvpHandler } from './handlers/rsvp';
+export { handler as servicesHandler } from './handlers/services';
+export { handler as tenantsHandler } from './handlers/tenants';
+export { handler as usersHandler } from './handlers/users';
+export { handler as waitlistHandler } from './handlers/waitlist';
+export { handler as waitlistOffersHandler } from './handlers/waitlistOffers';
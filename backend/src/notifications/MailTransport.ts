@@ -0,0 +1,68 @@
+import { promises as fs } from 'fs';
+import { SES } from 'aws-sdk';
+import { Logger } from '../utils/Logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Sends mail. Throwing tells the caller the message was not sent.
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Writes mail to the log, for local runs and environments without delivery
+export class ConsoleMailTransport implements MailTransport {
+  private logger = new Logger('ConsoleMailTransport');
+
+  async send(message: MailMessage): Promise<void> {
+    this.logger.info('Mail', message);
+  }
+}
+
+// Appends mail to a JSON Lines file, so local runs can open the links in it
+export class FileMailTransport implements MailTransport {
+  constructor(private path: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.appendFile(this.path, JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + '\n', 'utf8');
+  }
+}
+
+// Delivers mail through Amazon SES from a verified sender address
+export class SesMailTransport implements MailTransport {
+  private ses = new SES();
+
+  constructor(private from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await this.ses.sendEmail({
+      Source: this.from,
+      Destination: { ToAddresses: [message.to] },
+      Message: {
+        Subject: { Data: message.subject, Charset: 'UTF-8' },
+        Body: { Text: { Data: message.text, Charset: 'UTF-8' } }
+      }
+    }).promise();
+  }
+}
+
+// Picked with MAIL_TRANSPORT: `ses` (deployed, sending from MAIL_FROM), or
+// `console` and `file` for local runs; files go to MAIL_OUTBOX_PATH
+export const createMailTransport = (): MailTransport => {
+  switch (process.env['MAIL_TRANSPORT']) {
+    case 'ses': {
+      const from = process.env['MAIL_FROM'];
+      if (!from) {
+        throw new Error('MAIL_FROM is required for the ses mail transport');
+      }
+      return new SesMailTransport(from);
+    }
+    case 'file':
+      return new FileMailTransport(process.env['MAIL_OUTBOX_PATH'] || '/tmp/mail.jsonl');
+    default:
+      return new ConsoleMailTransport();
+  }
+};
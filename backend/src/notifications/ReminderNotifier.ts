@@ -0,0 +1,83 @@
+import { promises as fs } from 'fs';
+import moment from 'moment-timezone';
+import { Logger } from '../utils/Logger';
+import { MailTransport, createMailTransport } from './MailTransport';
+
+// What a reminder says; recipients are the owner and the attendees
+export interface ReminderMessage {
+  tenantId: string;
+  appointmentId: string;
+  userId: string;
+  attendees: string[];
+  title: string;
+  startTime: string;
+  endTime: string;
+  location?: string;
+  timezone?: string;
+  reminderMinutes: number;
+}
+
+// Delivers reminders. Throwing marks the attempt as failed, and the reminder
+// is retried later.
+export interface ReminderNotifier {
+  send(message: ReminderMessage): Promise<void>;
+}
+
+// Writes reminders to the log, for local runs and environments without delivery
+export class ConsoleNotifier implements ReminderNotifier {
+  private logger = new Logger('ConsoleNotifier');
+
+  async send(message: ReminderMessage): Promise<void> {
+    this.logger.info('Reminder', message);
+  }
+}
+
+// Appends reminders to a JSON Lines file, so local runs can inspect what was sent
+export class FileNotifier implements ReminderNotifier {
+  constructor(private path: string) {}
+
+  async send(message: ReminderMessage): Promise<void> {
+    await fs.appendFile(this.path, JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + '\n', 'utf8');
+  }
+}
+
+// Mails the reminder to each attendee through a MailTransport. A failed mail
+// fails the attempt, so attendees mailed before it may get the retry as well.
+export class MailNotifier implements ReminderNotifier {
+  constructor(private mailTransport: MailTransport) {}
+
+  async send(message: ReminderMessage): Promise<void> {
+    const start = moment.tz(message.startTime, message.timezone || 'UTC');
+    const end = moment.tz(message.endTime, message.timezone || 'UTC');
+    const text = [
+      'Hi,',
+      '',
+      `This is a reminder of "${message.title}".`,
+      '',
+      `When: ${start.format('dddd, MMMM D, YYYY h:mm A')} - ${end.format('h:mm A z')}`,
+      ...(message.location ? [`Where: ${message.location}`] : [])
+    ].join('\n');
+
+    for (const to of message.attendees) {
+      await this.mailTransport.send({
+        to,
+        subject: `Reminder: ${message.title} @ ${start.format('MMM D, YYYY h:mm A z')}`,
+        text
+      });
+    }
+  }
+}
+
+// Picked with REMINDER_NOTIFIER: `mail` (deployed, sent through the
+// MAIL_TRANSPORT mail transport), or `console` and `file` for local runs;
+// files go to REMINDER_OUTBOX_PATH
+export const createReminderNotifier = (): ReminderNotifier => {
+  switch (process.env['REMINDER_NOTIFIER']) {
+    case 'mail':
+      return new MailNotifier(createMailTransport());
+    case 'file':
+      return new FileNotifier(process.env['REMINDER_OUTBOX_PATH'] || '/tmp/reminders.jsonl');
+    default:
+      return new ConsoleNotifier();
+  }
+};
@@ -1,19 +1,100 @@
 import { DynamoDB } from 'aws-sdk';
 import { v4 as uuidv4 } from 'uuid';
-import moment from 'moment';
+import moment from 'moment-timezone';
 import Joi from 'joi';
 import { Logger } from '../utils/Logger';
+import { AuditEntry, AuditRecord, AuditService } from './AuditService';
+import { isAdmin } from './AuthService';
+import {
+  ConflictError,
+  ForbiddenError,
+  UnprocessableEntityError,
+  ValidationError
+} from '../utils/Errors';
+import { SignedToken } from '../utils/SignedToken';
+import { ReminderSchedule, ReminderState } from '../utils/ReminderSchedule';
+import { ATTENDEE_RESPONSES, Attendee, Attendees } from '../utils/Attendees';
+import { InvitationKind, InvitationService } from './InvitationService';
+import { DEFAULT_TENANT_SETTINGS, TenantService, TenantSettings } from './TenantService';
+import { FreedSlot, WaitlistService } from './WaitlistService';
+import { Resource, ResourceService } from './ResourceService';
+import { BookableService, Buffers, ServiceCatalogService, ServiceSnapshot } from './ServiceCatalogService';
+import { DelegationService } from './DelegationService';
+import { SeriesService } from './SeriesService';
+import { AppointmentStatus, StatusChange, applyStatusChange } from '../utils/AppointmentStatus';
+import { RecurrenceRule } from '../utils/RecurrenceRule';
+import { Occurrences } from '../utils/Occurrences';
+import { APPOINTMENT_RETENTION_DAYS, AppointmentItem, AppointmentItems } from '../utils/AppointmentItems';
+import { BusinessHours, BusinessHoursViolation, BusinessHoursViolationCode } from '../utils/BusinessHours';
+
+// Appointments that started this many days before a requested slot are still
+// checked for overlap; longer appointments are not expected.
+const CONFLICT_LOOKBACK_DAYS = 1;
+
+// Bookings outside business hours report at most this many of the slots in the way
+const MAX_REPORTED_VIOLATIONS = 10;
+
+// Deleted appointments stay restorable this long unless TRASH_RETENTION_DAYS says otherwise
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+const RECURRENCE_SCOPES = ['occurrence', 'following', 'series'];
+
+const recurrenceRuleValidator = (value: string) => {
+  RecurrenceRule.parse(value);
+  return value.replace(/^RRULE:/i, '').toUpperCase();
+};
+
+// Accepts IANA zone names in any case and stores their canonical spelling
+const timezoneValidator = (value: string) => {
+  const zone = moment.tz.zone(value);
+  if (!zone) {
+    throw new Error(`"${value}" is not an IANA time zone, e.g. America/Los_Angeles`);
+  }
+  return zone.name;
+};
+
+// Attendees are sent as emails or { name, email }. Responses come back from
+// clients that echo stored attendees and are ignored; only RSVPs change them.
+const attendeesSchema = Joi.array().items(Joi.alternatives().try(
+  Joi.string().email(),
+  Joi.object({
+    name: Joi.string().optional().max(100),
+    email: Joi.string().email().required(),
+    responseStatus: Joi.string().valid(...ATTENDEE_RESPONSES).optional(),
+    respondedAt: Joi.string().optional()
+  })
+)).max(100);
+
+// Who booked through the public booking page
+const customerSchema = Joi.object({
+  name: Joi.string().trim().required().min(1).max(100),
+  email: Joi.string().email().required(),
+  phone: Joi.string().trim().optional().max(30)
+});
 
 // Validation schemas
+// Booking a service fills in the title and the end time
 const appointmentSchema = Joi.object({
-  title: Joi.string().required().min(1).max(200),
+  serviceId: Joi.string().optional().max(64),
+  title: Joi.string().min(1).max(200).when('serviceId', { is: Joi.exist(), then: Joi.optional(), otherwise: Joi.required() }),
   description: Joi.string().optional().max(1000),
   startTime: Joi.date().iso().required(),
-  endTime: Joi.date().iso().required().greater(Joi.ref('startTime')),
+  endTime: Joi.date().iso().greater(Joi.ref('startTime'))
+    .when('serviceId', { is: Joi.exist(), then: Joi.optional(), otherwise: Joi.required() }),
   location: Joi.string().optional().max(200),
-  attendees: Joi.array().items(Joi.string().email()).optional(),
+  attendees: attendeesSchema.optional(),
   status: Joi.string().valid('scheduled', 'confirmed', 'cancelled', 'completed').default('scheduled'),
-  reminderMinutes: Joi.number().min(0).max(10080).default(60) // Max 1 week
+  reminderMinutes: Joi.number().min(0).max(10080).default(60), // Max 1 week
+  recurrenceRule: Joi.string().optional().max(500).custom(recurrenceRuleValidator),
+  timezone: Joi.string().optional().max(64).custom(timezoneValidator),
+  resourceIds: Joi.array().items(Joi.string().max(64)).unique().max(10).optional(),
+  customer: customerSchema.optional(),
+  userId: Joi.string().optional().max(128), // Calendar the appointment goes into; defaults to the caller
+  overrideConflicts: Joi.boolean().default(false),
+  overrideBusinessHours: Joi.boolean().default(false)
 });
 
 const updateAppointmentSchema = Joi.object({
@@ -22,26 +103,137 @@ const updateAppointmentSchema = Joi.object({
   startTime: Joi.date().iso().optional(),
   endTime: Joi.date().iso().optional(),
   location: Joi.string().optional().max(200),
-  attendees: Joi.array().items(Joi.string().email()).optional(),
+  attendees: attendeesSchema.optional(),
   status: Joi.string().valid('scheduled', 'confirmed', 'cancelled', 'completed').optional(),
-  reminderMinutes: Joi.number().min(0).max(10080).optional()
+  reminderMinutes: Joi.number().min(0).max(10080).optional(),
+  recurrenceRule: Joi.string().optional().max(500).custom(recurrenceRuleValidator),
+  timezone: Joi.string().optional().max(64).custom(timezoneValidator),
+  resourceIds: Joi.array().items(Joi.string().max(64)).unique().max(10).optional(), // Empty releases them all
+  overrideConflicts: Joi.boolean().optional(),
+  overrideBusinessHours: Joi.boolean().optional()
 }).min(1); // At least one field must be provided
 
+const rescheduleSchema = Joi.object({
+  startTime: Joi.date().iso().required(),
+  endTime: Joi.date().iso().optional().greater(Joi.ref('startTime')), // Keeps the duration when left out
+  reason: Joi.string().trim().required().min(1).max(500),
+  overrideConflicts: Joi.boolean().default(false),
+  overrideBusinessHours: Joi.boolean().default(false)
+});
+
 export interface Appointment {
   appointmentId: string;
   tenantId: string;
-  userId: string;
+  userId: string; // Whose calendar it is in
+  createdBy?: string; // Who booked it; differs from userId when booked on someone's behalf
   title: string;
   description?: string;
-  startTime: string;
+  startTime: string; // UTC
   endTime: string;
+  timezone?: string; // IANA zone the appointment is planned in; series repeat in its wall-clock time
   location?: string;
-  attendees?: string[];
-  status: 'scheduled' | 'confirmed' | 'cancelled' | 'completed';
+  service?: ServiceSnapshot; // The catalog service it was booked for
+  resourceIds?: string[]; // Rooms and equipment the appointment reserves
+  attendees?: Attendee[];
+  customer?: Customer; // Set when booked through the public booking page
+  status: AppointmentStatus;
+  statusHistory?: StatusChange[];
   reminderMinutes: number;
   createdAt: string;
   updatedAt: string;
+  version?: number; // Bumped on every write, for optimistic concurrency
   ttl?: number; // For automatic cleanup
+  deletedAt?: string; // Set while the appointment is in the trash
+  deletedBy?: string;
+  conflictOverride?: ConflictOverride;
+  businessHoursOverride?: BusinessHoursOverride;
+  recurrenceRule?: string; // RRULE, set on series masters and their occurrences
+  seriesId?: string;
+  recurrenceId?: string; // Original start time of an occurrence
+  isException?: boolean; // Occurrence differs from the series
+  reminder?: ReminderState; // Delivery of the reminder, tracked by ReminderService
+  rescheduleHistory?: Reschedule[];
+  rescheduleCount?: number;
+}
+
+export interface Customer {
+  name: string;
+  email: string;
+  phone?: string;
+}
+
+// A move made through the reschedule action, with the slot it was moved from
+export interface Reschedule {
+  previousStartTime: string;
+  previousEndTime: string;
+  startTime: string;
+  endTime: string;
+  reason: string;
+  rescheduledBy: string;
+  rescheduledByRole: string;
+  rescheduledAt: string;
+}
+
+export interface ConflictOverride {
+  overriddenBy: string;
+  overriddenAt: string;
+  conflictingAppointmentIds: string[];
+}
+
+// Set when a tenant admin booked outside working hours or on a closed day
+export interface BusinessHoursOverride {
+  overriddenBy: string;
+  overriddenAt: string;
+  violations: BusinessHoursViolationCode[];
+}
+
+export type RecurrenceScope = 'occurrence' | 'following' | 'series';
+
+export interface TimeSlot {
+  startTime: string;
+  endTime: string;
+}
+
+// A slot to check, with the free time its appointment needs around it
+export type CheckedSlot = TimeSlot & Partial<Buffers>;
+
+export interface PageOptions {
+  limit?: number;
+  nextToken?: string;
+}
+
+export interface AppointmentPage {
+  appointments: Appointment[];
+  nextToken?: string;
+  timezone?: string; // Display zone of localStartTime / localEndTime
+}
+
+// An appointment with its times in the display zone a list was requested in
+export type DisplayedAppointment = Appointment & { localStartTime: string; localEndTime: string };
+
+// Position of a list request, round-tripped to clients as a signed token
+interface ListCursor {
+  lastKey?: DynamoDB.DocumentClient.Key; // Index position of the last one-off appointment returned
+  queryDone?: boolean;
+  after?: { startTime: string; appointmentId: string }; // Last item returned, for series occurrences
+}
+
+// A validated change that hasn't been written yet, so it can go into a
+// transaction together with others
+export interface PreparedWrite {
+  appointment: Appointment; // As it will be stored
+  write: DynamoDB.DocumentClient.TransactWriteItem;
+  audit: AuditEntry;
+  afterWrite?: () => Promise<void>;
+  invitations?: { kind: InvitationKind; attendees: Attendee[] }[]; // Mailed once the write succeeded
+  freedSlot?: FreedSlot; // Offered to the waitlist once the write succeeded
+}
+
+// What a batch is about to change, so its operations are checked against each other
+export interface BatchContext {
+  excludeIds: Set<string>; // Stored appointments and series the batch changes
+  planned: Appointment[];
+  settings?: TenantSettings; // Read once for the batch
 }
 
 export interface AppointmentFilters {
@@ -49,14 +241,31 @@ export interface AppointmentFilters {
   endDate?: string;
   status?: string;
   userId?: string;
+  timezone?: string; // Display zone: date-only bounds are whole days there, and times are also given in it
 }
 
 export class AppointmentService {
   private dynamodb: DynamoDB.DocumentClient;
+  private auditService: AuditService;
+  private invitationService: InvitationService;
+  private tenantService: TenantService;
+  private waitlistService: WaitlistService;
+  private resourceService: ResourceService;
+  private serviceCatalogService: ServiceCatalogService;
+  private delegationService: DelegationService;
+  private seriesService: SeriesService;
   private logger: Logger;
 
   constructor() {
     this.dynamodb = new DynamoDB.DocumentClient();
+    this.auditService = new AuditService();
+    this.invitationService = new InvitationService();
+    this.tenantService = new TenantService();
+    this.waitlistService = new WaitlistService();
+    this.resourceService = new ResourceService();
+    this.serviceCatalogService = new ServiceCatalogService();
+    this.delegationService = new DelegationService();
+    this.seriesService = new SeriesService(this);
     this.logger = new Logger('AppointmentService');
   }
 
@@ -67,12 +276,17 @@ export class AppointmentService {
     userRole: string
   ): Promise<Appointment | null> {
     try {
+      const occurrenceRef = Occurrences.parseId(appointmentId);
+      if (occurrenceRef) {
+        const occurrence = await this.seriesService.getOccurrence(
+          tenantId, occurrenceRef.seriesId, occurrenceRef.recurrenceId, userId, userRole
+        );
+        return occurrence ? occurrence.appointment : null;
+      }
+
       const params: DynamoDB.DocumentClient.GetItemInput = {
         TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
-        Key: {
-          PK: `TENANT#${tenantId}#APPOINTMENT#${appointmentId}`,
-          SK: `APPOINTMENT#${appointmentId}`
-        }
+        Key: AppointmentItems.key(tenantId, appointmentId)
       };
 
       const result = await this.dynamodb.get(params).promise();
@@ -82,11 +296,15 @@ export class AppointmentService {
       }
 
       const appointment = result.Item as Appointment;
-      
-      // Check if user has access to this appointment
-      if (userRole !== 'super-admin' && appointment.userId !== userId) {
-        throw new Error('Access denied');
+
+      // Deleted appointments are only reachable through the trash
+      if (appointment.deletedAt) {
+        return null;
       }
+      
+      // Admins reach every appointment in the tenant, users their own and those
+      // in calendars delegated to them
+      await this.checkCalendarAccess(tenantId, appointment.userId, userId, userRole, 'Access denied');
 
       return appointment;
     } catch (error) {
@@ -99,62 +317,121 @@ export class AppointmentService {
     tenantId: string,
     userId: string,
     userRole: string,
-    filters: AppointmentFilters = {}
-  ): Promise<Appointment[]> {
+    filters: AppointmentFilters = {},
+    page: PageOptions = {}
+  ): Promise<AppointmentPage> {
     try {
+      const limit = page.limit ?? DEFAULT_PAGE_SIZE;
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        throw new ValidationError(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+      }
+      const displayZone = filters.timezone ? moment.tz.zone(filters.timezone)?.name : undefined;
+      if (filters.timezone && !displayZone) {
+        throw new ValidationError('timezone must be an IANA time zone, e.g. America/Los_Angeles');
+      }
+
+      // Admins list the whole tenant or any one user; users themselves or a
+      // calendar delegated to them
+      const calendarUserId = filters.userId || (isAdmin(userRole) ? undefined : userId);
+      if (calendarUserId) {
+        await this.checkCalendarAccess(
+          tenantId, calendarUserId, userId, userRole, 'You can only list your own appointments or calendars delegated to you'
+        );
+      }
+
       let params: DynamoDB.DocumentClient.QueryInput;
+      const indexName = calendarUserId ? 'GSI2' : 'GSI1';
+      const partitionKey = calendarUserId ? `TENANT#${tenantId}#USER#${calendarUserId}` : `TENANT#${tenantId}`;
 
-      if (userRole === 'super-admin') {
-        // Super admin can see all appointments for the tenant
+      if (!calendarUserId) {
         params = {
           TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
           IndexName: 'GSI1',
           KeyConditionExpression: 'GSI1PK = :tenantId',
           ExpressionAttributeValues: {
-            ':tenantId': `TENANT#${tenantId}`
+            ':tenantId': partitionKey
           }
         };
       } else {
-        // Regular users can only see their own appointments
         params = {
           TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
           IndexName: 'GSI2',
           KeyConditionExpression: 'GSI2PK = :userKey',
           ExpressionAttributeValues: {
-            ':userKey': `TENANT#${tenantId}#USER#${userId}`
+            ':userKey': partitionKey
           }
         };
       }
 
-      // Add filters
-      const filterExpressions: string[] = [];
-      const expressionAttributeValues: { [key: string]: any } = { ...params.ExpressionAttributeValues };
-
-      if (filters.startDate) {
-        filterExpressions.push('startTime >= :startDate');
-        expressionAttributeValues[':startDate'] = filters.startDate;
-      }
-
-      if (filters.endDate) {
-        filterExpressions.push('startTime <= :endDate');
-        expressionAttributeValues[':endDate'] = filters.endDate;
+      // Date ranges are key conditions on the date sort key, so only matching items are read
+      const range = this.resolveDateRange(filters, displayZone);
+      if (range.startDate || range.endDate) {
+        params.KeyConditionExpression += ` AND ${indexName}SK BETWEEN :fromKey AND :toKey`;
+        params.ExpressionAttributeValues = {
+          ...params.ExpressionAttributeValues,
+          ':fromKey': range.startDate ? AppointmentItems.dateKey(range.startDate) : 'DATE#',
+          ':toKey': range.endDate ? AppointmentItems.dateKey(range.endDate) : 'DATE#~'
+        };
       }
 
       if (filters.status) {
-        filterExpressions.push('#status = :status');
-        expressionAttributeValues[':status'] = filters.status;
-      }
-
-      if (filterExpressions.length > 0) {
-        params.FilterExpression = filterExpressions.join(' AND ');
-        params.ExpressionAttributeValues = expressionAttributeValues;
+        params.FilterExpression = '#status = :status';
+        params.ExpressionAttributeValues = {
+          ...params.ExpressionAttributeValues,
+          ':status': filters.status
+        };
         params.ExpressionAttributeNames = {
           '#status': 'status'
         };
       }
 
-      const result = await this.dynamodb.query(params).promise();
-      return (result.Items || []) as Appointment[];
+      const cursor = page.nextToken ? this.decodeCursor(page.nextToken, partitionKey) : {};
+
+      // Keep reading until the page is full, since filters are applied after each read
+      const appointments: Appointment[] = [];
+      let lastKey = cursor.lastKey;
+      let queryDone = !!cursor.queryDone;
+      while (!queryDone && appointments.length < limit) {
+        const result = await this.dynamodb.query({
+          ...params,
+          Limit: limit,
+          ...(lastKey ? { ExclusiveStartKey: lastKey } : {})
+        }).promise();
+
+        appointments.push(...((result.Items || []) as Appointment[]).filter(appointment => !appointment.recurrenceRule));
+        lastKey = result.LastEvaluatedKey;
+        queryDone = !lastKey;
+      }
+
+      // Series masters are keyed separately and expanded into their occurrences
+      const occurrences = (await this.seriesService.listOccurrences(indexName, partitionKey, { ...filters, ...range }))
+        .filter(occurrence => !cursor.after || this.compareAppointments(occurrence, cursor.after) > 0);
+
+      const merged = [...appointments, ...occurrences].sort((a, b) => this.compareAppointments(a, b));
+      const pageItems = merged.slice(0, limit);
+
+      // Resume the index query after the last one-off appointment actually returned
+      const unreturned = appointments.filter(appointment => !pageItems.includes(appointment));
+      if (unreturned.length > 0) {
+        const lastReturned = pageItems.filter(item => appointments.includes(item)).pop();
+        lastKey = lastReturned ? this.buildIndexKey(lastReturned, indexName) : cursor.lastKey;
+        queryDone = false;
+      }
+
+      const hasMore = merged.length > limit || !queryDone;
+      const last = pageItems[pageItems.length - 1];
+
+      return {
+        appointments: displayZone ? pageItems.map(item => this.inZone(item, displayZone)) : pageItems,
+        ...(displayZone && { timezone: displayZone }),
+        nextToken: hasMore && last
+          ? this.encodeCursor({
+            lastKey,
+            queryDone,
+            after: { startTime: last.startTime, appointmentId: last.appointmentId }
+          }, partitionKey)
+          : undefined
+      };
     } catch (error) {
       this.logger.error('Error listing appointments', error);
       throw error;
@@ -164,126 +441,141 @@ export class AppointmentService {
   async createAppointment(
     tenantId: string,
     userId: string,
-    _userRole: string,
-    appointmentData: any
+    userRole: string,
+    appointmentData: any,
+    requestId?: string
   ): Promise<Appointment> {
     try {
-      // Validate input data
-      const { error, value } = appointmentSchema.validate(appointmentData);
-      if (error) {
-        throw new Error(`Validation error: ${error.details.map(d => d.message).join(', ')}`);
-      }
+      const prepared = await this.prepareCreate(tenantId, userId, userRole, appointmentData);
 
-      const appointmentId = uuidv4();
-      const now = new Date().toISOString();
+      await this.dynamodb.put(prepared.write.Put as DynamoDB.DocumentClient.PutItemInput).promise();
+      await this.completeWrite(prepared, requestId);
       
-      // Calculate TTL for automatic cleanup (1 year from creation)
-      const ttl = Math.floor(Date.now() / 1000) + (365 * 24 * 60 * 60);
+      this.logger.info('Appointment created successfully', { appointmentId: prepared.appointment.appointmentId, tenantId, userId });
+      return prepared.appointment;
+    } catch (error) {
+      this.logger.error('Error creating appointment', error);
+      throw error;
+    }
+  }
 
-      const appointment: Appointment = {
-        appointmentId,
-        tenantId,
-        userId,
-        title: value.title,
-        description: value.description,
-        startTime: value.startTime,
-        endTime: value.endTime,
-        location: value.location,
-        attendees: value.attendees || [],
-        status: value.status,
-        reminderMinutes: value.reminderMinutes,
-        createdAt: now,
-        updatedAt: now,
-        ttl
-      };
+  async updateAppointment(
+    tenantId: string,
+    appointmentId: string,
+    userId: string,
+    userRole: string,
+    updateData: any,
+    scope?: RecurrenceScope,
+    requestId?: string,
+    expectedVersion?: number
+  ): Promise<Appointment | null> {
+    try {
+      const value = this.validateUpdate(updateData);
+      this.validateScope(scope);
 
-      const params: DynamoDB.DocumentClient.PutItemInput = {
-        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
-        Item: {
-          PK: `TENANT#${tenantId}#APPOINTMENT#${appointmentId}`,
-          SK: `APPOINTMENT#${appointmentId}`,
-          GSI1PK: `TENANT#${tenantId}`,
-          GSI1SK: `DATE#${moment(value.startTime).format('YYYY-MM-DD')}#TIME#${moment(value.startTime).format('HH:mm:ss')}`,
-          GSI2PK: `TENANT#${tenantId}#USER#${userId}`,
-          GSI2SK: `DATE#${moment(value.startTime).format('YYYY-MM-DD')}#TIME#${moment(value.startTime).format('HH:mm:ss')}`,
-          ...appointment
-        },
-        ConditionExpression: 'attribute_not_exists(PK)' // Prevent overwrites
-      };
+      const occurrenceRef = Occurrences.parseId(appointmentId);
+      if (occurrenceRef) {
+        return await this.seriesService.updateOccurrence(
+          tenantId,
+          occurrenceRef.seriesId,
+          occurrenceRef.recurrenceId,
+          userId,
+          userRole,
+          value,
+          scope || 'occurrence',
+          requestId,
+          expectedVersion
+        );
+      }
+
+      const prepared = await this.prepareUpdate(tenantId, appointmentId, userId, userRole, value, expectedVersion);
+      if (!prepared) {
+        return null;
+      }
 
-      await this.dynamodb.put(params).promise();
+      const appointment = await this.writeUpdate(prepared, requestId);
       
-      this.logger.info('Appointment created successfully', { appointmentId, tenantId, userId });
+      this.logger.info('Appointment updated successfully', { appointmentId, tenantId, userId });
       return appointment;
     } catch (error) {
-      this.logger.error('Error creating appointment', error);
+      this.logger.error('Error updating appointment', error);
       throw error;
     }
   }
 
-  async updateAppointment(
+  // Moves an appointment to a slot that is free and within the tenant's working
+  // hours. Unlike a plain update it keeps the slot it came from and the reason
+  // in `rescheduleHistory`, counts the moves and tells attendees why.
+  async rescheduleAppointment(
     tenantId: string,
     appointmentId: string,
     userId: string,
     userRole: string,
-    updateData: any
+    rescheduleData: any,
+    requestId?: string,
+    expectedVersion?: number
   ): Promise<Appointment | null> {
     try {
-      // Validate input data
-      const { error, value } = updateAppointmentSchema.validate(updateData);
+      const { error, value } = rescheduleSchema.validate(rescheduleData);
       if (error) {
-        throw new Error(`Validation error: ${error.details.map(d => d.message).join(', ')}`);
+        throw new ValidationError(`Validation error: ${error.details.map(d => d.message).join(', ')}`);
       }
 
-      // Get existing appointment
       const existingAppointment = await this.getAppointment(tenantId, appointmentId, userId, userRole);
       if (!existingAppointment) {
         return null;
       }
 
-      // Check if user has permission to update
-      if (userRole !== 'super-admin' && existingAppointment.userId !== userId) {
-        throw new Error('Access denied');
+      if (existingAppointment.recurrenceRule) {
+        throw new UnprocessableEntityError('Recurring appointments are moved by updating the occurrence or the series');
       }
+      if (existingAppointment.status !== 'scheduled' && existingAppointment.status !== 'confirmed') {
+        throw new UnprocessableEntityError(`Cannot reschedule a ${existingAppointment.status} appointment`);
+      }
+      AppointmentItems.checkVersion(existingAppointment, expectedVersion);
 
-      const now = new Date().toISOString();
-      const _updatedAppointment = {
-        ...existingAppointment,
-        ...value,
-        updatedAt: now
-      };
+      const startTime = moment.utc(value.startTime).toISOString();
+      const endTime = value.endTime
+        ? moment.utc(value.endTime).toISOString()
+        : moment.utc(startTime).add(moment.utc(existingAppointment.endTime).diff(existingAppointment.startTime)).toISOString();
+      if (moment.utc(startTime).isSame(existingAppointment.startTime) && moment.utc(endTime).isSame(existingAppointment.endTime)) {
+        throw new ValidationError('Validation error: the appointment is already at that time');
+      }
 
-      // If startTime or endTime changed, update GSI keys
-      let updateExpression = 'SET updatedAt = :updatedAt';
-      const expressionAttributeValues: { [key: string]: any } = {
-        ':updatedAt': now
+      const reschedule: Reschedule = {
+        previousStartTime: existingAppointment.startTime,
+        previousEndTime: existingAppointment.endTime,
+        startTime,
+        endTime,
+        reason: value.reason,
+        rescheduledBy: userId,
+        rescheduledByRole: userRole,
+        rescheduledAt: new Date().toISOString()
       };
-      const expressionAttributeNames: { [key: string]: string } = {};
 
-      Object.keys(value).forEach((key, index) => {
-        updateExpression += `, #attr${index} = :val${index}`;
-        expressionAttributeNames[`#attr${index}`] = key;
-        expressionAttributeValues[`:val${index}`] = value[key];
-      });
+      // Pinned to the version read above, which the history was built from
+      const prepared = await this.prepareUpdate(tenantId, appointmentId, userId, userRole, {
+        startTime,
+        endTime,
+        rescheduleHistory: [...(existingAppointment.rescheduleHistory || []), reschedule],
+        rescheduleCount: (existingAppointment.rescheduleCount || 0) + 1,
+        overrideConflicts: value.overrideConflicts,
+        overrideBusinessHours: value.overrideBusinessHours
+      }, existingAppointment.version || 0);
+      if (!prepared) {
+        return null;
+      }
 
-      const params: DynamoDB.DocumentClient.UpdateItemInput = {
-        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
-        Key: {
-          PK: `TENANT#${tenantId}#APPOINTMENT#${appointmentId}`,
-          SK: `APPOINTMENT#${appointmentId}`
-        },
-        UpdateExpression: updateExpression,
-        ExpressionAttributeNames: expressionAttributeNames,
-        ExpressionAttributeValues: expressionAttributeValues,
-        ReturnValues: 'ALL_NEW'
-      };
+      prepared.audit.action = 'reschedule';
+      prepared.invitations = prepared.invitations?.map(invitation =>
+        invitation.kind === 'update' ? { ...invitation, kind: 'reschedule' } : invitation
+      );
+      const appointment = await this.writeUpdate(prepared, requestId);
 
-      const result = await this.dynamodb.update(params).promise();
-      
-      this.logger.info('Appointment updated successfully', { appointmentId, tenantId, userId });
-      return result.Attributes as Appointment;
+      this.logger.info('Appointment rescheduled successfully', { appointmentId, tenantId, userId });
+      return appointment;
     } catch (error) {
-      this.logger.error('Error updating appointment', error);
+      this.logger.error('Error rescheduling appointment', error);
       throw error;
     }
   }
@@ -292,29 +584,35 @@ export class AppointmentService {
     tenantId: string,
     appointmentId: string,
     userId: string,
-    userRole: string
+    userRole: string,
+    scope?: RecurrenceScope,
+    requestId?: string,
+    expectedVersion?: number
   ): Promise<boolean> {
     try {
-      // Get existing appointment to check permissions
-      const existingAppointment = await this.getAppointment(tenantId, appointmentId, userId, userRole);
-      if (!existingAppointment) {
-        return false;
-      }
+      this.validateScope(scope);
 
-      // Check if user has permission to delete
-      if (userRole !== 'super-admin' && existingAppointment.userId !== userId) {
-        throw new Error('Access denied');
+      const occurrenceRef = Occurrences.parseId(appointmentId);
+      if (occurrenceRef) {
+        return await this.seriesService.deleteOccurrence(
+          tenantId,
+          occurrenceRef.seriesId,
+          occurrenceRef.recurrenceId,
+          userId,
+          userRole,
+          scope || 'occurrence',
+          requestId,
+          expectedVersion
+        );
       }
 
-      const params: DynamoDB.DocumentClient.DeleteItemInput = {
-        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
-        Key: {
-          PK: `TENANT#${tenantId}#APPOINTMENT#${appointmentId}`,
-          SK: `APPOINTMENT#${appointmentId}`
-        }
-      };
+      const prepared = await this.prepareDelete(tenantId, appointmentId, userId, userRole, expectedVersion);
+      if (!prepared) {
+        return false;
+      }
 
-      await this.dynamodb.delete(params).promise();
+      await AppointmentItems.writeIfUnchanged(() => this.dynamodb.update(prepared.write.Update as DynamoDB.DocumentClient.UpdateItemInput).promise());
+      await this.completeWrite(prepared, requestId);
       
       this.logger.info('Appointment deleted successfully', { appointmentId, tenantId, userId });
       return true;
@@ -323,4 +621,911 @@ export class AppointmentService {
       throw error;
     }
   }
+
+  // Mails the attendees a write affected. Runs after the write, and sending is
+  // best effort, so a mail problem never fails the change.
+  private async writeUpdate(prepared: PreparedWrite, requestId?: string): Promise<Appointment> {
+    const result = await AppointmentItems.writeIfUnchanged(() => this.dynamodb.update({
+      ...(prepared.write.Update as DynamoDB.DocumentClient.UpdateItemInput),
+      ReturnValues: 'ALL_NEW'
+    }).promise());
+
+    await this.completeWrite(prepared, requestId, result.Attributes as Appointment);
+    return result.Attributes as Appointment;
+  }
+
+  // Audit trail of one appointment, also available once it has been deleted
+  async getAppointmentHistory(
+    tenantId: string,
+    appointmentId: string,
+    userId: string,
+    userRole: string
+  ): Promise<AuditRecord[]> {
+    const occurrenceRef = Occurrences.parseId(appointmentId);
+    return this.auditService.getAppointmentHistory(tenantId, appointmentId, userId, userRole, occurrenceRef?.seriesId);
+  }
+
+  // Times a user is booked between `from` and `to`, including series occurrences.
+  // Only the slots are returned, so callers can share free/busy across the tenant.
+  async getBusySlots(tenantId: string, userId: string, from: string, to: string): Promise<TimeSlot[]> {
+    try {
+      const appointments = await this.listActiveAppointmentsInRange(tenantId, userId, moment(from), moment(to));
+
+      return appointments
+        .filter(appointment => moment(appointment.startTime).isBefore(to) && moment(appointment.endTime).isAfter(from))
+        .map(appointment => ({ startTime: appointment.startTime, endTime: appointment.endTime }));
+    } catch (error) {
+      this.logger.error('Error getting busy slots', error);
+      throw error;
+    }
+  }
+
+  // Periods in which a resource is fully booked between `from` and `to`
+  async getResourceBusySlots(tenantId: string, resource: Resource, from: string, to: string): Promise<TimeSlot[]> {
+    try {
+      const appointments = await this.listActiveAppointmentsInRange(tenantId, undefined, moment(from), moment(to));
+
+      return this.fullyBooked(
+        appointments.filter(appointment => appointment.resourceIds?.includes(resource.resourceId)),
+        resource.capacity
+      ).filter(slot => moment(slot.startTime).isBefore(to) && moment(slot.endTime).isAfter(from));
+    } catch (error) {
+      this.logger.error('Error getting resource busy slots', error);
+      throw error;
+    }
+  }
+
+  // Appointments and series occurrences starting between `from` and `to`, of one
+  // user or the whole tenant, cancelled ones included. There are no access
+  // checks here; callers decide whose calendar may be read.
+  async listCalendarEntries(tenantId: string, userId: string | undefined, from: string, to: string): Promise<Appointment[]> {
+    try {
+      const indexName = userId ? 'GSI2' : 'GSI1';
+      const partitionKey = userId ? `TENANT#${tenantId}#USER#${userId}` : `TENANT#${tenantId}`;
+
+      const appointments = await this.queryAll({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        IndexName: indexName,
+        KeyConditionExpression: `${indexName}PK = :partitionKey AND ${indexName}SK BETWEEN :fromKey AND :toKey`,
+        ExpressionAttributeValues: {
+          ':partitionKey': partitionKey,
+          ':fromKey': AppointmentItems.dateKey(from),
+          ':toKey': AppointmentItems.dateKey(to)
+        }
+      });
+
+      const occurrences = await this.seriesService.listOccurrences(indexName, partitionKey, { startDate: from, endDate: to });
+
+      return [...appointments.filter(appointment => !appointment.recurrenceRule), ...occurrences]
+        .sort((a, b) => this.compareAppointments(a, b));
+    } catch (error) {
+      this.logger.error('Error listing calendar entries', error);
+      throw error;
+    }
+  }
+
+  // The steps of a change. Prepared writes are checked but not yet stored.
+  async prepareCreate(
+    tenantId: string,
+    userId: string,
+    userRole: string,
+    appointmentData: any,
+    batch?: BatchContext
+  ): Promise<PreparedWrite> {
+    // Validate input data
+    const { error, value } = appointmentSchema.validate(appointmentData);
+    if (error) {
+      throw new ValidationError(`Validation error: ${error.details.map(d => d.message).join(', ')}`);
+    }
+
+    const ownerId: string = value.userId || userId;
+    await this.checkBookingFor(tenantId, ownerId, userId, userRole);
+
+    const bookedService = value.serviceId ? await this.loadService(tenantId, value.serviceId) : undefined;
+    const service = bookedService && this.serviceSnapshot(bookedService);
+    const resourceIds: string[] = [...new Set([...(bookedService?.resourceIds || []), ...(value.resourceIds || [])])];
+
+    const startTime = moment.utc(value.startTime).toISOString();
+    const endTime = value.endTime
+      ? moment.utc(value.endTime).toISOString()
+      : moment.utc(value.startTime).add(service!.durationMinutes, 'minutes').toISOString();
+    const rule = value.recurrenceRule ? RecurrenceRule.parse(value.recurrenceRule) : undefined;
+    const timezone: string = value.timezone || await this.tenantTimezone(tenantId, batch);
+    const slots = rule ? Occurrences.slots(rule, startTime, endTime, timezone) : [{ startTime, endTime }];
+
+    const businessHoursOverride = await this.checkBusinessHours(tenantId, userId, userRole, slots, value.overrideBusinessHours, batch);
+    const conflictOverride = await this.checkConflicts(
+      tenantId,
+      ownerId,
+      userId,
+      userRole,
+      this.withBuffers(slots, service),
+      value.overrideConflicts,
+      [],
+      batch,
+      await this.loadResources(tenantId, resourceIds)
+    );
+
+    const appointmentId = uuidv4();
+    const now = new Date().toISOString();
+    
+    // Calculate TTL for automatic cleanup (1 year from creation)
+    const ttl = AppointmentItems.expiresAt(now, APPOINTMENT_RETENTION_DAYS);
+
+    const appointment: Appointment = {
+      appointmentId,
+      tenantId,
+      userId: ownerId,
+      createdBy: userId,
+      title: value.title || service!.name,
+      description: value.description,
+      startTime,
+      endTime,
+      timezone,
+      location: value.location,
+      ...(service && { service }),
+      ...(resourceIds.length > 0 && { resourceIds }),
+      attendees: Attendees.normalize(value.attendees),
+      ...(value.customer && { customer: value.customer }),
+      status: value.status,
+      statusHistory: [{ from: null, to: value.status, changedBy: userId, changedByRole: userRole, changedAt: now }],
+      reminderMinutes: value.reminderMinutes,
+      createdAt: now,
+      updatedAt: now,
+      version: 1,
+      ttl,
+      ...(conflictOverride && { conflictOverride }),
+      ...(businessHoursOverride && { businessHoursOverride }),
+      ...(rule && { recurrenceRule: rule.toString(), seriesId: appointmentId })
+    };
+
+    const reminder = ReminderSchedule.plan(appointment);
+    if (reminder) {
+      appointment.reminder = reminder;
+    }
+
+    return {
+      appointment,
+      invitations: appointment.status !== 'cancelled' ? [{ kind: 'invitation', attendees: appointment.attendees! }] : [],
+      write: {
+        Put: {
+          TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+          Item: AppointmentItems.build(appointment),
+          ConditionExpression: 'attribute_not_exists(PK)' // Prevent overwrites
+        }
+      },
+      audit: {
+        tenantId,
+        appointmentId,
+        ownerId,
+        action: 'create',
+        actorId: userId,
+        actorRole: userRole,
+        after: appointment
+      }
+    };
+  }
+
+  // `value` has been validated against updateAppointmentSchema
+  async prepareUpdate(
+    tenantId: string,
+    appointmentId: string,
+    userId: string,
+    userRole: string,
+    value: any,
+    expectedVersion?: number,
+    batch?: BatchContext
+  ): Promise<PreparedWrite | null> {
+    // Owners, admins and delegates may update it; getAppointment checks access
+    const existingAppointment = await this.getAppointment(tenantId, appointmentId, userId, userRole);
+    if (!existingAppointment) {
+      return null;
+    }
+    AppointmentItems.checkVersion(existingAppointment, expectedVersion);
+
+    const { overrideConflicts, overrideBusinessHours, ...changes } = value;
+    AppointmentItems.normalizeTimes(changes);
+    applyStatusChange(existingAppointment, changes, userId, userRole);
+    const invitations = this.planInvitations(existingAppointment, changes);
+
+    const now = new Date().toISOString();
+    const updatedAppointment = {
+      ...existingAppointment,
+      ...changes,
+      updatedAt: now
+    };
+
+    // Only re-check the calendar when the slot or its resources change, or a
+    // cancelled appointment is reopened
+    const moved = ['startTime', 'endTime', 'recurrenceRule', 'timezone'].some(key => changes[key] !== undefined);
+    const slotChanged = moved || changes.resourceIds !== undefined;
+    const reopened = existingAppointment.status === 'cancelled' && updatedAppointment.status !== 'cancelled';
+    if ((slotChanged || reopened) && updatedAppointment.status !== 'cancelled') {
+      const slots = updatedAppointment.recurrenceRule
+        ? Occurrences.slots(
+          RecurrenceRule.parse(updatedAppointment.recurrenceRule),
+          updatedAppointment.startTime,
+          updatedAppointment.endTime,
+          updatedAppointment.timezone
+        )
+        : [{ startTime: updatedAppointment.startTime, endTime: updatedAppointment.endTime }];
+
+      // Appointments only have to fit the business hours when they move
+      if (moved) {
+        const businessHoursOverride = await this.checkBusinessHours(tenantId, userId, userRole, slots, overrideBusinessHours, batch);
+        if (businessHoursOverride) {
+          changes.businessHoursOverride = businessHoursOverride;
+        }
+      }
+
+      const conflictOverride = await this.checkConflicts(
+        tenantId,
+        existingAppointment.userId,
+        userId,
+        userRole,
+        this.withBuffers(slots, existingAppointment.service),
+        overrideConflicts,
+        [appointmentId],
+        batch,
+        await this.loadResources(tenantId, updatedAppointment.resourceIds, changes.resourceIds)
+      );
+      if (conflictOverride) {
+        changes.conflictOverride = conflictOverride;
+      }
+    }
+
+    const isSeries = !!updatedAppointment.recurrenceRule;
+    // Occurrence times follow the start, the rule and the zone the series repeats
+    // in; exceptions no longer line up with the new times and are dropped after
+    // the write
+    const seriesReshaped = isSeries && ['startTime', 'recurrenceRule', 'timezone'].some(key => changes[key] !== undefined);
+
+    // Keep the date index in step with the start time; series masters live
+    // under their own sort key prefix
+    if (changes.startTime !== undefined || seriesReshaped) {
+      const sortKey = isSeries
+        ? AppointmentItems.seriesKey(updatedAppointment.startTime)
+        : AppointmentItems.dateKey(updatedAppointment.startTime);
+      changes.GSI1SK = sortKey;
+      changes.GSI2SK = sortKey;
+    }
+
+    // Moving, cancelling or reopening the appointment reschedules its reminder
+    const removals: string[] = [];
+    if (['startTime', 'reminderMinutes', 'status', 'recurrenceRule', 'timezone'].some(key => changes[key] !== undefined)) {
+      const reminder = ReminderSchedule.plan(updatedAppointment, existingAppointment.reminder);
+      if (reminder) {
+        if (reminder !== existingAppointment.reminder) {
+          changes.reminder = reminder;
+          Object.assign(changes, ReminderSchedule.indexKeys(existingAppointment, reminder));
+        }
+      } else if (existingAppointment.reminder) {
+        removals.push('reminder', 'GSI3PK', 'GSI3SK');
+      }
+    }
+
+    const guard = AppointmentItems.versionGuard(existingAppointment);
+    let updateExpression = 'SET updatedAt = :updatedAt, version = :nextVersion';
+    const expressionAttributeValues: { [key: string]: any } = {
+      ':updatedAt': now,
+      ':nextVersion': guard.nextVersion,
+      ...guard.values
+    };
+    const expressionAttributeNames: { [key: string]: string } = {};
+
+    Object.keys(changes).forEach((key, index) => {
+      updateExpression += `, #attr${index} = :val${index}`;
+      expressionAttributeNames[`#attr${index}`] = key;
+      expressionAttributeValues[`:val${index}`] = changes[key];
+    });
+    if (removals.length > 0) {
+      updateExpression += ` REMOVE ${removals.join(', ')}`;
+    }
+
+    const appointment = { ...existingAppointment, ...changes, updatedAt: now, version: guard.nextVersion };
+    if (removals.length > 0) {
+      delete appointment.reminder;
+    }
+
+    return {
+      appointment,
+      write: {
+        Update: {
+          TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+          Key: AppointmentItems.key(tenantId, appointmentId),
+          UpdateExpression: updateExpression,
+          ConditionExpression: guard.condition,
+          ExpressionAttributeNames: expressionAttributeNames,
+          ExpressionAttributeValues: expressionAttributeValues
+        }
+      },
+      audit: {
+        tenantId,
+        appointmentId,
+        ownerId: existingAppointment.userId,
+        action: 'update',
+        actorId: userId,
+        actorRole: userRole,
+        before: existingAppointment,
+        after: appointment
+      },
+      afterWrite: seriesReshaped ? () => this.seriesService.deleteExceptions(tenantId, appointmentId) : undefined,
+      invitations,
+      freedSlot: existingAppointment.status !== 'cancelled' && appointment.status === 'cancelled'
+        ? this.freedSlot(existingAppointment)
+        : undefined
+    };
+  }
+
+  // Normalizes `changes.attendees` against the stored ones and works out who
+  // to mail: new attendees are invited, and when the time or place changes the
+  // others are asked again, so their earlier answers are reset. Cancelling
+  // tells everyone.
+  planInvitations(existing: Appointment, changes: any): { kind: InvitationKind; attendees: Attendee[] }[] {
+    const previous = Attendees.read(existing.attendees);
+    const attendees = changes.attendees !== undefined
+      ? Attendees.normalize(changes.attendees, previous)
+      : previous;
+    const status = changes.status || existing.status;
+
+    if (status === 'cancelled') {
+      return existing.status !== 'cancelled' ? [{ kind: 'cancellation', attendees: previous }] : [];
+    }
+
+    const invited = existing.status === 'cancelled' ? attendees : Attendees.added(attendees, previous);
+    const moved = (['startTime', 'endTime', 'location', 'recurrenceRule'] as const)
+      .some(key => changes[key] !== undefined && changes[key] !== existing[key]);
+    const invitations: { kind: InvitationKind; attendees: Attendee[] }[] = [];
+
+    if (moved && existing.status !== 'cancelled') {
+      const asked = attendees.filter(attendee => !invited.includes(attendee));
+      asked.forEach(attendee => {
+        attendee.responseStatus = 'needs-action';
+        delete attendee.respondedAt;
+      });
+      invitations.push({ kind: 'update', attendees: asked });
+    }
+    invitations.push({ kind: 'invitation', attendees: invited });
+
+    if (changes.attendees !== undefined || moved) {
+      changes.attendees = attendees;
+    }
+    return invitations;
+  }
+
+  async prepareDelete(
+    tenantId: string,
+    appointmentId: string,
+    userId: string,
+    userRole: string,
+    expectedVersion?: number
+  ): Promise<PreparedWrite | null> {
+    // Owners, admins and delegates may delete it; getAppointment checks access
+    const existingAppointment = await this.getAppointment(tenantId, appointmentId, userId, userRole);
+    if (!existingAppointment) {
+      return null;
+    }
+    AppointmentItems.checkVersion(existingAppointment, expectedVersion);
+
+    // Deleting moves the appointment out of the date indexes into the tenant's
+    // trash on GSI1, where it stays until the TTL purges it. Series keep their
+    // exceptions so a restore brings them back as they were.
+    const deletedAt = new Date().toISOString();
+    const guard = AppointmentItems.versionGuard(existingAppointment);
+
+    return {
+      appointment: { ...existingAppointment, deletedAt, deletedBy: userId, updatedAt: deletedAt, version: guard.nextVersion },
+      write: {
+        Update: {
+          TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+          Key: AppointmentItems.key(tenantId, appointmentId),
+          UpdateExpression: 'SET deletedAt = :deletedAt, deletedBy = :deletedBy, updatedAt = :deletedAt, #ttl = :ttl, '
+            + 'GSI1PK = :trashKey, GSI1SK = :trashSortKey, version = :nextVersion REMOVE GSI2PK, GSI2SK, GSI3PK, GSI3SK',
+          ConditionExpression: guard.condition,
+          ExpressionAttributeNames: {
+            '#ttl': 'ttl'
+          },
+          ExpressionAttributeValues: {
+            ':deletedAt': deletedAt,
+            ':deletedBy': userId,
+            ':ttl': AppointmentItems.expiresAt(deletedAt, this.trashRetentionDays()),
+            ':trashKey': `TENANT#${tenantId}#TRASH`,
+            ':trashSortKey': `${deletedAt}#${appointmentId}`,
+            ':nextVersion': guard.nextVersion,
+            ...guard.values
+          }
+        }
+      },
+      audit: {
+        tenantId,
+        appointmentId,
+        ownerId: existingAppointment.userId,
+        action: 'delete',
+        actorId: userId,
+        actorRole: userRole,
+        before: existingAppointment
+      },
+      invitations: existingAppointment.status !== 'cancelled'
+        ? [{ kind: 'cancellation', attendees: Attendees.read(existingAppointment.attendees) }]
+        : [],
+      freedSlot: existingAppointment.status === 'scheduled' || existingAppointment.status === 'confirmed'
+        ? this.freedSlot(existingAppointment)
+        : undefined
+    };
+  }
+
+  validateUpdate(updateData: any): any {
+    const { error, value } = updateAppointmentSchema.validate(updateData);
+    if (error) {
+      throw new ValidationError(`Validation error: ${error.details.map(d => d.message).join(', ')}`);
+    }
+    return value;
+  }
+
+  // Everything that follows a successful write: the audit record, mails to
+  // the attendees and offering a freed slot to the waitlist. `stored` is the
+  // appointment as the write returned it, if it did.
+  async completeWrite(prepared: PreparedWrite, requestId?: string, stored?: Appointment): Promise<void> {
+    if (prepared.afterWrite) {
+      await prepared.afterWrite();
+    }
+
+    await this.auditService.record({ ...prepared.audit, requestId, ...(stored && { after: stored }) });
+    await this.notifyAttendees(stored || prepared.appointment, prepared.invitations);
+    await this.releaseSlot(prepared.appointment.tenantId, prepared.freedSlot);
+  }
+
+  async notifyAttendees(appointment: Appointment, invitations: PreparedWrite['invitations']): Promise<void> {
+    for (const { kind, attendees } of invitations || []) {
+      await this.invitationService.send(appointment, kind, attendees);
+    }
+  }
+
+  // Best effort: the cancellation stands even if the waitlist can't be offered the slot
+  async releaseSlot(tenantId: string, freedSlot?: FreedSlot): Promise<void> {
+    if (!freedSlot) {
+      return;
+    }
+
+    try {
+      await this.waitlistService.offerSlot(tenantId, freedSlot);
+    } catch (error) {
+      this.logger.error('Error offering freed slot to the waitlist', error);
+    }
+  }
+
+  // Series masters stand for many slots and aren't offered to the waitlist;
+  // single occurrences are
+  freedSlot(appointment: Appointment): FreedSlot | undefined {
+    if (appointment.recurrenceRule && !appointment.recurrenceId) {
+      return undefined;
+    }
+    return {
+      slotId: appointment.appointmentId,
+      userId: appointment.userId,
+      startTime: appointment.startTime,
+      endTime: appointment.endTime
+    };
+  }
+
+  // Rejects a slot that overlaps the owner's other non-cancelled appointments,
+  // or needs a resource that is fully booked or can't be booked at that time.
+  // Tenant admins may book over conflicts with `overrideConflicts`; the returned
+  // override is stored on the appointment so it can be audited later.
+  async checkConflicts(
+    tenantId: string,
+    ownerUserId: string,
+    actorUserId: string,
+    userRole: string,
+    slots: CheckedSlot[],
+    overrideConflicts: boolean = false,
+    excludeAppointmentIds: string[] = [],
+    batch?: BatchContext,
+    resources: Resource[] = []
+  ): Promise<ConflictOverride | undefined> {
+    await this.checkResourceHours(tenantId, resources, slots);
+
+    const conflicts = await this.findConflicts(tenantId, ownerUserId, slots, excludeAppointmentIds, batch);
+    const busyResources = await this.findResourceConflicts(tenantId, resources, slots, excludeAppointmentIds, batch);
+    busyResources.forEach(busy => busy.conflicts.forEach(conflict => {
+      if (!conflicts.some(known => known.appointmentId === conflict.appointmentId)) {
+        conflicts.push(conflict);
+      }
+    }));
+    if (conflicts.length === 0) {
+      return undefined;
+    }
+
+    if (!overrideConflicts) {
+      throw new ConflictError('Appointment conflicts with existing appointments', {
+        conflicts: conflicts.map(conflict => ({
+          appointmentId: conflict.appointmentId,
+          title: conflict.title,
+          startTime: conflict.startTime,
+          endTime: conflict.endTime,
+          status: conflict.status
+        })),
+        ...(busyResources.length > 0 && {
+          resources: busyResources.map(({ resource }) => ({
+            resourceId: resource.resourceId,
+            name: resource.name,
+            capacity: resource.capacity
+          }))
+        })
+      });
+    }
+
+    if (!isAdmin(userRole)) {
+      throw new ForbiddenError('Only tenant admins can override scheduling conflicts');
+    }
+
+    this.logger.warn('Scheduling conflict overridden', {
+      tenantId,
+      userId: ownerUserId,
+      overriddenBy: actorUserId,
+      conflictingAppointmentIds: conflicts.map(conflict => conflict.appointmentId)
+    });
+
+    return {
+      overriddenBy: actorUserId,
+      overriddenAt: new Date().toISOString(),
+      conflictingAppointmentIds: conflicts.map(conflict => conflict.appointmentId)
+    };
+  }
+
+  // New and moved appointments must lie within the tenant's working hours and
+  // outside its closures. Violations come back as a ValidationError listing
+  // each slot in the way; tenant admins may book anyway with
+  // `overrideBusinessHours`, which is stored like conflict overrides.
+  async checkBusinessHours(
+    tenantId: string,
+    actorUserId: string,
+    userRole: string,
+    slots: TimeSlot[],
+    overrideBusinessHours: boolean = false,
+    batch?: BatchContext
+  ): Promise<BusinessHoursOverride | undefined> {
+    const settings = await this.tenantSettings(tenantId, batch);
+    const violations = slots
+      .map(slot => BusinessHours.check(settings, slot.startTime, slot.endTime))
+      .filter((violation): violation is BusinessHoursViolation => !!violation);
+    if (violations.length === 0) {
+      return undefined;
+    }
+
+    if (!overrideBusinessHours) {
+      throw new ValidationError('Validation failed', {
+        errors: violations.slice(0, MAX_REPORTED_VIOLATIONS),
+        timezone: settings.timezone,
+        workingHours: settings.workingHours
+      });
+    }
+
+    if (!isAdmin(userRole)) {
+      throw new ForbiddenError('Only tenant admins can book outside business hours');
+    }
+
+    this.logger.warn('Business hours overridden', { tenantId, overriddenBy: actorUserId, violationCount: violations.length });
+
+    return {
+      overriddenBy: actorUserId,
+      overriddenAt: new Date().toISOString(),
+      violations: [...new Set(violations.map(violation => violation.code))]
+    };
+  }
+
+  withBuffers(slots: TimeSlot[], service?: ServiceSnapshot): CheckedSlot[] {
+    if (!service) {
+      return slots;
+    }
+    return slots.map(slot => ({
+      ...slot,
+      bufferBeforeMinutes: service.bufferBeforeMinutes,
+      bufferAfterMinutes: service.bufferAfterMinutes
+    }));
+  }
+
+  // Resources an appointment reserves. IDs the request names must exist;
+  // resources deleted since they were reserved are no longer checked.
+  async loadResources(tenantId: string, resourceIds: string[] = [], requested: string[] = resourceIds): Promise<Resource[]> {
+    if (resourceIds.length === 0) {
+      return [];
+    }
+
+    const resources = await this.resourceService.getResources(tenantId, resourceIds);
+    const unknown = requested.filter(resourceId => !resources.some(resource => resource.resourceId === resourceId));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Validation error: unknown resources ${unknown.join(', ')}`);
+    }
+    return resources;
+  }
+
+  private async checkBookingFor(tenantId: string, ownerId: string, userId: string, userRole: string): Promise<void> {
+    await this.checkCalendarAccess(
+      tenantId, ownerId, userId, userRole, 'You can only book into your own calendar or calendars delegated to you'
+    );
+  }
+
+  // Admins reach every calendar in the tenant, delegates the calendars shared
+  // with them
+  private async checkCalendarAccess(tenantId: string, ownerId: string, userId: string, userRole: string, message: string): Promise<void> {
+    if (ownerId === userId || isAdmin(userRole)) {
+      return;
+    }
+    if (!await this.delegationService.isDelegate(tenantId, ownerId, userId)) {
+      throw new ForbiddenError(message);
+    }
+  }
+
+  private trashRetentionDays(): number {
+    const days = Number(process.env['TRASH_RETENTION_DAYS']);
+    return Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+  }
+
+  private validateScope(scope?: string): void {
+    if (scope !== undefined && !RECURRENCE_SCOPES.includes(scope)) {
+      throw new ValidationError(`Validation error: scope must be one of ${RECURRENCE_SCOPES.join(', ')}`);
+    }
+  }
+
+  // Excluded IDs match an appointment or every occurrence of a series. Within a
+  // batch, appointments and series it changes are checked as planned rather
+  // than as stored.
+  // Appointments booked for a service keep its buffers free on either side.
+  private async findConflicts(
+    tenantId: string,
+    userId: string,
+    slots: CheckedSlot[],
+    excludeAppointmentIds: string[] = [],
+    batch?: BatchContext
+  ): Promise<Appointment[]> {
+    if (slots.length === 0) {
+      return [];
+    }
+
+    const from = moment.min(slots.map(slot => moment(slot.startTime).subtract(slot.bufferBeforeMinutes || 0, 'minutes')));
+    const to = moment.max(slots.map(slot => moment(slot.endTime).add(slot.bufferAfterMinutes || 0, 'minutes')));
+    const stored = await this.listActiveAppointmentsInRange(tenantId, userId, from, to);
+    const candidates = batch
+      ? [
+        ...stored.filter(appointment => !batch.excludeIds.has(appointment.seriesId || appointment.appointmentId)),
+        ...batch.planned.filter(appointment => appointment.userId === userId && appointment.status !== 'cancelled')
+      ]
+      : stored;
+
+    return candidates.filter(candidate =>
+      !excludeAppointmentIds.includes(candidate.appointmentId) &&
+      !(candidate.seriesId && excludeAppointmentIds.includes(candidate.seriesId)) &&
+      slots.some(slot => this.tooClose(candidate, slot))
+    );
+  }
+
+  // Whether the appointment overlaps the slot or leaves less free time between
+  // them than either side's buffer
+  private tooClose(appointment: Appointment, slot: CheckedSlot): boolean {
+    const gapAfter = Math.max(appointment.service?.bufferAfterMinutes || 0, slot.bufferBeforeMinutes || 0);
+    const gapBefore = Math.max(appointment.service?.bufferBeforeMinutes || 0, slot.bufferAfterMinutes || 0);
+    return moment(appointment.startTime).isBefore(moment(slot.endTime).add(gapBefore, 'minutes')) &&
+      moment(appointment.endTime).add(gapAfter, 'minutes').isAfter(slot.startTime);
+  }
+
+  private async loadService(tenantId: string, serviceId: string): Promise<BookableService> {
+    const service = await this.serviceCatalogService.getService(tenantId, serviceId);
+    if (!service) {
+      throw new ValidationError(`Validation error: unknown service ${serviceId}`);
+    }
+    return service;
+  }
+
+  private serviceSnapshot(service: BookableService): ServiceSnapshot {
+    return {
+      serviceId: service.serviceId,
+      name: service.name,
+      durationMinutes: service.durationMinutes,
+      bufferBeforeMinutes: service.bufferBeforeMinutes,
+      bufferAfterMinutes: service.bufferAfterMinutes,
+      ...(service.price && { price: service.price })
+    };
+  }
+
+  // Each resource that has no room left in one of the slots, with the
+  // appointments holding it then
+  private async findResourceConflicts(
+    tenantId: string,
+    resources: Resource[],
+    slots: TimeSlot[],
+    excludeAppointmentIds: string[] = [],
+    batch?: BatchContext
+  ): Promise<{ resource: Resource; conflicts: Appointment[] }[]> {
+    if (resources.length === 0 || slots.length === 0) {
+      return [];
+    }
+
+    const from = moment.min(slots.map(slot => moment(slot.startTime)));
+    const to = moment.max(slots.map(slot => moment(slot.endTime)));
+    const stored = await this.listActiveAppointmentsInRange(tenantId, undefined, from, to);
+    const candidates = [
+      ...(batch ? stored.filter(appointment => !batch.excludeIds.has(appointment.seriesId || appointment.appointmentId)) : stored),
+      ...(batch ? batch.planned.filter(appointment => appointment.status !== 'cancelled') : [])
+    ].filter(candidate =>
+      !excludeAppointmentIds.includes(candidate.appointmentId) &&
+      !(candidate.seriesId && excludeAppointmentIds.includes(candidate.seriesId))
+    );
+
+    return resources
+      .map(resource => {
+        const holders = candidates.filter(candidate => candidate.resourceIds?.includes(resource.resourceId));
+        const fullyBooked = this.fullyBooked(holders, resource.capacity);
+        const overlaps = (a: TimeSlot, b: TimeSlot) => moment(a.startTime).isBefore(b.endTime) && moment(a.endTime).isAfter(b.startTime);
+        const conflicts = holders.filter(holder =>
+          slots.some(slot => overlaps(holder, slot) && fullyBooked.some(full => overlaps(full, slot) && overlaps(full, holder)))
+        );
+        return { resource, conflicts };
+      })
+      .filter(busy => busy.conflicts.length > 0);
+  }
+
+  // Periods in which the appointments hold all `capacity` units of a resource
+  private fullyBooked(appointments: TimeSlot[], capacity: number): TimeSlot[] {
+    const changes = appointments
+      .flatMap(appointment => [
+        { time: moment(appointment.startTime).valueOf(), delta: 1 },
+        { time: moment(appointment.endTime).valueOf(), delta: -1 }
+      ])
+      .sort((a, b) => a.time - b.time || a.delta - b.delta); // Ends before starts at the same time
+
+    const periods: TimeSlot[] = [];
+    let held = 0;
+    let fullSince: number | undefined;
+    changes.forEach(change => {
+      held += change.delta;
+      if (held >= capacity && fullSince === undefined) {
+        fullSince = change.time;
+      } else if (held < capacity && fullSince !== undefined) {
+        if (change.time > fullSince) {
+          periods.push({ startTime: moment.utc(fullSince).toISOString(), endTime: moment.utc(change.time).toISOString() });
+        }
+        fullSince = undefined;
+      }
+    });
+    return periods;
+  }
+
+  // Slots of a resource's reservations must lie within the hours it can be booked
+  private async checkResourceHours(tenantId: string, resources: Resource[], slots: TimeSlot[]): Promise<void> {
+    if (resources.length === 0) {
+      return;
+    }
+
+    const settings = await this.tenantService.getSettings(tenantId) || DEFAULT_TENANT_SETTINGS;
+    for (const resource of resources) {
+      const hours = BusinessHours.forResource(resource, settings);
+      if (!slots.every(slot => BusinessHours.contains(hours, slot.startTime, slot.endTime))) {
+        throw new UnprocessableEntityError(`${resource.name} can't be booked at that time`, {
+          resourceId: resource.resourceId,
+          timezone: hours.timezone,
+          availability: hours.workingHours
+        });
+      }
+    }
+  }
+
+  // Non-cancelled appointments and occurrences of one user, or the whole
+  // tenant, that may overlap [from, to]
+  private async listActiveAppointmentsInRange(
+    tenantId: string,
+    userId: string | undefined,
+    from: moment.Moment,
+    to: moment.Moment
+  ): Promise<Appointment[]> {
+    const lookbackStart = from.clone().subtract(CONFLICT_LOOKBACK_DAYS, 'days');
+    const indexName = userId ? 'GSI2' : 'GSI1';
+    const partitionKey = userId ? `TENANT#${tenantId}#USER#${userId}` : `TENANT#${tenantId}`;
+    const partitionValue = userId ? ':userKey' : ':tenantKey';
+
+    const appointments = await this.queryAll({
+      TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+      IndexName: indexName,
+      KeyConditionExpression: `${indexName}PK = ${partitionValue} AND ${indexName}SK BETWEEN :fromKey AND :toKey`,
+      FilterExpression: '#status <> :cancelled',
+      ExpressionAttributeNames: {
+        '#status': 'status'
+      },
+      ExpressionAttributeValues: {
+        [partitionValue]: partitionKey,
+        ':fromKey': `DATE#${lookbackStart.format('YYYY-MM-DD')}`,
+        ':toKey': AppointmentItems.dateKey(to),
+        ':cancelled': 'cancelled'
+      }
+    });
+
+    const occurrences = await this.seriesService.listOccurrences(indexName, partitionKey, {
+      startDate: lookbackStart.toISOString(),
+      endDate: to.toISOString()
+    });
+
+    return [...appointments.filter(appointment => !appointment.recurrenceRule), ...occurrences]
+      .filter(appointment => appointment.status !== 'cancelled');
+  }
+
+  private async queryAll(params: DynamoDB.DocumentClient.QueryInput): Promise<Appointment[]> {
+    const items: Appointment[] = [];
+    const pageParams = { ...params };
+    do {
+      const result = await this.dynamodb.query(pageParams).promise();
+      items.push(...((result.Items || []) as Appointment[]));
+      pageParams.ExclusiveStartKey = result.LastEvaluatedKey;
+    } while (pageParams.ExclusiveStartKey);
+    return items;
+  }
+
+  private compareAppointments(a: { startTime: string; appointmentId: string }, b: { startTime: string; appointmentId: string }): number {
+    return moment(a.startTime).valueOf() - moment(b.startTime).valueOf() || a.appointmentId.localeCompare(b.appointmentId);
+  }
+
+  // Date-only bounds cover whole days, and times without an offset are read,
+  // in the display zone (UTC unless one is given)
+  private resolveDateRange(filters: AppointmentFilters, timezone: string = 'UTC'): { startDate?: string; endDate?: string } {
+    const isDateOnly = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+    const parse = (value: string) => moment.tz(value, moment.ISO_8601, true, timezone);
+    ['startDate', 'endDate'].forEach(field => {
+      if (filters[field] && !parse(filters[field]).isValid()) {
+        throw new ValidationError(`${field} must be an ISO 8601 date`);
+      }
+    });
+
+    return {
+      startDate: filters.startDate ? parse(filters.startDate).toISOString() : undefined,
+      endDate: filters.endDate
+        ? (isDateOnly(filters.endDate) ? parse(filters.endDate).endOf('day') : parse(filters.endDate)).toISOString()
+        : undefined
+    };
+  }
+
+  private inZone(appointment: Appointment, timezone: string): DisplayedAppointment {
+    return {
+      ...appointment,
+      localStartTime: moment.tz(appointment.startTime, timezone).format(),
+      localEndTime: moment.tz(appointment.endTime, timezone).format()
+    };
+  }
+
+  private async tenantSettings(tenantId: string, batch?: BatchContext): Promise<TenantSettings> {
+    if (batch?.settings) {
+      return batch.settings;
+    }
+
+    const settings = await this.tenantService.getSettings(tenantId) || DEFAULT_TENANT_SETTINGS;
+    if (batch) {
+      batch.settings = settings;
+    }
+    return settings;
+  }
+
+  // Zone for appointments created without one
+  private async tenantTimezone(tenantId: string, batch?: BatchContext): Promise<string> {
+    return (await this.tenantSettings(tenantId, batch)).timezone;
+  }
+
+  private buildIndexKey(item: AppointmentItem, indexName: 'GSI1' | 'GSI2'): DynamoDB.DocumentClient.Key {
+    return {
+      PK: item.PK,
+      SK: item.SK,
+      [`${indexName}PK`]: item[`${indexName}PK`],
+      [`${indexName}SK`]: item[`${indexName}SK`]
+    };
+  }
+
+  // Cursors are bound to the partition they were issued for, which includes the tenant
+  private encodeCursor(cursor: ListCursor, partitionKey: string): string {
+    return SignedToken.sign(cursor, `appointments:${partitionKey}`);
+  }
+
+  private decodeCursor(token: string, partitionKey: string): ListCursor {
+    const cursor = SignedToken.verify<ListCursor>(token, `appointments:${partitionKey}`);
+    if (!cursor) {
+      throw new ValidationError('Invalid nextToken');
+    }
+    return cursor;
+  }
 }
@@ -0,0 +1,228 @@
+import { DynamoDB } from 'aws-sdk';
+import { v4 as uuidv4 } from 'uuid';
+import Joi from 'joi';
+import { isAdmin } from './AuthService';
+import { Logger } from '../utils/Logger';
+import { ForbiddenError, NotFoundError, ValidationError } from '../utils/Errors';
+import { SignedToken } from '../utils/SignedToken';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+// Bookkeeping attributes that aren't part of the appointment as users see it
+const IGNORED_FIELDS = ['PK', 'SK', 'GSI1PK', 'GSI1SK', 'GSI2PK', 'GSI2SK', 'updatedAt', 'version', 'statusHistory', 'rescheduleHistory', 'ttl'];
+
+const auditQuerySchema = Joi.object({
+  startDate: Joi.date().iso().optional(),
+  endDate: Joi.date().iso().optional(),
+  limit: Joi.number().integer().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  nextToken: Joi.string().optional()
+});
+
+export type AuditAction = 'create' | 'update' | 'reschedule' | 'delete' | 'restore' | 'rsvp';
+
+export interface FieldChange {
+  before?: any;
+  after?: any;
+}
+
+export interface AuditRecord {
+  auditId: string;
+  tenantId: string;
+  appointmentId: string;
+  ownerId: string; // Owner of the appointment at the time of the change
+  action: AuditAction;
+  actorId: string;
+  actorRole: string;
+  requestId?: string;
+  changes: { [field: string]: FieldChange };
+  timestamp: string;
+}
+
+export interface AuditEntry {
+  tenantId: string;
+  appointmentId: string;
+  seriesId?: string; // Occurrence changes are kept with their series
+  ownerId: string;
+  action: AuditAction;
+  actorId: string;
+  actorRole: string;
+  requestId?: string;
+  before?: { [field: string]: any };
+  after?: { [field: string]: any };
+}
+
+export interface AuditQuery {
+  startDate?: string;
+  endDate?: string;
+  limit?: string | number;
+  nextToken?: string;
+}
+
+export interface AuditPage {
+  records: AuditRecord[];
+  nextToken?: string;
+}
+
+export class AuditService {
+  private dynamodb: DynamoDB.DocumentClient;
+  private logger: Logger;
+
+  constructor() {
+    this.dynamodb = new DynamoDB.DocumentClient();
+    this.logger = new Logger('AuditService');
+  }
+
+  // Audit records live in the appointment's partition so they outlive it, and
+  // are indexed per tenant on GSI1 under a separate partition key.
+  async record(entry: AuditEntry): Promise<void> {
+    const timestamp = new Date().toISOString();
+    const auditId = uuidv4();
+    const record: AuditRecord = {
+      auditId,
+      tenantId: entry.tenantId,
+      appointmentId: entry.appointmentId,
+      ownerId: entry.ownerId,
+      action: entry.action,
+      actorId: entry.actorId,
+      actorRole: entry.actorRole,
+      ...(entry.requestId && { requestId: entry.requestId }),
+      changes: this.diff(entry.before || {}, entry.after || {}),
+      timestamp
+    };
+
+    if (entry.action === 'update' && Object.keys(record.changes).length === 0) {
+      return;
+    }
+
+    try {
+      await this.dynamodb.put({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Item: {
+          PK: `TENANT#${entry.tenantId}#APPOINTMENT#${entry.seriesId || entry.appointmentId}`,
+          SK: `AUDIT#${timestamp}#${auditId}`,
+          GSI1PK: `TENANT#${entry.tenantId}#AUDIT`,
+          GSI1SK: `${timestamp}#${auditId}`,
+          ...record
+        }
+      }).promise();
+    } catch (error) {
+      // The change itself has already been written; don't report it as failed
+      this.logger.error('Error writing audit record', error);
+    }
+  }
+
+  // Changes to one appointment, oldest first. Regular users only see the
+  // history of their own appointments, which still works after deletion.
+  async getAppointmentHistory(
+    tenantId: string,
+    appointmentId: string,
+    userId: string,
+    userRole: string,
+    seriesId?: string
+  ): Promise<AuditRecord[]> {
+    try {
+      const records = await this.queryAll({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :auditPrefix)',
+        ExpressionAttributeValues: {
+          ':pk': `TENANT#${tenantId}#APPOINTMENT#${seriesId || appointmentId}`,
+          ':auditPrefix': 'AUDIT#'
+        }
+      });
+
+      // A single occurrence only has the records written for it
+      const history = seriesId ? records.filter(record => record.appointmentId === appointmentId) : records;
+      if (history.length === 0) {
+        throw new NotFoundError('Appointment history not found');
+      }
+
+      if (!isAdmin(userRole) && history.some(record => record.ownerId !== userId)) {
+        throw new ForbiddenError('Access denied');
+      }
+
+      return history.map(record => this.toRecord(record));
+    } catch (error) {
+      this.logger.error('Error getting appointment history', error);
+      throw error;
+    }
+  }
+
+  // Tenant-wide audit log for admins, newest first
+  async listAuditRecords(tenantId: string, userRole: string, query: AuditQuery): Promise<AuditPage> {
+    try {
+      if (!isAdmin(userRole)) {
+        throw new ForbiddenError('Only tenant admins can view the audit log');
+      }
+
+      const { error, value } = auditQuerySchema.validate(query);
+      if (error) {
+        throw new ValidationError('Validation failed', { errors: error.details.map(d => d.message) });
+      }
+
+      const audience = `audit:${tenantId}`;
+      let exclusiveStartKey: DynamoDB.DocumentClient.Key | undefined;
+      if (value.nextToken) {
+        exclusiveStartKey = SignedToken.verify<DynamoDB.DocumentClient.Key>(value.nextToken, audience) || undefined;
+        if (!exclusiveStartKey) {
+          throw new ValidationError('Invalid nextToken');
+        }
+      }
+
+      const result = await this.dynamodb.query({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :auditKey AND GSI1SK BETWEEN :from AND :to',
+        ExpressionAttributeValues: {
+          ':auditKey': `TENANT#${tenantId}#AUDIT`,
+          ':from': value.startDate ? value.startDate.toISOString() : '0',
+          ':to': value.endDate ? `${value.endDate.toISOString()}#~` : '~'
+        },
+        ScanIndexForward: false,
+        Limit: value.limit,
+        ...(exclusiveStartKey && { ExclusiveStartKey: exclusiveStartKey })
+      }).promise();
+
+      return {
+        records: (result.Items || []).map(item => this.toRecord(item)),
+        nextToken: result.LastEvaluatedKey ? SignedToken.sign(result.LastEvaluatedKey, audience) : undefined
+      };
+    } catch (error) {
+      this.logger.error('Error listing audit records', error);
+      throw error;
+    }
+  }
+
+  private diff(before: { [field: string]: any }, after: { [field: string]: any }): { [field: string]: FieldChange } {
+    const changes: { [field: string]: FieldChange } = {};
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    fields.forEach(field => {
+      if (IGNORED_FIELDS.includes(field) || JSON.stringify(before[field]) === JSON.stringify(after[field])) {
+        return;
+      }
+      changes[field] = {
+        ...(before[field] !== undefined && { before: before[field] }),
+        ...(after[field] !== undefined && { after: after[field] })
+      };
+    });
+
+    return changes;
+  }
+
+  private toRecord(item: DynamoDB.DocumentClient.AttributeMap): AuditRecord {
+    const { PK, SK, GSI1PK, GSI1SK, ...record } = item;
+    return record as AuditRecord;
+  }
+
+  private async queryAll(params: DynamoDB.DocumentClient.QueryInput): Promise<DynamoDB.DocumentClient.AttributeMap[]> {
+    const items: DynamoDB.DocumentClient.AttributeMap[] = [];
+    const pageParams = { ...params };
+    do {
+      const result = await this.dynamodb.query(pageParams).promise();
+      items.push(...(result.Items || []));
+      pageParams.ExclusiveStartKey = result.LastEvaluatedKey;
+    } while (pageParams.ExclusiveStartKey);
+    return items;
+  }
+}
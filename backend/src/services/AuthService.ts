@@ -1,4 +1,4 @@
-import { CognitoIdentityServiceProvider } from 'aws-sdk';
+import { CognitoIdentityServiceProvider, DynamoDB } from 'aws-sdk';
 import jwt from 'jsonwebtoken';
 import { Logger } from '../utils/Logger';
 
@@ -10,12 +10,21 @@ export interface AuthResult {
   error?: string;
 }
 
+export const ADMIN_ROLES = ['tenant-admin', 'super-admin'];
+
+// Admins manage everything in their tenant; super admins in every tenant
+export function isAdmin(role: string | undefined): boolean {
+  return ADMIN_ROLES.includes(role || '');
+}
+
 export class AuthService {
   private cognito: CognitoIdentityServiceProvider;
+  private dynamodb: DynamoDB.DocumentClient;
   private logger: Logger;
 
   constructor() {
     this.cognito = new CognitoIdentityServiceProvider();
+    this.dynamodb = new DynamoDB.DocumentClient();
     this.logger = new Logger('AuthService');
   }
 
@@ -30,7 +39,7 @@ export class AuthService {
         };
       }
 
-      const token = authHeader.replace('Bearer ', '');
+      const token = authHeader.startsWith('Bearer ') ? authHeader.slice('Bearer '.length).trim() : '';
       if (!token) {
         return {
           isValid: false,
@@ -63,6 +72,14 @@ export class AuthService {
       // Determine user role
       const role = this.determineUserRole(userGroups);
 
+      // Super admins still reach suspended tenants, to look into and reactivate them
+      if (role !== 'super-admin' && await this.isSuspended(requestedTenantId)) {
+        return {
+          isValid: false,
+          error: 'Tenant is suspended'
+        };
+      }
+
       return {
         isValid: true,
         userId,
@@ -116,6 +133,19 @@ export class AuthService {
     return false;
   }
 
+  // The tenant record is read directly: TenantService looks users up through
+  // UserService, which depends on this service
+  private async isSuspended(tenantId: string): Promise<boolean> {
+    const result = await this.dynamodb.get({
+      TableName: process.env['TENANTS_TABLE_NAME']!,
+      Key: { tenantId },
+      ProjectionExpression: '#status',
+      ExpressionAttributeNames: { '#status': 'status' }
+    }).promise();
+
+    return result.Item?.['status'] === 'suspended';
+  }
+
   private determineUserRole(userGroups: string[]): string {
     if (userGroups.includes('super-admin')) {
       return 'super-admin';
@@ -162,6 +192,9 @@ export class AuthService {
           case 'custom:role':
             userInfo.role = attr.Value;
             break;
+          case 'name':
+            userInfo.name = attr.Value;
+            break;
         }
       });
 
@@ -172,14 +205,16 @@ export class AuthService {
     }
   }
 
+  // Without a password Cognito generates one and mails the user an invitation
   async createUser(userData: {
     email: string;
-    password: string;
+    password?: string;
+    name?: string;
     tenantId: string;
     role: string;
   }): Promise<any> {
     try {
-      const params = {
+      const params: CognitoIdentityServiceProvider.AdminCreateUserRequest = {
         UserPoolId: process.env['COGNITO_USER_POOL_ID']!,
         Username: userData.email,
         UserAttributes: [
@@ -198,10 +233,13 @@ export class AuthService {
           {
             Name: 'custom:role',
             Value: userData.role
-          }
+          },
+          ...(userData.name ? [{ Name: 'name', Value: userData.name }] : [])
         ],
-        TemporaryPassword: userData.password,
-        MessageAction: 'SUPPRESS' // Don't send welcome email
+        ...(userData.password && {
+          TemporaryPassword: userData.password,
+          MessageAction: 'SUPPRESS' // Don't send welcome email
+        })
       };
 
       const result = await this.cognito.adminCreateUser(params).promise();
@@ -216,6 +254,59 @@ export class AuthService {
     }
   }
 
+  async disableUser(userId: string): Promise<void> {
+    try {
+      const params = {
+        UserPoolId: process.env['COGNITO_USER_POOL_ID']!,
+        Username: userId
+      };
+
+      await this.cognito.adminDisableUser(params).promise();
+      // Revokes refresh tokens; access tokens already issued run out on their own
+      await this.cognito.adminUserGlobalSignOut(params).promise();
+    } catch (error) {
+      this.logger.error('Error disabling user', error);
+      throw error;
+    }
+  }
+
+  async enableUser(userId: string): Promise<void> {
+    try {
+      const params = {
+        UserPoolId: process.env['COGNITO_USER_POOL_ID']!,
+        Username: userId
+      };
+
+      await this.cognito.adminEnableUser(params).promise();
+    } catch (error) {
+      this.logger.error('Error enabling user', error);
+      throw error;
+    }
+  }
+
+  // Roles are read from the groups in the token, so the groups are moved first
+  async setUserRole(userId: string, role: string, previousRole: string): Promise<void> {
+    try {
+      await this.addUserToGroup(userId, role);
+      if (this.getGroupNameForRole(previousRole) !== this.getGroupNameForRole(role)) {
+        await this.cognito.adminRemoveUserFromGroup({
+          UserPoolId: process.env['COGNITO_USER_POOL_ID']!,
+          Username: userId,
+          GroupName: this.getGroupNameForRole(previousRole)
+        }).promise();
+      }
+
+      await this.cognito.adminUpdateUserAttributes({
+        UserPoolId: process.env['COGNITO_USER_POOL_ID']!,
+        Username: userId,
+        UserAttributes: [{ Name: 'custom:role', Value: role }]
+      }).promise();
+    } catch (error) {
+      this.logger.error('Error changing user role', error);
+      throw error;
+    }
+  }
+
   private async addUserToGroup(username: string, role: string): Promise<void> {
     try {
       const groupName = this.getGroupNameForRole(role);
@@ -0,0 +1,163 @@
+import moment from 'moment-timezone';
+import Joi from 'joi';
+import { AppointmentService, TimeSlot } from './AppointmentService';
+import { TenantService, TenantSettings } from './TenantService';
+import { ResourceService } from './ResourceService';
+import { Logger } from '../utils/Logger';
+import { BusinessHours } from '../utils/BusinessHours';
+import { NotFoundError, ValidationError } from '../utils/Errors';
+
+const MAX_RANGE_DAYS = 31;
+
+const availabilityQuerySchema = Joi.object({
+  startDate: Joi.date().iso().required(),
+  endDate: Joi.date().iso().required().min(Joi.ref('startDate')),
+  duration: Joi.number().integer().min(5).max(480).required(), // Minutes
+  interval: Joi.number().integer().min(5).max(240).default(15), // Minutes between slot starts
+  userId: Joi.string().optional(),
+  resourceId: Joi.string().optional() // Only slots in which the resource can be reserved too
+});
+
+export interface AvailabilityQuery {
+  startDate?: string;
+  endDate?: string;
+  duration?: string | number;
+  interval?: string | number;
+  userId?: string;
+  resourceId?: string;
+}
+
+export interface AvailabilityResult {
+  userId: string;
+  resourceId?: string;
+  timezone: string;
+  durationMinutes: number;
+  slots: TimeSlot[];
+}
+
+export class AvailabilityService {
+  private appointmentService: AppointmentService;
+  private tenantService: TenantService;
+  private resourceService: ResourceService;
+  private logger: Logger;
+
+  constructor() {
+    this.appointmentService = new AppointmentService();
+    this.tenantService = new TenantService();
+    this.resourceService = new ResourceService();
+    this.logger = new Logger('AvailabilityService');
+  }
+
+  // Open slots inside the tenant's working hours that don't overlap the user's
+  // appointments. Any tenant member may look up another member, because only
+  // free times are returned. With a resource, slots also have to lie within the
+  // hours it can be booked and leave room for one more reservation.
+  async findAvailableSlots(
+    tenantId: string,
+    requesterId: string,
+    query: AvailabilityQuery
+  ): Promise<AvailabilityResult> {
+    try {
+      const { error, value } = availabilityQuerySchema.validate(query);
+      if (error) {
+        throw new ValidationError('Validation failed', { errors: error.details.map(d => d.message) });
+      }
+
+      const settings = await this.tenantService.getSettings(tenantId);
+      if (!settings) {
+        throw new NotFoundError('Tenant not found');
+      }
+
+      // Date-only bounds are whole days in the tenant's timezone
+      const rangeStart = this.parseBound(value.startDate, query.startDate!, settings.timezone, 'start');
+      const rangeEnd = this.parseBound(value.endDate, query.endDate!, settings.timezone, 'end');
+      if (rangeEnd.diff(rangeStart, 'days', true) > MAX_RANGE_DAYS) {
+        throw new ValidationError(`Date range cannot exceed ${MAX_RANGE_DAYS} days`);
+      }
+
+      const userId = value.userId || requesterId;
+      const busySlots = await this.appointmentService.getBusySlots(
+        tenantId,
+        userId,
+        rangeStart.toISOString(),
+        rangeEnd.toISOString()
+      );
+
+      let hours = settings;
+      if (value.resourceId) {
+        const resource = await this.resourceService.getResource(tenantId, value.resourceId);
+        if (!resource) {
+          throw new NotFoundError('Resource not found');
+        }
+        hours = BusinessHours.forResource(resource, settings);
+        busySlots.push(...(await this.appointmentService.getResourceBusySlots(
+          tenantId,
+          resource,
+          rangeStart.toISOString(),
+          rangeEnd.toISOString()
+        )));
+      }
+
+      const slots = this.buildOpenSlots(hours, rangeStart, rangeEnd, value.duration, value.interval, busySlots);
+
+      this.logger.info('Availability calculated', { tenantId, userId, resourceId: value.resourceId, slotCount: slots.length });
+      return {
+        userId,
+        ...(value.resourceId && { resourceId: value.resourceId }),
+        timezone: settings.timezone,
+        durationMinutes: value.duration,
+        slots
+      };
+    } catch (error) {
+      this.logger.error('Error finding available slots', error);
+      throw error;
+    }
+  }
+
+  private buildOpenSlots(
+    settings: TenantSettings,
+    rangeStart: moment.Moment,
+    rangeEnd: moment.Moment,
+    durationMinutes: number,
+    intervalMinutes: number,
+    busySlots: TimeSlot[]
+  ): TimeSlot[] {
+    const now = moment.utc();
+    const slots: TimeSlot[] = [];
+
+    const day = rangeStart.clone().tz(settings.timezone).startOf('day');
+    while (day.isBefore(rangeEnd)) {
+      const hours = BusinessHours.closure(day, settings) ? null : BusinessHours.window(day, settings);
+      if (hours) {
+        for (let start = hours.start.clone(); ; start.add(intervalMinutes, 'minutes')) {
+          const end = start.clone().add(durationMinutes, 'minutes');
+          if (end.isAfter(hours.end)) {
+            break;
+          }
+          if (start.isBefore(rangeStart) || end.isAfter(rangeEnd) || start.isBefore(now)) {
+            continue;
+          }
+
+          const overlapsBusy = busySlots.some(busy =>
+            start.isBefore(busy.endTime) && end.isAfter(busy.startTime)
+          );
+          if (!overlapsBusy) {
+            slots.push({ startTime: start.toISOString(), endTime: end.toISOString() });
+          }
+        }
+      }
+
+      day.add(1, 'day');
+    }
+
+    return slots;
+  }
+
+  private parseBound(parsed: Date, raw: string, timezone: string, edge: 'start' | 'end'): moment.Moment {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(raw)) {
+      const day = moment.tz(raw, 'YYYY-MM-DD', timezone);
+      return edge === 'start' ? day.startOf('day') : day.endOf('day');
+    }
+    return moment.utc(parsed);
+  }
+}
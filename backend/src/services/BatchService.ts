@@ -0,0 +1,434 @@
+import { DynamoDB } from 'aws-sdk';
+import Joi from 'joi';
+import { Logger } from '../utils/Logger';
+import { AppointmentService, Appointment, BatchContext, PreparedWrite } from './AppointmentService';
+import { AppError, NotFoundError, PreconditionFailedError, ValidationError } from '../utils/Errors';
+import { AppointmentItems } from '../utils/AppointmentItems';
+import { Occurrences } from '../utils/Occurrences';
+
+const MAX_BATCH_OPERATIONS = 50;
+
+// All-or-nothing batches are written as a single DynamoDB transaction
+const MAX_ATOMIC_BATCH_OPERATIONS = 25;
+
+// Throttled batch writes are retried this many times in total
+const BATCH_WRITE_ATTEMPTS = 3;
+
+const batchSchema = Joi.object({
+  operations: Joi.array().items(Joi.object().unknown()).min(1).max(MAX_BATCH_OPERATIONS).required(),
+  atomic: Joi.boolean().default(false)
+});
+
+// Operations are validated one by one so a bad item doesn't fail the whole batch
+const batchOperationSchema = Joi.object({
+  action: Joi.string().valid('create', 'update', 'cancel', 'delete').required(),
+  appointmentId: Joi.string().when('action', { is: 'create', then: Joi.forbidden(), otherwise: Joi.required() }),
+  data: Joi.object().unknown().when('action', { is: Joi.valid('create', 'update'), then: Joi.required(), otherwise: Joi.forbidden() }),
+  version: Joi.number().integer().min(0).optional() // As sent in If-Match for single requests
+});
+
+export type BatchAction = 'create' | 'update' | 'cancel' | 'delete';
+
+export interface BatchOperation {
+  action: BatchAction;
+  appointmentId?: string;
+  data?: any;
+  version?: number;
+}
+
+export interface BatchItemResult {
+  index: number; // Position of the operation in the request
+  action?: BatchAction;
+  appointmentId?: string;
+  status: 'succeeded' | 'failed' | 'aborted';
+  statusCode: number;
+  appointment?: Appointment;
+  error?: { message: string; details?: any };
+}
+
+export interface BatchResult {
+  atomic: boolean;
+  succeeded: number;
+  failed: number;
+  results: BatchItemResult[];
+}
+
+// An operation that passed its checks, waiting to be written
+interface PreparedOperation {
+  index: number;
+  operation: BatchOperation;
+  write: PreparedWrite;
+}
+
+// Many appointment changes in one request. Each operation is checked like a
+// single request, and against the other operations of the batch as well as
+// the stored calendar, so a whole day can be moved around at once.
+export class BatchService {
+  private dynamodb: DynamoDB.DocumentClient;
+  private appointmentService: AppointmentService;
+  private logger: Logger;
+
+  constructor() {
+    this.dynamodb = new DynamoDB.DocumentClient();
+    this.appointmentService = new AppointmentService();
+    this.logger = new Logger('BatchService');
+  }
+
+  // Runs up to MAX_BATCH_OPERATIONS creates, updates, cancels and deletes. By
+  // default every operation succeeds or fails on its own; with `atomic` all of
+  // them are written in a single transaction or none is.
+  async executeBatch(
+    tenantId: string,
+    userId: string,
+    userRole: string,
+    request: any,
+    requestId?: string
+  ): Promise<BatchResult> {
+    try {
+      const { error, value } = batchSchema.validate(request);
+      if (error) {
+        throw new ValidationError(`Validation error: ${error.details.map(d => d.message).join(', ')}`);
+      }
+
+      const atomic: boolean = value.atomic;
+      if (atomic && value.operations.length > MAX_ATOMIC_BATCH_OPERATIONS) {
+        throw new ValidationError(`All-or-nothing batches are limited to ${MAX_ATOMIC_BATCH_OPERATIONS} operations`);
+      }
+
+      const operations: BatchOperation[] = value.operations;
+      const seenIds = new Set<string>();
+      const batch: BatchContext = {
+        excludeIds: new Set(operations.map(operation => operation.appointmentId).filter((id): id is string => !!id)),
+        planned: []
+      };
+
+      const results: BatchItemResult[] = [];
+      const prepared: PreparedOperation[] = [];
+
+      for (let index = 0; index < operations.length; index++) {
+        const operation = operations[index];
+        const base = { index, action: operation.action, appointmentId: operation.appointmentId };
+
+        try {
+          const { error: operationError } = batchOperationSchema.validate(operation);
+          if (operationError) {
+            throw new ValidationError(`Validation error: ${operationError.details.map(d => d.message).join(', ')}`);
+          }
+
+          if (operation.appointmentId) {
+            if (seenIds.has(operation.appointmentId)) {
+              throw new ValidationError('Each appointment can only appear once per batch');
+            }
+            seenIds.add(operation.appointmentId);
+          }
+
+          // Occurrences are stored as exceptions of their series and take their own path
+          if (operation.appointmentId && Occurrences.parseId(operation.appointmentId)) {
+            if (atomic) {
+              throw new ValidationError('Occurrences of a recurring series cannot be part of an all-or-nothing batch');
+            }
+            // Written straight away, so later operations see it as stored
+            batch.excludeIds.delete(operation.appointmentId);
+            results.push({ ...base, ...(await this.runOccurrenceOperation(tenantId, userId, userRole, operation, requestId)) });
+            continue;
+          }
+
+          const write = await this.prepareOperation(tenantId, userId, userRole, operation, batch);
+          if (!write) {
+            throw new NotFoundError('Appointment not found');
+          }
+
+          prepared.push({ index, operation, write });
+          batch.planned.push(...this.plannedAppointments(write.appointment));
+        } catch (operationError) {
+          // The stored appointment stays as it is, so later operations must see it
+          if (operation.appointmentId) {
+            batch.excludeIds.delete(operation.appointmentId);
+          }
+          results.push({ ...base, ...this.toFailure(operationError) });
+        }
+      }
+
+      if (atomic) {
+        results.push(...(await this.commitAtomicBatch(prepared, results.length > 0, requestId)));
+      } else {
+        results.push(...(await this.commitBatch(prepared, requestId)));
+      }
+
+      results.sort((a, b) => a.index - b.index);
+      const succeeded = results.filter(result => result.status === 'succeeded').length;
+
+      this.logger.info('Appointment batch processed', { tenantId, userId, atomic, succeeded, total: results.length });
+      return {
+        atomic,
+        succeeded,
+        failed: results.length - succeeded,
+        results
+      };
+    } catch (error) {
+      this.logger.error('Error processing appointment batch', error);
+      throw error;
+    }
+  }
+
+  // Creates any number of appointments, checked for conflicts against each
+  // other and the stored calendar. With `dryRun` nothing is written and the
+  // results show what would happen; `sendInvitations: false` creates them
+  // without mailing their attendees.
+  async createAppointments(
+    tenantId: string,
+    userId: string,
+    userRole: string,
+    items: any[],
+    options: { dryRun?: boolean; sendInvitations?: boolean } = {},
+    requestId?: string
+  ): Promise<BatchItemResult[]> {
+    try {
+      const batch: BatchContext = { excludeIds: new Set(), planned: [] };
+      const results: BatchItemResult[] = [];
+      const prepared: PreparedOperation[] = [];
+
+      for (let index = 0; index < items.length; index++) {
+        const operation: BatchOperation = { action: 'create', data: items[index] };
+
+        try {
+          const write = await this.appointmentService.prepareCreate(tenantId, userId, userRole, operation.data, batch);
+          if (options.sendInvitations === false) {
+            delete write.invitations;
+          }
+          batch.planned.push(...this.plannedAppointments(write.appointment));
+
+          if (options.dryRun) {
+            results.push({ index, action: 'create', status: 'succeeded', statusCode: 201, appointment: write.appointment });
+          } else {
+            prepared.push({ index, operation, write });
+          }
+        } catch (error) {
+          results.push({ index, action: 'create', ...this.toFailure(error) });
+        }
+      }
+
+      results.push(...(await this.commitBatch(prepared, requestId)));
+      results.sort((a, b) => a.index - b.index);
+
+      this.logger.info('Appointments created', {
+        tenantId,
+        userId,
+        dryRun: !!options.dryRun,
+        succeeded: results.filter(result => result.status === 'succeeded').length,
+        total: results.length
+      });
+      return results;
+    } catch (error) {
+      this.logger.error('Error creating appointments', error);
+      throw error;
+    }
+  }
+
+  private async prepareOperation(
+    tenantId: string,
+    userId: string,
+    userRole: string,
+    operation: BatchOperation,
+    batch: BatchContext
+  ): Promise<PreparedWrite | null> {
+    switch (operation.action) {
+      case 'create':
+        return this.appointmentService.prepareCreate(tenantId, userId, userRole, operation.data, batch);
+      case 'update':
+        return this.appointmentService.prepareUpdate(
+          tenantId,
+          operation.appointmentId!,
+          userId,
+          userRole,
+          this.appointmentService.validateUpdate(operation.data),
+          operation.version,
+          batch
+        );
+      case 'cancel':
+        return this.appointmentService.prepareUpdate(
+          tenantId, operation.appointmentId!, userId, userRole, { status: 'cancelled' }, operation.version, batch
+        );
+      case 'delete':
+        return this.appointmentService.prepareDelete(tenantId, operation.appointmentId!, userId, userRole, operation.version);
+    }
+  }
+
+  // What a prepared write leaves in the calendar for later operations to be
+  // checked against: nothing once deleted, and the occurrences of a series
+  private plannedAppointments(appointment: Appointment): Appointment[] {
+    if (appointment.deletedAt) {
+      return [];
+    }
+    return appointment.recurrenceRule ? Occurrences.upcoming(appointment) : [appointment];
+  }
+
+  // Occurrence changes involve the series master as well, so they are applied
+  // one at a time through the regular methods
+  private async runOccurrenceOperation(
+    tenantId: string,
+    userId: string,
+    userRole: string,
+    operation: BatchOperation,
+    requestId?: string
+  ): Promise<Pick<BatchItemResult, 'status' | 'statusCode' | 'appointment'>> {
+    const appointmentId = operation.appointmentId!;
+
+    if (operation.action === 'delete') {
+      if (!(await this.appointmentService.deleteAppointment(tenantId, appointmentId, userId, userRole, undefined, requestId, operation.version))) {
+        throw new NotFoundError('Appointment not found');
+      }
+      return { status: 'succeeded', statusCode: 200 };
+    }
+
+    const appointment = await this.appointmentService.updateAppointment(
+      tenantId,
+      appointmentId,
+      userId,
+      userRole,
+      operation.action === 'cancel' ? { status: 'cancelled' } : operation.data,
+      undefined,
+      requestId,
+      operation.version
+    );
+    if (!appointment) {
+      throw new NotFoundError('Appointment not found');
+    }
+    return { status: 'succeeded', statusCode: 200, appointment };
+  }
+
+  // Best-effort commit: new appointments go out in batch writes, changes to
+  // existing ones individually so each keeps its version check
+  private async commitBatch(prepared: PreparedOperation[], requestId?: string): Promise<BatchItemResult[]> {
+    const results: BatchItemResult[] = [];
+    const creates = prepared.filter(entry => entry.write.write.Put);
+    const unwritten = await this.batchPut(creates.map(entry => entry.write.write.Put!.Item));
+
+    for (const entry of prepared) {
+      try {
+        if (entry.write.write.Put) {
+          if (unwritten.has(entry.write.write.Put.Item.PK)) {
+            throw new AppError(503, 'Appointment could not be saved, please retry');
+          }
+        } else {
+          await AppointmentItems.writeIfUnchanged(() =>
+            this.dynamodb.update(entry.write.write.Update as DynamoDB.DocumentClient.UpdateItemInput).promise());
+        }
+        results.push(await this.completeOperation(entry, requestId));
+      } catch (error) {
+        results.push({
+          index: entry.index,
+          action: entry.operation.action,
+          appointmentId: entry.write.appointment.appointmentId,
+          ...this.toFailure(error)
+        });
+      }
+    }
+
+    return results;
+  }
+
+  // All-or-nothing commit in one transaction. Nothing is written if any
+  // operation already failed validation.
+  private async commitAtomicBatch(
+    prepared: PreparedOperation[],
+    hasFailures: boolean,
+    requestId?: string
+  ): Promise<BatchItemResult[]> {
+    const aborted = (entry: PreparedOperation): BatchItemResult => ({
+      index: entry.index,
+      action: entry.operation.action,
+      appointmentId: entry.operation.appointmentId,
+      status: 'aborted',
+      statusCode: 424,
+      error: { message: 'Not applied because another operation in the batch failed' }
+    });
+
+    if (hasFailures) {
+      return prepared.map(aborted);
+    }
+
+    if (prepared.length > 0) {
+      try {
+        await this.dynamodb.transactWrite({
+          TransactItems: prepared.map(entry => entry.write.write)
+        }).promise();
+      } catch (error) {
+        if (error.code !== 'TransactionCanceledException') {
+          throw error;
+        }
+
+        // The message lists one cancellation reason per item, e.g. "[None, ConditionalCheckFailed]"
+        const reasons = (/\[(.*)\]/.exec(error.message)?.[1] || '').split(', ');
+        return prepared.map((entry, position) => reasons[position] === 'ConditionalCheckFailed'
+          ? {
+            index: entry.index,
+            action: entry.operation.action,
+            appointmentId: entry.operation.appointmentId,
+            ...this.toFailure(new PreconditionFailedError('Appointment has been modified since it was loaded'))
+          }
+          : aborted(entry));
+      }
+    }
+
+    const results: BatchItemResult[] = [];
+    for (const entry of prepared) {
+      results.push(await this.completeOperation(entry, requestId));
+    }
+    return results;
+  }
+
+  private async completeOperation(entry: PreparedOperation, requestId?: string): Promise<BatchItemResult> {
+    await this.appointmentService.completeWrite(entry.write, requestId);
+
+    return {
+      index: entry.index,
+      action: entry.operation.action,
+      appointmentId: entry.write.appointment.appointmentId,
+      status: 'succeeded',
+      statusCode: entry.operation.action === 'create' ? 201 : 200,
+      ...(entry.operation.action !== 'delete' && { appointment: entry.write.appointment })
+    };
+  }
+
+  // Puts new items in chunks of 25, retrying the ones DynamoDB leaves
+  // unprocessed. Returns the partition keys of items that were not written.
+  private async batchPut(items: DynamoDB.DocumentClient.PutItemInputAttributeMap[]): Promise<Set<string>> {
+    const tableName = process.env['APPOINTMENTS_TABLE_NAME']!;
+    const unwritten = new Set<string>();
+
+    for (let i = 0; i < items.length; i += 25) {
+      let requests: DynamoDB.DocumentClient.WriteRequests = items.slice(i, i + 25).map(Item => ({ PutRequest: { Item } }));
+
+      for (let attempt = 1; requests.length > 0 && attempt <= BATCH_WRITE_ATTEMPTS; attempt++) {
+        if (attempt > 1) {
+          await new Promise(resolve => setTimeout(resolve, 100 * 2 ** attempt));
+        }
+        try {
+          const result = await this.dynamodb.batchWrite({ RequestItems: { [tableName]: requests } }).promise();
+          requests = result.UnprocessedItems?.[tableName] || [];
+        } catch (error) {
+          this.logger.error('Error writing appointment batch', error);
+          break;
+        }
+      }
+
+      requests.forEach(request => unwritten.add(request.PutRequest!.Item.PK));
+    }
+
+    return unwritten;
+  }
+
+  private toFailure(error: any): Pick<BatchItemResult, 'status' | 'statusCode' | 'error'> {
+    if (error instanceof AppError) {
+      return {
+        status: 'failed',
+        statusCode: error.statusCode,
+        error: { message: error.message, ...(error.details && { details: error.details }) }
+      };
+    }
+
+    this.logger.error('Error processing batch operation', error);
+    return { status: 'failed', statusCode: 500, error: { message: 'Internal server error' } };
+  }
+}
@@ -0,0 +1,291 @@
+import moment from 'moment-timezone';
+import Joi from 'joi';
+import { Appointment, AppointmentService, TimeSlot } from './AppointmentService';
+import { RsvpService } from './RsvpService';
+import { AvailabilityService } from './AvailabilityService';
+import { ServiceCatalogService, Price } from './ServiceCatalogService';
+import { Tenant, TenantService, TenantSettings } from './TenantService';
+import { Logger } from '../utils/Logger';
+import { SignedToken } from '../utils/SignedToken';
+import { ConflictError, NotFoundError, UnprocessableEntityError, ValidationError } from '../utils/Errors';
+import { MailTransport, createMailTransport } from '../notifications/MailTransport';
+
+// Forms sent back sooner than this after the page was loaded are taken for bots
+const MIN_FORM_SECONDS = 3;
+
+// Forms older than this have to be reloaded, so tokens can't be collected and reused
+const MAX_FORM_SECONDS = 2 * 60 * 60;
+
+const MAX_SLOT_RANGE_DAYS = 14;
+
+const slotsQuerySchema = Joi.object({
+  serviceId: Joi.string().required().max(64),
+  startDate: Joi.string().required(),
+  endDate: Joi.string().required()
+});
+
+const bookingSchema = Joi.object({
+  serviceId: Joi.string().required().max(64),
+  startTime: Joi.date().iso().required(),
+  name: Joi.string().trim().required().min(1).max(100),
+  email: Joi.string().email().required(),
+  phone: Joi.string().trim().optional().max(30),
+  notes: Joi.string().trim().optional().allow('').max(1000),
+  formToken: Joi.string().required().max(500),
+  website: Joi.string().optional().allow('').max(200) // Honeypot, hidden from people
+});
+
+// What the public page shows of a catalog service
+export interface PublicService {
+  serviceId: string;
+  name: string;
+  description?: string;
+  durationMinutes: number;
+  price?: Price;
+}
+
+export interface BookingPage {
+  tenant: { name: string; slug: string; timezone: string };
+  services: PublicService[];
+  formToken: string; // Sent back with the booking
+}
+
+export interface BookingSlots {
+  serviceId: string;
+  timezone: string;
+  durationMinutes: number;
+  slots: TimeSlot[];
+}
+
+// What the customer sees of the appointment they booked
+export interface Booking {
+  appointmentId: string;
+  title: string;
+  startTime: string;
+  endTime: string;
+  timezone: string;
+  status: Appointment['status'];
+}
+
+interface BookableTenant {
+  tenant: Tenant;
+  settings: TenantSettings;
+  hostId: string; // Whose calendar public bookings go into
+}
+
+// Self-service booking for customers without an account, through the tenant's
+// public page. Bookings start out scheduled and are confirmed from a link mailed
+// to the customer. Bots are kept out with a hidden honeypot field and a signed
+// form token that has to be neither too fresh nor too old; rate limits are
+// applied by the handler.
+export class BookingService {
+  private tenantService: TenantService;
+  private serviceCatalogService: ServiceCatalogService;
+  private availabilityService: AvailabilityService;
+  private appointmentService: AppointmentService;
+  private rsvpService: RsvpService;
+  private mailTransport: MailTransport;
+  private logger: Logger;
+
+  constructor(mailTransport: MailTransport = createMailTransport()) {
+    this.tenantService = new TenantService();
+    this.serviceCatalogService = new ServiceCatalogService();
+    this.availabilityService = new AvailabilityService();
+    this.appointmentService = new AppointmentService();
+    this.rsvpService = new RsvpService();
+    this.mailTransport = mailTransport;
+    this.logger = new Logger('BookingService');
+  }
+
+  async getBookingPage(slug: string, now: Date = new Date()): Promise<BookingPage> {
+    try {
+      const { tenant, settings } = await this.loadTenant(slug);
+      const services = await this.serviceCatalogService.listServices(tenant.tenantId);
+
+      return {
+        tenant: { name: tenant.name, slug: tenant.slug!, timezone: settings.timezone },
+        services: services.map(service => ({
+          serviceId: service.serviceId,
+          name: service.name,
+          ...(service.description && { description: service.description }),
+          durationMinutes: service.durationMinutes,
+          ...(service.price && { price: service.price })
+        })),
+        formToken: SignedToken.sign({ issuedAt: now.getTime() }, this.formAudience(tenant.tenantId))
+      };
+    } catch (error) {
+      this.logger.error('Error getting booking page', error);
+      throw error;
+    }
+  }
+
+  // Open slots for the service in the host's calendar that leave room in every
+  // resource the service needs. Buffers are checked when booking.
+  async findSlots(slug: string, query: any): Promise<BookingSlots> {
+    try {
+      const { error, value } = slotsQuerySchema.validate(query || {});
+      if (error) {
+        throw new ValidationError('Validation failed', { errors: error.details.map(d => d.message) });
+      }
+
+      const { tenant, settings, hostId } = await this.loadTenant(slug);
+      const service = await this.serviceCatalogService.getService(tenant.tenantId, value.serviceId);
+      if (!service) {
+        throw new NotFoundError('Service not found');
+      }
+
+      const start = moment.tz(value.startDate, moment.ISO_8601, settings.timezone);
+      const end = moment.tz(value.endDate, moment.ISO_8601, settings.timezone);
+      if (!start.isValid() || !end.isValid() || end.diff(start, 'days', true) > MAX_SLOT_RANGE_DAYS) {
+        throw new ValidationError(`Slots can be listed for up to ${MAX_SLOT_RANGE_DAYS} days at a time`);
+      }
+
+      const availabilityQuery = {
+        startDate: value.startDate,
+        endDate: value.endDate,
+        duration: service.durationMinutes,
+        userId: hostId
+      };
+      const [first, ...others] = await Promise.all(
+        (service.resourceIds.length > 0 ? service.resourceIds : [undefined]).map(resourceId =>
+          this.availabilityService.findAvailableSlots(tenant.tenantId, hostId, { ...availabilityQuery, resourceId }))
+      );
+      const slots = first.slots.filter(slot =>
+        others.every(other => other.slots.some(candidate => candidate.startTime === slot.startTime)));
+
+      return {
+        serviceId: service.serviceId,
+        timezone: settings.timezone,
+        durationMinutes: service.durationMinutes,
+        slots
+      };
+    } catch (error) {
+      this.logger.error('Error finding booking slots', error);
+      throw error;
+    }
+  }
+
+  async book(slug: string, data: any, requestId?: string, now: Date = new Date()): Promise<Booking> {
+    try {
+      const { error, value } = bookingSchema.validate(data || {});
+      if (error) {
+        throw new ValidationError('Validation failed', { errors: error.details.map(d => d.message) });
+      }
+
+      const { tenant, settings, hostId } = await this.loadTenant(slug);
+      this.checkHuman(tenant.tenantId, value, now);
+
+      let appointment: Appointment;
+      try {
+        appointment = await this.appointmentService.createAppointment(tenant.tenantId, hostId, 'tenant-user', {
+          serviceId: value.serviceId,
+          startTime: value.startTime,
+          timezone: settings.timezone,
+          ...(value.notes && { description: value.notes }),
+          customer: {
+            name: value.name,
+            email: value.email,
+            ...(value.phone && { phone: value.phone })
+          }
+        }, requestId);
+      } catch (error) {
+        // The details name other people's appointments, which customers mustn't see
+        if (error instanceof ConflictError || error instanceof UnprocessableEntityError) {
+          throw new ConflictError('That time is no longer available');
+        }
+        throw error;
+      }
+
+      await this.sendConfirmation(tenant, appointment, settings.timezone);
+
+      this.logger.info('Booking created', { tenantId: tenant.tenantId, appointmentId: appointment.appointmentId });
+      return this.toBooking(appointment, settings.timezone);
+    } catch (error) {
+      this.logger.error('Error creating booking', error);
+      throw error;
+    }
+  }
+
+  async confirm(slug: string, appointmentId: string, token: string, requestId?: string): Promise<Booking | null> {
+    try {
+      const { tenant, settings } = await this.loadTenant(slug);
+      const payload = SignedToken.verify<{ email?: string }>(token, this.confirmationAudience(tenant.tenantId, appointmentId));
+      if (!payload?.email) {
+        return null;
+      }
+
+      const appointment = await this.rsvpService.confirmBooking(tenant.tenantId, appointmentId, payload.email, requestId);
+      return appointment ? this.toBooking(appointment, settings.timezone) : null;
+    } catch (error) {
+      this.logger.error('Error confirming booking', error);
+      throw error;
+    }
+  }
+
+  // Suspended tenants and tenants without public booking look like unknown ones
+  private async loadTenant(slug: string): Promise<BookableTenant> {
+    const tenant = await this.tenantService.getTenantBySlug(slug);
+    const settings = tenant && tenant.status !== 'suspended' ? await this.tenantService.getSettings(tenant.tenantId) : null;
+    if (!tenant || !settings?.publicBooking?.enabled || !settings.publicBooking.userId) {
+      throw new NotFoundError('Booking page not found');
+    }
+    return { tenant, settings, hostId: settings.publicBooking.userId };
+  }
+
+  // Both checks fail with the same message, so bots learn nothing from it
+  private checkHuman(tenantId: string, value: any, now: Date): void {
+    const form = SignedToken.verify<{ issuedAt?: number }>(value.formToken, this.formAudience(tenantId));
+    const ageSeconds = form?.issuedAt ? (now.getTime() - form.issuedAt) / 1000 : -1;
+    if (value.website || ageSeconds < MIN_FORM_SECONDS || ageSeconds > MAX_FORM_SECONDS) {
+      this.logger.warn('Booking rejected as spam', { tenantId, honeypot: Boolean(value.website), ageSeconds });
+      throw new ValidationError('The booking could not be accepted. Please reload the page and try again.');
+    }
+  }
+
+  // Best effort: the booking stands even if the mail can't be sent
+  private async sendConfirmation(tenant: Tenant, appointment: Appointment, timezone: string): Promise<void> {
+    try {
+      const customer = appointment.customer!;
+      const start = moment.tz(appointment.startTime, timezone);
+      const params = new URLSearchParams({
+        appointmentId: appointment.appointmentId,
+        token: SignedToken.sign({ email: customer.email }, this.confirmationAudience(tenant.tenantId, appointment.appointmentId))
+      });
+
+      await this.mailTransport.send({
+        to: `${customer.name} <${customer.email}>`,
+        subject: `Please confirm: ${appointment.title} @ ${start.format('MMM D, YYYY h:mm A z')}`,
+        text: [
+          `Hi ${customer.name},`,
+          '',
+          `Thanks for booking "${appointment.title}" with ${tenant.name} on `
+            + `${start.format('dddd, MMMM D, YYYY h:mm A')} - ${moment.tz(appointment.endTime, timezone).format('h:mm A z')}.`,
+          '',
+          'Please confirm your booking:',
+          `${process.env['APP_BASE_URL'] || 'http://localhost:3000'}/book/${tenant.slug}/?${params.toString()}`
+        ].join('\n')
+      });
+    } catch (error) {
+      this.logger.error('Error sending booking confirmation', error);
+    }
+  }
+
+  private toBooking(appointment: Appointment, timezone: string): Booking {
+    return {
+      appointmentId: appointment.appointmentId,
+      title: appointment.title,
+      startTime: appointment.startTime,
+      endTime: appointment.endTime,
+      timezone: appointment.timezone || timezone,
+      status: appointment.status
+    };
+  }
+
+  private formAudience(tenantId: string): string {
+    return `booking-form:${tenantId}`;
+  }
+
+  private confirmationAudience(tenantId: string, appointmentId: string): string {
+    return `booking-confirmation:${tenantId}:${appointmentId}`;
+  }
+}
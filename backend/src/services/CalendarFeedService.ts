@@ -0,0 +1,230 @@
+import { DynamoDB } from 'aws-sdk';
+import { v4 as uuidv4 } from 'uuid';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import moment from 'moment';
+import Joi from 'joi';
+import { AppointmentService } from './AppointmentService';
+import { isAdmin } from './AuthService';
+import { TenantService } from './TenantService';
+import type { User } from './UserService';
+import { Logger } from '../utils/Logger';
+import { ForbiddenError, NotFoundError, ValidationError } from '../utils/Errors';
+import { ICalendar } from '../utils/ICalendar';
+
+// Feeds cover this window around the time they are fetched
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 365;
+
+const createFeedSchema = Joi.object({
+  scope: Joi.string().valid('user', 'tenant').default('user'),
+  name: Joi.string().optional().max(100)
+});
+
+export type FeedScope = 'user' | 'tenant';
+
+export interface CalendarFeed {
+  feedId: string;
+  tenantId: string;
+  scope: FeedScope;
+  userId: string; // Owner; user feeds show this user's appointments
+  name?: string;
+  createdAt: string;
+}
+
+// Only returned when the feed is created; the stored feed keeps a hash of the token
+export interface CreatedCalendarFeed extends CalendarFeed {
+  token: string;
+}
+
+export class CalendarFeedService {
+  private dynamodb: DynamoDB.DocumentClient;
+  private appointmentService: AppointmentService;
+  private tenantService: TenantService;
+  private logger: Logger;
+
+  constructor() {
+    this.dynamodb = new DynamoDB.DocumentClient();
+    this.appointmentService = new AppointmentService();
+    this.tenantService = new TenantService();
+    this.logger = new Logger('CalendarFeedService');
+  }
+
+  // Calendar clients can't send Bearer headers, so a feed is read with a secret
+  // token in its URL. Anyone can subscribe to their own appointments; feeds of
+  // the whole tenant are for admins.
+  async createFeed(tenantId: string, userId: string, userRole: string, data: any): Promise<CreatedCalendarFeed> {
+    try {
+      const { error, value } = createFeedSchema.validate(data || {});
+      if (error) {
+        throw new ValidationError('Validation failed', { errors: error.details.map(d => d.message) });
+      }
+
+      if (value.scope === 'tenant' && !isAdmin(userRole)) {
+        throw new ForbiddenError('Only tenant admins can subscribe to the tenant calendar');
+      }
+
+      const token = randomBytes(32).toString('base64url');
+      const feed: CalendarFeed = {
+        feedId: uuidv4(),
+        tenantId,
+        scope: value.scope,
+        userId,
+        ...(value.name && { name: value.name }),
+        createdAt: new Date().toISOString()
+      };
+
+      await this.dynamodb.put({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Item: {
+          ...this.buildKeys(feed),
+          ...feed,
+          tokenHash: this.hash(token)
+        },
+        ConditionExpression: 'attribute_not_exists(PK)'
+      }).promise();
+
+      this.logger.info('Calendar feed created', { feedId: feed.feedId, tenantId, userId, scope: feed.scope });
+      return { ...feed, token };
+    } catch (error) {
+      this.logger.error('Error creating calendar feed', error);
+      throw error;
+    }
+  }
+
+  // A user's own feeds; admins see every feed in the tenant
+  async listFeeds(tenantId: string, userId: string, userRole: string): Promise<CalendarFeed[]> {
+    try {
+      const seesAll = isAdmin(userRole);
+      const items: DynamoDB.DocumentClient.AttributeMap[] = [];
+      const params: DynamoDB.DocumentClient.QueryInput = {
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        IndexName: 'GSI1',
+        KeyConditionExpression: seesAll
+          ? 'GSI1PK = :feedsKey'
+          : 'GSI1PK = :feedsKey AND begins_with(GSI1SK, :userPrefix)',
+        ExpressionAttributeValues: {
+          ':feedsKey': `TENANT#${tenantId}#FEEDS`,
+          ...(!seesAll && { ':userPrefix': `USER#${userId}#` })
+        }
+      };
+
+      do {
+        const result = await this.dynamodb.query(params).promise();
+        items.push(...(result.Items || []));
+        params.ExclusiveStartKey = result.LastEvaluatedKey;
+      } while (params.ExclusiveStartKey);
+
+      return items.map(item => this.toFeed(item));
+    } catch (error) {
+      this.logger.error('Error listing calendar feeds', error);
+      throw error;
+    }
+  }
+
+  // Revoked feeds stop working immediately; subscribers get a 404
+  async revokeFeed(tenantId: string, feedId: string, userId: string, userRole: string): Promise<boolean> {
+    try {
+      const item = await this.getFeedItem(tenantId, feedId);
+      if (!item) {
+        return false;
+      }
+
+      if (!isAdmin(userRole) && item.userId !== userId) {
+        throw new ForbiddenError('Access denied');
+      }
+
+      await this.dynamodb.delete({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Key: { PK: item.PK, SK: item.SK }
+      }).promise();
+
+      this.logger.info('Calendar feed revoked', { feedId, tenantId, userId });
+      return true;
+    } catch (error) {
+      this.logger.error('Error revoking calendar feed', error);
+      throw error;
+    }
+  }
+
+  // The feed as an iCalendar document. Unknown feeds and wrong tokens look the
+  // same, so feed IDs can't be probed. A feed reads with its owner's rights as
+  // they are now: it stops while the owner is disabled, and a tenant feed once
+  // the owner is no longer an admin.
+  async renderFeed(tenantId: string, feedId: string, token: string | undefined): Promise<string> {
+    try {
+      const item = await this.getFeedItem(tenantId, feedId);
+      if (!item || !token || !this.matches(token, item.tokenHash)) {
+        throw new NotFoundError('Calendar feed not found');
+      }
+
+      const feed = this.toFeed(item);
+      const owner = await this.getOwner(tenantId, feed.userId);
+      if (!owner || owner.status === 'disabled' || (feed.scope === 'tenant' && !isAdmin(owner.role))) {
+        throw new NotFoundError('Calendar feed not found');
+      }
+      const from = moment.utc().subtract(FEED_PAST_DAYS, 'days').toISOString();
+      const to = moment.utc().add(FEED_FUTURE_DAYS, 'days').toISOString();
+
+      const [appointments, tenant] = await Promise.all([
+        this.appointmentService.listCalendarEntries(tenantId, feed.scope === 'user' ? feed.userId : undefined, from, to),
+        this.tenantService.getTenant(tenantId)
+      ]);
+
+      return ICalendar.serialize(appointments, {
+        name: feed.name || (tenant ? `${tenant.name} appointments` : 'Appointments')
+      });
+    } catch (error) {
+      this.logger.error('Error rendering calendar feed', error);
+      throw error;
+    }
+  }
+
+  private async getFeedItem(tenantId: string, feedId: string): Promise<DynamoDB.DocumentClient.AttributeMap | undefined> {
+    const result = await this.dynamodb.get({
+      TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+      Key: {
+        PK: `TENANT#${tenantId}#FEED#${feedId}`,
+        SK: `FEED#${feedId}`
+      }
+    }).promise();
+
+    return result.Item;
+  }
+
+  // Super admins aren't bound to a tenant
+  private async getOwner(tenantId: string, userId: string): Promise<User | null> {
+    const result = await this.dynamodb.get({
+      TableName: process.env['USERS_TABLE_NAME']!,
+      Key: { userId }
+    }).promise();
+
+    const user = result.Item as User | undefined;
+    return user && (user.tenantId === tenantId || user.role === 'super-admin') ? user : null;
+  }
+
+  // Feeds live next to the appointments and are indexed per tenant on GSI1
+  // under their own partition key
+  private buildKeys(feed: CalendarFeed): DynamoDB.DocumentClient.PutItemInputAttributeMap {
+    return {
+      PK: `TENANT#${feed.tenantId}#FEED#${feed.feedId}`,
+      SK: `FEED#${feed.feedId}`,
+      GSI1PK: `TENANT#${feed.tenantId}#FEEDS`,
+      GSI1SK: `USER#${feed.userId}#${feed.createdAt}#${feed.feedId}`
+    };
+  }
+
+  private toFeed(item: DynamoDB.DocumentClient.AttributeMap): CalendarFeed {
+    const { PK, SK, GSI1PK, GSI1SK, tokenHash, ...feed } = item;
+    return feed as CalendarFeed;
+  }
+
+  private hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private matches(token: string, tokenHash: string): boolean {
+    const expected = Buffer.from(tokenHash || '', 'hex');
+    const actual = Buffer.from(this.hash(token), 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+}
@@ -0,0 +1,174 @@
+import Joi from 'joi';
+import { BatchService, BatchItemResult } from './BatchService';
+import { TenantService } from './TenantService';
+import { Logger } from '../utils/Logger';
+import { NotFoundError, ValidationError } from '../utils/Errors';
+import { ICalendar, ParsedEvent } from '../utils/ICalendar';
+
+const MAX_IMPORT_EVENTS = 500;
+
+// Roughly what fits in an API Gateway request body
+const MAX_CALENDAR_LENGTH = 5 * 1024 * 1024;
+
+const importSchema = Joi.object({
+  calendar: Joi.string().required().max(MAX_CALENDAR_LENGTH),
+  dryRun: Joi.boolean().default(true), // Preview unless the caller asks to commit
+  overrideConflicts: Joi.boolean().default(false),
+  overrideBusinessHours: Joi.boolean().default(false)
+});
+
+export type ImportItemStatus = 'ready' | 'created' | 'conflict' | 'invalid' | 'skipped' | 'failed';
+
+const IMPORT_ITEM_STATUSES: ImportItemStatus[] = ['ready', 'created', 'conflict', 'invalid', 'skipped', 'failed'];
+
+export interface ImportItem {
+  index: number; // Position of the event in the file
+  uid?: string;
+  title?: string;
+  startTime?: string;
+  endTime?: string;
+  recurrenceRule?: string;
+  status: ImportItemStatus;
+  appointmentId?: string; // Once created
+  errors?: string[];
+  warnings?: string[];
+  conflicts?: any[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  timezone: string; // Used for times that don't name their own zone
+  summary: { total: number } & { [status in ImportItemStatus]: number };
+  items: ImportItem[];
+}
+
+export class CalendarImportService {
+  private batchService: BatchService;
+  private tenantService: TenantService;
+  private logger: Logger;
+
+  constructor() {
+    this.batchService = new BatchService();
+    this.tenantService = new TenantService();
+    this.logger = new Logger('CalendarImportService');
+  }
+
+  // Reads the events of an .ics file and creates them as appointments of the
+  // importing user. A dry run reports what would be created, and which events
+  // conflict or fail validation, without writing anything.
+  async importCalendar(
+    tenantId: string,
+    userId: string,
+    userRole: string,
+    request: any,
+    requestId?: string
+  ): Promise<ImportReport> {
+    try {
+      const { error, value } = importSchema.validate(request || {});
+      if (error) {
+        throw new ValidationError('Validation failed', { errors: error.details.map(d => d.message) });
+      }
+
+      const settings = await this.tenantService.getSettings(tenantId);
+      if (!settings) {
+        throw new NotFoundError('Tenant not found');
+      }
+
+      let events: ParsedEvent[];
+      try {
+        events = ICalendar.parse(value.calendar, settings.timezone);
+      } catch (parseError) {
+        throw new ValidationError('The file is not a valid iCalendar (.ics) file');
+      }
+
+      if (events.length > MAX_IMPORT_EVENTS) {
+        throw new ValidationError(`Imports are limited to ${MAX_IMPORT_EVENTS} events per file`);
+      }
+
+      const items: ImportItem[] = events.map((event, index) => ({
+        index,
+        ...(event.uid && { uid: event.uid }),
+        title: event.data.title,
+        startTime: event.data.startTime,
+        endTime: event.data.endTime,
+        ...(event.data.recurrenceRule && { recurrenceRule: event.data.recurrenceRule }),
+        status: 'ready',
+        ...(event.warnings.length > 0 && { warnings: event.warnings })
+      }));
+
+      // Only events that could be read are handed to the appointment service
+      const candidates: number[] = [];
+      events.forEach((event, index) => {
+        if (event.recurrenceId) {
+          items[index].status = 'skipped';
+          items[index].errors = ['Changes to single occurrences of a recurring event are not imported'];
+        } else if (event.errors.length > 0) {
+          items[index].status = 'invalid';
+          items[index].errors = event.errors;
+        } else {
+          candidates.push(index);
+        }
+      });
+
+      const results = await this.batchService.createAppointments(
+        tenantId,
+        userId,
+        userRole,
+        candidates.map(index => ({
+          ...events[index].data,
+          overrideConflicts: value.overrideConflicts,
+          overrideBusinessHours: value.overrideBusinessHours
+        })),
+        // Imported events were already sent out by the calendar they came from
+        { dryRun: value.dryRun, sendInvitations: false },
+        requestId
+      );
+
+      results.forEach(result => {
+        Object.assign(items[candidates[result.index]], this.toItemResult(result, value.dryRun));
+      });
+
+      const report: ImportReport = {
+        dryRun: value.dryRun,
+        timezone: settings.timezone,
+        summary: this.summarize(items),
+        items
+      };
+
+      this.logger.info('Calendar imported', { tenantId, userId, dryRun: report.dryRun, ...report.summary });
+      return report;
+    } catch (error) {
+      this.logger.error('Error importing calendar', error);
+      throw error;
+    }
+  }
+
+  private toItemResult(result: BatchItemResult, dryRun: boolean): Partial<ImportItem> {
+    if (result.status === 'succeeded') {
+      return dryRun
+        ? { status: 'ready' }
+        : { status: 'created', appointmentId: result.appointmentId };
+    }
+
+    const message = result.error?.message || 'Internal server error';
+    switch (result.statusCode) {
+      case 409:
+        return { status: 'conflict', errors: [message], conflicts: result.error?.details?.conflicts || [] };
+      case 400: {
+        // Events outside business hours say which day or time is in the way
+        const violations = (result.error?.details?.errors || []).filter((error: any) => error?.message);
+        return { status: 'invalid', errors: violations.length > 0 ? violations.map((error: any) => error.message) : [message] };
+      }
+      default:
+        return { status: 'failed', errors: [message] };
+    }
+  }
+
+  private summarize(items: ImportItem[]): ImportReport['summary'] {
+    const summary = { total: items.length } as ImportReport['summary'];
+    IMPORT_ITEM_STATUSES.forEach(status => {
+      summary[status] = items.filter(item => item.status === status).length;
+    });
+    return summary;
+  }
+}
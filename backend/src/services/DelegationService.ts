@@ -0,0 +1,184 @@
+import { DynamoDB } from 'aws-sdk';
+import Joi from 'joi';
+import { isAdmin } from './AuthService';
+import { UserService } from './UserService';
+import { Logger } from '../utils/Logger';
+import { ForbiddenError, UnprocessableEntityError, ValidationError } from '../utils/Errors';
+
+// What a grant is created from
+export interface DelegateGrant {
+  delegateId: string;
+}
+
+const grantSchema = Joi.object<DelegateGrant>({
+  delegateId: Joi.string().required().max(128)
+});
+
+// Someone allowed to book appointments into another user's calendar, such as
+// a receptionist for a doctor
+export interface Delegation {
+  tenantId: string;
+  ownerId: string; // Whose calendar
+  delegateId: string;
+  grantedBy: string;
+  createdAt: string;
+}
+
+// Delegate access to calendars. Users share their own calendar; admins may
+// share anyone's in the tenant, and can book into every calendar anyway.
+export class DelegationService {
+  private dynamodb: DynamoDB.DocumentClient;
+  private userService: UserService;
+  private logger: Logger;
+
+  constructor() {
+    this.dynamodb = new DynamoDB.DocumentClient();
+    this.userService = new UserService();
+    this.logger = new Logger('DelegationService');
+  }
+
+  // Who may book into the owner's calendar
+  async listDelegates(tenantId: string, ownerId: string, userId: string, userRole: string): Promise<Delegation[]> {
+    try {
+      this.checkOwner(ownerId, userId, userRole);
+
+      return await this.queryAll({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        KeyConditionExpression: 'PK = :ownerKey',
+        ExpressionAttributeValues: { ':ownerKey': this.ownerKey(tenantId, ownerId) }
+      });
+    } catch (error) {
+      this.logger.error('Error listing delegates', error);
+      throw error;
+    }
+  }
+
+  // The calendars the delegate may book into
+  async listDelegatedCalendars(tenantId: string, delegateId: string): Promise<Delegation[]> {
+    try {
+      return await this.queryAll({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :delegateKey',
+        ExpressionAttributeValues: { ':delegateKey': `TENANT#${tenantId}#DELEGATE#${delegateId}` }
+      });
+    } catch (error) {
+      this.logger.error('Error listing delegated calendars', error);
+      throw error;
+    }
+  }
+
+  async isDelegate(tenantId: string, ownerId: string, delegateId: string): Promise<boolean> {
+    try {
+      const result = await this.dynamodb.get({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Key: this.key(tenantId, ownerId, delegateId)
+      }).promise();
+
+      return Boolean(result.Item);
+    } catch (error) {
+      this.logger.error('Error checking delegate', error);
+      throw error;
+    }
+  }
+
+  // Granting again keeps a single grant. The delegate has to be a user of the tenant.
+  async grantDelegate(tenantId: string, ownerId: string, userId: string, userRole: string, data: DelegateGrant): Promise<Delegation> {
+    try {
+      this.checkOwner(ownerId, userId, userRole);
+
+      const { error, value } = grantSchema.validate(data || {});
+      if (error) {
+        throw new ValidationError('Validation failed', { errors: error.details.map(d => d.message) });
+      }
+      if (value.delegateId === ownerId) {
+        throw new ValidationError('Validation failed', { errors: ['"delegateId" must be someone other than the calendar owner'] });
+      }
+      if (!await this.userService.findMember(tenantId, value.delegateId)) {
+        throw new UnprocessableEntityError('The delegate is not a user of this tenant');
+      }
+
+      const delegation: Delegation = {
+        tenantId,
+        ownerId,
+        delegateId: value.delegateId,
+        grantedBy: userId,
+        createdAt: new Date().toISOString()
+      };
+
+      await this.dynamodb.put({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Item: {
+          ...this.key(tenantId, ownerId, delegation.delegateId),
+          GSI1PK: `TENANT#${tenantId}#DELEGATE#${delegation.delegateId}`,
+          GSI1SK: `OWNER#${ownerId}`,
+          ...delegation
+        }
+      }).promise();
+
+      this.logger.info('Delegate granted', { tenantId, ownerId, delegateId: delegation.delegateId, userId });
+      return delegation;
+    } catch (error) {
+      this.logger.error('Error granting delegate', error);
+      throw error;
+    }
+  }
+
+  // Appointments the delegate already booked stay in the owner's calendar
+  async revokeDelegate(tenantId: string, ownerId: string, delegateId: string, userId: string, userRole: string): Promise<boolean> {
+    try {
+      this.checkOwner(ownerId, userId, userRole);
+
+      const result = await this.dynamodb.delete({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Key: this.key(tenantId, ownerId, delegateId),
+        ReturnValues: 'ALL_OLD'
+      }).promise();
+
+      if (!result.Attributes) {
+        return false;
+      }
+
+      this.logger.info('Delegate revoked', { tenantId, ownerId, delegateId, userId });
+      return true;
+    } catch (error) {
+      this.logger.error('Error revoking delegate', error);
+      throw error;
+    }
+  }
+
+  private checkOwner(ownerId: string, userId: string, userRole: string): void {
+    if (ownerId !== userId && !isAdmin(userRole)) {
+      throw new ForbiddenError('You can only manage delegates of your own calendar');
+    }
+  }
+
+  private async queryAll(params: DynamoDB.DocumentClient.QueryInput): Promise<Delegation[]> {
+    const items: DynamoDB.DocumentClient.AttributeMap[] = [];
+    do {
+      const result = await this.dynamodb.query(params).promise();
+      items.push(...(result.Items || []));
+      params.ExclusiveStartKey = result.LastEvaluatedKey;
+    } while (params.ExclusiveStartKey);
+
+    return items.map(item => this.toDelegation(item));
+  }
+
+  private ownerKey(tenantId: string, ownerId: string): string {
+    return `TENANT#${tenantId}#USER#${ownerId}#DELEGATES`;
+  }
+
+  // Grants live next to the appointments, one item per delegate in the owner's
+  // partition, and are indexed per delegate on GSI1
+  private key(tenantId: string, ownerId: string, delegateId: string): DynamoDB.DocumentClient.Key {
+    return {
+      PK: this.ownerKey(tenantId, ownerId),
+      SK: `DELEGATE#${delegateId}`
+    };
+  }
+
+  private toDelegation(item: DynamoDB.DocumentClient.AttributeMap): Delegation {
+    const { PK, SK, GSI1PK, GSI1SK, ...delegation } = item;
+    return delegation as Delegation;
+  }
+}
@@ -0,0 +1,132 @@
+import moment from 'moment-timezone';
+import type { Appointment } from './AppointmentService';
+import { TenantService } from './TenantService';
+import { Logger } from '../utils/Logger';
+import { SignedToken } from '../utils/SignedToken';
+import { Attendee } from '../utils/Attendees';
+import { MailMessage, MailTransport, createMailTransport } from '../notifications/MailTransport';
+
+export type InvitationKind = 'invitation' | 'update' | 'reschedule' | 'cancellation';
+
+const SUBJECT_PREFIX: { [kind in InvitationKind]: string } = {
+  invitation: 'Invitation',
+  update: 'Updated invitation',
+  reschedule: 'Rescheduled',
+  cancellation: 'Cancelled'
+};
+
+// Mails attendees about appointments they are invited to. Each mail carries
+// RSVP links signed for that attendee and appointment, so answering needs no login.
+export class InvitationService {
+  private tenantService: TenantService;
+  private mailTransport: MailTransport;
+  private logger: Logger;
+
+  constructor(mailTransport: MailTransport = createMailTransport()) {
+    this.tenantService = new TenantService();
+    this.mailTransport = mailTransport;
+    this.logger = new Logger('InvitationService');
+  }
+
+  // Best effort: a mail that can't be sent is logged and the change stands
+  async send(appointment: Appointment, kind: InvitationKind, attendees: Attendee[]): Promise<void> {
+    if (attendees.length === 0) {
+      return;
+    }
+
+    try {
+      const timezone = appointment.timezone
+        || (await this.tenantService.getSettings(appointment.tenantId))?.timezone
+        || 'UTC';
+
+      for (const attendee of attendees) {
+        try {
+          await this.mailTransport.send(this.compose(appointment, kind, attendee, timezone));
+        } catch (error) {
+          this.logger.error('Error sending invitation', error);
+        }
+      }
+
+      this.logger.info('Invitations sent', {
+        tenantId: appointment.tenantId,
+        appointmentId: appointment.appointmentId,
+        kind,
+        count: attendees.length
+      });
+    } catch (error) {
+      this.logger.error('Error sending invitations', error);
+    }
+  }
+
+  rsvpToken(tenantId: string, appointmentId: string, email: string): string {
+    return SignedToken.sign({ email }, this.audience(tenantId, appointmentId));
+  }
+
+  // The attendee email the token was issued for, or null if it wasn't issued
+  // for this appointment
+  verifyRsvpToken(tenantId: string, appointmentId: string, token: string): string | null {
+    const payload = SignedToken.verify<{ email?: string }>(token, this.audience(tenantId, appointmentId));
+    return payload?.email || null;
+  }
+
+  private compose(appointment: Appointment, kind: InvitationKind, attendee: Attendee, timezone: string): MailMessage {
+    const start = moment.tz(appointment.startTime, timezone);
+    const when = this.formatSlot(appointment.startTime, appointment.endTime, timezone);
+    const reschedule = kind === 'reschedule' ? appointment.rescheduleHistory?.slice(-1)[0] : undefined;
+
+    const lines = [
+      `Hi ${attendee.name || attendee.email},`,
+      '',
+      {
+        invitation: `You are invited to "${appointment.title}".`,
+        update: `"${appointment.title}" has changed. Please let us know if you can still attend.`,
+        reschedule: `"${appointment.title}" has been moved to a new time. Please let us know if you can still attend.`,
+        cancellation: `"${appointment.title}" has been cancelled.`
+      }[kind],
+      '',
+      `When: ${when}`,
+      ...(reschedule ? [
+        `Previously: ${this.formatSlot(reschedule.previousStartTime, reschedule.previousEndTime, timezone)}`,
+        `Reason: ${reschedule.reason}`
+      ] : []),
+      ...(appointment.location ? [`Where: ${appointment.location}`] : []),
+      ...(appointment.description ? ['', appointment.description] : [])
+    ];
+
+    if (kind !== 'cancellation') {
+      const url = this.rsvpUrl(appointment, attendee);
+      lines.push(
+        '',
+        'Will you attend?',
+        `Yes: ${url}&response=accepted`,
+        `Maybe: ${url}&response=tentative`,
+        `No: ${url}&response=declined`
+      );
+    }
+
+    return {
+      to: attendee.name ? `${attendee.name} <${attendee.email}>` : attendee.email,
+      subject: `${SUBJECT_PREFIX[kind]}: ${appointment.title} @ ${start.format('MMM D, YYYY h:mm A z')}`,
+      text: lines.join('\n')
+    };
+  }
+
+  private formatSlot(startTime: string, endTime: string, timezone: string): string {
+    return `${moment.tz(startTime, timezone).format('dddd, MMMM D, YYYY h:mm A')} - ${moment.tz(endTime, timezone).format('h:mm A z')}`;
+  }
+
+  // Links open the RSVP page of the web app, which posts the answer; mail
+  // scanners following links don't answer for the attendee
+  private rsvpUrl(appointment: Appointment, attendee: Attendee): string {
+    const params = new URLSearchParams({
+      tenantId: appointment.tenantId,
+      appointmentId: appointment.appointmentId,
+      token: this.rsvpToken(appointment.tenantId, appointment.appointmentId, attendee.email)
+    });
+    return `${process.env['APP_BASE_URL'] || 'http://localhost:3000'}/rsvp?${params.toString()}`;
+  }
+
+  private audience(tenantId: string, appointmentId: string): string {
+    return `rsvp:${tenantId}:${appointmentId}`;
+  }
+}
@@ -0,0 +1,60 @@
+import { DynamoDB } from 'aws-sdk';
+import { createHash } from 'crypto';
+import { Logger } from '../utils/Logger';
+import { TooManyRequestsError } from '../utils/Errors';
+
+export interface RateLimit {
+  limit: number; // Requests allowed per window
+  windowSeconds: number;
+}
+
+// Fixed-window request counters for the unauthenticated API, kept next to the
+// appointments and removed by TTL once their window has passed. Keys are hashed,
+// so client addresses and emails aren't stored.
+export class RateLimitService {
+  private dynamodb: DynamoDB.DocumentClient;
+  private logger: Logger;
+
+  constructor() {
+    this.dynamodb = new DynamoDB.DocumentClient();
+    this.logger = new Logger('RateLimitService');
+  }
+
+  // Counts a request against the key and rejects it once the window is used up
+  async consume(scope: string, key: string, rateLimit: RateLimit, now: Date = new Date()): Promise<void> {
+    const nowSeconds = Math.floor(now.getTime() / 1000);
+    const windowStart = nowSeconds - (nowSeconds % rateLimit.windowSeconds);
+    const windowEnd = windowStart + rateLimit.windowSeconds;
+
+    try {
+      await this.dynamodb.update({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Key: {
+          PK: `RATE_LIMIT#${scope}#${this.hash(key)}`,
+          SK: `WINDOW#${windowStart}`
+        },
+        UpdateExpression: 'ADD hits :one SET #ttl = if_not_exists(#ttl, :ttl)',
+        ConditionExpression: 'attribute_not_exists(hits) OR hits < :limit',
+        ExpressionAttributeNames: { '#ttl': 'ttl' },
+        ExpressionAttributeValues: {
+          ':one': 1,
+          ':limit': rateLimit.limit,
+          ':ttl': windowEnd
+        }
+      }).promise();
+    } catch (error) {
+      if (error.code === 'ConditionalCheckFailedException') {
+        this.logger.warn('Rate limit exceeded', { scope });
+        throw new TooManyRequestsError('Too many requests, please try again later', {
+          retryAfterSeconds: windowEnd - nowSeconds
+        });
+      }
+      this.logger.error('Error checking rate limit', error);
+      throw error;
+    }
+  }
+
+  private hash(key: string): string {
+    return createHash('sha256').update(key.trim().toLowerCase()).digest('hex');
+  }
+}
@@ -0,0 +1,264 @@
+import { DynamoDB } from 'aws-sdk';
+import moment from 'moment';
+import type { Appointment } from './AppointmentService';
+import { Logger } from '../utils/Logger';
+import { ReminderSchedule, ReminderState } from '../utils/ReminderSchedule';
+import { Attendees } from '../utils/Attendees';
+import { RecurrenceRule } from '../utils/RecurrenceRule';
+import { OccurrenceException, Occurrences } from '../utils/Occurrences';
+import { ReminderMessage, ReminderNotifier, createReminderNotifier } from '../notifications/ReminderNotifier';
+
+// Partitions read behind the current hour, for reminders missed while the worker was down
+const REMINDER_LOOKBACK_HOURS = 24;
+
+const MAX_REMINDER_ATTEMPTS = 5;
+
+// A claimed reminder becomes due again after this long, in case the run that
+// claimed it died while sending
+const REMINDER_LEASE_MINUTES = 5;
+
+export interface DispatchSummary {
+  sent: number;
+  retried: number;
+  failed: number;
+  skipped: number;
+}
+
+export class ReminderService {
+  private dynamodb: DynamoDB.DocumentClient;
+  private notifier: ReminderNotifier;
+  private logger: Logger;
+
+  constructor(notifier: ReminderNotifier = createReminderNotifier()) {
+    this.dynamodb = new DynamoDB.DocumentClient();
+    this.notifier = notifier;
+    this.logger = new Logger('ReminderService');
+  }
+
+  // Sends every reminder that is due. Each one is claimed with a conditional
+  // write before it is sent, so overlapping runs don't send it twice. Failed
+  // deliveries are retried with backoff up to MAX_REMINDER_ATTEMPTS times.
+  async dispatchDueReminders(now: Date = new Date()): Promise<DispatchSummary> {
+    try {
+      const summary: DispatchSummary = { sent: 0, retried: 0, failed: 0, skipped: 0 };
+
+      for (const appointment of await this.listDue(now)) {
+        try {
+          const outcome = await this.dispatch(appointment, now);
+          if (outcome) {
+            summary[outcome]++;
+          }
+        } catch (error) {
+          // A claimed reminder comes back once its lease runs out
+          this.logger.error('Error dispatching reminder', error);
+        }
+      }
+
+      this.logger.info('Reminders dispatched', summary);
+      return summary;
+    } catch (error) {
+      this.logger.error('Error dispatching reminders', error);
+      throw error;
+    }
+  }
+
+  private async listDue(now: Date): Promise<Appointment[]> {
+    const appointments: Appointment[] = [];
+
+    for (let hours = REMINDER_LOOKBACK_HOURS; hours >= 0; hours--) {
+      const params: DynamoDB.DocumentClient.QueryInput = {
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        IndexName: 'GSI3',
+        // Sort keys start with the time the reminder is due
+        KeyConditionExpression: 'GSI3PK = :partition AND GSI3SK <= :until',
+        ExpressionAttributeValues: {
+          ':partition': ReminderSchedule.partitionKey(moment.utc(now).subtract(hours, 'hours')),
+          ':until': `${now.toISOString()}#\uffff`
+        }
+      };
+
+      do {
+        const result = await this.dynamodb.query(params).promise();
+        for (const item of result.Items || []) {
+          const appointment = item.SK?.startsWith('OCCURRENCE#')
+            ? await this.resolveOccurrence(item as OccurrenceException & { PK: string; seriesId: string })
+            : item as Appointment;
+          if (appointment) {
+            appointments.push(appointment);
+          }
+        }
+        params.ExclusiveStartKey = result.LastEvaluatedKey;
+      } while (params.ExclusiveStartKey);
+    }
+
+    return appointments;
+  }
+
+  // Reminders of edited occurrences are kept on their exception; the rest of
+  // the occurrence comes from the series master
+  private async resolveOccurrence(exception: OccurrenceException & { PK: string; seriesId: string }): Promise<Appointment | null> {
+    const result = await this.dynamodb.get({
+      TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+      Key: { PK: exception.PK, SK: `APPOINTMENT#${exception.seriesId}` }
+    }).promise();
+
+    return result.Item ? Occurrences.build(result.Item as Appointment, exception.recurrenceId, exception) : null;
+  }
+
+  private async dispatch(item: Appointment, now: Date): Promise<keyof DispatchSummary | null> {
+    const reminder = item.reminder;
+    if (!reminder || reminder.status !== 'pending') {
+      return null;
+    }
+
+    // Series masters are reminded of one occurrence at a time. Occurrences with
+    // an exception are reminded of on their own, or were deleted.
+    let appointment = item;
+    if (reminder.recurrenceId) {
+      const exception = await this.getException(item, reminder.recurrenceId);
+      const stale = !RecurrenceRule.parse(item.recurrenceRule!).includes(item.startTime, reminder.recurrenceId, item.timezone);
+      if (exception || stale) {
+        const skipped = await this.settle(item, reminder, this.moveOn(item, {
+          ...reminder,
+          status: 'skipped',
+          lastError: stale ? 'The occurrence is no longer part of the series' : 'The occurrence has its own reminder'
+        }, now));
+        return skipped ? 'skipped' : null;
+      }
+      appointment = Occurrences.build(item, reminder.recurrenceId);
+    }
+
+    // Too late to be useful, e.g. after the worker was down
+    if (!moment.utc(appointment.startTime).isAfter(now)) {
+      const skipped = await this.settle(item, reminder, this.moveOn(item, {
+        ...reminder,
+        status: 'skipped',
+        lastError: 'The appointment started before the reminder was sent'
+      }, now));
+      return skipped ? 'skipped' : null;
+    }
+
+    // Occurrences keep their reminder when the whole series is cancelled or deleted
+    if (appointment.status === 'cancelled' || appointment.deletedAt) {
+      const skipped = await this.settle(item, reminder, {
+        ...reminder,
+        status: 'skipped',
+        lastError: 'The appointment was cancelled'
+      });
+      return skipped ? 'skipped' : null;
+    }
+
+    const claimed: ReminderState = {
+      ...reminder,
+      attempts: reminder.attempts + 1,
+      lastAttemptAt: now.toISOString(),
+      nextAttemptAt: moment.utc(now).add(REMINDER_LEASE_MINUTES, 'minutes').toISOString()
+    };
+    if (!(await this.settle(item, reminder, claimed))) {
+      return null; // Claimed by another run, or the appointment changed
+    }
+
+    try {
+      await this.notifier.send(this.toMessage(appointment));
+    } catch (error) {
+      this.logger.warn('Reminder delivery failed', {
+        tenantId: appointment.tenantId,
+        appointmentId: appointment.appointmentId,
+        attempts: claimed.attempts,
+        error: error.message
+      });
+
+      if (claimed.attempts >= MAX_REMINDER_ATTEMPTS) {
+        await this.settle(item, claimed, this.moveOn(item, { ...claimed, status: 'failed', lastError: error.message }, now));
+        return 'failed';
+      }
+
+      await this.settle(item, claimed, {
+        ...claimed,
+        lastError: error.message,
+        nextAttemptAt: moment.utc(now).add(2 ** claimed.attempts, 'minutes').toISOString()
+      });
+      return 'retried';
+    }
+
+    await this.settle(item, claimed, this.moveOn(item, { ...claimed, status: 'sent', sentAt: now.toISOString() }, now));
+    return 'sent';
+  }
+
+  private async getException(master: Appointment, recurrenceId: string): Promise<OccurrenceException | undefined> {
+    const result = await this.dynamodb.get({
+      TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+      Key: { PK: `TENANT#${master.tenantId}#APPOINTMENT#${master.appointmentId}`, SK: `OCCURRENCE#${recurrenceId}` }
+    }).promise();
+
+    return result.Item as OccurrenceException | undefined;
+  }
+
+  // A series master keeps its reminder indexed for the occurrence after the
+  // one that was settled, if the series has one
+  private moveOn(item: Appointment, settled: ReminderState, now: Date): ReminderState {
+    return settled.recurrenceId ? ReminderSchedule.plan(item, settled, now) || settled : settled;
+  }
+
+  // Replaces the reminder if it is still the one that was read, and keeps the
+  // index in step: pending reminders are indexed by their next attempt, others
+  // leave the index. Reminder bookkeeping doesn't bump the appointment version,
+  // so clients holding it can still save their changes.
+  private async settle(appointment: Appointment, expected: ReminderState, next: ReminderState): Promise<boolean> {
+    const keys = next.status === 'pending' ? ReminderSchedule.indexKeys(appointment, next) : undefined;
+
+    try {
+      await this.dynamodb.update({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Key: appointment.recurrenceId
+          ? {
+            PK: `TENANT#${appointment.tenantId}#APPOINTMENT#${appointment.seriesId}`,
+            SK: `OCCURRENCE#${appointment.recurrenceId}`
+          }
+          : {
+            PK: `TENANT#${appointment.tenantId}#APPOINTMENT#${appointment.appointmentId}`,
+            SK: `APPOINTMENT#${appointment.appointmentId}`
+          },
+        UpdateExpression: keys
+          ? 'SET #reminder = :reminder, GSI3PK = :reminderKey, GSI3SK = :reminderSortKey'
+          : 'SET #reminder = :reminder REMOVE GSI3PK, GSI3SK',
+        ConditionExpression: '#reminder.#dueAt = :dueAt AND #reminder.#attempts = :attempts '
+          + 'AND #reminder.#nextAttemptAt = :nextAttemptAt AND attribute_not_exists(deletedAt)',
+        ExpressionAttributeNames: {
+          '#reminder': 'reminder',
+          '#dueAt': 'dueAt',
+          '#attempts': 'attempts',
+          '#nextAttemptAt': 'nextAttemptAt'
+        },
+        ExpressionAttributeValues: {
+          ':reminder': next,
+          ':dueAt': expected.dueAt,
+          ':attempts': expected.attempts,
+          ':nextAttemptAt': expected.nextAttemptAt,
+          ...(keys && { ':reminderKey': keys.GSI3PK, ':reminderSortKey': keys.GSI3SK })
+        }
+      }).promise();
+      return true;
+    } catch (error) {
+      if (error.code === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private toMessage(appointment: Appointment): ReminderMessage {
+    return {
+      tenantId: appointment.tenantId,
+      appointmentId: appointment.appointmentId,
+      userId: appointment.userId,
+      attendees: Attendees.emails(appointment.attendees),
+      title: appointment.title,
+      startTime: appointment.startTime,
+      endTime: appointment.endTime,
+      ...(appointment.location && { location: appointment.location }),
+      ...(appointment.timezone && { timezone: appointment.timezone }),
+      reminderMinutes: appointment.reminderMinutes
+    };
+  }
+}
@@ -0,0 +1,255 @@
+import { DynamoDB } from 'aws-sdk';
+import { v4 as uuidv4 } from 'uuid';
+import Joi from 'joi';
+import { WorkingHours } from './TenantService';
+import { isAdmin } from './AuthService';
+import { Logger } from '../utils/Logger';
+import { ForbiddenError, ValidationError } from '../utils/Errors';
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+const timeOfDay = Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/, 'HH:mm');
+
+// Hours the resource can be booked, in the tenant timezone
+const availabilitySchema = Joi.object({
+  start: timeOfDay.required(),
+  end: timeOfDay.required(),
+  days: Joi.array().items(Joi.string().valid(...WEEKDAYS)).unique().min(1).required()
+});
+
+const createResourceSchema = Joi.object({
+  name: Joi.string().trim().required().min(1).max(100),
+  type: Joi.string().valid('room', 'equipment').required(),
+  capacity: Joi.number().integer().min(1).max(1000).default(1),
+  description: Joi.string().optional().max(500),
+  availability: availabilitySchema.optional()
+});
+
+const updateResourceSchema = Joi.object({
+  name: Joi.string().trim().optional().min(1).max(100),
+  type: Joi.string().valid('room', 'equipment').optional(),
+  capacity: Joi.number().integer().min(1).max(1000).optional(),
+  description: Joi.string().optional().max(500),
+  availability: availabilitySchema.allow(null).optional() // null falls back to the tenant's working hours
+}).min(1);
+
+export type ResourceType = 'room' | 'equipment';
+
+export interface Resource {
+  resourceId: string;
+  tenantId: string;
+  name: string;
+  type: ResourceType;
+  capacity: number; // Appointments that can hold the resource at the same time
+  description?: string;
+  availability?: WorkingHours; // Defaults to the tenant's working hours
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Rooms and equipment appointments can reserve. Everyone in the tenant can see
+// the catalog; only admins maintain it.
+export class ResourceService {
+  private dynamodb: DynamoDB.DocumentClient;
+  private logger: Logger;
+
+  constructor() {
+    this.dynamodb = new DynamoDB.DocumentClient();
+    this.logger = new Logger('ResourceService');
+  }
+
+  async createResource(tenantId: string, userId: string, userRole: string, data: any): Promise<Resource> {
+    try {
+      this.requireAdmin(userRole);
+
+      const { error, value } = createResourceSchema.validate(data || {});
+      if (error) {
+        throw new ValidationError('Validation failed', { errors: error.details.map(d => d.message) });
+      }
+      this.validateAvailability(value.availability);
+
+      const now = new Date().toISOString();
+      const resource: Resource = {
+        resourceId: uuidv4(),
+        tenantId,
+        ...value,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await this.dynamodb.put({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Item: {
+          ...this.buildKeys(resource),
+          ...resource
+        },
+        ConditionExpression: 'attribute_not_exists(PK)'
+      }).promise();
+
+      this.logger.info('Resource created', { resourceId: resource.resourceId, tenantId, userId });
+      return resource;
+    } catch (error) {
+      this.logger.error('Error creating resource', error);
+      throw error;
+    }
+  }
+
+  // The tenant's resources by name, optionally of one type
+  async listResources(tenantId: string, type?: string): Promise<Resource[]> {
+    try {
+      const items: DynamoDB.DocumentClient.AttributeMap[] = [];
+      const params: DynamoDB.DocumentClient.QueryInput = {
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :resourcesKey',
+        ...(type && { FilterExpression: '#type = :type', ExpressionAttributeNames: { '#type': 'type' } }),
+        ExpressionAttributeValues: {
+          ':resourcesKey': `TENANT#${tenantId}#RESOURCES`,
+          ...(type && { ':type': type })
+        }
+      };
+
+      do {
+        const result = await this.dynamodb.query(params).promise();
+        items.push(...(result.Items || []));
+        params.ExclusiveStartKey = result.LastEvaluatedKey;
+      } while (params.ExclusiveStartKey);
+
+      return items.map(item => this.toResource(item));
+    } catch (error) {
+      this.logger.error('Error listing resources', error);
+      throw error;
+    }
+  }
+
+  async getResource(tenantId: string, resourceId: string): Promise<Resource | null> {
+    try {
+      const result = await this.dynamodb.get({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Key: this.key(tenantId, resourceId)
+      }).promise();
+
+      return result.Item ? this.toResource(result.Item) : null;
+    } catch (error) {
+      this.logger.error('Error getting resource', error);
+      throw error;
+    }
+  }
+
+  // The resources that exist among the IDs, in the order asked for
+  async getResources(tenantId: string, resourceIds: string[]): Promise<Resource[]> {
+    if (resourceIds.length === 0) {
+      return [];
+    }
+
+    try {
+      const tableName = process.env['APPOINTMENTS_TABLE_NAME']!;
+      const result = await this.dynamodb.batchGet({
+        RequestItems: {
+          [tableName]: { Keys: resourceIds.map(resourceId => this.key(tenantId, resourceId)) }
+        }
+      }).promise();
+
+      const found = new Map((result.Responses?.[tableName] || []).map(item => [item.resourceId, this.toResource(item)]));
+      return resourceIds.filter(resourceId => found.has(resourceId)).map(resourceId => found.get(resourceId)!);
+    } catch (error) {
+      this.logger.error('Error getting resources', error);
+      throw error;
+    }
+  }
+
+  async updateResource(tenantId: string, resourceId: string, userId: string, userRole: string, data: any): Promise<Resource | null> {
+    try {
+      this.requireAdmin(userRole);
+
+      const { error, value } = updateResourceSchema.validate(data || {});
+      if (error) {
+        throw new ValidationError('Validation failed', { errors: error.details.map(d => d.message) });
+      }
+      this.validateAvailability(value.availability);
+
+      const existing = await this.getResource(tenantId, resourceId);
+      if (!existing) {
+        return null;
+      }
+
+      const resource: Resource = { ...existing, ...value, updatedAt: new Date().toISOString() };
+      if (value.availability === null) {
+        delete resource.availability;
+      }
+
+      await this.dynamodb.put({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Item: {
+          ...this.buildKeys(resource),
+          ...resource
+        },
+        ConditionExpression: 'attribute_exists(PK)'
+      }).promise();
+
+      this.logger.info('Resource updated', { resourceId, tenantId, userId });
+      return resource;
+    } catch (error) {
+      this.logger.error('Error updating resource', error);
+      throw error;
+    }
+  }
+
+  // Appointments that reserved the resource keep its ID; it is no longer
+  // checked for them
+  async deleteResource(tenantId: string, resourceId: string, userId: string, userRole: string): Promise<boolean> {
+    try {
+      this.requireAdmin(userRole);
+
+      const existing = await this.getResource(tenantId, resourceId);
+      if (!existing) {
+        return false;
+      }
+
+      await this.dynamodb.delete({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Key: this.key(tenantId, resourceId)
+      }).promise();
+
+      this.logger.info('Resource deleted', { resourceId, tenantId, userId });
+      return true;
+    } catch (error) {
+      this.logger.error('Error deleting resource', error);
+      throw error;
+    }
+  }
+
+  private validateAvailability(availability?: WorkingHours | null): void {
+    if (availability && availability.end <= availability.start) {
+      throw new ValidationError('Validation failed', { errors: ['"availability.end" must be after "availability.start"'] });
+    }
+  }
+
+  private requireAdmin(userRole: string): void {
+    if (!isAdmin(userRole)) {
+      throw new ForbiddenError('Only tenant admins can manage resources');
+    }
+  }
+
+  private key(tenantId: string, resourceId: string): DynamoDB.DocumentClient.Key {
+    return {
+      PK: `TENANT#${tenantId}#RESOURCE#${resourceId}`,
+      SK: `RESOURCE#${resourceId}`
+    };
+  }
+
+  // Resources live next to the appointments and are indexed per tenant on GSI1
+  // by name
+  private buildKeys(resource: Resource): DynamoDB.DocumentClient.PutItemInputAttributeMap {
+    return {
+      ...this.key(resource.tenantId, resource.resourceId),
+      GSI1PK: `TENANT#${resource.tenantId}#RESOURCES`,
+      GSI1SK: `${resource.name.toLowerCase()}#${resource.resourceId}`
+    };
+  }
+
+  private toResource(item: DynamoDB.DocumentClient.AttributeMap): Resource {
+    const { PK, SK, GSI1PK, GSI1SK, ...resource } = item;
+    return resource as Resource;
+  }
+}
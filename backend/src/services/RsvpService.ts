@@ -0,0 +1,208 @@
+import { DynamoDB } from 'aws-sdk';
+import { Logger } from '../utils/Logger';
+import { AuditService } from './AuditService';
+import type { Appointment } from './AppointmentService';
+import { UnprocessableEntityError, ValidationError } from '../utils/Errors';
+import { AppointmentItems } from '../utils/AppointmentItems';
+import { ATTENDEE_RESPONSES, Attendee, AttendeeResponse, Attendees } from '../utils/Attendees';
+import { StatusChange } from '../utils/AppointmentStatus';
+
+// RSVPs that race with other changes to the attendee list are re-read and retried
+const RSVP_WRITE_ATTEMPTS = 3;
+
+// What an attendee sees of an appointment they were invited to
+export interface Invitation {
+  tenantId: string;
+  appointmentId: string;
+  title: string;
+  description?: string;
+  startTime: string;
+  endTime: string;
+  location?: string;
+  status: Appointment['status'];
+  attendee: Attendee;
+}
+
+// Answers from people outside the tenant, who hold a signed link instead of a
+// login: attendees answer their invitations and customers confirm bookings
+// made through the public booking page. The links are checked by the
+// handlers, so there are no role checks here.
+export class RsvpService {
+  private dynamodb: DynamoDB.DocumentClient;
+  private auditService: AuditService;
+  private logger: Logger;
+
+  constructor() {
+    this.dynamodb = new DynamoDB.DocumentClient();
+    this.auditService = new AuditService();
+    this.logger = new Logger('RsvpService');
+  }
+
+  async getInvitation(tenantId: string, appointmentId: string, email: string): Promise<Invitation | null> {
+    try {
+      const appointment = await this.getInvitedAppointment(tenantId, appointmentId);
+      const attendee = appointment && Attendees.find(appointment.attendees, email);
+      return attendee ? this.toInvitation(appointment!, attendee) : null;
+    } catch (error) {
+      this.logger.error('Error getting invitation', error);
+      throw error;
+    }
+  }
+
+  // Records an attendee's answer. The version is left alone so the owner can
+  // still save changes made before the answer came in.
+  async respondToInvitation(
+    tenantId: string,
+    appointmentId: string,
+    email: string,
+    response: AttendeeResponse,
+    requestId?: string
+  ): Promise<Invitation | null> {
+    try {
+      if (!ATTENDEE_RESPONSES.includes(response) || response === 'needs-action') {
+        throw new ValidationError('Response must be one of accepted, tentative, declined');
+      }
+
+      for (let attempt = 1; ; attempt++) {
+        const appointment = await this.getInvitedAppointment(tenantId, appointmentId);
+        if (!appointment || !Attendees.find(appointment.attendees, email)) {
+          return null;
+        }
+        if (appointment.status === 'cancelled') {
+          throw new UnprocessableEntityError('The appointment has been cancelled');
+        }
+
+        const respondedAt = new Date().toISOString();
+        const attendees = Attendees.read(appointment.attendees).map(attendee =>
+          attendee.email.toLowerCase() === email.trim().toLowerCase()
+            ? { ...attendee, responseStatus: response, respondedAt }
+            : attendee);
+
+        try {
+          await this.dynamodb.update({
+            TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+            Key: AppointmentItems.key(tenantId, appointmentId),
+            UpdateExpression: 'SET attendees = :attendees',
+            ConditionExpression: 'attendees = :previous AND attribute_not_exists(deletedAt)',
+            ExpressionAttributeValues: {
+              ':attendees': attendees,
+              ':previous': appointment.attendees
+            }
+          }).promise();
+        } catch (error) {
+          if (error.code === 'ConditionalCheckFailedException' && attempt < RSVP_WRITE_ATTEMPTS) {
+            continue;
+          }
+          throw error;
+        }
+
+        const updated = { ...appointment, attendees };
+        const attendee = Attendees.find(attendees, email)!;
+        await this.auditService.record({
+          tenantId,
+          appointmentId,
+          ownerId: appointment.userId,
+          action: 'rsvp',
+          actorId: attendee.email,
+          actorRole: 'attendee',
+          requestId,
+          before: appointment,
+          after: updated
+        });
+
+        this.logger.info('Invitation answered', { appointmentId, tenantId, response });
+        return this.toInvitation(updated, attendee);
+      }
+    } catch (error) {
+      this.logger.error('Error responding to invitation', error);
+      throw error;
+    }
+  }
+
+  // Confirming again is a no-op
+  async confirmBooking(tenantId: string, appointmentId: string, email: string, requestId?: string): Promise<Appointment | null> {
+    try {
+      const appointment = await this.getInvitedAppointment(tenantId, appointmentId);
+      if (!appointment?.customer || appointment.customer.email.toLowerCase() !== email.trim().toLowerCase()) {
+        return null;
+      }
+      if (appointment.status === 'confirmed') {
+        return appointment;
+      }
+      if (appointment.status !== 'scheduled') {
+        throw new UnprocessableEntityError(`The booking is ${appointment.status} and can't be confirmed`);
+      }
+
+      const now = new Date().toISOString();
+      const statusChange: StatusChange = {
+        from: 'scheduled',
+        to: 'confirmed',
+        changedBy: appointment.customer.email,
+        changedByRole: 'customer',
+        changedAt: now
+      };
+
+      const result = await AppointmentItems.writeIfUnchanged(() => this.dynamodb.update({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Key: AppointmentItems.key(tenantId, appointmentId),
+        UpdateExpression: 'SET #status = :confirmed, statusHistory = list_append(if_not_exists(statusHistory, :empty), :change), ' +
+          'updatedAt = :now, version = if_not_exists(version, :zero) + :one',
+        ConditionExpression: '#status = :scheduled AND attribute_not_exists(deletedAt)',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':confirmed': 'confirmed',
+          ':scheduled': 'scheduled',
+          ':change': [statusChange],
+          ':empty': [],
+          ':now': now,
+          ':zero': 0,
+          ':one': 1
+        },
+        ReturnValues: 'ALL_NEW'
+      }).promise());
+
+      const confirmed = result.Attributes as Appointment;
+      await this.auditService.record({
+        tenantId,
+        appointmentId,
+        ownerId: appointment.userId,
+        action: 'update',
+        actorId: appointment.customer.email,
+        actorRole: 'customer',
+        requestId,
+        before: appointment,
+        after: confirmed
+      });
+
+      this.logger.info('Booking confirmed', { appointmentId, tenantId });
+      return confirmed;
+    } catch (error) {
+      this.logger.error('Error confirming booking', error);
+      throw error;
+    }
+  }
+
+  private async getInvitedAppointment(tenantId: string, appointmentId: string): Promise<Appointment | null> {
+    const result = await this.dynamodb.get({
+      TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+      Key: AppointmentItems.key(tenantId, appointmentId)
+    }).promise();
+
+    const appointment = result.Item as Appointment | undefined;
+    return appointment && !appointment.deletedAt ? appointment : null;
+  }
+
+  private toInvitation(appointment: Appointment, attendee: Attendee): Invitation {
+    return {
+      tenantId: appointment.tenantId,
+      appointmentId: appointment.appointmentId,
+      title: appointment.title,
+      ...(appointment.description && { description: appointment.description }),
+      startTime: appointment.startTime,
+      endTime: appointment.endTime,
+      ...(appointment.location && { location: appointment.location }),
+      status: appointment.status,
+      attendee
+    };
+  }
+}
@@ -0,0 +1,531 @@
+import { DynamoDB } from 'aws-sdk';
+import { v4 as uuidv4 } from 'uuid';
+import moment from 'moment-timezone';
+import { Logger } from '../utils/Logger';
+import { AuditService } from './AuditService';
+import type { Appointment, AppointmentFilters, AppointmentService, RecurrenceScope } from './AppointmentService';
+import { ValidationError } from '../utils/Errors';
+import { AppointmentItems } from '../utils/AppointmentItems';
+import { ReminderSchedule } from '../utils/ReminderSchedule';
+import { Attendees } from '../utils/Attendees';
+import { applyStatusChange } from '../utils/AppointmentStatus';
+import { RecurrenceRule } from '../utils/RecurrenceRule';
+import { OccurrenceException, Occurrences } from '../utils/Occurrences';
+
+// Open-ended list requests expand series this far into the future
+const DEFAULT_SERIES_WINDOW_DAYS = 90;
+
+// Occurrences of recurring appointments. A series is stored once, as its
+// master; occurrences are expanded from its rule, and a single occurrence that
+// is changed or deleted gets an exception item next to the master. Changes to
+// the whole series are regular appointment updates.
+export class SeriesService {
+  private dynamodb: DynamoDB.DocumentClient;
+  private auditService: AuditService;
+  private appointmentService: AppointmentService;
+  private logger: Logger;
+
+  // Created by the AppointmentService, whose checks occurrence changes go through
+  constructor(appointmentService: AppointmentService) {
+    this.dynamodb = new DynamoDB.DocumentClient();
+    this.auditService = new AuditService();
+    this.appointmentService = appointmentService;
+    this.logger = new Logger('SeriesService');
+  }
+
+  async getOccurrence(
+    tenantId: string,
+    seriesId: string,
+    recurrenceId: string,
+    userId: string,
+    userRole: string
+  ): Promise<{ master: Appointment; appointment: Appointment; exception?: OccurrenceException } | null> {
+    const master = await this.appointmentService.getAppointment(tenantId, seriesId, userId, userRole);
+    if (!master || !master.recurrenceRule) {
+      return null;
+    }
+
+    if (!RecurrenceRule.parse(master.recurrenceRule).includes(master.startTime, recurrenceId, master.timezone)) {
+      return null;
+    }
+
+    const result = await this.dynamodb.get({
+      TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+      Key: {
+        PK: `TENANT#${tenantId}#APPOINTMENT#${seriesId}`,
+        SK: `OCCURRENCE#${recurrenceId}`
+      }
+    }).promise();
+
+    const exception = result.Item as OccurrenceException | undefined;
+    if (exception?.deleted) {
+      return null;
+    }
+
+    return { master, appointment: Occurrences.build(master, recurrenceId, exception), exception };
+  }
+
+  // `value` has been validated like any appointment update
+  async updateOccurrence(
+    tenantId: string,
+    seriesId: string,
+    recurrenceId: string,
+    userId: string,
+    userRole: string,
+    value: any,
+    scope: RecurrenceScope,
+    requestId?: string,
+    expectedVersion?: number
+  ): Promise<Appointment | null> {
+    const occurrence = await this.getOccurrence(tenantId, seriesId, recurrenceId, userId, userRole);
+    if (!occurrence) {
+      return null;
+    }
+
+    // Occurrences share the version of their series master
+    const { master, appointment, exception } = occurrence;
+    AppointmentItems.checkVersion(master, expectedVersion);
+    const { overrideConflicts, overrideBusinessHours, ...changes } = value;
+    AppointmentItems.normalizeTimes(changes);
+
+    if (scope === 'series' || (scope === 'following' && moment.utc(recurrenceId).isSame(master.startTime))) {
+      // Times given for the occurrence shift the whole series by the same amount
+      const seriesChanges = { ...changes, overrideConflicts, overrideBusinessHours };
+      if (changes.startTime) {
+        seriesChanges.startTime = this.shiftTime(master.startTime, appointment.startTime, changes.startTime);
+      }
+      if (changes.endTime) {
+        seriesChanges.endTime = this.shiftTime(master.endTime, appointment.endTime, changes.endTime);
+      }
+      return this.appointmentService.updateAppointment(tenantId, seriesId, userId, userRole, seriesChanges, undefined, requestId, expectedVersion);
+    }
+
+    applyStatusChange(appointment, changes, userId, userRole);
+
+    if (scope === 'following') {
+      return this.splitSeries(master, recurrenceId, changes, overrideConflicts, overrideBusinessHours, userId, userRole, requestId);
+    }
+
+    if (changes.recurrenceRule) {
+      throw new ValidationError('Validation error: recurrenceRule can only be changed for the series or following occurrences');
+    }
+
+    const invitations = this.appointmentService.planInvitations(appointment, changes);
+    const updatedOccurrence = { ...appointment, ...changes };
+    const moved = changes.startTime !== undefined || changes.endTime !== undefined;
+    const slotChanged = moved || changes.resourceIds !== undefined;
+    const reopened = appointment.status === 'cancelled' && updatedOccurrence.status !== 'cancelled';
+    if ((slotChanged || reopened) && updatedOccurrence.status !== 'cancelled') {
+      if (moved) {
+        const businessHoursOverride = await this.appointmentService.checkBusinessHours(
+          tenantId,
+          userId,
+          userRole,
+          [{ startTime: updatedOccurrence.startTime, endTime: updatedOccurrence.endTime }],
+          overrideBusinessHours
+        );
+        if (businessHoursOverride) {
+          changes.businessHoursOverride = businessHoursOverride;
+        }
+      }
+
+      const conflictOverride = await this.appointmentService.checkConflicts(
+        tenantId,
+        master.userId,
+        userId,
+        userRole,
+        this.appointmentService.withBuffers([{ startTime: updatedOccurrence.startTime, endTime: updatedOccurrence.endTime }], master.service),
+        overrideConflicts,
+        [appointment.appointmentId],
+        undefined,
+        await this.appointmentService.loadResources(tenantId, updatedOccurrence.resourceIds, changes.resourceIds)
+      );
+      if (conflictOverride) {
+        changes.conflictOverride = conflictOverride;
+      }
+    }
+
+    // Moving, cancelling or reopening the occurrence reschedules its reminder.
+    // A first edit takes the reminder over from the series master.
+    const reminder = ReminderSchedule.plan(updatedOccurrence, exception?.reminder || ReminderSchedule.ofOccurrence(master, recurrenceId));
+    const updatedException: OccurrenceException = {
+      recurrenceId,
+      overrides: { ...(exception?.overrides || {}), ...changes, updatedAt: new Date().toISOString() },
+      ...(reminder && { reminder })
+    };
+    const version = await this.putException(master, updatedException);
+
+    const updatedAppointment = Occurrences.build({ ...master, version }, recurrenceId, updatedException);
+    await this.auditService.record({
+      tenantId,
+      appointmentId: appointment.appointmentId,
+      seriesId,
+      ownerId: master.userId,
+      action: 'update',
+      actorId: userId,
+      actorRole: userRole,
+      requestId,
+      before: appointment,
+      after: updatedAppointment
+    });
+    await this.appointmentService.notifyAttendees(updatedAppointment, invitations);
+    if (appointment.status !== 'cancelled' && updatedAppointment.status === 'cancelled') {
+      await this.appointmentService.releaseSlot(tenantId, this.appointmentService.freedSlot(appointment));
+    }
+
+    this.logger.info('Occurrence updated successfully', { seriesId, recurrenceId, tenantId, userId });
+    return updatedAppointment;
+  }
+
+  async deleteOccurrence(
+    tenantId: string,
+    seriesId: string,
+    recurrenceId: string,
+    userId: string,
+    userRole: string,
+    scope: RecurrenceScope,
+    requestId?: string,
+    expectedVersion?: number
+  ): Promise<boolean> {
+    const occurrence = await this.getOccurrence(tenantId, seriesId, recurrenceId, userId, userRole);
+    if (!occurrence) {
+      return false;
+    }
+
+    const { master, appointment, exception } = occurrence;
+    AppointmentItems.checkVersion(master, expectedVersion);
+    const audit = { tenantId, seriesId, ownerId: master.userId, actorId: userId, actorRole: userRole, requestId };
+
+    if (scope === 'series' || (scope === 'following' && moment.utc(recurrenceId).isSame(master.startTime))) {
+      return this.appointmentService.deleteAppointment(tenantId, seriesId, userId, userRole, undefined, requestId, expectedVersion);
+    }
+
+    if (scope === 'following') {
+      const truncatedRule = this.truncateRule(RecurrenceRule.parse(master.recurrenceRule!), recurrenceId).toString();
+      const guard = AppointmentItems.versionGuard(master);
+      await AppointmentItems.writeIfUnchanged(() => this.dynamodb.update({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Key: AppointmentItems.key(tenantId, seriesId),
+        UpdateExpression: 'SET recurrenceRule = :recurrenceRule, updatedAt = :updatedAt, version = :nextVersion',
+        ConditionExpression: guard.condition,
+        ExpressionAttributeValues: {
+          ':recurrenceRule': truncatedRule,
+          ':updatedAt': new Date().toISOString(),
+          ':nextVersion': guard.nextVersion,
+          ...guard.values
+        }
+      }).promise());
+      await this.deleteExceptions(tenantId, seriesId, recurrenceId);
+      await this.auditService.record({
+        ...audit,
+        appointmentId: seriesId,
+        action: 'update',
+        before: { recurrenceRule: master.recurrenceRule },
+        after: { recurrenceRule: truncatedRule }
+      });
+    } else {
+      await this.putException(master, {
+        recurrenceId,
+        overrides: exception?.overrides || {},
+        deleted: true
+      });
+      await this.auditService.record({ ...audit, appointmentId: appointment.appointmentId, action: 'delete', before: appointment });
+      if (appointment.status !== 'cancelled') {
+        await this.appointmentService.notifyAttendees(appointment, [
+          { kind: 'cancellation', attendees: Attendees.read(appointment.attendees) }
+        ]);
+      }
+      if (appointment.status === 'scheduled' || appointment.status === 'confirmed') {
+        await this.appointmentService.releaseSlot(tenantId, this.appointmentService.freedSlot(appointment));
+      }
+    }
+
+    this.logger.info('Occurrence deleted successfully', { seriesId, recurrenceId, scope, tenantId, userId });
+    return true;
+  }
+
+  // Occurrences of the series in a date index partition, of one user or the
+  // whole tenant, within the filtered range
+  async listOccurrences(
+    indexName: 'GSI1' | 'GSI2',
+    partitionKey: string,
+    filters: AppointmentFilters
+  ): Promise<Appointment[]> {
+    const masters = await this.queryAll({
+      TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+      IndexName: indexName,
+      KeyConditionExpression: `${indexName}PK = :partitionKey AND begins_with(${indexName}SK, :seriesPrefix)`,
+      ExpressionAttributeValues: {
+        ':partitionKey': partitionKey,
+        ':seriesPrefix': 'SERIES#'
+      }
+    });
+
+    const series = masters.filter(master => master.recurrenceRule);
+    if (series.length === 0) {
+      return [];
+    }
+
+    // The exceptions of all series in the partition come in one go rather than
+    // one query per master
+    const exceptions = new Map<string, Map<string, OccurrenceException>>();
+    const exceptionItems = await this.queryAll({
+      TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+      IndexName: indexName,
+      KeyConditionExpression: `${indexName}PK = :exceptionsKey`,
+      ExpressionAttributeValues: {
+        ':exceptionsKey': `${partitionKey}#EXCEPTIONS`
+      }
+    });
+    exceptionItems.forEach(item => {
+      const seriesExceptions = exceptions.get(item.seriesId!) || new Map<string, OccurrenceException>();
+      seriesExceptions.set(item.recurrenceId!, item as unknown as OccurrenceException);
+      exceptions.set(item.seriesId!, seriesExceptions);
+    });
+
+    const windowEnd = filters.endDate || moment.utc().add(DEFAULT_SERIES_WINDOW_DAYS, 'days').toISOString();
+    return series
+      .flatMap(master => this.expandSeries(
+        master,
+        filters.startDate || master.startTime,
+        windowEnd,
+        exceptions.get(master.appointmentId) || new Map()
+      ))
+      .filter(occurrence => !filters.status || occurrence.status === filters.status);
+  }
+
+  // Removes stored exceptions, optionally only those at or after `fromRecurrenceId`
+  async deleteExceptions(tenantId: string, seriesId: string, fromRecurrenceId?: string): Promise<void> {
+    const exceptions = Array.from((await this.getExceptions(tenantId, seriesId)).keys())
+      .filter(recurrenceId => !fromRecurrenceId || !moment(recurrenceId).isBefore(fromRecurrenceId));
+
+    for (let i = 0; i < exceptions.length; i += 25) {
+      await this.dynamodb.batchWrite({
+        RequestItems: {
+          [process.env['APPOINTMENTS_TABLE_NAME']!]: exceptions.slice(i, i + 25).map(recurrenceId => ({
+            DeleteRequest: {
+              Key: {
+                PK: `TENANT#${tenantId}#APPOINTMENT#${seriesId}`,
+                SK: `OCCURRENCE#${recurrenceId}`
+              }
+            }
+          }))
+        }
+      }).promise();
+    }
+  }
+
+  // Ends the current series before `recurrenceId` and starts a new series there
+  // carrying the changes, so earlier occurrences keep their history.
+  private async splitSeries(
+    master: Appointment,
+    recurrenceId: string,
+    changes: any,
+    overrideConflicts: boolean,
+    overrideBusinessHours: boolean,
+    userId: string,
+    userRole: string,
+    requestId?: string
+  ): Promise<Appointment> {
+    const rule = RecurrenceRule.parse(master.recurrenceRule!);
+    const duration = moment(master.endTime).diff(moment(master.startTime));
+
+    let newRule = changes.recurrenceRule ? RecurrenceRule.parse(changes.recurrenceRule) : rule;
+    if (!changes.recurrenceRule && rule.count !== undefined) {
+      newRule = rule.withCount(rule.count - rule.countBefore(master.startTime, recurrenceId, master.timezone));
+    }
+
+    const startTime = changes.startTime || recurrenceId;
+    const endTime = changes.endTime || moment.utc(startTime).add(duration, 'ms').toISOString();
+    const newSeriesId = uuidv4();
+    const now = new Date().toISOString();
+
+    const slots = Occurrences.slots(newRule, startTime, endTime, changes.timezone || master.timezone);
+
+    // Following occurrences only have to fit the business hours when they move
+    const moved = ['startTime', 'endTime', 'recurrenceRule', 'timezone'].some(key => changes[key] !== undefined);
+    const businessHoursOverride = moved
+      ? await this.appointmentService.checkBusinessHours(master.tenantId, userId, userRole, slots, overrideBusinessHours)
+      : master.businessHoursOverride;
+    const conflictOverride = await this.appointmentService.checkConflicts(
+      master.tenantId,
+      master.userId,
+      userId,
+      userRole,
+      this.appointmentService.withBuffers(slots, master.service),
+      overrideConflicts,
+      [master.appointmentId],
+      undefined,
+      await this.appointmentService.loadResources(master.tenantId, changes.resourceIds || master.resourceIds, changes.resourceIds)
+    );
+
+    // The new series is reminded of from its own first occurrence on
+    const masterFields = AppointmentItems.fields(master, 'reminder', 'conflictOverride', 'businessHoursOverride');
+    const newSeries: Appointment = {
+      ...masterFields,
+      ...changes,
+      appointmentId: newSeriesId,
+      seriesId: newSeriesId,
+      recurrenceRule: newRule.toString(),
+      startTime,
+      endTime,
+      createdBy: userId,
+      createdAt: now,
+      updatedAt: now,
+      version: 1,
+      ...(conflictOverride && { conflictOverride }),
+      ...(businessHoursOverride && { businessHoursOverride })
+    };
+    const reminder = ReminderSchedule.plan(newSeries);
+    if (reminder) {
+      newSeries.reminder = reminder;
+    }
+
+    const truncatedRule = this.truncateRule(rule, recurrenceId).toString();
+    const guard = AppointmentItems.versionGuard(master);
+    await AppointmentItems.writeIfUnchanged(() => this.dynamodb.transactWrite({
+      TransactItems: [
+        {
+          Put: {
+            TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+            Item: AppointmentItems.build(newSeries),
+            ConditionExpression: 'attribute_not_exists(PK)'
+          }
+        },
+        {
+          Update: {
+            TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+            Key: AppointmentItems.key(master.tenantId, master.appointmentId),
+            UpdateExpression: 'SET recurrenceRule = :recurrenceRule, updatedAt = :updatedAt, version = :nextVersion',
+            ConditionExpression: guard.condition,
+            ExpressionAttributeValues: {
+              ':recurrenceRule': truncatedRule,
+              ':updatedAt': now,
+              ':nextVersion': guard.nextVersion,
+              ...guard.values
+            }
+          }
+        }
+      ]
+    }).promise());
+
+    await this.deleteExceptions(master.tenantId, master.appointmentId, recurrenceId);
+
+    const audit = { tenantId: master.tenantId, ownerId: master.userId, actorId: userId, actorRole: userRole, requestId };
+    await this.auditService.record({
+      ...audit,
+      appointmentId: master.appointmentId,
+      action: 'update',
+      before: { recurrenceRule: master.recurrenceRule },
+      after: { recurrenceRule: truncatedRule }
+    });
+    await this.auditService.record({ ...audit, appointmentId: newSeriesId, action: 'create', after: newSeries });
+
+    this.logger.info('Series split successfully', {
+      seriesId: master.appointmentId,
+      newSeriesId,
+      recurrenceId,
+      tenantId: master.tenantId,
+      userId
+    });
+    return newSeries;
+  }
+
+  // Occurrences of a series starting within [from, to], with exceptions applied
+  private expandSeries(master: Appointment, from: string, to: string, exceptions: Map<string, OccurrenceException>): Appointment[] {
+    const rule = RecurrenceRule.parse(master.recurrenceRule!);
+
+    const recurrenceIds = rule
+      .between(master.startTime, from, to, master.timezone)
+      .map(start => moment.utc(start).toISOString());
+
+    // Occurrences moved into the window from outside it
+    exceptions.forEach(exception => {
+      if (!recurrenceIds.includes(exception.recurrenceId) && exception.overrides.startTime) {
+        recurrenceIds.push(exception.recurrenceId);
+      }
+    });
+
+    return recurrenceIds
+      .filter(recurrenceId => !exceptions.get(recurrenceId)?.deleted)
+      .map(recurrenceId => Occurrences.build(master, recurrenceId, exceptions.get(recurrenceId)))
+      .filter(occurrence => !moment(occurrence.startTime).isBefore(from) && !moment(occurrence.startTime).isAfter(to));
+  }
+
+  private async getExceptions(tenantId: string, seriesId: string): Promise<Map<string, OccurrenceException>> {
+    const items = await this.queryAll({
+      TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :occurrencePrefix)',
+      ExpressionAttributeValues: {
+        ':pk': `TENANT#${tenantId}#APPOINTMENT#${seriesId}`,
+        ':occurrencePrefix': 'OCCURRENCE#'
+      }
+    });
+
+    return new Map(items.map(item => [item.recurrenceId, item as unknown as OccurrenceException]));
+  }
+
+  // Stores the exception and bumps the master's version in one transaction,
+  // returning the new version. Exceptions are indexed apart from the
+  // appointments on both date indexes, so listings fetch them per partition.
+  private async putException(master: Appointment, exception: OccurrenceException): Promise<number> {
+    const guard = AppointmentItems.versionGuard(master);
+    const key = AppointmentItems.key(master.tenantId, master.appointmentId);
+
+    await AppointmentItems.writeIfUnchanged(() => this.dynamodb.transactWrite({
+      TransactItems: [
+        {
+          Update: {
+            TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+            Key: key,
+            UpdateExpression: 'SET version = :nextVersion',
+            ConditionExpression: guard.condition,
+            ExpressionAttributeValues: { ':nextVersion': guard.nextVersion, ...guard.values }
+          }
+        },
+        {
+          Put: {
+            TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+            Item: {
+              PK: key.PK,
+              SK: `OCCURRENCE#${exception.recurrenceId}`,
+              tenantId: master.tenantId,
+              seriesId: master.appointmentId,
+              GSI1PK: `TENANT#${master.tenantId}#EXCEPTIONS`,
+              GSI1SK: `${master.appointmentId}#${exception.recurrenceId}`,
+              GSI2PK: `TENANT#${master.tenantId}#USER#${master.userId}#EXCEPTIONS`,
+              GSI2SK: `${master.appointmentId}#${exception.recurrenceId}`,
+              ...exception,
+              ...(exception.reminder?.status === 'pending' && ReminderSchedule.indexKeys(
+                { tenantId: master.tenantId, appointmentId: Occurrences.id(master.appointmentId, exception.recurrenceId) },
+                exception.reminder
+              )),
+              ttl: master.ttl
+            }
+          }
+        }
+      ]
+    }).promise());
+
+    return guard.nextVersion;
+  }
+
+  private truncateRule(rule: RecurrenceRule, beforeRecurrenceId: string): RecurrenceRule {
+    return rule.withUntil(moment.utc(beforeRecurrenceId).subtract(1, 'second').toDate());
+  }
+
+  private shiftTime(seriesTime: string, occurrenceTime: string, newOccurrenceTime: string): string {
+    return moment.utc(seriesTime).add(moment(newOccurrenceTime).diff(moment(occurrenceTime)), 'ms').toISOString();
+  }
+
+  private async queryAll(params: DynamoDB.DocumentClient.QueryInput): Promise<Appointment[]> {
+    const items: Appointment[] = [];
+    const pageParams = { ...params };
+    do {
+      const result = await this.dynamodb.query(pageParams).promise();
+      items.push(...((result.Items || []) as Appointment[]));
+      pageParams.ExclusiveStartKey = result.LastEvaluatedKey;
+    } while (pageParams.ExclusiveStartKey);
+    return items;
+  }
+}
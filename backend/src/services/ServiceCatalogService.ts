@@ -0,0 +1,252 @@
+import { DynamoDB } from 'aws-sdk';
+import { v4 as uuidv4 } from 'uuid';
+import Joi from 'joi';
+import { ResourceService } from './ResourceService';
+import { isAdmin } from './AuthService';
+import { Logger } from '../utils/Logger';
+import { ForbiddenError, ValidationError } from '../utils/Errors';
+
+const priceSchema = Joi.object({
+  amount: Joi.number().min(0).precision(2).required(),
+  currency: Joi.string().uppercase().length(3).required() // ISO 4217, e.g. USD
+});
+
+const createServiceSchema = Joi.object({
+  name: Joi.string().trim().required().min(1).max(100),
+  description: Joi.string().optional().max(1000),
+  durationMinutes: Joi.number().integer().min(5).max(480).required(),
+  bufferBeforeMinutes: Joi.number().integer().min(0).max(240).default(0),
+  bufferAfterMinutes: Joi.number().integer().min(0).max(240).default(0),
+  price: priceSchema.optional(),
+  resourceIds: Joi.array().items(Joi.string().max(64)).unique().max(10).default([])
+});
+
+const updateServiceSchema = Joi.object({
+  name: Joi.string().trim().optional().min(1).max(100),
+  description: Joi.string().optional().max(1000),
+  durationMinutes: Joi.number().integer().min(5).max(480).optional(),
+  bufferBeforeMinutes: Joi.number().integer().min(0).max(240).optional(),
+  bufferAfterMinutes: Joi.number().integer().min(0).max(240).optional(),
+  price: priceSchema.allow(null).optional(), // null removes the price
+  resourceIds: Joi.array().items(Joi.string().max(64)).unique().max(10).optional()
+}).min(1);
+
+export interface Price {
+  amount: number;
+  currency: string;
+}
+
+// Free time kept around an appointment, e.g. to prepare or clean up
+export interface Buffers {
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+}
+
+export interface BookableService extends Buffers {
+  serviceId: string;
+  tenantId: string;
+  name: string;
+  description?: string;
+  durationMinutes: number;
+  price?: Price;
+  resourceIds: string[]; // Reserved by every appointment booked for the service
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What an appointment keeps of the service it was booked for, so reports and
+// buffers don't change when the catalog does
+export interface ServiceSnapshot extends Buffers {
+  serviceId: string;
+  name: string;
+  durationMinutes: number;
+  price?: Price;
+}
+
+// The kinds of appointments a tenant offers. Everyone in the tenant can see
+// the catalog; only admins maintain it.
+export class ServiceCatalogService {
+  private dynamodb: DynamoDB.DocumentClient;
+  private resourceService: ResourceService;
+  private logger: Logger;
+
+  constructor() {
+    this.dynamodb = new DynamoDB.DocumentClient();
+    this.resourceService = new ResourceService();
+    this.logger = new Logger('ServiceCatalogService');
+  }
+
+  async createService(tenantId: string, userId: string, userRole: string, data: any): Promise<BookableService> {
+    try {
+      this.requireAdmin(userRole);
+
+      const { error, value } = createServiceSchema.validate(data || {});
+      if (error) {
+        throw new ValidationError('Validation failed', { errors: error.details.map(d => d.message) });
+      }
+      await this.checkResources(tenantId, value.resourceIds);
+
+      const now = new Date().toISOString();
+      const service: BookableService = {
+        serviceId: uuidv4(),
+        tenantId,
+        ...value,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await this.dynamodb.put({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Item: {
+          ...this.buildKeys(service),
+          ...service
+        },
+        ConditionExpression: 'attribute_not_exists(PK)'
+      }).promise();
+
+      this.logger.info('Service created', { serviceId: service.serviceId, tenantId, userId });
+      return service;
+    } catch (error) {
+      this.logger.error('Error creating service', error);
+      throw error;
+    }
+  }
+
+  // The tenant's services by name
+  async listServices(tenantId: string): Promise<BookableService[]> {
+    try {
+      const items: DynamoDB.DocumentClient.AttributeMap[] = [];
+      const params: DynamoDB.DocumentClient.QueryInput = {
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :servicesKey',
+        ExpressionAttributeValues: {
+          ':servicesKey': `TENANT#${tenantId}#SERVICES`
+        }
+      };
+
+      do {
+        const result = await this.dynamodb.query(params).promise();
+        items.push(...(result.Items || []));
+        params.ExclusiveStartKey = result.LastEvaluatedKey;
+      } while (params.ExclusiveStartKey);
+
+      return items.map(item => this.toService(item));
+    } catch (error) {
+      this.logger.error('Error listing services', error);
+      throw error;
+    }
+  }
+
+  async getService(tenantId: string, serviceId: string): Promise<BookableService | null> {
+    try {
+      const result = await this.dynamodb.get({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Key: this.key(tenantId, serviceId)
+      }).promise();
+
+      return result.Item ? this.toService(result.Item) : null;
+    } catch (error) {
+      this.logger.error('Error getting service', error);
+      throw error;
+    }
+  }
+
+  async updateService(tenantId: string, serviceId: string, userId: string, userRole: string, data: any): Promise<BookableService | null> {
+    try {
+      this.requireAdmin(userRole);
+
+      const { error, value } = updateServiceSchema.validate(data || {});
+      if (error) {
+        throw new ValidationError('Validation failed', { errors: error.details.map(d => d.message) });
+      }
+
+      const existing = await this.getService(tenantId, serviceId);
+      if (!existing) {
+        return null;
+      }
+      if (value.resourceIds) {
+        await this.checkResources(tenantId, value.resourceIds);
+      }
+
+      const service: BookableService = { ...existing, ...value, updatedAt: new Date().toISOString() };
+      if (value.price === null) {
+        delete service.price;
+      }
+
+      await this.dynamodb.put({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Item: {
+          ...this.buildKeys(service),
+          ...service
+        },
+        ConditionExpression: 'attribute_exists(PK)'
+      }).promise();
+
+      this.logger.info('Service updated', { serviceId, tenantId, userId });
+      return service;
+    } catch (error) {
+      this.logger.error('Error updating service', error);
+      throw error;
+    }
+  }
+
+  // Appointments booked for the service keep their snapshot of it
+  async deleteService(tenantId: string, serviceId: string, userId: string, userRole: string): Promise<boolean> {
+    try {
+      this.requireAdmin(userRole);
+
+      const existing = await this.getService(tenantId, serviceId);
+      if (!existing) {
+        return false;
+      }
+
+      await this.dynamodb.delete({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Key: this.key(tenantId, serviceId)
+      }).promise();
+
+      this.logger.info('Service deleted', { serviceId, tenantId, userId });
+      return true;
+    } catch (error) {
+      this.logger.error('Error deleting service', error);
+      throw error;
+    }
+  }
+
+  private async checkResources(tenantId: string, resourceIds: string[]): Promise<void> {
+    const resources = await this.resourceService.getResources(tenantId, resourceIds);
+    const unknown = resourceIds.filter(resourceId => !resources.some(resource => resource.resourceId === resourceId));
+    if (unknown.length > 0) {
+      throw new ValidationError('Validation failed', { errors: [`Unknown resources: ${unknown.join(', ')}`] });
+    }
+  }
+
+  private requireAdmin(userRole: string): void {
+    if (!isAdmin(userRole)) {
+      throw new ForbiddenError('Only tenant admins can manage services');
+    }
+  }
+
+  private key(tenantId: string, serviceId: string): DynamoDB.DocumentClient.Key {
+    return {
+      PK: `TENANT#${tenantId}#SERVICE#${serviceId}`,
+      SK: `SERVICE#${serviceId}`
+    };
+  }
+
+  // Services live next to the appointments and are indexed per tenant on GSI1
+  // by name
+  private buildKeys(service: BookableService): DynamoDB.DocumentClient.PutItemInputAttributeMap {
+    return {
+      ...this.key(service.tenantId, service.serviceId),
+      GSI1PK: `TENANT#${service.tenantId}#SERVICES`,
+      GSI1SK: `${service.name.toLowerCase()}#${service.serviceId}`
+    };
+  }
+
+  private toService(item: DynamoDB.DocumentClient.AttributeMap): BookableService {
+    const { PK, SK, GSI1PK, GSI1SK, ...service } = item;
+    return service as BookableService;
+  }
+}
@@ -0,0 +1,401 @@
+import { DynamoDB } from 'aws-sdk';
+import { v4 as uuidv4 } from 'uuid';
+import moment from 'moment-timezone';
+import Joi from 'joi';
+import { isAdmin } from './AuthService';
+import { UserService } from './UserService';
+import { Logger } from '../utils/Logger';
+import { ConflictError, ForbiddenError, UnprocessableEntityError, ValidationError } from '../utils/Errors';
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+const PLANS = ['basic', 'premium'];
+
+const MAX_CLOSURES = 200;
+
+const timeOfDay = Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/, 'HH:mm');
+
+const calendarDate = Joi.string().custom((value: string) => {
+  if (!moment(value, 'YYYY-MM-DD', true).isValid()) {
+    throw new Error(`"${value}" is not a date, e.g. 2025-12-25`);
+  }
+  return value;
+});
+
+// Accepts IANA zone names in any case and stores their canonical spelling
+const timezoneValidator = (value: string) => {
+  const zone = moment.tz.zone(value);
+  if (!zone) {
+    throw new Error(`"${value}" is not an IANA time zone, e.g. America/Los_Angeles`);
+  }
+  return zone.name;
+};
+
+// Lowercase letters, digits and single dashes, e.g. acme-dental
+const slugSchema = Joi.string().lowercase().pattern(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'slug').min(3).max(50);
+
+// Given settings replace the stored ones key by key
+const settingsSchema = Joi.object({
+  timezone: Joi.string().max(64).custom(timezoneValidator).optional(),
+  workingHours: Joi.object({
+    start: timeOfDay.required(),
+    end: timeOfDay.required(),
+    days: Joi.array().items(Joi.string().valid(...WEEKDAYS)).unique().min(1).required()
+  }).optional(),
+  publicBooking: Joi.object({
+    enabled: Joi.boolean().required(),
+    userId: Joi.string().required().max(128)
+  }).allow(null).optional(), // null removes the public booking page
+  closures: Joi.array().items(Joi.object({
+    name: Joi.string().trim().required().min(1).max(100),
+    startDate: calendarDate.required(),
+    endDate: calendarDate.optional(),
+    annual: Joi.boolean().default(false)
+  })).max(MAX_CLOSURES).optional() // Replaces the whole list
+});
+
+const createTenantSchema = Joi.object({
+  name: Joi.string().trim().required().min(1).max(100),
+  slug: slugSchema.optional(),
+  domain: Joi.string().domain().optional(),
+  plan: Joi.string().valid(...PLANS).default('basic'),
+  settings: settingsSchema.default({})
+});
+
+// Plan and domain are managed by super admins
+const updateTenantSchema = Joi.object({
+  name: Joi.string().trim().optional().min(1).max(100),
+  slug: slugSchema.optional(),
+  domain: Joi.string().domain().optional(),
+  plan: Joi.string().valid(...PLANS).optional(),
+  settings: settingsSchema.optional()
+}).min(1);
+
+const suspendSchema = Joi.object({
+  reason: Joi.string().trim().optional().max(500)
+});
+
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+export interface WorkingHours {
+  start: string; // HH:mm in the tenant timezone
+  end: string;
+  days: Weekday[];
+}
+
+// Customers booking through the public page end up in this user's calendar
+export interface PublicBookingSettings {
+  enabled: boolean;
+  userId: string;
+}
+
+// Days the tenant is closed, such as holidays. Appointments can't be booked on them.
+export interface Closure {
+  name: string; // e.g. Christmas Day
+  startDate: string; // YYYY-MM-DD in the tenant timezone
+  endDate?: string; // Last closed day; just the start date when left out
+  annual: boolean; // Repeats on the same dates every year
+}
+
+export interface TenantSettings {
+  timezone: string; // IANA zone, e.g. America/New_York
+  workingHours: WorkingHours;
+  publicBooking?: PublicBookingSettings;
+  closures?: Closure[];
+}
+
+export type TenantStatus = 'active' | 'suspended';
+
+export interface Tenant {
+  tenantId: string;
+  name: string;
+  slug?: string; // Names the tenant's public booking page, /book/<slug>
+  domain?: string;
+  plan: string;
+  status: TenantStatus;
+  createdAt: string;
+  updatedAt?: string;
+  suspendedAt?: string;
+  suspendedBy?: string;
+  suspensionReason?: string;
+  settings: TenantSettings;
+}
+
+export const DEFAULT_TENANT_SETTINGS: TenantSettings = {
+  timezone: 'UTC',
+  workingHours: {
+    start: '09:00',
+    end: '17:00',
+    days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday']
+  }
+};
+
+// Tenant records and their settings. Super admins create and suspend tenants;
+// tenant admins maintain their own tenant's name, slug and settings.
+export class TenantService {
+  private dynamodb: DynamoDB.DocumentClient;
+  private userService: UserService;
+  private logger: Logger;
+
+  constructor() {
+    this.dynamodb = new DynamoDB.DocumentClient();
+    this.userService = new UserService();
+    this.logger = new Logger('TenantService');
+  }
+
+  async createTenant(userId: string, userRole: string, data: any): Promise<Tenant> {
+    try {
+      if (userRole !== 'super-admin') {
+        throw new ForbiddenError('Only super admins can create tenants');
+      }
+
+      const { error, value } = createTenantSchema.validate(data || {});
+      if (error) {
+        throw new ValidationError('Validation failed', { errors: error.details.map(d => d.message) });
+      }
+      this.validateSettings(value.settings);
+      if (value.slug) {
+        await this.checkSlug(value.slug);
+      }
+
+      const now = new Date().toISOString();
+      const tenant: Tenant = {
+        tenantId: uuidv4(),
+        ...value,
+        status: 'active',
+        createdAt: now,
+        updatedAt: now,
+        settings: this.mergeSettings(DEFAULT_TENANT_SETTINGS, value.settings)
+      };
+
+      await this.dynamodb.put({
+        TableName: process.env['TENANTS_TABLE_NAME']!,
+        Item: tenant,
+        ConditionExpression: 'attribute_not_exists(tenantId)'
+      }).promise();
+
+      this.logger.info('Tenant created', { tenantId: tenant.tenantId, userId });
+      return tenant;
+    } catch (error) {
+      this.logger.error('Error creating tenant', error);
+      throw error;
+    }
+  }
+
+  async getTenant(tenantId: string): Promise<Tenant | null> {
+    try {
+      const params: DynamoDB.DocumentClient.GetItemInput = {
+        TableName: process.env['TENANTS_TABLE_NAME']!,
+        Key: { tenantId }
+      };
+
+      const result = await this.dynamodb.get(params).promise();
+
+      if (!result.Item) {
+        return null;
+      }
+
+      return result.Item as Tenant;
+    } catch (error) {
+      this.logger.error('Error getting tenant', error);
+      throw error;
+    }
+  }
+
+  async getTenantBySlug(slug: string): Promise<Tenant | null> {
+    try {
+      const result = await this.dynamodb.query({
+        TableName: process.env['TENANTS_TABLE_NAME']!,
+        IndexName: 'SlugIndex',
+        KeyConditionExpression: 'slug = :slug',
+        ExpressionAttributeValues: {
+          ':slug': slug.toLowerCase()
+        },
+        Limit: 1
+      }).promise();
+
+      return (result.Items?.[0] as Tenant | undefined) || null;
+    } catch (error) {
+      this.logger.error('Error getting tenant by slug', error);
+      throw error;
+    }
+  }
+
+  async updateTenant(tenantId: string, userId: string, userRole: string, data: any): Promise<Tenant | null> {
+    try {
+      this.requireAdmin(userRole);
+
+      const { error, value } = updateTenantSchema.validate(data || {});
+      if (error) {
+        throw new ValidationError('Validation failed', { errors: error.details.map(d => d.message) });
+      }
+      if ((value.plan !== undefined || value.domain !== undefined) && userRole !== 'super-admin') {
+        throw new ForbiddenError('Only super admins can change the plan or domain');
+      }
+      this.validateSettings(value.settings);
+
+      const existing = await this.getTenant(tenantId);
+      if (!existing) {
+        return null;
+      }
+      if (value.slug && value.slug !== existing.slug) {
+        await this.checkSlug(value.slug);
+      }
+      // Public bookings go into this user's calendar
+      const bookingUserId = value.settings?.publicBooking?.userId;
+      if (bookingUserId && !await this.userService.findMember(tenantId, bookingUserId)) {
+        throw new UnprocessableEntityError('"settings.publicBooking.userId" is not a user of this tenant');
+      }
+
+      const tenant: Tenant = {
+        ...existing,
+        ...value,
+        settings: value.settings ? this.mergeSettings(existing.settings, value.settings) : existing.settings,
+        updatedAt: new Date().toISOString()
+      };
+
+      await this.dynamodb.put({
+        TableName: process.env['TENANTS_TABLE_NAME']!,
+        Item: tenant,
+        ConditionExpression: 'attribute_exists(tenantId)'
+      }).promise();
+
+      this.logger.info('Tenant updated', { tenantId, userId });
+      return tenant;
+    } catch (error) {
+      this.logger.error('Error updating tenant', error);
+      throw error;
+    }
+  }
+
+  // Suspended tenants keep their data; their public booking page is taken down
+  async suspendTenant(tenantId: string, userId: string, userRole: string, data: any): Promise<Tenant | null> {
+    try {
+      if (userRole !== 'super-admin') {
+        throw new ForbiddenError('Only super admins can suspend tenants');
+      }
+
+      const { error, value } = suspendSchema.validate(data || {});
+      if (error) {
+        throw new ValidationError('Validation failed', { errors: error.details.map(d => d.message) });
+      }
+
+      const existing = await this.getTenant(tenantId);
+      if (!existing) {
+        return null;
+      }
+      if (existing.status === 'suspended') {
+        throw new UnprocessableEntityError('The tenant is already suspended');
+      }
+
+      const now = new Date().toISOString();
+      const tenant: Tenant = {
+        ...existing,
+        status: 'suspended',
+        suspendedAt: now,
+        suspendedBy: userId,
+        ...(value.reason && { suspensionReason: value.reason }),
+        updatedAt: now
+      };
+
+      await this.dynamodb.put({
+        TableName: process.env['TENANTS_TABLE_NAME']!,
+        Item: tenant,
+        ConditionExpression: 'attribute_exists(tenantId)'
+      }).promise();
+
+      this.logger.info('Tenant suspended', { tenantId, userId });
+      return tenant;
+    } catch (error) {
+      this.logger.error('Error suspending tenant', error);
+      throw error;
+    }
+  }
+
+  async reactivateTenant(tenantId: string, userId: string, userRole: string): Promise<Tenant | null> {
+    try {
+      if (userRole !== 'super-admin') {
+        throw new ForbiddenError('Only super admins can reactivate tenants');
+      }
+
+      const existing = await this.getTenant(tenantId);
+      if (!existing) {
+        return null;
+      }
+      if (existing.status !== 'suspended') {
+        throw new UnprocessableEntityError('The tenant is not suspended');
+      }
+
+      const { suspendedAt, suspendedBy, suspensionReason, ...rest } = existing;
+      const tenant: Tenant = { ...rest, status: 'active', updatedAt: new Date().toISOString() };
+
+      await this.dynamodb.put({
+        TableName: process.env['TENANTS_TABLE_NAME']!,
+        Item: tenant,
+        ConditionExpression: 'attribute_exists(tenantId)'
+      }).promise();
+
+      this.logger.info('Tenant reactivated', { tenantId, userId });
+      return tenant;
+    } catch (error) {
+      this.logger.error('Error reactivating tenant', error);
+      throw error;
+    }
+  }
+
+  // Tenant settings with defaults filled in for anything the record leaves out
+  async getSettings(tenantId: string): Promise<TenantSettings | null> {
+    const tenant = await this.getTenant(tenantId);
+    if (!tenant) {
+      return null;
+    }
+
+    return {
+      ...DEFAULT_TENANT_SETTINGS,
+      ...tenant.settings,
+      workingHours: {
+        ...DEFAULT_TENANT_SETTINGS.workingHours,
+        ...tenant.settings?.workingHours
+      }
+    };
+  }
+
+  private requireAdmin(userRole: string): void {
+    if (!isAdmin(userRole)) {
+      throw new ForbiddenError('Only tenant admins can manage the tenant');
+    }
+  }
+
+  private validateSettings(settings?: Partial<TenantSettings>): void {
+    const errors: string[] = [];
+    const hours = settings?.workingHours;
+    if (hours && hours.end <= hours.start) {
+      errors.push('"settings.workingHours.end" must be after "settings.workingHours.start"');
+    }
+    (settings?.closures || []).forEach((closure, index) => {
+      if (closure.endDate && closure.endDate < closure.startDate) {
+        errors.push(`"settings.closures[${index}].endDate" must not be before "settings.closures[${index}].startDate"`);
+      } else if (closure.annual && closure.endDate && moment(closure.endDate).diff(closure.startDate, 'years', true) >= 1) {
+        errors.push(`"settings.closures[${index}]" repeats every year, so it must be shorter than a year`);
+      }
+    });
+    if (errors.length > 0) {
+      throw new ValidationError('Validation failed', { errors });
+    }
+  }
+
+  // The slug index can't enforce uniqueness, so taken slugs are looked up first
+  private async checkSlug(slug: string): Promise<void> {
+    if (await this.getTenantBySlug(slug)) {
+      throw new ConflictError(`The slug "${slug}" is already taken`);
+    }
+  }
+
+  private mergeSettings(current: TenantSettings, changes: any): TenantSettings {
+    const settings: TenantSettings = { ...current, ...changes };
+    if (changes.publicBooking === null) {
+      delete settings.publicBooking;
+    }
+    return settings;
+  }
+}
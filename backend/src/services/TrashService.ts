@@ -0,0 +1,173 @@
+import { DynamoDB } from 'aws-sdk';
+import moment from 'moment-timezone';
+import { Logger } from '../utils/Logger';
+import { AuditService } from './AuditService';
+import { isAdmin } from './AuthService';
+import { AppointmentService, Appointment, AppointmentPage, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, PageOptions } from './AppointmentService';
+import { ForbiddenError, ValidationError } from '../utils/Errors';
+import { SignedToken } from '../utils/SignedToken';
+import { APPOINTMENT_RETENTION_DAYS, AppointmentItems } from '../utils/AppointmentItems';
+import { ReminderSchedule } from '../utils/ReminderSchedule';
+import { RecurrenceRule } from '../utils/RecurrenceRule';
+import { Occurrences } from '../utils/Occurrences';
+
+// Deleted appointments. Deleting moves an appointment out of the date indexes
+// into the tenant's trash, where it can be restored until the TTL purges it.
+export class TrashService {
+  private dynamodb: DynamoDB.DocumentClient;
+  private auditService: AuditService;
+  private appointmentService: AppointmentService;
+  private logger: Logger;
+
+  constructor() {
+    this.dynamodb = new DynamoDB.DocumentClient();
+    this.auditService = new AuditService();
+    this.appointmentService = new AppointmentService();
+    this.logger = new Logger('TrashService');
+  }
+
+  // Deleted appointments of the whole tenant, most recently deleted first
+  async listTrash(tenantId: string, userRole: string, page: PageOptions = {}): Promise<AppointmentPage> {
+    try {
+      if (!isAdmin(userRole)) {
+        throw new ForbiddenError('Only tenant admins can view the trash');
+      }
+
+      const limit = page.limit ?? DEFAULT_PAGE_SIZE;
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        throw new ValidationError(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+      }
+
+      const audience = `trash:${tenantId}`;
+      let exclusiveStartKey: DynamoDB.DocumentClient.Key | undefined;
+      if (page.nextToken) {
+        exclusiveStartKey = SignedToken.verify<DynamoDB.DocumentClient.Key>(page.nextToken, audience) || undefined;
+        if (!exclusiveStartKey) {
+          throw new ValidationError('Invalid nextToken');
+        }
+      }
+
+      const result = await this.dynamodb.query({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :trashKey',
+        ExpressionAttributeValues: {
+          ':trashKey': `TENANT#${tenantId}#TRASH`
+        },
+        ScanIndexForward: false,
+        Limit: limit,
+        ...(exclusiveStartKey && { ExclusiveStartKey: exclusiveStartKey })
+      }).promise();
+
+      return {
+        appointments: (result.Items || []) as Appointment[],
+        nextToken: result.LastEvaluatedKey ? SignedToken.sign(result.LastEvaluatedKey, audience) : undefined
+      };
+    } catch (error) {
+      this.logger.error('Error listing trash', error);
+      throw error;
+    }
+  }
+
+  // Brings an appointment back from the trash into the date indexes. Owners can
+  // restore their own appointments, admins any in the tenant.
+  async restoreAppointment(
+    tenantId: string,
+    appointmentId: string,
+    userId: string,
+    userRole: string,
+    overrideConflicts: boolean = false,
+    requestId?: string
+  ): Promise<Appointment | null> {
+    try {
+      const result = await this.dynamodb.get({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Key: AppointmentItems.key(tenantId, appointmentId)
+      }).promise();
+
+      const deleted = result.Item as Appointment | undefined;
+      if (!deleted || !deleted.deletedAt) {
+        return null;
+      }
+
+      if (!isAdmin(userRole) && deleted.userId !== userId) {
+        throw new ForbiddenError('Access denied');
+      }
+
+      // The slot may have been booked while the appointment was in the trash
+      const conflictOverride = deleted.status === 'cancelled' ? undefined : await this.appointmentService.checkConflicts(
+        tenantId,
+        deleted.userId,
+        userId,
+        userRole,
+        this.appointmentService.withBuffers(deleted.recurrenceRule
+          ? Occurrences.slots(RecurrenceRule.parse(deleted.recurrenceRule), deleted.startTime, deleted.endTime, deleted.timezone)
+          : [{ startTime: deleted.startTime, endTime: deleted.endTime }], deleted.service),
+        overrideConflicts,
+        [],
+        undefined,
+        await this.appointmentService.loadResources(tenantId, deleted.resourceIds, [])
+      );
+
+      // Drop the trash keys so the date index keys are rebuilt from the start time
+      const appointment = AppointmentItems.fields(deleted, 'deletedAt', 'deletedBy');
+      const keys = AppointmentItems.build(appointment);
+      const guard = AppointmentItems.versionGuard(deleted);
+
+      // A pending reminder goes back into the index, due now at the latest
+      const planned = ReminderSchedule.plan(appointment, deleted.reminder);
+      const reminder = planned?.status === 'pending'
+        ? { ...planned, nextAttemptAt: moment.max(moment.utc(planned.nextAttemptAt), moment.utc()).toISOString() }
+        : planned;
+      const reminderKeys = reminder?.status === 'pending' ? ReminderSchedule.indexKeys(appointment, reminder) : undefined;
+
+      const updated = await AppointmentItems.writeIfUnchanged(() => this.dynamodb.update({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Key: {
+          PK: keys.PK,
+          SK: keys.SK
+        },
+        UpdateExpression: 'SET GSI1PK = :tenantKey, GSI1SK = :sortKey, GSI2PK = :userKey, GSI2SK = :sortKey, #ttl = :ttl, '
+          + 'updatedAt = :updatedAt, version = :nextVersion'
+          + (conflictOverride ? ', conflictOverride = :conflictOverride' : '')
+          + (reminderKeys ? ', reminder = :reminder, GSI3PK = :reminderKey, GSI3SK = :reminderSortKey' : '')
+          + ' REMOVE deletedAt, deletedBy'
+          + (!reminder && deleted.reminder ? ', reminder' : ''),
+        ConditionExpression: `${guard.condition} AND attribute_exists(deletedAt)`,
+        ExpressionAttributeNames: {
+          '#ttl': 'ttl'
+        },
+        ExpressionAttributeValues: {
+          ':tenantKey': keys.GSI1PK,
+          ':userKey': keys.GSI2PK,
+          ':sortKey': keys.GSI1SK,
+          ':ttl': AppointmentItems.expiresAt(deleted.createdAt, APPOINTMENT_RETENTION_DAYS),
+          ':updatedAt': new Date().toISOString(),
+          ':nextVersion': guard.nextVersion,
+          ...(conflictOverride && { ':conflictOverride': conflictOverride }),
+          ...(reminderKeys && { ':reminder': reminder, ':reminderKey': reminderKeys.GSI3PK, ':reminderSortKey': reminderKeys.GSI3SK }),
+          ...guard.values
+        },
+        ReturnValues: 'ALL_NEW'
+      }).promise());
+
+      await this.auditService.record({
+        tenantId,
+        appointmentId,
+        ownerId: deleted.userId,
+        action: 'restore',
+        actorId: userId,
+        actorRole: userRole,
+        requestId,
+        before: deleted,
+        after: updated.Attributes
+      });
+
+      this.logger.info('Appointment restored successfully', { appointmentId, tenantId, userId });
+      return updated.Attributes as Appointment;
+    } catch (error) {
+      this.logger.error('Error restoring appointment', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,285 @@
+import { DynamoDB } from 'aws-sdk';
+import Joi from 'joi';
+import { AuthService, isAdmin } from './AuthService';
+import { Logger } from '../utils/Logger';
+import { ConflictError, ForbiddenError, UnprocessableEntityError, ValidationError } from '../utils/Errors';
+
+const ROLES = ['tenant-user', 'tenant-admin', 'super-admin'];
+
+const inviteSchema = Joi.object({
+  email: Joi.string().email().lowercase().required(),
+  name: Joi.string().trim().optional().min(1).max(100),
+  role: Joi.string().valid(...ROLES).default('tenant-user')
+});
+
+const roleSchema = Joi.object({
+  role: Joi.string().valid(...ROLES).required()
+});
+
+export type UserRole = 'tenant-user' | 'tenant-admin' | 'super-admin';
+
+export type UserStatus = 'active' | 'disabled';
+
+// A member of a tenant as listed in the users table. Logins, groups and
+// passwords live in Cognito, whose username is the userId.
+export interface User {
+  userId: string;
+  tenantId: string;
+  email: string;
+  name?: string;
+  role: UserRole;
+  status: UserStatus;
+  createdAt: string;
+  updatedAt?: string;
+  invitedBy?: string;
+  disabledAt?: string;
+  disabledBy?: string;
+}
+
+// A user with what Cognito knows about their login
+export interface UserDetails extends User {
+  enabled: boolean;
+  cognitoStatus: string; // FORCE_CHANGE_PASSWORD until an invitation is accepted
+}
+
+// Tenant admins manage the users of their tenant: they invite them, change
+// their role and disable or re-enable them. Only super admins may grant the
+// super-admin role or manage super admins.
+export class UserService {
+  private dynamodb: DynamoDB.DocumentClient;
+  private authService: AuthService;
+  private logger: Logger;
+
+  constructor() {
+    this.dynamodb = new DynamoDB.DocumentClient();
+    this.authService = new AuthService();
+    this.logger = new Logger('UserService');
+  }
+
+  async listUsers(tenantId: string, userRole: string): Promise<User[]> {
+    try {
+      this.requireAdmin(userRole);
+
+      const users: User[] = [];
+      let exclusiveStartKey: DynamoDB.DocumentClient.Key | undefined;
+      do {
+        const result = await this.dynamodb.query({
+          TableName: process.env['USERS_TABLE_NAME']!,
+          IndexName: 'TenantIndex',
+          KeyConditionExpression: 'tenantId = :tenantId',
+          ExpressionAttributeValues: {
+            ':tenantId': tenantId
+          },
+          ExclusiveStartKey: exclusiveStartKey
+        }).promise();
+
+        users.push(...((result.Items || []) as User[]));
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return users.sort((a, b) => a.email.localeCompare(b.email));
+    } catch (error) {
+      this.logger.error('Error listing users', error);
+      throw error;
+    }
+  }
+
+  async getUser(tenantId: string, userId: string, userRole: string): Promise<UserDetails | null> {
+    try {
+      this.requireAdmin(userRole);
+
+      const user = await this.getRecord(tenantId, userId);
+      if (!user) {
+        return null;
+      }
+
+      const info = await this.authService.getUserInfo(userId);
+      return { ...user, enabled: info.enabled, cognitoStatus: info.status };
+    } catch (error) {
+      this.logger.error('Error getting user', error);
+      throw error;
+    }
+  }
+
+  // Cognito mails the new user a temporary password
+  async inviteUser(tenantId: string, actorId: string, actorRole: string, data: any): Promise<User> {
+    try {
+      this.requireAdmin(actorRole);
+
+      const { error, value } = inviteSchema.validate(data || {});
+      if (error) {
+        throw new ValidationError('Validation failed', { errors: error.details.map(d => d.message) });
+      }
+      this.checkGrant(actorRole, value.role);
+
+      let created: any;
+      try {
+        created = await this.authService.createUser({ email: value.email, name: value.name, tenantId, role: value.role });
+      } catch (error: any) {
+        if (error?.code === 'UsernameExistsException') {
+          throw new ConflictError(`A user with the email ${value.email} already exists`);
+        }
+        throw error;
+      }
+
+      const now = new Date().toISOString();
+      const user: User = {
+        userId: created.Username,
+        tenantId,
+        email: value.email,
+        ...(value.name && { name: value.name }),
+        role: value.role,
+        status: 'active',
+        createdAt: now,
+        updatedAt: now,
+        invitedBy: actorId
+      };
+
+      await this.dynamodb.put({
+        TableName: process.env['USERS_TABLE_NAME']!,
+        Item: user,
+        ConditionExpression: 'attribute_not_exists(userId)'
+      }).promise();
+
+      this.logger.info('User invited', { tenantId, userId: user.userId, role: user.role, invitedBy: actorId });
+      return user;
+    } catch (error) {
+      this.logger.error('Error inviting user', error);
+      throw error;
+    }
+  }
+
+  async changeRole(tenantId: string, userId: string, actorId: string, actorRole: string, data: any): Promise<User | null> {
+    try {
+      this.requireAdmin(actorRole);
+
+      const { error, value } = roleSchema.validate(data || {});
+      if (error) {
+        throw new ValidationError('Validation failed', { errors: error.details.map(d => d.message) });
+      }
+      this.checkGrant(actorRole, value.role);
+
+      const user = await this.getRecord(tenantId, userId);
+      if (!user) {
+        return null;
+      }
+      this.checkTarget(user, actorId, actorRole);
+      if (user.role === value.role) {
+        return user;
+      }
+
+      await this.authService.setUserRole(userId, value.role, user.role);
+      const updated = await this.putRecord({ ...user, role: value.role, updatedAt: new Date().toISOString() });
+
+      this.logger.info('User role changed', { tenantId, userId, from: user.role, to: value.role, changedBy: actorId });
+      return updated;
+    } catch (error) {
+      this.logger.error('Error changing user role', error);
+      throw error;
+    }
+  }
+
+  // Disabled users can't sign in, and their refresh tokens are revoked
+  async disableUser(tenantId: string, userId: string, actorId: string, actorRole: string): Promise<User | null> {
+    try {
+      this.requireAdmin(actorRole);
+
+      const user = await this.getRecord(tenantId, userId);
+      if (!user) {
+        return null;
+      }
+      this.checkTarget(user, actorId, actorRole);
+      if (user.status === 'disabled') {
+        throw new UnprocessableEntityError('The user is already disabled');
+      }
+
+      await this.authService.disableUser(userId);
+      const now = new Date().toISOString();
+      const updated = await this.putRecord({ ...user, status: 'disabled', disabledAt: now, disabledBy: actorId, updatedAt: now });
+
+      this.logger.info('User disabled', { tenantId, userId, disabledBy: actorId });
+      return updated;
+    } catch (error) {
+      this.logger.error('Error disabling user', error);
+      throw error;
+    }
+  }
+
+  async enableUser(tenantId: string, userId: string, actorId: string, actorRole: string): Promise<User | null> {
+    try {
+      this.requireAdmin(actorRole);
+
+      const user = await this.getRecord(tenantId, userId);
+      if (!user) {
+        return null;
+      }
+      this.checkTarget(user, actorId, actorRole);
+      if (user.status !== 'disabled') {
+        throw new UnprocessableEntityError('The user is not disabled');
+      }
+
+      await this.authService.enableUser(userId);
+      const { disabledAt, disabledBy, ...rest } = user;
+      const updated = await this.putRecord({ ...rest, status: 'active', updatedAt: new Date().toISOString() });
+
+      this.logger.info('User enabled', { tenantId, userId, enabledBy: actorId });
+      return updated;
+    } catch (error) {
+      this.logger.error('Error enabling user', error);
+      throw error;
+    }
+  }
+
+  // A member of the tenant, for services that refer to users by id; unlike
+  // getUser it is not limited to admins and doesn't ask Cognito
+  async findMember(tenantId: string, userId: string): Promise<User | null> {
+    try {
+      return await this.getRecord(tenantId, userId);
+    } catch (error) {
+      this.logger.error('Error finding user', error);
+      throw error;
+    }
+  }
+
+  // Users of other tenants look like unknown ones
+  private async getRecord(tenantId: string, userId: string): Promise<User | null> {
+    const result = await this.dynamodb.get({
+      TableName: process.env['USERS_TABLE_NAME']!,
+      Key: { userId }
+    }).promise();
+
+    const user = result.Item as User | undefined;
+    return user && user.tenantId === tenantId ? user : null;
+  }
+
+  private async putRecord(user: User): Promise<User> {
+    await this.dynamodb.put({
+      TableName: process.env['USERS_TABLE_NAME']!,
+      Item: user,
+      ConditionExpression: 'attribute_exists(userId)'
+    }).promise();
+    return user;
+  }
+
+  private requireAdmin(userRole: string): void {
+    if (!isAdmin(userRole)) {
+      throw new ForbiddenError('Only tenant admins can manage users');
+    }
+  }
+
+  private checkGrant(actorRole: string, role: string): void {
+    if (role === 'super-admin' && actorRole !== 'super-admin') {
+      throw new ForbiddenError('Only super admins can grant the super-admin role');
+    }
+  }
+
+  // Admins can't lock themselves out, and super admins are out of tenant admins' reach
+  private checkTarget(user: User, actorId: string, actorRole: string): void {
+    if (user.userId === actorId) {
+      throw new UnprocessableEntityError('You cannot change your own account');
+    }
+    if (user.role === 'super-admin' && actorRole !== 'super-admin') {
+      throw new ForbiddenError('Only super admins can manage super admins');
+    }
+  }
+}
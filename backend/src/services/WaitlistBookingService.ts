@@ -0,0 +1,82 @@
+import { DynamoDB } from 'aws-sdk';
+import moment from 'moment-timezone';
+import { Logger } from '../utils/Logger';
+import { AppointmentService, Appointment } from './AppointmentService';
+import { WaitlistService } from './WaitlistService';
+import { ConflictError, ForbiddenError, UnprocessableEntityError } from '../utils/Errors';
+
+// Books the slots the waitlist offers. Kept apart from the WaitlistService,
+// which the AppointmentService itself uses to offer freed slots.
+export class WaitlistBookingService {
+  private dynamodb: DynamoDB.DocumentClient;
+  private appointmentService: AppointmentService;
+  private waitlistService: WaitlistService;
+  private logger: Logger;
+
+  constructor() {
+    this.dynamodb = new DynamoDB.DocumentClient();
+    this.appointmentService = new AppointmentService();
+    this.waitlistService = new WaitlistService();
+    this.logger = new Logger('WaitlistBookingService');
+  }
+
+  // Books the slot a waitlist entry was offered. The appointment and the entry
+  // are written in one transaction that also claims the slot, so an offer that
+  // expired, was cancelled or passed on to someone else can't be booked twice.
+  async acceptWaitlistOffer(
+    tenantId: string,
+    entryId: string,
+    userId: string,
+    userRole: string,
+    requestId?: string
+  ): Promise<Appointment | null> {
+    try {
+      const entry = await this.waitlistService.getEntry(tenantId, entryId);
+      if (!entry) {
+        return null;
+      }
+
+      if (!this.waitlistService.canManage(entry, userId, userRole)) {
+        throw new ForbiddenError('Access denied');
+      }
+      if (entry.status !== 'offered' || !entry.offer) {
+        throw new UnprocessableEntityError(`Waitlist entry is ${entry.status}, there is no offer to accept`);
+      }
+      const now = new Date();
+      if (!moment.utc(entry.offer.expiresAt).isAfter(now)) {
+        throw new UnprocessableEntityError('The offer has expired');
+      }
+
+      // Booked by the caller into the waiting user's calendar; the conflict
+      // check still applies
+      const prepared = await this.appointmentService.prepareCreate(tenantId, userId, userRole, {
+        userId: entry.userId,
+        title: entry.title,
+        startTime: entry.offer.startTime,
+        endTime: entry.offer.endTime
+      });
+
+      try {
+        await this.dynamodb.transactWrite({
+          TransactItems: [
+            prepared.write,
+            ...this.waitlistService.acceptanceWrites(entry, prepared.appointment.appointmentId, now)
+          ]
+        }).promise();
+      } catch (error) {
+        if (error.code === 'TransactionCanceledException') {
+          throw new ConflictError('The offer is no longer available');
+        }
+        throw error;
+      }
+
+      await this.appointmentService.completeWrite(prepared, requestId);
+
+      this.logger.info('Waitlist offer accepted', { tenantId, entryId, appointmentId: prepared.appointment.appointmentId });
+      return prepared.appointment;
+    } catch (error) {
+      this.logger.error('Error accepting waitlist offer', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,468 @@
+import { DynamoDB } from 'aws-sdk';
+import { v4 as uuidv4 } from 'uuid';
+import moment from 'moment-timezone';
+import Joi from 'joi';
+import type { TimeSlot } from './AppointmentService';
+import { TenantService } from './TenantService';
+import { isAdmin } from './AuthService';
+import { Logger } from '../utils/Logger';
+import { ForbiddenError, ValidationError } from '../utils/Errors';
+import { MailTransport, createMailTransport } from '../notifications/MailTransport';
+
+const DEFAULT_OFFER_MINUTES = 60;
+
+// Partitions read behind the current hour, for offers missed while the worker was down
+const OFFER_LOOKBACK_HOURS = 24;
+
+// Entries are purged this long after their window has passed
+const ENTRY_RETENTION_DAYS = 30;
+
+const waitlistEntrySchema = Joi.object({
+  userId: Joi.string().optional(), // Calendar the slot is wanted in; defaults to the requester
+  title: Joi.string().required().min(1).max(200),
+  windowStart: Joi.date().iso().required(),
+  windowEnd: Joi.date().iso().required().greater(Joi.ref('windowStart')),
+  durationMinutes: Joi.number().integer().min(5).max(480).required(),
+  email: Joi.string().email().optional() // Where offers are mailed
+});
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'booked' | 'expired' | 'cancelled';
+
+// A freed slot held for one entry until it expires
+export interface WaitlistOffer {
+  slotId: string; // The cancelled or deleted appointment that freed the slot
+  startTime: string;
+  endTime: string;
+  offeredAt: string;
+  expiresAt: string;
+}
+
+export interface WaitlistEntry {
+  entryId: string;
+  tenantId: string;
+  userId: string;
+  requestedBy: string;
+  title: string;
+  windowStart: string;
+  windowEnd: string;
+  durationMinutes: number;
+  email?: string;
+  status: WaitlistStatus;
+  offer?: WaitlistOffer;
+  appointmentId?: string; // Booked from the offer
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A slot that became free, with the appointment that held it
+export interface FreedSlot extends TimeSlot {
+  slotId: string;
+  userId: string;
+}
+
+export interface ExpirySummary {
+  expired: number;
+  reoffered: number;
+}
+
+// People waiting for a slot in a user's calendar within a time window. When a
+// matching slot frees up the longest-waiting entry gets an offer for it, which
+// expires after WAITLIST_OFFER_MINUTES and then passes on to the next one.
+export class WaitlistService {
+  private dynamodb: DynamoDB.DocumentClient;
+  private tenantService: TenantService;
+  private mailTransport: MailTransport;
+  private logger: Logger;
+
+  constructor(mailTransport: MailTransport = createMailTransport()) {
+    this.dynamodb = new DynamoDB.DocumentClient();
+    this.tenantService = new TenantService();
+    this.mailTransport = mailTransport;
+    this.logger = new Logger('WaitlistService');
+  }
+
+  // Anyone may wait for a slot in their own calendar; admins may add entries
+  // for other users' calendars
+  async createEntry(tenantId: string, userId: string, userRole: string, data: any): Promise<WaitlistEntry> {
+    try {
+      const { error, value } = waitlistEntrySchema.validate(data || {});
+      if (error) {
+        throw new ValidationError('Validation failed', { errors: error.details.map(d => d.message) });
+      }
+
+      const calendarUserId = value.userId || userId;
+      if (calendarUserId !== userId && !isAdmin(userRole)) {
+        throw new ForbiddenError('Only tenant admins can add waitlist entries for other users');
+      }
+
+      const now = new Date().toISOString();
+      const entry: WaitlistEntry = {
+        entryId: uuidv4(),
+        tenantId,
+        userId: calendarUserId,
+        requestedBy: userId,
+        title: value.title,
+        windowStart: moment.utc(value.windowStart).toISOString(),
+        windowEnd: moment.utc(value.windowEnd).toISOString(),
+        durationMinutes: value.durationMinutes,
+        ...(value.email && { email: value.email }),
+        status: 'waiting',
+        createdAt: now,
+        updatedAt: now
+      };
+      if (moment.utc(entry.windowEnd).diff(entry.windowStart, 'minutes') < entry.durationMinutes) {
+        throw new ValidationError('Validation failed', { errors: ['"durationMinutes" must fit into the window'] });
+      }
+
+      await this.dynamodb.put({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Item: {
+          ...this.buildKeys(entry),
+          ...entry,
+          ttl: moment.utc(entry.windowEnd).add(ENTRY_RETENTION_DAYS, 'days').unix()
+        },
+        ConditionExpression: 'attribute_not_exists(PK)'
+      }).promise();
+
+      this.logger.info('Waitlist entry created', { entryId: entry.entryId, tenantId, userId: entry.userId });
+      return entry;
+    } catch (error) {
+      this.logger.error('Error creating waitlist entry', error);
+      throw error;
+    }
+  }
+
+  // Entries a user made or waits on, oldest first; admins see the whole tenant
+  async listEntries(tenantId: string, userId: string, userRole: string): Promise<WaitlistEntry[]> {
+    try {
+      const seesAll = isAdmin(userRole);
+      return await this.queryEntries({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :waitlistKey',
+        ...(!seesAll && { FilterExpression: 'userId = :userId OR requestedBy = :userId' }),
+        ExpressionAttributeValues: {
+          ':waitlistKey': `TENANT#${tenantId}#WAITLIST`,
+          ...(!seesAll && { ':userId': userId })
+        }
+      });
+    } catch (error) {
+      this.logger.error('Error listing waitlist entries', error);
+      throw error;
+    }
+  }
+
+  async getEntry(tenantId: string, entryId: string): Promise<WaitlistEntry | null> {
+    try {
+      const result = await this.dynamodb.get({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Key: {
+          PK: `TENANT#${tenantId}#WAITLIST#${entryId}`,
+          SK: `WAITLIST#${entryId}`
+        }
+      }).promise();
+
+      return result.Item ? this.toEntry(result.Item) : null;
+    } catch (error) {
+      this.logger.error('Error getting waitlist entry', error);
+      throw error;
+    }
+  }
+
+  // Leaving the waitlist while holding an offer passes the slot on
+  async cancelEntry(tenantId: string, entryId: string, userId: string, userRole: string): Promise<WaitlistEntry | null> {
+    try {
+      const entry = await this.getEntry(tenantId, entryId);
+      if (!entry) {
+        return null;
+      }
+
+      if (!this.canManage(entry, userId, userRole)) {
+        throw new ForbiddenError('Access denied');
+      }
+      if (entry.status !== 'waiting' && entry.status !== 'offered') {
+        return entry;
+      }
+
+      const cancelled = await this.settle(entry, 'cancelled');
+      if (!cancelled) {
+        // Booked, expired or cancelled in the meantime
+        return this.getEntry(tenantId, entryId);
+      }
+      if (entry.status === 'offered') {
+        await this.offerSlot(tenantId, this.toFreedSlot(entry));
+      }
+
+      this.logger.info('Waitlist entry cancelled', { entryId, tenantId, userId });
+      return cancelled;
+    } catch (error) {
+      this.logger.error('Error cancelling waitlist entry', error);
+      throw error;
+    }
+  }
+
+  // Offers the slot to the longest-waiting entry it fits. An entry is claimed
+  // with a conditional write, so overlapping releases don't offer it twice.
+  async offerSlot(tenantId: string, slot: FreedSlot, now: Date = new Date()): Promise<WaitlistEntry | null> {
+    try {
+      if (!moment.utc(slot.startTime).isAfter(now)) {
+        return null;
+      }
+
+      // Waiting entries of the calendar whose window ends after the slot starts
+      const waiting = await this.queryEntries({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        IndexName: 'GSI2',
+        KeyConditionExpression: 'GSI2PK = :waitingKey AND GSI2SK > :slotStart',
+        ExpressionAttributeValues: {
+          ':waitingKey': this.waitingKey(tenantId, slot.userId),
+          ':slotStart': moment.utc(slot.startTime).toISOString()
+        }
+      });
+      waiting.sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.entryId.localeCompare(b.entryId));
+
+      for (const entry of waiting) {
+        const offered = this.fit(entry, slot);
+        if (!offered) {
+          continue;
+        }
+
+        const offer: WaitlistOffer = {
+          slotId: slot.slotId,
+          ...offered,
+          offeredAt: now.toISOString(),
+          expiresAt: moment.utc(now).add(this.offerMinutes(), 'minutes').toISOString()
+        };
+        const updated = await this.settle(entry, 'offered', offer);
+        if (updated) {
+          await this.notify(updated);
+          this.logger.info('Waitlist slot offered', { tenantId, entryId: entry.entryId, slotId: slot.slotId });
+          return updated;
+        }
+      }
+
+      return null;
+    } catch (error) {
+      this.logger.error('Error offering waitlist slot', error);
+      throw error;
+    }
+  }
+
+  // Writes that accept the entry's offer, for the transaction that books the
+  // appointment. The claim item makes sure a slot is only booked from the
+  // waitlist once, even if it was offered again after expiring.
+  acceptanceWrites(entry: WaitlistEntry, appointmentId: string, now: Date = new Date()): DynamoDB.DocumentClient.TransactWriteItem[] {
+    const offer = entry.offer!;
+    return [
+      {
+        Update: {
+          TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+          Key: {
+            PK: `TENANT#${entry.tenantId}#WAITLIST#${entry.entryId}`,
+            SK: `WAITLIST#${entry.entryId}`
+          },
+          UpdateExpression: 'SET #status = :booked, appointmentId = :appointmentId, updatedAt = :now REMOVE GSI3PK, GSI3SK',
+          ConditionExpression: '#status = :offered AND offer.slotId = :slotId AND offer.expiresAt > :now',
+          ExpressionAttributeNames: { '#status': 'status' },
+          ExpressionAttributeValues: {
+            ':booked': 'booked',
+            ':offered': 'offered',
+            ':appointmentId': appointmentId,
+            ':slotId': offer.slotId,
+            ':now': now.toISOString()
+          }
+        }
+      },
+      {
+        Put: {
+          TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+          Item: {
+            PK: `TENANT#${entry.tenantId}#WAITLIST_CLAIM#${offer.slotId}`,
+            SK: 'CLAIM',
+            entryId: entry.entryId,
+            appointmentId,
+            claimedAt: now.toISOString(),
+            ttl: moment.utc(offer.endTime).add(ENTRY_RETENTION_DAYS, 'days').unix()
+          },
+          ConditionExpression: 'attribute_not_exists(PK)'
+        }
+      }
+    ];
+  }
+
+  canManage(entry: WaitlistEntry, userId: string, userRole: string): boolean {
+    return isAdmin(userRole) || entry.requestedBy === userId || entry.userId === userId;
+  }
+
+  // Expires offers nobody accepted in time and passes their slots on. Offers
+  // are indexed on GSI3 by expiry in hourly partitions, like reminders.
+  async expireOffers(now: Date = new Date()): Promise<ExpirySummary> {
+    try {
+      const summary: ExpirySummary = { expired: 0, reoffered: 0 };
+
+      for (let hours = OFFER_LOOKBACK_HOURS; hours >= 0; hours--) {
+        const due = await this.queryEntries({
+          TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+          IndexName: 'GSI3',
+          KeyConditionExpression: 'GSI3PK = :partition AND GSI3SK <= :until',
+          ExpressionAttributeValues: {
+            ':partition': this.offerPartitionKey(moment.utc(now).subtract(hours, 'hours')),
+            ':until': `${now.toISOString()}#\uffff`
+          }
+        });
+
+        for (const entry of due) {
+          try {
+            if (entry.status !== 'offered' || !(await this.settle(entry, 'expired'))) {
+              continue; // Accepted or cancelled in the meantime
+            }
+            summary.expired++;
+
+            if (await this.offerSlot(entry.tenantId, this.toFreedSlot(entry), now)) {
+              summary.reoffered++;
+            }
+          } catch (error) {
+            this.logger.error('Error expiring waitlist offer', error);
+          }
+        }
+      }
+
+      this.logger.info('Waitlist offers expired', summary);
+      return summary;
+    } catch (error) {
+      this.logger.error('Error expiring waitlist offers', error);
+      throw error;
+    }
+  }
+
+  // The earliest part of the slot that fits the entry's window and duration
+  private fit(entry: WaitlistEntry, slot: TimeSlot): TimeSlot | null {
+    const start = moment.max(moment.utc(slot.startTime), moment.utc(entry.windowStart));
+    const end = start.clone().add(entry.durationMinutes, 'minutes');
+    if (end.isAfter(slot.endTime) || end.isAfter(entry.windowEnd)) {
+      return null;
+    }
+    return { startTime: start.toISOString(), endTime: end.toISOString() };
+  }
+
+  // Moves the entry on from the status it was read with; returns null if it
+  // changed in between
+  private async settle(entry: WaitlistEntry, status: WaitlistStatus, offer?: WaitlistOffer): Promise<WaitlistEntry | null> {
+    const now = new Date().toISOString();
+    const updated: WaitlistEntry = { ...entry, status, updatedAt: now, ...(offer && { offer }) };
+    const offerKeys = offer
+      ? { GSI3PK: this.offerPartitionKey(offer.expiresAt), GSI3SK: `${offer.expiresAt}#${entry.tenantId}#${entry.entryId}` }
+      : undefined;
+
+    try {
+      await this.dynamodb.update({
+        TableName: process.env['APPOINTMENTS_TABLE_NAME']!,
+        Key: {
+          PK: `TENANT#${entry.tenantId}#WAITLIST#${entry.entryId}`,
+          SK: `WAITLIST#${entry.entryId}`
+        },
+        // Entries never go back to waiting, so they leave the waiting index for good
+        UpdateExpression: offer
+          ? 'SET #status = :status, updatedAt = :now, offer = :offer, GSI3PK = :offerPartition, GSI3SK = :offerSortKey REMOVE GSI2PK, GSI2SK'
+          : 'SET #status = :status, updatedAt = :now REMOVE GSI2PK, GSI2SK, GSI3PK, GSI3SK',
+        ConditionExpression: '#status = :current AND updatedAt = :updatedAt',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':status': status,
+          ':now': now,
+          ':current': entry.status,
+          ':updatedAt': entry.updatedAt,
+          ...(offer && { ':offer': offer, ':offerPartition': offerKeys!.GSI3PK, ':offerSortKey': offerKeys!.GSI3SK })
+        }
+      }).promise();
+      return updated;
+    } catch (error) {
+      if (error.code === 'ConditionalCheckFailedException') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Best effort: the offer stands even if the mail can't be sent
+  private async notify(entry: WaitlistEntry): Promise<void> {
+    if (!entry.email || !entry.offer) {
+      return;
+    }
+
+    try {
+      const settings = await this.tenantService.getSettings(entry.tenantId);
+      const timezone = settings?.timezone || 'UTC';
+      const start = moment.tz(entry.offer.startTime, timezone);
+      const expires = moment.tz(entry.offer.expiresAt, timezone);
+
+      await this.mailTransport.send({
+        to: entry.email,
+        subject: `A slot opened up: ${entry.title} @ ${start.format('MMM D, YYYY h:mm A z')}`,
+        text: [
+          'Hi,',
+          '',
+          `A slot you are waiting for is available: ${start.format('dddd, MMMM D, YYYY h:mm A')} - `
+            + `${moment.tz(entry.offer.endTime, timezone).format('h:mm A z')}.`,
+          '',
+          `It is held for you until ${expires.format('MMMM D, h:mm A z')}. Sign in to accept it:`,
+          process.env['APP_BASE_URL'] || 'http://localhost:3000'
+        ].join('\n')
+      });
+    } catch (error) {
+      this.logger.error('Error sending waitlist offer', error);
+    }
+  }
+
+  private async queryEntries(params: DynamoDB.DocumentClient.QueryInput): Promise<WaitlistEntry[]> {
+    const entries: WaitlistEntry[] = [];
+    do {
+      const result = await this.dynamodb.query(params).promise();
+      entries.push(...(result.Items || []).map(item => this.toEntry(item)));
+      params.ExclusiveStartKey = result.LastEvaluatedKey;
+    } while (params.ExclusiveStartKey);
+    return entries;
+  }
+
+  private toFreedSlot(entry: WaitlistEntry): FreedSlot {
+    return {
+      slotId: entry.offer!.slotId,
+      userId: entry.userId,
+      startTime: entry.offer!.startTime,
+      endTime: entry.offer!.endTime
+    };
+  }
+
+  private offerMinutes(): number {
+    const minutes = Number(process.env['WAITLIST_OFFER_MINUTES']);
+    return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_OFFER_MINUTES;
+  }
+
+  private offerPartitionKey(time: string | Date | moment.Moment): string {
+    return `WAITLIST_OFFER#${moment.utc(time).format('YYYY-MM-DD[T]HH')}`;
+  }
+
+  private waitingKey(tenantId: string, userId: string): string {
+    return `TENANT#${tenantId}#USER#${userId}#WAITLIST`;
+  }
+
+  // Entries live next to the appointments and are indexed per tenant on GSI1
+  // in the order they were added. While waiting they are also indexed on GSI2
+  // per calendar by the end of their window, so freed slots are matched with
+  // a key condition.
+  private buildKeys(entry: WaitlistEntry): DynamoDB.DocumentClient.PutItemInputAttributeMap {
+    return {
+      PK: `TENANT#${entry.tenantId}#WAITLIST#${entry.entryId}`,
+      SK: `WAITLIST#${entry.entryId}`,
+      GSI1PK: `TENANT#${entry.tenantId}#WAITLIST`,
+      GSI1SK: `${entry.createdAt}#${entry.entryId}`,
+      GSI2PK: this.waitingKey(entry.tenantId, entry.userId),
+      GSI2SK: `${entry.windowEnd}#${entry.entryId}`
+    };
+  }
+
+  private toEntry(item: DynamoDB.DocumentClient.AttributeMap): WaitlistEntry {
+    const { PK, SK, GSI1PK, GSI1SK, GSI2PK, GSI2SK, GSI3PK, GSI3SK, ttl, ...entry } = item;
+    return entry as WaitlistEntry;
+  }
+}
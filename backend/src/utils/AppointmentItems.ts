@@ -0,0 +1,108 @@
+import { DynamoDB } from 'aws-sdk';
+import moment from 'moment-timezone';
+import type { Appointment } from '../services/AppointmentService';
+import { PreconditionFailedError } from './Errors';
+import { ReminderSchedule } from './ReminderSchedule';
+
+// Appointments are purged by DynamoDB TTL this long after they were created
+export const APPOINTMENT_RETENTION_DAYS = 365;
+
+// Table and index key attributes written next to the appointment fields
+const KEY_ATTRIBUTES = ['PK', 'SK', 'GSI1PK', 'GSI1SK', 'GSI2PK', 'GSI2SK', 'GSI3PK', 'GSI3SK'] as const;
+
+export type AppointmentKeys = { [key in typeof KEY_ATTRIBUTES[number]]?: string };
+
+// An appointment as read from the table
+export type AppointmentItem = Appointment & AppointmentKeys;
+
+// How appointments are stored: one item per appointment in its own partition,
+// in the date indexes of the tenant (GSI1) and of its owner (GSI2), and with a
+// version that every write checks and bumps
+export class AppointmentItems {
+  static key(tenantId: string, appointmentId: string): DynamoDB.DocumentClient.Key {
+    return {
+      PK: `TENANT#${tenantId}#APPOINTMENT#${appointmentId}`,
+      SK: `APPOINTMENT#${appointmentId}`
+    };
+  }
+
+  static build(appointment: Appointment): DynamoDB.DocumentClient.PutItemInputAttributeMap {
+    const sortKey = appointment.recurrenceRule
+      ? this.seriesKey(appointment.startTime)
+      : this.dateKey(appointment.startTime);
+
+    return {
+      ...this.key(appointment.tenantId, appointment.appointmentId),
+      GSI1PK: `TENANT#${appointment.tenantId}`,
+      GSI1SK: sortKey,
+      GSI2PK: `TENANT#${appointment.tenantId}#USER#${appointment.userId}`,
+      GSI2SK: sortKey,
+      ...(appointment.reminder?.status === 'pending' && ReminderSchedule.indexKeys(appointment, appointment.reminder)),
+      ...appointment
+    };
+  }
+
+  // The appointment fields of an item, without its keys and any `omitted` fields
+  static fields<K extends keyof Appointment = never>(item: AppointmentItem, ...omitted: K[]): Omit<Appointment, K> {
+    const fields: { [key: string]: unknown } = { ...item };
+    [...KEY_ATTRIBUTES, ...omitted].forEach(key => delete fields[key]);
+    return fields as Omit<Appointment, K>;
+  }
+
+  // Always in UTC, whatever zone the appointment or the Lambda is in, so keys sort by instant
+  static dateKey(time: string | Date | moment.Moment): string {
+    return `DATE#${moment.utc(time).format('YYYY-MM-DD')}#TIME#${moment.utc(time).format('HH:mm:ss')}`;
+  }
+
+  // Series masters sort apart from one-off appointments so date range queries skip them
+  static seriesKey(time: string | Date | moment.Moment): string {
+    return `SERIES#${this.dateKey(time)}`;
+  }
+
+  // Clients send back the version they loaded; anything else means someone saved in between
+  static checkVersion(appointment: Appointment, expectedVersion?: number): void {
+    if (expectedVersion !== undefined && expectedVersion !== (appointment.version || 0)) {
+      throw new PreconditionFailedError('Appointment has been modified since it was loaded', {
+        currentVersion: appointment.version || 0
+      });
+    }
+  }
+
+  // Condition for a write that only succeeds if the item still has the version
+  // it was read with. Items written before versioning count as version 0.
+  static versionGuard(appointment: Appointment): { condition: string; values: { [key: string]: number }; nextVersion: number } {
+    const version = appointment.version || 0;
+    return {
+      condition: 'attribute_exists(PK) AND (attribute_not_exists(version) OR version = :currentVersion)',
+      values: { ':currentVersion': version },
+      nextVersion: version + 1
+    };
+  }
+
+  static async writeIfUnchanged<T>(write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error) {
+      const conditionFailed = error.code === 'ConditionalCheckFailedException'
+        || (error.code === 'TransactionCanceledException' && /ConditionalCheckFailed/.test(error.message));
+      if (conditionFailed) {
+        throw new PreconditionFailedError('Appointment has been modified since it was loaded');
+      }
+      throw error;
+    }
+  }
+
+  // Epoch seconds `days` after `from`, as DynamoDB TTL expects
+  static expiresAt(from: string, days: number): number {
+    return moment.utc(from).add(days, 'days').unix();
+  }
+
+  // Times are stored as UTC ISO strings
+  static normalizeTimes(changes: any): void {
+    ['startTime', 'endTime'].forEach(key => {
+      if (changes[key] !== undefined) {
+        changes[key] = moment.utc(changes[key]).toISOString();
+      }
+    });
+  }
+}
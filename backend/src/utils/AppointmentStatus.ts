@@ -0,0 +1,65 @@
+import { ADMIN_ROLES } from '../services/AuthService';
+import { UnprocessableEntityError } from './Errors';
+
+export type AppointmentStatus = 'scheduled' | 'confirmed' | 'cancelled' | 'completed';
+
+export interface StatusChange {
+  from: AppointmentStatus | null; // null for the status an appointment was created with
+  to: AppointmentStatus;
+  changedBy: string;
+  changedByRole: string;
+  changedAt: string;
+}
+
+// Allowed status changes. Transitions without `roles` are open to anyone who
+// may edit the appointment; reopening is reserved for admins.
+const TRANSITIONS: { from: AppointmentStatus; to: AppointmentStatus; roles?: string[] }[] = [
+  { from: 'scheduled', to: 'confirmed' },
+  { from: 'scheduled', to: 'cancelled' },
+  { from: 'confirmed', to: 'completed' },
+  { from: 'confirmed', to: 'cancelled' },
+  { from: 'cancelled', to: 'scheduled', roles: ADMIN_ROLES },
+  { from: 'completed', to: 'confirmed', roles: ADMIN_ROLES }
+];
+
+export function allowedTransitions(from: AppointmentStatus, role: string): AppointmentStatus[] {
+  return TRANSITIONS
+    .filter(transition => transition.from === from && (!transition.roles || transition.roles.includes(role)))
+    .map(transition => transition.to);
+}
+
+export function canTransition(from: AppointmentStatus, to: AppointmentStatus, role: string): boolean {
+  return allowedTransitions(from, role).includes(to);
+}
+
+// Rejects status changes the state machine doesn't allow and records allowed
+// ones in `changes.statusHistory`
+export function applyStatusChange(
+  current: { status: AppointmentStatus; statusHistory?: StatusChange[] },
+  changes: any,
+  userId: string,
+  userRole: string
+): void {
+  if (changes.status === undefined || changes.status === current.status) {
+    return;
+  }
+
+  if (!canTransition(current.status, changes.status, userRole)) {
+    throw new UnprocessableEntityError(`Cannot change status from ${current.status} to ${changes.status}`, {
+      from: current.status,
+      to: changes.status,
+      allowedTransitions: allowedTransitions(current.status, userRole)
+    });
+  }
+
+  changes.statusHistory = [
+    ...(current.statusHistory || []),
+    {
+      from: current.status,
+      to: changes.status,
+      changedBy: userId,
+      changedByRole: userRole,
+      changedAt: new Date().toISOString()
+    }
+  ];
+}
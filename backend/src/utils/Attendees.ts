@@ -0,0 +1,74 @@
+export type AttendeeResponse = 'needs-action' | 'accepted' | 'declined' | 'tentative';
+
+export const ATTENDEE_RESPONSES: AttendeeResponse[] = ['needs-action', 'accepted', 'declined', 'tentative'];
+
+export interface Attendee {
+  name?: string;
+  email: string;
+  responseStatus: AttendeeResponse;
+  respondedAt?: string;
+}
+
+// Clients send attendees as emails or { name, email }; appointments stored
+// before attendees became objects hold plain emails too
+export type AttendeeInput = string | { name?: string; email: string; responseStatus?: AttendeeResponse; respondedAt?: string };
+
+export class Attendees {
+  // Attendees as stored. Responses are server-side state: they are carried
+  // over from `previous` by email and start as needs-action for new attendees.
+  static normalize(input: AttendeeInput[] = [], previous: AttendeeInput[] = []): Attendee[] {
+    const known = new Map(previous.map(attendee => {
+      const stored = this.from(attendee);
+      return [this.key(stored.email), stored] as [string, Attendee];
+    }));
+    const seen = new Set<string>();
+
+    return input.reduce((attendees: Attendee[], entry) => {
+      const attendee = typeof entry === 'string' ? { email: entry } : entry;
+      const key = this.key(attendee.email);
+      if (seen.has(key)) {
+        return attendees;
+      }
+      seen.add(key);
+
+      const stored = known.get(key);
+      attendees.push({
+        ...(attendee.name ? { name: attendee.name } : stored?.name ? { name: stored.name } : {}),
+        email: attendee.email.trim(),
+        responseStatus: stored?.responseStatus || 'needs-action',
+        ...(stored?.respondedAt && { respondedAt: stored.respondedAt })
+      });
+      return attendees;
+    }, []);
+  }
+
+  // Attendees in `attendees` that aren't in `previous`
+  static added(attendees: Attendee[], previous: AttendeeInput[] = []): Attendee[] {
+    const before = new Set(previous.map(attendee => this.key(this.from(attendee).email)));
+    return attendees.filter(attendee => !before.has(this.key(attendee.email)));
+  }
+
+  static find(attendees: AttendeeInput[] = [], email: string): Attendee | undefined {
+    const attendee = attendees.find(entry => this.key(this.from(entry).email) === this.key(email));
+    return attendee ? this.from(attendee) : undefined;
+  }
+
+  // Stored attendees as objects, including plain emails stored before
+  static read(attendees: AttendeeInput[] = []): Attendee[] {
+    return attendees.map(attendee => this.from(attendee));
+  }
+
+  static emails(attendees: AttendeeInput[] = []): string[] {
+    return attendees.map(attendee => this.from(attendee).email);
+  }
+
+  static from(attendee: AttendeeInput): Attendee {
+    return typeof attendee === 'string'
+      ? { email: attendee, responseStatus: 'needs-action' }
+      : { ...attendee, responseStatus: attendee.responseStatus || 'needs-action' };
+  }
+
+  private static key(email: string): string {
+    return email.trim().toLowerCase();
+  }
+}
@@ -0,0 +1,93 @@
+import moment from 'moment-timezone';
+import type { Closure, TenantSettings, WorkingHours } from '../services/TenantService';
+
+export type BusinessHoursViolationCode = 'closed' | 'non_working_day' | 'outside_working_hours';
+
+// Why a slot can't be booked, in terms a client can show or act on
+export interface BusinessHoursViolation {
+  code: BusinessHoursViolationCode;
+  message: string;
+  startTime: string;
+  endTime: string;
+  closure?: Closure;
+}
+
+// The tenant's working hours and closures on a given day, in its timezone
+export class BusinessHours {
+  // Start and end of work on the day, or null on days off
+  static window(day: moment.Moment, settings: TenantSettings): { start: moment.Moment; end: moment.Moment } | null {
+    const { timezone, workingHours } = settings;
+    const date = day.clone().tz(timezone);
+    if (!workingHours.days.includes(date.clone().locale('en').format('dddd').toLowerCase() as any)) {
+      return null;
+    }
+
+    return {
+      start: this.atTime(date, workingHours.start, timezone),
+      end: this.atTime(date, workingHours.end, timezone)
+    };
+  }
+
+  // Whether the slot lies within the working hours of the day it starts on
+  static contains(settings: TenantSettings, startTime: string, endTime: string): boolean {
+    const window = this.window(moment.utc(startTime), settings);
+    return !!window && !window.start.isAfter(startTime) && !window.end.isBefore(endTime);
+  }
+
+  // The closure the day falls in, if any
+  static closure(day: moment.Moment, settings: TenantSettings): Closure | undefined {
+    const date = day.clone().tz(settings.timezone).format('YYYY-MM-DD');
+    return (settings.closures || []).find(closure => {
+      const endDate = closure.endDate || closure.startDate;
+      if (!closure.annual) {
+        return closure.startDate <= date && date <= endDate;
+      }
+
+      const [from, to, monthDay] = [closure.startDate.slice(5), endDate.slice(5), date.slice(5)];
+      return from <= to
+        ? from <= monthDay && monthDay <= to
+        : monthDay >= from || monthDay <= to; // Runs into the new year
+    });
+  }
+
+  // Why the slot can't be booked, or null if it lies within the working hours
+  // of an open day
+  static check(settings: TenantSettings, startTime: string, endTime: string): BusinessHoursViolation | null {
+    const start = moment.utc(startTime).tz(settings.timezone);
+    const slot = { startTime, endTime };
+
+    const closure = this.closure(start, settings);
+    if (closure) {
+      return { code: 'closed', message: `Closed on ${start.format('dddd, MMM D, YYYY')}: ${closure.name}`, ...slot, closure };
+    }
+
+    const window = this.window(start, settings);
+    if (!window) {
+      return { code: 'non_working_day', message: `${start.clone().locale('en').format('dddd')} is not a working day`, ...slot };
+    }
+
+    if (window.start.isAfter(startTime) || window.end.isBefore(endTime)) {
+      const { start: from, end: to } = settings.workingHours;
+      return {
+        code: 'outside_working_hours',
+        message: `${start.format('MMM D, YYYY h:mm A')} - ${moment.utc(endTime).tz(settings.timezone).format('h:mm A')} `
+          + `is outside working hours (${from}-${to})`,
+        ...slot
+      };
+    }
+
+    return null;
+  }
+
+  // Settings whose working hours are the hours a resource can be booked
+  static forResource(resource: { availability?: WorkingHours }, settings: TenantSettings): TenantSettings {
+    return {
+      ...settings,
+      workingHours: resource.availability || settings.workingHours
+    };
+  }
+
+  private static atTime(day: moment.Moment, time: string, timezone: string): moment.Moment {
+    return moment.tz(`${day.format('YYYY-MM-DD')} ${time}`, 'YYYY-MM-DD HH:mm', timezone);
+  }
+}
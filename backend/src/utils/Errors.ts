@@ -0,0 +1,53 @@
+export class AppError extends Error {
+  statusCode: number;
+  details?: any;
+
+  constructor(statusCode: number, message: string, details?: any) {
+    super(message);
+    this.name = this.constructor.name;
+    this.statusCode = statusCode;
+    this.details = details;
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string = 'Forbidden', details?: any) {
+    super(403, message, details);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, details?: any) {
+    super(409, message, details);
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(message: string, details?: any) {
+    super(400, message, details);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string = 'Resource not found', details?: any) {
+    super(404, message, details);
+  }
+}
+
+export class UnprocessableEntityError extends AppError {
+  constructor(message: string, details?: any) {
+    super(422, message, details);
+  }
+}
+
+export class PreconditionFailedError extends AppError {
+  constructor(message: string, details?: any) {
+    super(412, message, details);
+  }
+}
+
+export class TooManyRequestsError extends AppError {
+  constructor(message: string = 'Too many requests', details?: any) {
+    super(429, message, details);
+  }
+}
@@ -0,0 +1,381 @@
+import moment from 'moment-timezone';
+import type { Appointment } from '../services/AppointmentService';
+import { AppointmentStatus } from './AppointmentStatus';
+import { Attendees } from './Attendees';
+
+const PRODUCT_ID = '-//AppointifyX//Appointments//EN';
+
+// Appended to appointment IDs so UIDs are globally unique and stay the same across feed refreshes
+const UID_DOMAIN = 'appointifyx';
+
+// RFC 5545 recommends folding content lines longer than 75 octets
+const MAX_LINE_OCTETS = 75;
+
+// Control characters other than HTAB, which content lines can't carry (RFC 5545 3.1)
+const CONTROL_CHARACTERS = /[\x00-\x08\x0a-\x1f\x7f]/g;
+
+const EVENT_STATUS: { [status in AppointmentStatus]: string } = {
+  scheduled: 'TENTATIVE',
+  confirmed: 'CONFIRMED',
+  cancelled: 'CANCELLED',
+  completed: 'CONFIRMED'
+};
+
+// Outlook and Exchange name zones the Windows way; these are the common ones
+const WINDOWS_TIME_ZONES: { [name: string]: string } = {
+  'UTC': 'UTC',
+  'GMT Standard Time': 'Europe/London',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'E. Europe Standard Time': 'Europe/Chisinau',
+  'Eastern Standard Time': 'America/New_York',
+  'Central Standard Time': 'America/Chicago',
+  'Mountain Standard Time': 'America/Denver',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'India Standard Time': 'Asia/Kolkata',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'AUS Eastern Standard Time': 'Australia/Sydney'
+};
+
+const APPOINTMENT_STATUS: { [status: string]: AppointmentStatus } = {
+  TENTATIVE: 'scheduled',
+  CONFIRMED: 'confirmed',
+  CANCELLED: 'cancelled'
+};
+
+export interface CalendarOptions {
+  name: string; // Shown by clients as the calendar name
+}
+
+// Appointment fields read from a VEVENT, not validated yet
+export interface EventData {
+  title?: string;
+  description?: string;
+  startTime?: string;
+  endTime?: string;
+  timezone?: string; // From the TZID of DTSTART
+  location?: string;
+  attendees: { name?: string; email: string }[];
+  status?: AppointmentStatus;
+  reminderMinutes?: number;
+  recurrenceRule?: string;
+}
+
+export interface ParsedEvent {
+  uid?: string;
+  recurrenceId?: string; // Set when the event changes one occurrence of a recurring event
+  data: EventData;
+  errors: string[]; // Why the event couldn't be read, e.g. an unknown time zone
+  warnings: string[]; // Parts of the event that were left out
+}
+
+interface ContentLine {
+  name: string;
+  params: { [name: string]: string };
+  value: string;
+}
+
+// Serializes appointments as an iCalendar (RFC 5545) document with one VEVENT
+// each, and reads the events of documents exported by other calendars
+export class ICalendar {
+  static serialize(appointments: Appointment[], options: CalendarOptions): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${this.escape(options.name)}`,
+      ...appointments.flatMap(appointment => this.event(appointment)),
+      'END:VCALENDAR'
+    ];
+
+    return lines.map(line => this.fold(line)).join('\r\n') + '\r\n';
+  }
+
+  static uid(appointmentId: string): string {
+    return `${appointmentId}@${UID_DOMAIN}`;
+  }
+
+  // Times without a zone of their own, and all-day dates, are read in
+  // `defaultTimezone`. Throws if the text isn't an iCalendar document.
+  static parse(text: string, defaultTimezone: string = 'UTC'): ParsedEvent[] {
+    const lines = this.unfold(text)
+      .map(line => this.parseLine(line))
+      .filter((line): line is ContentLine => line !== null);
+
+    if (lines[0]?.name !== 'BEGIN' || lines[0].value.toUpperCase() !== 'VCALENDAR') {
+      throw new Error('Not an iCalendar document');
+    }
+
+    const events: ParsedEvent[] = [];
+    const components: string[] = [];
+    let properties: ContentLine[] = [];
+    let alarms: ContentLine[][] = [];
+
+    for (const line of lines) {
+      const parent = components[components.length - 1];
+
+      if (line.name === 'BEGIN') {
+        const component = line.value.toUpperCase();
+        if (component === 'VEVENT' && parent === 'VCALENDAR') {
+          properties = [];
+          alarms = [];
+        } else if (component === 'VALARM' && parent === 'VEVENT') {
+          alarms.push([]);
+        }
+        components.push(component);
+      } else if (line.name === 'END') {
+        components.pop();
+        if (line.value.toUpperCase() === 'VEVENT' && parent === 'VEVENT') {
+          events.push(this.readEvent(properties, alarms, defaultTimezone));
+        }
+      } else if (parent === 'VEVENT') {
+        properties.push(line);
+      } else if (parent === 'VALARM' && components[components.length - 2] === 'VEVENT') {
+        alarms[alarms.length - 1].push(line);
+      }
+    }
+
+    return events;
+  }
+
+  private static event(appointment: Appointment): string[] {
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${this.uid(appointment.appointmentId)}`,
+      `DTSTAMP:${this.formatTime(appointment.updatedAt)}`,
+      `DTSTART:${this.formatTime(appointment.startTime)}`,
+      `DTEND:${this.formatTime(appointment.endTime)}`,
+      `SUMMARY:${this.escape(appointment.title)}`,
+      `STATUS:${EVENT_STATUS[appointment.status] || 'CONFIRMED'}`,
+      // Clients replace an event when its sequence goes up
+      `SEQUENCE:${appointment.version || 0}`,
+      `CREATED:${this.formatTime(appointment.createdAt)}`,
+      `LAST-MODIFIED:${this.formatTime(appointment.updatedAt)}`
+    ];
+
+    if (appointment.description) {
+      lines.push(`DESCRIPTION:${this.escape(appointment.description)}`);
+    }
+    if (appointment.location) {
+      lines.push(`LOCATION:${this.escape(appointment.location)}`);
+    }
+
+    (appointment.attendees || []).map(attendee => Attendees.from(attendee)).forEach(attendee => {
+      const name = attendee.name ? `;CN=${this.quote(attendee.name)}` : '';
+      const email = attendee.email.replace(CONTROL_CHARACTERS, '');
+      lines.push(`ATTENDEE${name};ROLE=REQ-PARTICIPANT;PARTSTAT=${attendee.responseStatus.toUpperCase()}:mailto:${email}`);
+    });
+
+    if (appointment.reminderMinutes !== undefined && appointment.status !== 'cancelled') {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${this.escape(appointment.title)}`,
+        `TRIGGER:-PT${appointment.reminderMinutes}M`,
+        'END:VALARM'
+      );
+    }
+
+    lines.push('END:VEVENT');
+    return lines;
+  }
+
+  private static readEvent(properties: ContentLine[], alarms: ContentLine[][], defaultTimezone: string): ParsedEvent {
+    const property = (name: string) => properties.find(line => line.name === name);
+    const text = (name: string) => {
+      const line = property(name);
+      return line && line.value ? this.unescape(line.value) : undefined;
+    };
+
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const data: EventData = { attendees: [] };
+
+    const title = text('SUMMARY');
+    const description = text('DESCRIPTION');
+    const location = text('LOCATION');
+    if (title) data.title = title;
+    if (description) data.description = description;
+    if (location) data.location = location;
+
+    try {
+      const dtStart = property('DTSTART');
+      if (!dtStart) {
+        throw new Error('DTSTART is missing');
+      }
+      const start = this.parseTime(dtStart, defaultTimezone);
+      const dtEnd = property('DTEND');
+      const duration = property('DURATION');
+
+      // Without an end, all-day events last the day and others take no time (RFC 5545 3.6.1)
+      let end = dtEnd ? this.parseTime(dtEnd, defaultTimezone) : start.clone();
+      if (!dtEnd && duration) {
+        end = start.clone().add(moment.duration(duration.value));
+      } else if (!dtEnd && this.isDate(dtStart)) {
+        end = start.clone().add(1, 'day');
+      }
+
+      data.startTime = start.toISOString();
+      data.endTime = end.toISOString();
+      // Recurring events repeat in the zone they were planned in
+      if (dtStart.params['TZID']) {
+        data.timezone = start.tz();
+      }
+    } catch (error) {
+      errors.push(error.message);
+    }
+
+    data.attendees = properties
+      .filter(line => line.name === 'ATTENDEE')
+      .map(line => ({ name: line.params['CN'], email: line.value.replace(/^mailto:/i, '').trim() }))
+      .filter(attendee => attendee.email)
+      .map(({ name, email }) => (name ? { name, email } : { email }));
+
+    const status = APPOINTMENT_STATUS[(property('STATUS')?.value || '').toUpperCase()];
+    if (status) data.status = status;
+
+    const rrule = property('RRULE');
+    if (rrule) {
+      // WKST is not supported and rarely changes which dates a rule produces
+      data.recurrenceRule = rrule.value.split(';').filter(part => !/^WKST=/i.test(part)).join(';');
+    }
+    ['RDATE', 'EXDATE'].forEach(name => {
+      if (property(name)) {
+        warnings.push(`${name} is not supported; those dates are left as they are in the series`);
+      }
+    });
+
+    const reminderMinutes = alarms.map(alarm => this.reminderMinutes(alarm)).find(minutes => minutes !== undefined);
+    if (reminderMinutes !== undefined) data.reminderMinutes = reminderMinutes;
+
+    const recurrenceId = property('RECURRENCE-ID');
+    return {
+      ...(text('UID') && { uid: text('UID') }),
+      ...(recurrenceId && { recurrenceId: recurrenceId.value }),
+      data,
+      errors,
+      warnings
+    };
+  }
+
+  // Minutes before the start for alarms relative to it, like TRIGGER:-PT15M
+  private static reminderMinutes(alarm: ContentLine[]): number | undefined {
+    const trigger = alarm.find(line => line.name === 'TRIGGER');
+    if (!trigger || trigger.params['VALUE'] === 'DATE-TIME' || trigger.params['RELATED'] === 'END') {
+      return undefined;
+    }
+
+    const duration = moment.duration(trigger.value);
+    const minutes = -duration.asMinutes();
+    return duration.isValid() && minutes >= 0 ? Math.round(minutes) : undefined;
+  }
+
+  private static parseTime(line: ContentLine, defaultTimezone: string): moment.Moment {
+    const value = line.value.trim();
+    let time: moment.Moment;
+
+    if (value.endsWith('Z')) {
+      time = moment.utc(value, 'YYYYMMDD[T]HHmmss[Z]', true);
+    } else {
+      const tzid = (line.params['TZID'] || '').replace(/^\//, '');
+      const zone = tzid ? WINDOWS_TIME_ZONES[tzid] || tzid : defaultTimezone;
+      if (!moment.tz.zone(zone)) {
+        throw new Error(`Unknown time zone "${tzid || zone}" in ${line.name}`);
+      }
+      time = moment.tz(value, this.isDate(line) ? 'YYYYMMDD' : 'YYYYMMDD[T]HHmmss', true, zone);
+    }
+
+    if (!time.isValid()) {
+      throw new Error(`Invalid ${line.name} "${value}"`);
+    }
+    return time;
+  }
+
+  private static isDate(line: ContentLine): boolean {
+    return line.params['VALUE'] === 'DATE' || /^\d{8}$/.test(line.value.trim());
+  }
+
+  // Splits a content line into name, parameters and value. Parameter values
+  // may be quoted and contain ";" or ":".
+  private static parseLine(line: string): ContentLine | null {
+    const parts: string[] = [];
+    let quoted = false;
+    let start = 0;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (char === '"') {
+        quoted = !quoted;
+      } else if (!quoted && (char === ';' || char === ':')) {
+        parts.push(line.slice(start, i));
+        start = i + 1;
+        if (char === ':') {
+          const [name, ...params] = parts;
+          return {
+            name: name.toUpperCase(),
+            params: Object.fromEntries(params.map(param => {
+              const separator = param.indexOf('=');
+              return [param.slice(0, separator).toUpperCase(), param.slice(separator + 1).replace(/^"|"$/g, '')];
+            })),
+            value: line.slice(start)
+          };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private static unfold(text: string): string[] {
+    return text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line.trim());
+  }
+
+  private static unescape(text: string): string {
+    return text.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+  }
+
+  private static formatTime(time: string): string {
+    return moment.utc(time).format('YYYYMMDD[T]HHmmss[Z]');
+  }
+
+  private static escape(text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n')
+      .replace(CONTROL_CHARACTERS, '');
+  }
+
+  // Parameter values can't be escaped, only quoted (RFC 5545 3.2), so double
+  // quotes become single ones and line breaks spaces
+  private static quote(value: string): string {
+    return `"${value.replace(/"/g, "'").replace(CONTROL_CHARACTERS, ' ')}"`;
+  }
+
+  // Splits long lines into continuation lines starting with a space, without
+  // cutting multi-byte characters in half
+  private static fold(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+
+    for (const char of line) {
+      const size = Buffer.byteLength(char);
+      const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+      if (octets + size > limit) {
+        parts.push(current);
+        current = '';
+        octets = 0;
+      }
+      current += char;
+      octets += size;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+  }
+}
@@ -0,0 +1,71 @@
+import moment from 'moment-timezone';
+import type { Appointment, TimeSlot } from '../services/AppointmentService';
+import { AppointmentItems } from './AppointmentItems';
+import type { ReminderState } from './ReminderSchedule';
+import { RecurrenceRule } from './RecurrenceRule';
+
+// New or moved series are checked for conflicts over this many days
+const SERIES_CONFLICT_HORIZON_DAYS = 90;
+
+// Per-occurrence changes to a series, stored next to the series master
+export interface OccurrenceException {
+  recurrenceId: string;
+  overrides: Partial<Appointment>;
+  deleted?: boolean;
+  reminder?: ReminderState; // Edited occurrences are reminded of on their own
+}
+
+// Occurrences aren't stored; they are built from the series master and its
+// exception, and addressed as `<seriesId>_<recurrenceId as YYYYMMDDTHHmmssZ>`
+export class Occurrences {
+  static build(master: Appointment, recurrenceId: string, exception?: OccurrenceException): Appointment {
+    // The master's reminder is for whichever occurrence is next
+    const masterFields = AppointmentItems.fields(master, 'reminder');
+    const duration = moment(master.endTime).diff(moment(master.startTime));
+
+    return {
+      ...masterFields,
+      appointmentId: this.id(master.appointmentId, recurrenceId),
+      seriesId: master.appointmentId,
+      recurrenceId,
+      startTime: recurrenceId,
+      endTime: moment.utc(recurrenceId).add(duration, 'ms').toISOString(),
+      ...(exception?.overrides || {}),
+      ...(exception?.reminder && { reminder: exception.reminder }),
+      isException: !!exception
+    };
+  }
+
+  // Slots of the occurrences a series is checked against the calendar with
+  static slots(rule: RecurrenceRule, startTime: string, endTime: string, timezone?: string): TimeSlot[] {
+    const duration = moment(endTime).diff(moment(startTime));
+    const horizon = moment.utc(startTime).add(SERIES_CONFLICT_HORIZON_DAYS, 'days').toISOString();
+
+    return rule.between(startTime, startTime, horizon, timezone).map(start => ({
+      startTime: moment.utc(start).toISOString(),
+      endTime: moment.utc(start).add(duration, 'ms').toISOString()
+    }));
+  }
+
+  // Occurrences of a series over the same days, as planned by its rule
+  static upcoming(master: Appointment): Appointment[] {
+    return this.slots(RecurrenceRule.parse(master.recurrenceRule!), master.startTime, master.endTime, master.timezone)
+      .map(slot => this.build(master, slot.startTime));
+  }
+
+  static id(seriesId: string, recurrenceId: string): string {
+    return `${seriesId}_${moment.utc(recurrenceId).format('YYYYMMDD[T]HHmmss[Z]')}`;
+  }
+
+  static parseId(appointmentId: string): { seriesId: string; recurrenceId: string } | null {
+    const match = /^(.+)_(\d{8}T\d{6}Z)$/.exec(appointmentId);
+    if (!match) {
+      return null;
+    }
+
+    return {
+      seriesId: match[1],
+      recurrenceId: moment.utc(match[2], 'YYYYMMDD[T]HHmmss[Z]').toISOString()
+    };
+  }
+}
@@ -0,0 +1,280 @@
+import moment from 'moment-timezone';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceWeekday {
+  weekday: number; // 0 = Sunday, matching moment().day()
+  ordinal?: number; // MONTHLY only: 1 = first, -1 = last
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+
+// Most occurrences returned for one window, so an open-ended window stops
+const MAX_OCCURRENCES_PER_WINDOW = 730;
+// Hard stop for rules whose periods never match
+const MAX_EMPTY_PERIODS = 5000;
+
+const PERIODS: { [frequency in RecurrenceFrequency]: { start: moment.unitOfTime.StartOf; length: moment.unitOfTime.Diff } } = {
+  DAILY: { start: 'day', length: 'days' },
+  WEEKLY: { start: 'isoWeek', length: 'weeks' },
+  MONTHLY: { start: 'month', length: 'months' }
+};
+
+// Subset of RFC 5545 RRULE: FREQ (DAILY/WEEKLY/MONTHLY), INTERVAL, COUNT, UNTIL and BYDAY.
+// Occurrences keep the wall-clock time of the series start in the series'
+// timezone, so a 9:00 meeting stays at 9:00 across daylight saving changes.
+export class RecurrenceRule {
+  readonly frequency: RecurrenceFrequency;
+  readonly interval: number;
+  readonly count?: number;
+  readonly until?: Date;
+  readonly byDay: RecurrenceWeekday[];
+
+  constructor(options: {
+    frequency: RecurrenceFrequency;
+    interval?: number;
+    count?: number;
+    until?: Date;
+    byDay?: RecurrenceWeekday[];
+  }) {
+    this.frequency = options.frequency;
+    this.interval = options.interval || 1;
+    this.count = options.count;
+    this.until = options.until;
+    this.byDay = options.byDay || [];
+  }
+
+  static parse(rule: string): RecurrenceRule {
+    const parts: { [key: string]: string } = {};
+
+    rule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean).forEach(part => {
+      const [key, value] = part.split('=');
+      if (!key || value === undefined) {
+        throw new Error(`Invalid recurrence rule part "${part}"`);
+      }
+      parts[key.toUpperCase()] = value.toUpperCase();
+    });
+
+    const frequency = parts['FREQ'] as RecurrenceFrequency;
+    if (!FREQUENCIES.includes(frequency)) {
+      throw new Error('Recurrence rule FREQ must be DAILY, WEEKLY or MONTHLY');
+    }
+
+    const unsupported = Object.keys(parts).filter(key => !['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY'].includes(key));
+    if (unsupported.length > 0) {
+      throw new Error(`Unsupported recurrence rule parts: ${unsupported.join(', ')}`);
+    }
+
+    if (parts['COUNT'] && parts['UNTIL']) {
+      throw new Error('Recurrence rule cannot have both COUNT and UNTIL');
+    }
+
+    const interval = parts['INTERVAL'] ? RecurrenceRule.parsePositiveInt(parts['INTERVAL'], 'INTERVAL') : 1;
+    const count = parts['COUNT'] ? RecurrenceRule.parsePositiveInt(parts['COUNT'], 'COUNT') : undefined;
+
+    let until: Date | undefined;
+    if (parts['UNTIL']) {
+      const parsed = moment.utc(parts['UNTIL'], ['YYYYMMDD[T]HHmmss[Z]', 'YYYYMMDD[T]HHmmss', 'YYYYMMDD'], true);
+      if (!parsed.isValid()) {
+        throw new Error('Recurrence rule UNTIL must be a date (YYYYMMDD) or UTC date-time (YYYYMMDDTHHMMSSZ)');
+      }
+      // A bare date includes the whole day
+      until = parts['UNTIL'].length === 8 ? parsed.endOf('day').toDate() : parsed.toDate();
+    }
+
+    const byDay = parts['BYDAY'] ? parts['BYDAY'].split(',').map(code => {
+      const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(code);
+      if (!match) {
+        throw new Error(`Invalid BYDAY value "${code}"`);
+      }
+      const ordinal = match[1] ? parseInt(match[1], 10) : undefined;
+      if (ordinal !== undefined && (frequency !== 'MONTHLY' || ordinal === 0 || Math.abs(ordinal) > 5)) {
+        throw new Error(`BYDAY ordinal "${code}" is only supported for MONTHLY rules (1-5 or -1 to -5)`);
+      }
+      return { weekday: WEEKDAY_CODES.indexOf(match[2]), ordinal };
+    }) : [];
+
+    return new RecurrenceRule({ frequency, interval, count, until, byDay });
+  }
+
+  private static parsePositiveInt(value: string, name: string): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      throw new Error(`Recurrence rule ${name} must be a positive integer`);
+    }
+    return parsed;
+  }
+
+  withUntil(until: Date): RecurrenceRule {
+    return new RecurrenceRule({ ...this, count: undefined, until });
+  }
+
+  withCount(count: number): RecurrenceRule {
+    return new RecurrenceRule({ ...this, count, until: undefined });
+  }
+
+  toString(): string {
+    const parts = [`FREQ=${this.frequency}`];
+    if (this.interval !== 1) {
+      parts.push(`INTERVAL=${this.interval}`);
+    }
+    if (this.byDay.length > 0) {
+      parts.push(`BYDAY=${this.byDay.map(day => `${day.ordinal ?? ''}${WEEKDAY_CODES[day.weekday]}`).join(',')}`);
+    }
+    if (this.count !== undefined) {
+      parts.push(`COUNT=${this.count}`);
+    }
+    if (this.until) {
+      parts.push(`UNTIL=${moment.utc(this.until).format('YYYYMMDD[T]HHmmss[Z]')}`);
+    }
+    return parts.join(';');
+  }
+
+  // Occurrence start times (inclusive bounds) for a series starting at `seriesStart`
+  between(seriesStart: string | Date, from?: string | Date, to?: string | Date, timezone: string = 'UTC'): Date[] {
+    const lower = from ? moment.utc(from) : null;
+    const upper = to ? moment.utc(to) : null;
+    const occurrences: Date[] = [];
+
+    for (const occurrence of this.iterate(seriesStart, timezone, lower)) {
+      if (upper && occurrence.isAfter(upper)) {
+        break;
+      }
+      if (!lower || !occurrence.isBefore(lower)) {
+        occurrences.push(occurrence.toDate());
+        if (occurrences.length >= MAX_OCCURRENCES_PER_WINDOW) {
+          break;
+        }
+      }
+    }
+
+    return occurrences;
+  }
+
+  // Number of occurrences strictly before `time`
+  countBefore(seriesStart: string | Date, time: string | Date, timezone: string = 'UTC'): number {
+    let count = 0;
+    for (const occurrence of this.iterate(seriesStart, timezone)) {
+      if (!occurrence.isBefore(moment.utc(time))) {
+        break;
+      }
+      count++;
+    }
+    return count;
+  }
+
+  includes(seriesStart: string | Date, time: string | Date, timezone: string = 'UTC'): boolean {
+    return this.between(seriesStart, time, time, timezone).length === 1;
+  }
+
+  // The first occurrence strictly after `time`, if the series has one
+  next(seriesStart: string | Date, time: string | Date, timezone: string = 'UTC'): Date | undefined {
+    const after = moment.utc(time);
+    for (const occurrence of this.iterate(seriesStart, timezone, after)) {
+      if (occurrence.isAfter(after)) {
+        return occurrence.toDate();
+      }
+    }
+    return undefined;
+  }
+
+  // Occurrences in order. Without COUNT nothing before `from` needs counting,
+  // so iteration starts at the period just before it.
+  private *iterate(seriesStart: string | Date, timezone: string, from?: moment.Moment | null): Generator<moment.Moment> {
+    const start = moment.tz(seriesStart, timezone);
+    let emitted = 0;
+    let emptyPeriods = 0;
+
+    for (let period = this.count === undefined && from ? this.periodBefore(start, from) : 0; ; period++) {
+      let matched = false;
+      for (const candidate of this.candidatesForPeriod(start, period)) {
+        if (candidate.isBefore(start)) {
+          continue;
+        }
+        if (this.until && candidate.isAfter(this.until)) {
+          return;
+        }
+        matched = true;
+        yield candidate;
+        if (this.count !== undefined && ++emitted >= this.count) {
+          return;
+        }
+      }
+
+      emptyPeriods = matched ? 0 : emptyPeriods + 1;
+      if (emptyPeriods >= MAX_EMPTY_PERIODS) {
+        return;
+      }
+    }
+  }
+
+  private periodBefore(start: moment.Moment, time: moment.Moment): number {
+    const { start: unit, length } = PERIODS[this.frequency];
+    const elapsed = moment.tz(time, start.tz()!).startOf(unit).diff(start.clone().startOf(unit), length);
+    return Math.max(0, Math.floor(elapsed / this.interval) - 1);
+  }
+
+  private candidatesForPeriod(start: moment.Moment, period: number): moment.Moment[] {
+    const atStartTime = (day: moment.Moment) => day.clone().set({
+      hour: start.hour(),
+      minute: start.minute(),
+      second: start.second(),
+      millisecond: start.millisecond()
+    });
+
+    switch (this.frequency) {
+      case 'DAILY': {
+        const day = start.clone().add(period * this.interval, 'days');
+        if (this.byDay.length > 0 && !this.byDay.some(rule => rule.weekday === day.day())) {
+          return [];
+        }
+        return [day];
+      }
+
+      case 'WEEKLY': {
+        const weekStart = start.clone().startOf('isoWeek').add(period * this.interval, 'weeks');
+        const weekdays = this.byDay.length > 0 ? this.byDay.map(rule => rule.weekday) : [start.day()];
+        // Weeks start on Monday (WKST=MO), so Sunday sorts last
+        return Array.from(new Set(weekdays))
+          .map(weekday => (weekday + 6) % 7)
+          .sort((a, b) => a - b)
+          .map(offset => atStartTime(weekStart.clone().add(offset, 'days')));
+      }
+
+      case 'MONTHLY': {
+        const monthStart = start.clone().startOf('month').add(period * this.interval, 'months');
+        if (this.byDay.length === 0) {
+          if (start.date() > monthStart.daysInMonth()) {
+            return [];
+          }
+          return [atStartTime(monthStart.clone().date(start.date()))];
+        }
+
+        const days: moment.Moment[] = [];
+        this.byDay.forEach(rule => {
+          const matching: moment.Moment[] = [];
+          for (let date = 1; date <= monthStart.daysInMonth(); date++) {
+            const day = monthStart.clone().date(date);
+            if (day.day() === rule.weekday) {
+              matching.push(day);
+            }
+          }
+          if (rule.ordinal === undefined) {
+            days.push(...matching);
+          } else {
+            const day = rule.ordinal > 0 ? matching[rule.ordinal - 1] : matching[matching.length + rule.ordinal];
+            if (day) {
+              days.push(day);
+            }
+          }
+        });
+
+        return days
+          .sort((a, b) => a.valueOf() - b.valueOf())
+          .filter((day, index, sorted) => index === 0 || !day.isSame(sorted[index - 1]))
+          .map(atStartTime);
+      }
+    }
+  }
+}
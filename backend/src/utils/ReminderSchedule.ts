@@ -0,0 +1,110 @@
+import moment from 'moment';
+import type { Appointment } from '../services/AppointmentService';
+import { RecurrenceRule } from './RecurrenceRule';
+
+export type ReminderStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+
+export interface ReminderState {
+  status: ReminderStatus;
+  dueAt: string; // startTime minus reminderMinutes
+  nextAttemptAt: string; // When the worker picks it up; later than dueAt for late bookings and retries
+  attempts: number;
+  lastAttemptAt?: string;
+  lastError?: string;
+  sentAt?: string;
+  recurrenceId?: string; // Series masters: the occurrence the reminder is for
+}
+
+// Pending reminders are indexed on GSI3 by the time they are due, in hourly
+// partitions shared by all tenants, so the worker reads only what is due
+export class ReminderSchedule {
+  // The reminder to store for an appointment, given the one it has. A reminder
+  // is kept as long as its due time stays the same, so renaming or confirming
+  // an appointment doesn't send another one. Series masters are reminded of one
+  // occurrence at a time; once it is settled, planning again moves on to the
+  // occurrence after it.
+  static plan(appointment: Appointment, current?: ReminderState, now: Date = new Date()): ReminderState | undefined {
+    const due = this.nextDue(appointment, current, now);
+    if (!due) {
+      return current && current.status !== 'pending' ? current : undefined;
+    }
+
+    if (current && current.dueAt === due.dueAt && current.recurrenceId === due.recurrenceId) {
+      return current;
+    }
+
+    return {
+      status: 'pending',
+      dueAt: due.dueAt,
+      nextAttemptAt: moment.max(moment.utc(due.dueAt), moment.utc(now)).toISOString(),
+      attempts: 0,
+      ...(due.recurrenceId && { recurrenceId: due.recurrenceId })
+    };
+  }
+
+  // The reminder of an occurrence that has no exception yet, as its series
+  // master tracks it: the master's own while it waits for that occurrence, a
+  // sent one for occurrences it has already moved past
+  static ofOccurrence(master: Appointment, recurrenceId: string): ReminderState | undefined {
+    const reminder = master.reminder;
+    if (!reminder?.recurrenceId || moment.utc(recurrenceId).isAfter(reminder.recurrenceId)) {
+      return undefined;
+    }
+
+    const { recurrenceId: _recurrenceId, ...state } = reminder;
+    if (moment.utc(recurrenceId).isSame(reminder.recurrenceId)) {
+      return state;
+    }
+
+    const { dueAt } = this.dueFor(master, recurrenceId);
+    return { status: 'sent', dueAt, nextAttemptAt: dueAt, attempts: 0 };
+  }
+
+  static indexKeys(appointment: Pick<Appointment, 'tenantId' | 'appointmentId'>, reminder: ReminderState): { GSI3PK: string; GSI3SK: string } {
+    return {
+      GSI3PK: this.partitionKey(reminder.nextAttemptAt),
+      GSI3SK: `${moment.utc(reminder.nextAttemptAt).toISOString()}#${appointment.tenantId}#${appointment.appointmentId}`
+    };
+  }
+
+  static partitionKey(time: string | Date | moment.Moment): string {
+    return `REMINDER#${moment.utc(time).format('YYYY-MM-DD[T]HH')}`;
+  }
+
+  private static nextDue(
+    appointment: Appointment,
+    current: ReminderState | undefined,
+    now: Date
+  ): { dueAt: string; recurrenceId?: string } | undefined {
+    if (!appointment.reminderMinutes || appointment.deletedAt) {
+      return undefined;
+    }
+    if (appointment.status === 'cancelled' || appointment.status === 'completed') {
+      return undefined;
+    }
+
+    const isSeriesMaster = !!appointment.recurrenceRule && !appointment.recurrenceId;
+    if (!isSeriesMaster) {
+      const start = moment.utc(appointment.startTime);
+      return start.isAfter(now) ? { dueAt: start.subtract(appointment.reminderMinutes, 'minutes').toISOString() } : undefined;
+    }
+
+    // The occurrence reminded of stays the same while it is part of the series;
+    // once it is settled, the next one is after it
+    const rule = RecurrenceRule.parse(appointment.recurrenceRule!);
+    let after = moment.utc(now);
+    if (current?.recurrenceId && rule.includes(appointment.startTime, current.recurrenceId, appointment.timezone)) {
+      if (current.status === 'pending' && moment.utc(current.recurrenceId).isAfter(now)) {
+        return this.dueFor(appointment, current.recurrenceId);
+      }
+      after = moment.max(after, moment.utc(current.recurrenceId));
+    }
+
+    const start = rule.next(appointment.startTime, after.toDate(), appointment.timezone);
+    return start ? this.dueFor(appointment, moment.utc(start).toISOString()) : undefined;
+  }
+
+  private static dueFor(master: Appointment, recurrenceId: string): { dueAt: string; recurrenceId: string } {
+    return { dueAt: moment.utc(recurrenceId).subtract(master.reminderMinutes, 'minutes').toISOString(), recurrenceId };
+  }
+}
@@ -1,12 +1,14 @@
 export class ResponseHelper {
-  static success(statusCode: number, data: any): any {
+  static success(statusCode: number, data: any, headers: { [name: string]: string } = {}): any {
     return {
       statusCode,
       headers: {
         'Content-Type': 'application/json',
         'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
-        'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS'
+        'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token,If-Match',
+        'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+        'Access-Control-Expose-Headers': 'ETag',
+        ...headers
       },
       body: JSON.stringify({
         success: true,
@@ -15,14 +17,28 @@ export class ResponseHelper {
     };
   }
 
+  // Non-JSON bodies, e.g. calendar feeds
+  static content(statusCode: number, body: string, contentType: string, headers: { [name: string]: string } = {}): any {
+    return {
+      statusCode,
+      headers: {
+        'Content-Type': contentType,
+        'Access-Control-Allow-Origin': '*',
+        ...headers
+      },
+      body
+    };
+  }
+
   static error(statusCode: number, message: string, details?: any): any {
     return {
       statusCode,
       headers: {
         'Content-Type': 'application/json',
         'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
-        'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS'
+        'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token,If-Match',
+        'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+        'Access-Control-Expose-Headers': 'ETag'
       },
       body: JSON.stringify({
         success: false,
@@ -0,0 +1,39 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Opaque, HMAC-signed tokens handed to clients (pagination cursors and the like).
+// The audience is mixed into the signature, so a token issued for one tenant or
+// purpose is rejected anywhere else.
+export class SignedToken {
+  static sign(payload: object, audience: string): string {
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${body}.${this.signature(body, audience)}`;
+  }
+
+  static verify<T>(token: string, audience: string): T | null {
+    const [body, signature, ...rest] = token.split('.');
+    if (!body || !signature || rest.length > 0) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.signature(body, audience));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  private static signature(body: string, audience: string): string {
+    const secret = process.env['TOKEN_SIGNING_SECRET'];
+    if (!secret) {
+      throw new Error('TOKEN_SIGNING_SECRET is not configured');
+    }
+
+    return createHmac('sha256', secret).update(`${audience}.${body}`).digest('base64url');
+  }
+}
@@ -0,0 +1,36 @@
+// AWS SDK clients as seen by the services under test. tests/setup.ts mocks
+// aws-sdk to hand out these objects, so a test stubs the calls it expects.
+export const mockDynamoDB = {
+  get: jest.fn(),
+  put: jest.fn(),
+  update: jest.fn(),
+  delete: jest.fn(),
+  query: jest.fn(),
+  scan: jest.fn(),
+  batchGet: jest.fn(),
+  batchWrite: jest.fn(),
+  transactWrite: jest.fn()
+};
+
+export const mockCognito = {
+  adminCreateUser: jest.fn(),
+  adminAddUserToGroup: jest.fn(),
+  adminRemoveUserFromGroup: jest.fn(),
+  adminUpdateUserAttributes: jest.fn(),
+  adminGetUser: jest.fn(),
+  adminDisableUser: jest.fn(),
+  adminEnableUser: jest.fn(),
+  adminUserGlobalSignOut: jest.fn()
+};
+
+export const mockSES = {
+  sendEmail: jest.fn()
+};
+
+// SDK calls resolve through `.promise()`
+export const awsResponse = (data: any) => ({ promise: () => Promise.resolve(data) });
+
+// Rejects like the SDK does, with the error code on the error
+export const awsError = (code: string, message: string = code) => ({
+  promise: () => Promise.reject(Object.assign(new Error(message), { code }))
+});
@@ -1,23 +1,37 @@
+/// <reference path="../types.d.ts" />
 import { handler } from '../../src/handlers/appointments';
 import { AppointmentService } from '../../src/services/AppointmentService';
+import { TrashService } from '../../src/services/TrashService';
+import { BatchService } from '../../src/services/BatchService';
 import { AuthService } from '../../src/services/AuthService';
-import '../../tests/types';
+import { ConflictError, ForbiddenError, PreconditionFailedError, UnprocessableEntityError, ValidationError } from '../../src/utils/Errors';
 
 // Mock services
 jest.mock('../../src/services/AppointmentService');
+jest.mock('../../src/services/TrashService');
+jest.mock('../../src/services/BatchService');
 jest.mock('../../src/services/AuthService');
 
 const MockedAppointmentService = AppointmentService as jest.MockedClass<typeof AppointmentService>;
+const MockedTrashService = TrashService as jest.MockedClass<typeof TrashService>;
+const MockedBatchService = BatchService as jest.MockedClass<typeof BatchService>;
 const MockedAuthService = AuthService as jest.MockedClass<typeof AuthService>;
 
 describe('Appointments Handler Integration Tests', () => {
   let mockAppointmentService: jest.Mocked<AppointmentService>;
+  let mockTrashService: jest.Mocked<TrashService>;
+  let mockBatchService: jest.Mocked<BatchService>;
   let mockAuthService: jest.Mocked<AuthService>;
 
+  beforeAll(() => {
+    // The handler creates its services when the module loads
+    mockAppointmentService = MockedAppointmentService.mock.instances[0] as jest.Mocked<AppointmentService>;
+    mockTrashService = MockedTrashService.mock.instances[0] as jest.Mocked<TrashService>;
+    mockBatchService = MockedBatchService.mock.instances[0] as jest.Mocked<BatchService>;
+    mockAuthService = MockedAuthService.mock.instances[0] as jest.Mocked<AuthService>;
+  });
+
   beforeEach(() => {
-    mockAppointmentService = new MockedAppointmentService() as jest.Mocked<AppointmentService>;
-    mockAuthService = new MockedAuthService() as jest.Mocked<AuthService>;
-    
     jest.clearAllMocks();
   });
 
@@ -45,7 +59,7 @@ describe('Appointments Handler Integration Tests', () => {
         role: 'tenant-user'
       });
 
-      mockAppointmentService.listAppointments.mockResolvedValue(mockAppointments);
+      mockAppointmentService.listAppointments.mockResolvedValue({ appointments: mockAppointments });
 
       const event = createMockEvent({
         httpMethod: 'GET',
@@ -69,6 +83,7 @@ describe('Appointments Handler Integration Tests', () => {
         'tenant-1',
         'user-1',
         'tenant-user',
+        {},
         {}
       );
     });
@@ -105,7 +120,7 @@ describe('Appointments Handler Integration Tests', () => {
         role: 'tenant-user'
       });
 
-      mockAppointmentService.listAppointments.mockResolvedValue([]);
+      mockAppointmentService.listAppointments.mockResolvedValue({ appointments: [] });
 
       const event = createMockEvent({
         httpMethod: 'GET',
@@ -128,9 +143,68 @@ describe('Appointments Handler Integration Tests', () => {
           startDate: '2024-01-01',
           endDate: '2024-01-31',
           status: 'scheduled'
+        },
+        {}
+      );
+    });
+
+    it('should pass pagination parameters and return the next token', async () => {
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: true,
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        role: 'tenant-user'
+      });
+
+      mockAppointmentService.listAppointments.mockResolvedValue({ appointments: [], nextToken: 'next-page' });
+
+      const event = createMockEvent({
+        httpMethod: 'GET',
+        path: '/tenants/tenant-1/appointments',
+        pathParameters: { tenantId: 'tenant-1' },
+        queryStringParameters: {
+          limit: '10',
+          nextToken: 'this-page'
         }
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(JSON.parse(result.body).data).toEqual({
+        appointments: [],
+        count: 0,
+        nextToken: 'next-page'
+      });
+      expect(mockAppointmentService.listAppointments).toHaveBeenCalledWith(
+        'tenant-1',
+        'user-1',
+        'tenant-user',
+        expect.any(Object),
+        { limit: 10, nextToken: 'this-page' }
       );
     });
+
+    it('should return 400 for an invalid next token', async () => {
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: true,
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        role: 'tenant-user'
+      });
+
+      mockAppointmentService.listAppointments.mockRejectedValue(new ValidationError('Invalid nextToken'));
+
+      const event = createMockEvent({
+        httpMethod: 'GET',
+        path: '/tenants/tenant-1/appointments',
+        pathParameters: { tenantId: 'tenant-1' },
+        queryStringParameters: { nextToken: 'tampered' }
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(400);
+    });
   });
 
   describe('GET /tenants/{tenantId}/appointments/{appointmentId}', () => {
@@ -145,7 +219,8 @@ describe('Appointments Handler Integration Tests', () => {
         status: 'scheduled' as const,
         reminderMinutes: 60,
         createdAt: '2024-01-01T00:00:00Z',
-        updatedAt: '2024-01-01T00:00:00Z'
+        updatedAt: '2024-01-01T00:00:00Z',
+        version: 2
       };
 
       mockAuthService.validateRequest.mockResolvedValue({
@@ -166,6 +241,7 @@ describe('Appointments Handler Integration Tests', () => {
       const result = await handler(event, createMockContext());
 
       expect(result.statusCode).toBe(200);
+      expect(result.headers?.ETag).toBe('"2"');
       expect(JSON.parse(result.body)).toEqual({
         success: true,
         data: mockAppointment
@@ -198,6 +274,68 @@ describe('Appointments Handler Integration Tests', () => {
         }
       });
     });
+
+    it('should return 403 for another user\'s appointment', async () => {
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: true,
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        role: 'tenant-user'
+      });
+
+      mockAppointmentService.getAppointment.mockRejectedValue(new ForbiddenError('Access denied'));
+
+      const event = createMockEvent({
+        httpMethod: 'GET',
+        path: '/tenants/tenant-1/appointments/app-2',
+        pathParameters: { tenantId: 'tenant-1', appointmentId: 'app-2' }
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(403);
+    });
+  });
+
+  describe('GET /tenants/{tenantId}/appointments/{appointmentId}/history', () => {
+    it('should return the audit trail of the appointment', async () => {
+      const history = [
+        {
+          auditId: 'audit-1',
+          tenantId: 'tenant-1',
+          appointmentId: 'app-1',
+          ownerId: 'user-1',
+          action: 'create' as const,
+          actorId: 'user-1',
+          actorRole: 'tenant-user',
+          requestId: 'request-1',
+          changes: { title: { after: 'Test Appointment' } },
+          timestamp: '2024-01-01T00:00:00Z'
+        }
+      ];
+
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: true,
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        role: 'tenant-user'
+      });
+
+      mockAppointmentService.getAppointmentHistory.mockResolvedValue(history);
+
+      const event = createMockEvent({
+        httpMethod: 'GET',
+        path: '/tenants/tenant-1/appointments/app-1/history',
+        pathParameters: { tenantId: 'tenant-1', appointmentId: 'app-1' }
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data).toEqual({ history });
+      expect(mockAppointmentService.getAppointmentHistory).toHaveBeenCalledWith('tenant-1', 'app-1', 'user-1', 'tenant-user');
+      expect(mockAppointmentService.getAppointment).not.toHaveBeenCalled();
+    });
   });
 
   describe('POST /tenants/{tenantId}/appointments', () => {
@@ -208,7 +346,7 @@ describe('Appointments Handler Integration Tests', () => {
         startTime: '2024-01-15T10:00:00Z',
         endTime: '2024-01-15T11:00:00Z',
         location: 'New Location',
-        attendees: ['new@example.com'],
+        attendees: [{ name: 'New Attendee', email: 'new@example.com', responseStatus: 'needs-action' as const }],
         reminderMinutes: 30
       };
 
@@ -250,7 +388,8 @@ describe('Appointments Handler Integration Tests', () => {
         'tenant-1',
         'user-1',
         'tenant-user',
-        appointmentData
+        appointmentData,
+        'test-request-id'
       );
     });
 
@@ -280,6 +419,51 @@ describe('Appointments Handler Integration Tests', () => {
       });
     });
 
+    it('should return 409 with the conflicting appointments', async () => {
+      const conflicts = [
+        {
+          appointmentId: 'app-1',
+          title: 'Existing Appointment',
+          startTime: '2024-01-15T10:00:00Z',
+          endTime: '2024-01-15T11:00:00Z',
+          status: 'scheduled'
+        }
+      ];
+
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: true,
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        role: 'tenant-user'
+      });
+
+      mockAppointmentService.createAppointment.mockRejectedValue(
+        new ConflictError('Appointment conflicts with existing appointments', { conflicts })
+      );
+
+      const event = createMockEvent({
+        httpMethod: 'POST',
+        path: '/tenants/tenant-1/appointments',
+        pathParameters: { tenantId: 'tenant-1' },
+        body: JSON.stringify({
+          title: 'New Appointment',
+          startTime: '2024-01-15T10:30:00Z',
+          endTime: '2024-01-15T11:30:00Z'
+        })
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(409);
+      expect(JSON.parse(result.body)).toEqual({
+        success: false,
+        error: {
+          message: 'Appointment conflicts with existing appointments',
+          details: { conflicts }
+        }
+      });
+    });
+
     it('should return 400 for missing request body', async () => {
       mockAuthService.validateRequest.mockResolvedValue({
         isValid: true,
@@ -348,6 +532,70 @@ describe('Appointments Handler Integration Tests', () => {
       });
     });
 
+    it('should pass If-Match through as the expected version', async () => {
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: true,
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        role: 'tenant-user'
+      });
+
+      mockAppointmentService.updateAppointment.mockResolvedValue({
+        appointmentId: 'app-1',
+        tenantId: 'tenant-1',
+        userId: 'user-1',
+        title: 'Updated Title',
+        startTime: '2024-01-15T10:00:00Z',
+        endTime: '2024-01-15T11:00:00Z',
+        status: 'scheduled',
+        reminderMinutes: 60,
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-02T00:00:00Z',
+        version: 4
+      });
+
+      const event = createMockEvent({
+        httpMethod: 'PUT',
+        path: '/tenants/tenant-1/appointments/app-1',
+        pathParameters: { tenantId: 'tenant-1', appointmentId: 'app-1' },
+        headers: { Authorization: 'Bearer mock-jwt-token', 'If-Match': '"3"' },
+        body: JSON.stringify({ title: 'Updated Title' })
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers?.ETag).toBe('"4"');
+      expect(mockAppointmentService.updateAppointment).toHaveBeenCalledWith(
+        'tenant-1', 'app-1', 'user-1', 'tenant-user', { title: 'Updated Title' }, undefined, expect.any(String), 3
+      );
+    });
+
+    it('should return 412 when the appointment changed since it was loaded', async () => {
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: true,
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        role: 'tenant-user'
+      });
+
+      mockAppointmentService.updateAppointment.mockRejectedValue(
+        new PreconditionFailedError('Appointment has been modified since it was loaded', { currentVersion: 5 })
+      );
+
+      const event = createMockEvent({
+        httpMethod: 'PUT',
+        path: '/tenants/tenant-1/appointments/app-1',
+        pathParameters: { tenantId: 'tenant-1', appointmentId: 'app-1' },
+        headers: { Authorization: 'Bearer mock-jwt-token', 'If-Match': '"3"' },
+        body: JSON.stringify({ title: 'Updated Title' })
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(412);
+    });
+
     it('should return 400 when appointment ID is missing', async () => {
       mockAuthService.validateRequest.mockResolvedValue({
         isValid: true,
@@ -373,6 +621,35 @@ describe('Appointments Handler Integration Tests', () => {
         }
       });
     });
+
+    it('should return 422 for a status change the state machine rejects', async () => {
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: true,
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        role: 'tenant-user'
+      });
+
+      mockAppointmentService.updateAppointment.mockRejectedValue(
+        new UnprocessableEntityError('Cannot change status from cancelled to completed', {
+          from: 'cancelled',
+          to: 'completed',
+          allowedTransitions: []
+        })
+      );
+
+      const event = createMockEvent({
+        httpMethod: 'PUT',
+        path: '/tenants/tenant-1/appointments/app-1',
+        pathParameters: { tenantId: 'tenant-1', appointmentId: 'app-1' },
+        body: JSON.stringify({ status: 'completed' })
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(422);
+      expect(JSON.parse(result.body).error.message).toBe('Cannot change status from cancelled to completed');
+    });
   });
 
   describe('DELETE /tenants/{tenantId}/appointments/{appointmentId}', () => {
@@ -429,6 +706,245 @@ describe('Appointments Handler Integration Tests', () => {
     });
   });
 
+  describe('POST /tenants/{tenantId}/appointments/{appointmentId}/restore', () => {
+    it('should restore a deleted appointment', async () => {
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: true,
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        role: 'tenant-user'
+      });
+
+      mockTrashService.restoreAppointment.mockResolvedValue({
+        appointmentId: 'app-1',
+        tenantId: 'tenant-1',
+        userId: 'user-1',
+        title: 'Restored Appointment',
+        startTime: '2024-01-15T10:00:00Z',
+        endTime: '2024-01-15T11:00:00Z',
+        status: 'scheduled',
+        reminderMinutes: 60,
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-02T00:00:00Z',
+        version: 3
+      });
+
+      const event = createMockEvent({
+        httpMethod: 'POST',
+        path: '/tenants/tenant-1/appointments/app-1/restore',
+        pathParameters: { tenantId: 'tenant-1', appointmentId: 'app-1' },
+        body: JSON.stringify({ overrideConflicts: true })
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers?.ETag).toBe('"3"');
+      expect(mockTrashService.restoreAppointment).toHaveBeenCalledWith(
+        'tenant-1', 'app-1', 'user-1', 'tenant-user', true, expect.any(String)
+      );
+      expect(mockAppointmentService.createAppointment).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when the appointment is not in the trash', async () => {
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: true,
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        role: 'tenant-user'
+      });
+
+      mockTrashService.restoreAppointment.mockResolvedValue(null);
+
+      const event = createMockEvent({
+        httpMethod: 'POST',
+        path: '/tenants/tenant-1/appointments/app-1/restore',
+        pathParameters: { tenantId: 'tenant-1', appointmentId: 'app-1' },
+        body: null
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /tenants/{tenantId}/appointments/{appointmentId}/reschedule', () => {
+    it('should reschedule with the version from If-Match', async () => {
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: true,
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        role: 'tenant-user'
+      });
+
+      mockAppointmentService.rescheduleAppointment.mockResolvedValue({
+        appointmentId: 'app-1',
+        tenantId: 'tenant-1',
+        userId: 'user-1',
+        title: 'Moved Appointment',
+        startTime: '2024-01-16T10:00:00.000Z',
+        endTime: '2024-01-16T11:00:00.000Z',
+        status: 'scheduled',
+        reminderMinutes: 60,
+        rescheduleCount: 1,
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-02T00:00:00Z',
+        version: 4
+      });
+
+      const body = { startTime: '2024-01-16T10:00:00Z', reason: 'Doctor is ill' };
+      const event = createMockEvent({
+        httpMethod: 'POST',
+        path: '/tenants/tenant-1/appointments/app-1/reschedule',
+        pathParameters: { tenantId: 'tenant-1', appointmentId: 'app-1' },
+        headers: { Authorization: 'Bearer mock-jwt-token', 'If-Match': '"3"' },
+        body: JSON.stringify(body)
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers?.ETag).toBe('"4"');
+      expect(mockAppointmentService.rescheduleAppointment).toHaveBeenCalledWith(
+        'tenant-1', 'app-1', 'user-1', 'tenant-user', body, expect.any(String), 3
+      );
+      expect(mockAppointmentService.createAppointment).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 without a request body', async () => {
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: true,
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        role: 'tenant-user'
+      });
+
+      const event = createMockEvent({
+        httpMethod: 'POST',
+        path: '/tenants/tenant-1/appointments/app-1/reschedule',
+        pathParameters: { tenantId: 'tenant-1', appointmentId: 'app-1' },
+        body: null
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(400);
+      expect(mockAppointmentService.rescheduleAppointment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /tenants/{tenantId}/appointments/trash', () => {
+    it('should list deleted appointments for admins', async () => {
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: true,
+        userId: 'admin-1',
+        tenantId: 'tenant-1',
+        role: 'tenant-admin'
+      });
+
+      mockTrashService.listTrash.mockResolvedValue({ appointments: [], nextToken: 'next-page' });
+
+      const event = createMockEvent({
+        httpMethod: 'GET',
+        path: '/tenants/tenant-1/appointments/trash',
+        pathParameters: { tenantId: 'tenant-1' },
+        queryStringParameters: { limit: '10' }
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data).toEqual({ appointments: [], count: 0, nextToken: 'next-page' });
+      expect(mockTrashService.listTrash).toHaveBeenCalledWith('tenant-1', 'tenant-admin', { limit: 10, nextToken: undefined });
+    });
+
+    it('should return 403 for regular users', async () => {
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: true,
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        role: 'tenant-user'
+      });
+
+      mockTrashService.listTrash.mockRejectedValue(new ForbiddenError('Only tenant admins can view the trash'));
+
+      const event = createMockEvent({
+        httpMethod: 'GET',
+        path: '/tenants/tenant-1/appointments/trash',
+        pathParameters: { tenantId: 'tenant-1' }
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(403);
+    });
+  });
+
+  describe('POST /tenants/{tenantId}/appointments/batch', () => {
+    it('should return 207 with per-operation results when some operations fail', async () => {
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: true,
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        role: 'tenant-user'
+      });
+
+      const batchResult = {
+        atomic: false,
+        succeeded: 1,
+        failed: 1,
+        results: [
+          { index: 0, action: 'cancel' as const, appointmentId: 'app-1', status: 'succeeded' as const, statusCode: 200 },
+          { index: 1, action: 'delete' as const, appointmentId: 'app-2', status: 'failed' as const, statusCode: 403, error: { message: 'Access denied' } }
+        ]
+      };
+      mockBatchService.executeBatch.mockResolvedValue(batchResult);
+
+      const body = {
+        operations: [
+          { action: 'cancel', appointmentId: 'app-1' },
+          { action: 'delete', appointmentId: 'app-2' }
+        ]
+      };
+      const event = createMockEvent({
+        httpMethod: 'POST',
+        path: '/tenants/tenant-1/appointments/batch',
+        pathParameters: { tenantId: 'tenant-1' },
+        body: JSON.stringify(body)
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(207);
+      expect(JSON.parse(result.body).data).toEqual(batchResult);
+      expect(mockBatchService.executeBatch).toHaveBeenCalledWith('tenant-1', 'user-1', 'tenant-user', body, expect.any(String));
+      expect(mockAppointmentService.createAppointment).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a malformed batch', async () => {
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: true,
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        role: 'tenant-user'
+      });
+
+      mockBatchService.executeBatch.mockRejectedValue(new ValidationError('Validation error: "operations" is required'));
+
+      const event = createMockEvent({
+        httpMethod: 'POST',
+        path: '/tenants/tenant-1/appointments/batch',
+        pathParameters: { tenantId: 'tenant-1' },
+        body: JSON.stringify({})
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(400);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should return 405 for unsupported HTTP method', async () => {
       mockAuthService.validateRequest.mockResolvedValue({
@@ -477,7 +993,7 @@ describe('Appointments Handler Integration Tests', () => {
       expect(JSON.parse(result.body)).toEqual({
         success: false,
         error: {
-          message: 'Internal server error'
+          message: 'Failed to retrieve appointments'
         }
       });
     });
@@ -0,0 +1,74 @@
+/// <reference path="../types.d.ts" />
+import { handler } from '../../src/handlers/audit';
+import { AuditService } from '../../src/services/AuditService';
+import { AuthService } from '../../src/services/AuthService';
+import { ForbiddenError } from '../../src/utils/Errors';
+
+// Mock services
+jest.mock('../../src/services/AuditService');
+jest.mock('../../src/services/AuthService');
+
+const MockedAuditService = AuditService as jest.MockedClass<typeof AuditService>;
+const MockedAuthService = AuthService as jest.MockedClass<typeof AuthService>;
+
+describe('Audit Handler Integration Tests', () => {
+  let mockAuditService: jest.Mocked<AuditService>;
+  let mockAuthService: jest.Mocked<AuthService>;
+
+  beforeAll(() => {
+    // The handler creates its services when the module loads
+    mockAuditService = MockedAuditService.mock.instances[0] as jest.Mocked<AuditService>;
+    mockAuthService = MockedAuthService.mock.instances[0] as jest.Mocked<AuthService>;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /tenants/{tenantId}/audit', () => {
+    it('should return the tenant audit log for admins', async () => {
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: true,
+        userId: 'admin-1',
+        tenantId: 'tenant-1',
+        role: 'tenant-admin'
+      });
+
+      mockAuditService.listAuditRecords.mockResolvedValue({ records: [], nextToken: 'next-page' });
+
+      const event = createMockEvent({
+        httpMethod: 'GET',
+        path: '/tenants/tenant-1/audit',
+        pathParameters: { tenantId: 'tenant-1' },
+        queryStringParameters: { startDate: '2024-01-01' }
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data).toEqual({ records: [], nextToken: 'next-page' });
+      expect(mockAuditService.listAuditRecords).toHaveBeenCalledWith('tenant-1', 'tenant-admin', { startDate: '2024-01-01' });
+    });
+
+    it('should return 403 for regular users', async () => {
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: true,
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        role: 'tenant-user'
+      });
+
+      mockAuditService.listAuditRecords.mockRejectedValue(new ForbiddenError('Only tenant admins can view the audit log'));
+
+      const event = createMockEvent({
+        httpMethod: 'GET',
+        path: '/tenants/tenant-1/audit',
+        pathParameters: { tenantId: 'tenant-1' }
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(403);
+    });
+  });
+});
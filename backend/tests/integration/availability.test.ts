@@ -0,0 +1,119 @@
+/// <reference path="../types.d.ts" />
+import { handler } from '../../src/handlers/availability';
+import { AvailabilityService } from '../../src/services/AvailabilityService';
+import { AuthService } from '../../src/services/AuthService';
+import { ValidationError } from '../../src/utils/Errors';
+
+// Mock services
+jest.mock('../../src/services/AvailabilityService');
+jest.mock('../../src/services/AuthService');
+
+const MockedAvailabilityService = AvailabilityService as jest.MockedClass<typeof AvailabilityService>;
+const MockedAuthService = AuthService as jest.MockedClass<typeof AuthService>;
+
+describe('Availability Handler Integration Tests', () => {
+  let mockAvailabilityService: jest.Mocked<AvailabilityService>;
+  let mockAuthService: jest.Mocked<AuthService>;
+
+  beforeAll(() => {
+    // The handler creates its services when the module loads
+    mockAvailabilityService = MockedAvailabilityService.mock.instances[0] as jest.Mocked<AvailabilityService>;
+    mockAuthService = MockedAuthService.mock.instances[0] as jest.Mocked<AuthService>;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /tenants/{tenantId}/availability', () => {
+    it('should return open slots successfully', async () => {
+      const availability = {
+        userId: 'user-1',
+        timezone: 'America/New_York',
+        durationMinutes: 30,
+        slots: [{ startTime: '2030-01-07T14:00:00.000Z', endTime: '2030-01-07T14:30:00.000Z' }]
+      };
+
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: true,
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        role: 'tenant-user'
+      });
+
+      mockAvailabilityService.findAvailableSlots.mockResolvedValue(availability);
+
+      const event = createMockEvent({
+        httpMethod: 'GET',
+        path: '/tenants/tenant-1/availability',
+        pathParameters: { tenantId: 'tenant-1' },
+        queryStringParameters: {
+          startDate: '2030-01-07',
+          endDate: '2030-01-07',
+          duration: '30'
+        }
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body)).toEqual({
+        success: true,
+        data: availability
+      });
+      expect(mockAvailabilityService.findAvailableSlots).toHaveBeenCalledWith('tenant-1', 'user-1', {
+        startDate: '2030-01-07',
+        endDate: '2030-01-07',
+        duration: '30'
+      });
+    });
+
+    it('should return 400 for invalid query parameters', async () => {
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: true,
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        role: 'tenant-user'
+      });
+
+      mockAvailabilityService.findAvailableSlots.mockRejectedValue(
+        new ValidationError('Validation failed', { errors: ['"duration" is required'] })
+      );
+
+      const event = createMockEvent({
+        httpMethod: 'GET',
+        path: '/tenants/tenant-1/availability',
+        pathParameters: { tenantId: 'tenant-1' }
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body)).toEqual({
+        success: false,
+        error: {
+          message: 'Validation failed',
+          details: { errors: ['"duration" is required'] }
+        }
+      });
+    });
+
+    it('should return 401 when authentication fails', async () => {
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: false,
+        error: 'Invalid token'
+      });
+
+      const event = createMockEvent({
+        httpMethod: 'GET',
+        path: '/tenants/tenant-1/availability',
+        pathParameters: { tenantId: 'tenant-1' }
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(401);
+      expect(mockAvailabilityService.findAvailableSlots).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/// <reference path="../types.d.ts" />
+import { handler } from '../../src/handlers/booking';
+import { BookingService } from '../../src/services/BookingService';
+import { RateLimitService } from '../../src/services/RateLimitService';
+import { TooManyRequestsError } from '../../src/utils/Errors';
+
+// Mock services
+jest.mock('../../src/services/BookingService');
+jest.mock('../../src/services/RateLimitService');
+
+const MockedBookingService = BookingService as jest.MockedClass<typeof BookingService>;
+const MockedRateLimitService = RateLimitService as jest.MockedClass<typeof RateLimitService>;
+
+const booking = {
+  appointmentId: 'app-1',
+  title: 'Initial consultation',
+  startTime: '2024-01-16T10:00:00.000Z',
+  endTime: '2024-01-16T10:45:00.000Z',
+  timezone: 'Europe/Berlin',
+  status: 'scheduled' as const
+};
+
+const publicEvent = (overrides: any) => createMockEvent({
+  headers: { 'Content-Type': 'application/json' },
+  requestContext: { identity: { sourceIp: '203.0.113.7' } },
+  ...overrides
+});
+
+describe('Booking Handler Integration Tests', () => {
+  let mockBookingService: jest.Mocked<BookingService>;
+  let mockRateLimitService: jest.Mocked<RateLimitService>;
+
+  beforeAll(() => {
+    // The handler creates its services when the module loads
+    mockBookingService = MockedBookingService.mock.instances[0] as jest.Mocked<BookingService>;
+    mockRateLimitService = MockedRateLimitService.mock.instances[0] as jest.Mocked<RateLimitService>;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRateLimitService.consume.mockResolvedValue(undefined);
+  });
+
+  describe('GET /public/{tenantSlug}/slots', () => {
+    it('should list open slots without a login', async () => {
+      mockBookingService.findSlots.mockResolvedValue({
+        serviceId: 'consultation',
+        timezone: 'Europe/Berlin',
+        durationMinutes: 45,
+        slots: []
+      });
+
+      const result = await handler(publicEvent({
+        httpMethod: 'GET',
+        path: '/public/acme/slots',
+        pathParameters: { tenantSlug: 'acme' },
+        queryStringParameters: { serviceId: 'consultation', startDate: '2024-01-16', endDate: '2024-01-17' }
+      }), createMockContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(mockBookingService.findSlots).toHaveBeenCalledWith('acme', {
+        serviceId: 'consultation',
+        startDate: '2024-01-16',
+        endDate: '2024-01-17'
+      });
+      expect(mockRateLimitService.consume).toHaveBeenCalledWith('booking-read', 'acme#203.0.113.7', expect.any(Object));
+    });
+  });
+
+  describe('POST /public/{tenantSlug}/bookings', () => {
+    it('should return 400 for a body that is not an object', async () => {
+      const result = await handler(publicEvent({
+        httpMethod: 'POST',
+        path: '/public/acme/bookings',
+        pathParameters: { tenantSlug: 'acme' },
+        body: '"jane@example.com"'
+      }), createMockContext());
+
+      expect(result.statusCode).toBe(400);
+      expect(mockBookingService.book).not.toHaveBeenCalled();
+    });
+
+    it('should book and limit bookings per client and email', async () => {
+      mockBookingService.book.mockResolvedValue(booking);
+      const body = { serviceId: 'consultation', startTime: booking.startTime, name: 'Jane', email: 'jane@example.com', formToken: 'token' };
+
+      const result = await handler(publicEvent({
+        httpMethod: 'POST',
+        path: '/public/acme/bookings',
+        pathParameters: { tenantSlug: 'acme' },
+        body: JSON.stringify(body)
+      }), createMockContext());
+
+      expect(result.statusCode).toBe(201);
+      expect(JSON.parse(result.body).data).toEqual(booking);
+      expect(mockBookingService.book).toHaveBeenCalledWith('acme', body, 'test-request-id');
+      expect(mockRateLimitService.consume).toHaveBeenCalledWith('booking', 'acme#203.0.113.7', expect.any(Object));
+      expect(mockRateLimitService.consume).toHaveBeenCalledWith('booking-email', 'acme#jane@example.com', expect.any(Object));
+    });
+
+    it('should return 429 once the limit is reached', async () => {
+      mockRateLimitService.consume.mockRejectedValue(
+        new TooManyRequestsError('Too many requests, please try again later', { retryAfterSeconds: 120 })
+      );
+
+      const result = await handler(publicEvent({
+        httpMethod: 'POST',
+        path: '/public/acme/bookings',
+        pathParameters: { tenantSlug: 'acme' },
+        body: JSON.stringify({ email: 'jane@example.com' })
+      }), createMockContext());
+
+      expect(result.statusCode).toBe(429);
+      expect(JSON.parse(result.body).error.details).toEqual({ retryAfterSeconds: 120 });
+      expect(mockBookingService.book).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /public/{tenantSlug}/bookings/{appointmentId}/confirm', () => {
+    it('should return 400 for a body that is not an object', async () => {
+      const result = await handler(publicEvent({
+        httpMethod: 'POST',
+        path: '/public/acme/bookings/app-1/confirm',
+        pathParameters: { tenantSlug: 'acme', appointmentId: 'app-1' },
+        body: 'null'
+      }), createMockContext());
+
+      expect(result.statusCode).toBe(400);
+      expect(mockBookingService.confirm).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 for invalid links', async () => {
+      mockBookingService.confirm.mockResolvedValue(null);
+
+      const result = await handler(publicEvent({
+        httpMethod: 'POST',
+        path: '/public/acme/bookings/app-1/confirm',
+        pathParameters: { tenantSlug: 'acme', appointmentId: 'app-1' },
+        body: JSON.stringify({ token: 'forged' })
+      }), createMockContext());
+
+      expect(result.statusCode).toBe(403);
+      expect(mockBookingService.confirm).toHaveBeenCalledWith('acme', 'app-1', 'forged', 'test-request-id');
+    });
+  });
+});
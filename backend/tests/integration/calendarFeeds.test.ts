@@ -0,0 +1,121 @@
+/// <reference path="../types.d.ts" />
+import { handler } from '../../src/handlers/calendarFeeds';
+import { CalendarFeedService } from '../../src/services/CalendarFeedService';
+import { AuthService } from '../../src/services/AuthService';
+import { NotFoundError } from '../../src/utils/Errors';
+
+// Mock services
+jest.mock('../../src/services/CalendarFeedService');
+jest.mock('../../src/services/AuthService');
+
+const MockedCalendarFeedService = CalendarFeedService as jest.MockedClass<typeof CalendarFeedService>;
+const MockedAuthService = AuthService as jest.MockedClass<typeof AuthService>;
+
+describe('Calendar Feeds Handler Integration Tests', () => {
+  let mockCalendarFeedService: jest.Mocked<CalendarFeedService>;
+  let mockAuthService: jest.Mocked<AuthService>;
+
+  beforeAll(() => {
+    // The handler creates its services when the module loads
+    mockCalendarFeedService = MockedCalendarFeedService.mock.instances[0] as jest.Mocked<CalendarFeedService>;
+    mockAuthService = MockedAuthService.mock.instances[0] as jest.Mocked<AuthService>;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /tenants/{tenantId}/feeds/{feedId}/calendar.ics', () => {
+    it('should serve the calendar with the token from the URL', async () => {
+      mockCalendarFeedService.renderFeed.mockResolvedValue('BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n');
+
+      const event = createMockEvent({
+        httpMethod: 'GET',
+        path: '/tenants/tenant-1/feeds/feed-1/calendar.ics',
+        pathParameters: { tenantId: 'tenant-1', feedId: 'feed-1' },
+        queryStringParameters: { token: 'secret' },
+        headers: {}
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers?.['Content-Type']).toBe('text/calendar; charset=utf-8');
+      expect(result.body).toBe('BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n');
+      expect(mockCalendarFeedService.renderFeed).toHaveBeenCalledWith('tenant-1', 'feed-1', 'secret');
+      expect(mockAuthService.validateRequest).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for revoked feeds', async () => {
+      mockCalendarFeedService.renderFeed.mockRejectedValue(new NotFoundError('Calendar feed not found'));
+
+      const event = createMockEvent({
+        httpMethod: 'GET',
+        path: '/tenants/tenant-1/feeds/feed-1/calendar.ics',
+        pathParameters: { tenantId: 'tenant-1', feedId: 'feed-1' },
+        queryStringParameters: { token: 'secret' }
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /tenants/{tenantId}/feeds', () => {
+    it('should create a feed and return its URL path', async () => {
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: true,
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        role: 'tenant-user'
+      });
+
+      mockCalendarFeedService.createFeed.mockResolvedValue({
+        feedId: 'feed-1',
+        tenantId: 'tenant-1',
+        scope: 'user',
+        userId: 'user-1',
+        createdAt: '2024-01-01T00:00:00Z',
+        token: 'secret'
+      });
+
+      const event = createMockEvent({
+        httpMethod: 'POST',
+        path: '/tenants/tenant-1/feeds',
+        pathParameters: { tenantId: 'tenant-1' },
+        body: JSON.stringify({ scope: 'user' })
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(201);
+      expect(JSON.parse(result.body).data.path).toBe('/tenants/tenant-1/feeds/feed-1/calendar.ics?token=secret');
+      expect(mockCalendarFeedService.createFeed).toHaveBeenCalledWith('tenant-1', 'user-1', 'tenant-user', { scope: 'user' });
+    });
+  });
+
+  describe('DELETE /tenants/{tenantId}/feeds/{feedId}', () => {
+    it('should revoke the feed', async () => {
+      mockAuthService.validateRequest.mockResolvedValue({
+        isValid: true,
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        role: 'tenant-user'
+      });
+
+      mockCalendarFeedService.revokeFeed.mockResolvedValue(true);
+
+      const event = createMockEvent({
+        httpMethod: 'DELETE',
+        path: '/tenants/tenant-1/feeds/feed-1',
+        pathParameters: { tenantId: 'tenant-1', feedId: 'feed-1' }
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(mockCalendarFeedService.revokeFeed).toHaveBeenCalledWith('tenant-1', 'feed-1', 'user-1', 'tenant-user');
+    });
+  });
+});
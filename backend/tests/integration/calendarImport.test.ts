@@ -0,0 +1,94 @@
+/// <reference path="../types.d.ts" />
+import { handler } from '../../src/handlers/calendarImport';
+import { CalendarImportService, ImportReport } from '../../src/services/CalendarImportService';
+import { AuthService } from '../../src/services/AuthService';
+import { ValidationError } from '../../src/utils/Errors';
+
+// Mock services
+jest.mock('../../src/services/CalendarImportService');
+jest.mock('../../src/services/AuthService');
+
+const MockedCalendarImportService = CalendarImportService as jest.MockedClass<typeof CalendarImportService>;
+const MockedAuthService = AuthService as jest.MockedClass<typeof AuthService>;
+
+const report = (dryRun: boolean, created: number): ImportReport => ({
+  dryRun,
+  timezone: 'UTC',
+  summary: { total: 1, ready: dryRun ? 1 : 0, created, conflict: 0, invalid: 0, skipped: 0, failed: 0 },
+  items: [{ index: 0, title: 'Check-up', status: dryRun ? 'ready' : 'created' }]
+});
+
+describe('Calendar Import Handler Integration Tests', () => {
+  let mockCalendarImportService: jest.Mocked<CalendarImportService>;
+  let mockAuthService: jest.Mocked<AuthService>;
+
+  beforeAll(() => {
+    // The handler creates its services when the module loads
+    mockCalendarImportService = MockedCalendarImportService.mock.instances[0] as jest.Mocked<CalendarImportService>;
+    mockAuthService = MockedAuthService.mock.instances[0] as jest.Mocked<AuthService>;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAuthService.validateRequest.mockResolvedValue({
+      isValid: true,
+      userId: 'user-1',
+      tenantId: 'tenant-1',
+      role: 'tenant-admin'
+    });
+  });
+
+  describe('POST /tenants/{tenantId}/appointments/import', () => {
+    it('should return the dry-run report', async () => {
+      mockCalendarImportService.importCalendar.mockResolvedValue(report(true, 0));
+
+      const event = createMockEvent({
+        httpMethod: 'POST',
+        path: '/tenants/tenant-1/appointments/import',
+        pathParameters: { tenantId: 'tenant-1' },
+        body: JSON.stringify({ calendar: 'BEGIN:VCALENDAR', dryRun: true })
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data.summary.ready).toBe(1);
+      expect(mockCalendarImportService.importCalendar).toHaveBeenCalledWith(
+        'tenant-1', 'user-1', 'tenant-admin', { calendar: 'BEGIN:VCALENDAR', dryRun: true }, 'test-request-id'
+      );
+    });
+
+    it('should return 201 once appointments were created', async () => {
+      mockCalendarImportService.importCalendar.mockResolvedValue(report(false, 1));
+
+      const event = createMockEvent({
+        httpMethod: 'POST',
+        path: '/tenants/tenant-1/appointments/import',
+        pathParameters: { tenantId: 'tenant-1' },
+        body: JSON.stringify({ calendar: 'BEGIN:VCALENDAR', dryRun: false })
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(201);
+    });
+
+    it('should return 400 for files that cannot be read', async () => {
+      mockCalendarImportService.importCalendar.mockRejectedValue(
+        new ValidationError('The file is not a valid iCalendar (.ics) file')
+      );
+
+      const event = createMockEvent({
+        httpMethod: 'POST',
+        path: '/tenants/tenant-1/appointments/import',
+        pathParameters: { tenantId: 'tenant-1' },
+        body: JSON.stringify({ calendar: 'not a calendar' })
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error.message).toBe('The file is not a valid iCalendar (.ics) file');
+    });
+  });
+});
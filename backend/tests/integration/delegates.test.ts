@@ -0,0 +1,117 @@
+/// <reference path="../types.d.ts" />
+import { handler } from '../../src/handlers/delegates';
+import { DelegationService } from '../../src/services/DelegationService';
+import { AuthService } from '../../src/services/AuthService';
+import { ForbiddenError } from '../../src/utils/Errors';
+
+// Mock services
+jest.mock('../../src/services/DelegationService');
+jest.mock('../../src/services/AuthService');
+
+const MockedDelegationService = DelegationService as jest.MockedClass<typeof DelegationService>;
+const MockedAuthService = AuthService as jest.MockedClass<typeof AuthService>;
+
+const grant = {
+  tenantId: 'tenant-1',
+  ownerId: 'doctor-1',
+  delegateId: 'reception-1',
+  grantedBy: 'doctor-1',
+  createdAt: '2024-01-01T00:00:00Z'
+};
+
+describe('Delegates Handler Integration Tests', () => {
+  let mockDelegationService: jest.Mocked<DelegationService>;
+  let mockAuthService: jest.Mocked<AuthService>;
+
+  beforeAll(() => {
+    // The handler creates its services when the module loads
+    mockDelegationService = MockedDelegationService.mock.instances[0] as jest.Mocked<DelegationService>;
+    mockAuthService = MockedAuthService.mock.instances[0] as jest.Mocked<AuthService>;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAuthService.validateRequest.mockResolvedValue({
+      isValid: true,
+      userId: 'doctor-1',
+      tenantId: 'tenant-1',
+      role: 'tenant-user'
+    });
+  });
+
+  describe('GET /tenants/{tenantId}/delegates', () => {
+    it('should list the caller\'s delegates and the calendars shared with them', async () => {
+      mockDelegationService.listDelegates.mockResolvedValue([grant]);
+      mockDelegationService.listDelegatedCalendars.mockResolvedValue([]);
+
+      const result = await handler(createMockEvent({
+        httpMethod: 'GET',
+        path: '/tenants/tenant-1/delegates',
+        pathParameters: { tenantId: 'tenant-1' }
+      }), createMockContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data).toEqual({ delegates: [grant], calendars: [] });
+      expect(mockDelegationService.listDelegates).toHaveBeenCalledWith('tenant-1', 'doctor-1', 'doctor-1', 'tenant-user');
+    });
+
+    it('should return 403 for other users\' calendars', async () => {
+      mockDelegationService.listDelegates.mockRejectedValue(new ForbiddenError('You can only manage delegates of your own calendar'));
+
+      const result = await handler(createMockEvent({
+        httpMethod: 'GET',
+        path: '/tenants/tenant-1/delegates',
+        pathParameters: { tenantId: 'tenant-1' },
+        queryStringParameters: { userId: 'doctor-2' }
+      }), createMockContext());
+
+      expect(result.statusCode).toBe(403);
+      expect(mockDelegationService.listDelegates).toHaveBeenCalledWith('tenant-1', 'doctor-2', 'doctor-1', 'tenant-user');
+    });
+  });
+
+  describe('POST /tenants/{tenantId}/delegates', () => {
+    it('should grant access', async () => {
+      mockDelegationService.grantDelegate.mockResolvedValue(grant);
+
+      const result = await handler(createMockEvent({
+        httpMethod: 'POST',
+        path: '/tenants/tenant-1/delegates',
+        pathParameters: { tenantId: 'tenant-1' },
+        body: JSON.stringify({ delegateId: 'reception-1' })
+      }), createMockContext());
+
+      expect(result.statusCode).toBe(201);
+      expect(mockDelegationService.grantDelegate).toHaveBeenCalledWith('tenant-1', 'doctor-1', 'doctor-1', 'tenant-user', {
+        delegateId: 'reception-1'
+      });
+    });
+  });
+
+  describe('DELETE /tenants/{tenantId}/delegates/{delegateId}', () => {
+    it('should revoke access', async () => {
+      mockDelegationService.revokeDelegate.mockResolvedValue(true);
+
+      const result = await handler(createMockEvent({
+        httpMethod: 'DELETE',
+        path: '/tenants/tenant-1/delegates/reception-1',
+        pathParameters: { tenantId: 'tenant-1', delegateId: 'reception-1' }
+      }), createMockContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(mockDelegationService.revokeDelegate).toHaveBeenCalledWith('tenant-1', 'doctor-1', 'reception-1', 'doctor-1', 'tenant-user');
+    });
+
+    it('should return 404 for unknown delegates', async () => {
+      mockDelegationService.revokeDelegate.mockResolvedValue(false);
+
+      const result = await handler(createMockEvent({
+        httpMethod: 'DELETE',
+        path: '/tenants/tenant-1/delegates/nobody',
+        pathParameters: { tenantId: 'tenant-1', delegateId: 'nobody' }
+      }), createMockContext());
+
+      expect(result.statusCode).toBe(404);
+    });
+  });
+});
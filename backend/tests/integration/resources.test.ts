@@ -0,0 +1,111 @@
+/// <reference path="../types.d.ts" />
+import { handler } from '../../src/handlers/resources';
+import { ResourceService } from '../../src/services/ResourceService';
+import { AuthService } from '../../src/services/AuthService';
+import { ForbiddenError } from '../../src/utils/Errors';
+
+// Mock services
+jest.mock('../../src/services/ResourceService');
+jest.mock('../../src/services/AuthService');
+
+const MockedResourceService = ResourceService as jest.MockedClass<typeof ResourceService>;
+const MockedAuthService = AuthService as jest.MockedClass<typeof AuthService>;
+
+const room = {
+  resourceId: 'room-1',
+  tenantId: 'tenant-1',
+  name: 'Room A',
+  type: 'room' as const,
+  capacity: 1,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z'
+};
+
+describe('Resources Handler Integration Tests', () => {
+  let mockResourceService: jest.Mocked<ResourceService>;
+  let mockAuthService: jest.Mocked<AuthService>;
+
+  beforeAll(() => {
+    // The handler creates its services when the module loads
+    mockResourceService = MockedResourceService.mock.instances[0] as jest.Mocked<ResourceService>;
+    mockAuthService = MockedAuthService.mock.instances[0] as jest.Mocked<AuthService>;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAuthService.validateRequest.mockResolvedValue({
+      isValid: true,
+      userId: 'admin-1',
+      tenantId: 'tenant-1',
+      role: 'tenant-admin'
+    });
+  });
+
+  describe('GET /tenants/{tenantId}/resources', () => {
+    it('should list the catalog, optionally by type', async () => {
+      mockResourceService.listResources.mockResolvedValue([room]);
+
+      const event = createMockEvent({
+        httpMethod: 'GET',
+        path: '/tenants/tenant-1/resources',
+        pathParameters: { tenantId: 'tenant-1' },
+        queryStringParameters: { type: 'room' }
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data.resources).toEqual([room]);
+      expect(mockResourceService.listResources).toHaveBeenCalledWith('tenant-1', 'room');
+    });
+  });
+
+  describe('POST /tenants/{tenantId}/resources', () => {
+    it('should create a resource', async () => {
+      mockResourceService.createResource.mockResolvedValue(room);
+
+      const event = createMockEvent({
+        httpMethod: 'POST',
+        path: '/tenants/tenant-1/resources',
+        pathParameters: { tenantId: 'tenant-1' },
+        body: JSON.stringify({ name: 'Room A', type: 'room' })
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(201);
+      expect(mockResourceService.createResource).toHaveBeenCalledWith('tenant-1', 'admin-1', 'tenant-admin', { name: 'Room A', type: 'room' });
+    });
+
+    it('should return 403 for regular users', async () => {
+      mockResourceService.createResource.mockRejectedValue(new ForbiddenError('Only tenant admins can manage resources'));
+
+      const event = createMockEvent({
+        httpMethod: 'POST',
+        path: '/tenants/tenant-1/resources',
+        pathParameters: { tenantId: 'tenant-1' },
+        body: JSON.stringify({ name: 'Room A', type: 'room' })
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(403);
+    });
+  });
+
+  describe('DELETE /tenants/{tenantId}/resources/{resourceId}', () => {
+    it('should return 404 for unknown resources', async () => {
+      mockResourceService.deleteResource.mockResolvedValue(false);
+
+      const event = createMockEvent({
+        httpMethod: 'DELETE',
+        path: '/tenants/tenant-1/resources/gone',
+        pathParameters: { tenantId: 'tenant-1', resourceId: 'gone' }
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(404);
+    });
+  });
+});
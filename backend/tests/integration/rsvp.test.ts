@@ -0,0 +1,112 @@
+/// <reference path="../types.d.ts" />
+import { handler } from '../../src/handlers/rsvp';
+import { RsvpService, Invitation } from '../../src/services/RsvpService';
+import { InvitationService } from '../../src/services/InvitationService';
+
+// Mock services
+jest.mock('../../src/services/RsvpService');
+
+const MockedRsvpService = RsvpService as jest.MockedClass<typeof RsvpService>;
+
+const invitation: Invitation = {
+  tenantId: 'tenant-1',
+  appointmentId: 'appointment-1',
+  title: 'Check-up',
+  startTime: '2024-01-15T10:00:00.000Z',
+  endTime: '2024-01-15T10:30:00.000Z',
+  status: 'scheduled',
+  attendee: { email: 'jane@example.com', responseStatus: 'accepted', respondedAt: '2024-01-10T08:00:00.000Z' }
+};
+
+describe('RSVP Handler Integration Tests', () => {
+  let mockRsvpService: jest.Mocked<RsvpService>;
+  const token = new InvitationService().rsvpToken('tenant-1', 'appointment-1', 'jane@example.com');
+
+  beforeAll(() => {
+    // The handler creates its services when the module loads
+    mockRsvpService = MockedRsvpService.mock.instances[0] as jest.Mocked<RsvpService>;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should show the invitation to the attendee the link was issued for', async () => {
+    mockRsvpService.getInvitation.mockResolvedValue(invitation);
+
+    const event = createMockEvent({
+      httpMethod: 'GET',
+      path: '/tenants/tenant-1/appointments/appointment-1/rsvp',
+      pathParameters: { tenantId: 'tenant-1', appointmentId: 'appointment-1' },
+      queryStringParameters: { token }
+    });
+
+    const result = await handler(event, createMockContext());
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body).data.title).toBe('Check-up');
+    expect(mockRsvpService.getInvitation).toHaveBeenCalledWith('tenant-1', 'appointment-1', 'jane@example.com');
+  });
+
+  it('should record the response without a login', async () => {
+    mockRsvpService.respondToInvitation.mockResolvedValue(invitation);
+
+    const event = createMockEvent({
+      httpMethod: 'POST',
+      path: '/tenants/tenant-1/appointments/appointment-1/rsvp',
+      pathParameters: { tenantId: 'tenant-1', appointmentId: 'appointment-1' },
+      body: JSON.stringify({ token, response: 'accepted' })
+    });
+
+    const result = await handler(event, createMockContext());
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body).data.attendee.responseStatus).toBe('accepted');
+    expect(mockRsvpService.respondToInvitation).toHaveBeenCalledWith(
+      'tenant-1', 'appointment-1', 'jane@example.com', 'accepted', 'test-request-id'
+    );
+  });
+
+  it('should return 400 for a body that is not an object', async () => {
+    const event = createMockEvent({
+      httpMethod: 'POST',
+      path: '/tenants/tenant-1/appointments/appointment-1/rsvp',
+      pathParameters: { tenantId: 'tenant-1', appointmentId: 'appointment-1' },
+      body: 'null'
+    });
+
+    const result = await handler(event, createMockContext());
+
+    expect(result.statusCode).toBe(400);
+    expect(mockRsvpService.respondToInvitation).not.toHaveBeenCalled();
+  });
+
+  it('should reject links issued for another appointment', async () => {
+    const event = createMockEvent({
+      httpMethod: 'POST',
+      path: '/tenants/tenant-1/appointments/appointment-2/rsvp',
+      pathParameters: { tenantId: 'tenant-1', appointmentId: 'appointment-2' },
+      body: JSON.stringify({ token, response: 'accepted' })
+    });
+
+    const result = await handler(event, createMockContext());
+
+    expect(result.statusCode).toBe(403);
+    expect(mockRsvpService.respondToInvitation).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 once the attendee was removed', async () => {
+    mockRsvpService.getInvitation.mockResolvedValue(null);
+
+    const event = createMockEvent({
+      httpMethod: 'GET',
+      path: '/tenants/tenant-1/appointments/appointment-1/rsvp',
+      pathParameters: { tenantId: 'tenant-1', appointmentId: 'appointment-1' },
+      queryStringParameters: { token }
+    });
+
+    const result = await handler(event, createMockContext());
+
+    expect(result.statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,119 @@
+/// <reference path="../types.d.ts" />
+import { handler } from '../../src/handlers/services';
+import { ServiceCatalogService } from '../../src/services/ServiceCatalogService';
+import { AuthService } from '../../src/services/AuthService';
+import { ValidationError } from '../../src/utils/Errors';
+
+// Mock services
+jest.mock('../../src/services/ServiceCatalogService');
+jest.mock('../../src/services/AuthService');
+
+const MockedServiceCatalogService = ServiceCatalogService as jest.MockedClass<typeof ServiceCatalogService>;
+const MockedAuthService = AuthService as jest.MockedClass<typeof AuthService>;
+
+const consultation = {
+  serviceId: 'consultation',
+  tenantId: 'tenant-1',
+  name: 'Initial consultation',
+  durationMinutes: 45,
+  bufferBeforeMinutes: 0,
+  bufferAfterMinutes: 15,
+  price: { amount: 80, currency: 'USD' },
+  resourceIds: [],
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z'
+};
+
+describe('Services Handler Integration Tests', () => {
+  let mockServiceCatalogService: jest.Mocked<ServiceCatalogService>;
+  let mockAuthService: jest.Mocked<AuthService>;
+
+  beforeAll(() => {
+    // The handler creates its services when the module loads
+    mockServiceCatalogService = MockedServiceCatalogService.mock.instances[0] as jest.Mocked<ServiceCatalogService>;
+    mockAuthService = MockedAuthService.mock.instances[0] as jest.Mocked<AuthService>;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAuthService.validateRequest.mockResolvedValue({
+      isValid: true,
+      userId: 'admin-1',
+      tenantId: 'tenant-1',
+      role: 'tenant-admin'
+    });
+  });
+
+  describe('GET /tenants/{tenantId}/services', () => {
+    it('should list the catalog', async () => {
+      mockServiceCatalogService.listServices.mockResolvedValue([consultation]);
+
+      const event = createMockEvent({
+        httpMethod: 'GET',
+        path: '/tenants/tenant-1/services',
+        pathParameters: { tenantId: 'tenant-1' }
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data.services).toEqual([consultation]);
+      expect(mockServiceCatalogService.listServices).toHaveBeenCalledWith('tenant-1');
+    });
+  });
+
+  describe('POST /tenants/{tenantId}/services', () => {
+    it('should create a service', async () => {
+      mockServiceCatalogService.createService.mockResolvedValue(consultation);
+
+      const event = createMockEvent({
+        httpMethod: 'POST',
+        path: '/tenants/tenant-1/services',
+        pathParameters: { tenantId: 'tenant-1' },
+        body: JSON.stringify({ name: 'Initial consultation', durationMinutes: 45 })
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(201);
+      expect(mockServiceCatalogService.createService).toHaveBeenCalledWith('tenant-1', 'admin-1', 'tenant-admin', {
+        name: 'Initial consultation',
+        durationMinutes: 45
+      });
+    });
+
+    it('should return 400 for invalid services', async () => {
+      mockServiceCatalogService.createService.mockRejectedValue(
+        new ValidationError('Validation failed', { errors: ['"durationMinutes" is required'] })
+      );
+
+      const event = createMockEvent({
+        httpMethod: 'POST',
+        path: '/tenants/tenant-1/services',
+        pathParameters: { tenantId: 'tenant-1' },
+        body: JSON.stringify({ name: 'Initial consultation' })
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(400);
+    });
+  });
+
+  describe('PUT /tenants/{tenantId}/services/{serviceId}', () => {
+    it('should return 404 for unknown services', async () => {
+      mockServiceCatalogService.updateService.mockResolvedValue(null);
+
+      const event = createMockEvent({
+        httpMethod: 'PUT',
+        path: '/tenants/tenant-1/services/gone',
+        pathParameters: { tenantId: 'tenant-1', serviceId: 'gone' },
+        body: JSON.stringify({ durationMinutes: 30 })
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(404);
+    });
+  });
+});
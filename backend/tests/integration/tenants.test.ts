@@ -0,0 +1,122 @@
+/// <reference path="../types.d.ts" />
+import { handler } from '../../src/handlers/tenants';
+import { Tenant, TenantService } from '../../src/services/TenantService';
+import { AuthService } from '../../src/services/AuthService';
+import { ForbiddenError } from '../../src/utils/Errors';
+
+// Mock services
+jest.mock('../../src/services/TenantService');
+jest.mock('../../src/services/AuthService');
+
+const MockedTenantService = TenantService as jest.MockedClass<typeof TenantService>;
+const MockedAuthService = AuthService as jest.MockedClass<typeof AuthService>;
+
+const acme: Tenant = {
+  tenantId: 'tenant-1',
+  name: 'Acme Corporation',
+  plan: 'premium',
+  status: 'active',
+  createdAt: '2024-01-01T00:00:00Z',
+  settings: {
+    timezone: 'America/New_York',
+    workingHours: { start: '09:00', end: '17:00', days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'] }
+  }
+};
+
+describe('Tenants Handler Integration Tests', () => {
+  let mockTenantService: jest.Mocked<TenantService>;
+  let mockAuthService: jest.Mocked<AuthService>;
+
+  beforeAll(() => {
+    // The handler creates its services when the module loads
+    mockTenantService = MockedTenantService.mock.instances[0] as jest.Mocked<TenantService>;
+    mockAuthService = MockedAuthService.mock.instances[0] as jest.Mocked<AuthService>;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAuthService.validateRequest.mockResolvedValue({
+      isValid: true,
+      userId: 'root',
+      tenantId: '',
+      role: 'super-admin'
+    });
+  });
+
+  describe('POST /tenants', () => {
+    it('should create a tenant', async () => {
+      mockTenantService.createTenant.mockResolvedValue(acme);
+
+      const result = await handler(createMockEvent({
+        httpMethod: 'POST',
+        path: '/tenants',
+        pathParameters: null,
+        body: JSON.stringify({ name: 'Acme Corporation' })
+      }), createMockContext());
+
+      expect(result.statusCode).toBe(201);
+      expect(mockAuthService.validateRequest).toHaveBeenCalledWith(expect.anything(), '');
+      expect(mockTenantService.createTenant).toHaveBeenCalledWith('root', 'super-admin', { name: 'Acme Corporation' });
+    });
+
+    it('should reject requests without access', async () => {
+      mockAuthService.validateRequest.mockResolvedValue({ isValid: false, error: 'Access denied to tenant' });
+
+      const result = await handler(createMockEvent({
+        httpMethod: 'POST',
+        path: '/tenants',
+        pathParameters: null,
+        body: JSON.stringify({ name: 'Acme Corporation' })
+      }), createMockContext());
+
+      expect(result.statusCode).toBe(401);
+      expect(mockTenantService.createTenant).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /tenants/{tenantId}', () => {
+    it('should return 404 for unknown tenants', async () => {
+      mockTenantService.getTenant.mockResolvedValue(null);
+
+      const result = await handler(createMockEvent({
+        httpMethod: 'GET',
+        path: '/tenants/gone',
+        pathParameters: { tenantId: 'gone' }
+      }), createMockContext());
+
+      expect(result.statusCode).toBe(404);
+    });
+  });
+
+  describe('PUT /tenants/{tenantId}', () => {
+    it('should return 403 when a tenant admin changes the plan', async () => {
+      mockTenantService.updateTenant.mockRejectedValue(new ForbiddenError('Only super admins can change the plan or domain'));
+
+      const result = await handler(createMockEvent({
+        httpMethod: 'PUT',
+        path: '/tenants/tenant-1',
+        pathParameters: { tenantId: 'tenant-1' },
+        body: JSON.stringify({ plan: 'premium' })
+      }), createMockContext());
+
+      expect(result.statusCode).toBe(403);
+    });
+  });
+
+  describe('POST /tenants/{tenantId}/suspend', () => {
+    it('should suspend the tenant', async () => {
+      mockTenantService.suspendTenant.mockResolvedValue({ ...acme, status: 'suspended' });
+
+      const result = await handler(createMockEvent({
+        httpMethod: 'POST',
+        path: '/tenants/tenant-1/suspend',
+        pathParameters: { tenantId: 'tenant-1' },
+        body: JSON.stringify({ reason: 'Unpaid invoices' })
+      }), createMockContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data.status).toBe('suspended');
+      expect(mockTenantService.suspendTenant).toHaveBeenCalledWith('tenant-1', 'root', 'super-admin', { reason: 'Unpaid invoices' });
+    });
+  });
+});
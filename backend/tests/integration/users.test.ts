@@ -0,0 +1,117 @@
+/// <reference path="../types.d.ts" />
+import { handler } from '../../src/handlers/users';
+import { User, UserService } from '../../src/services/UserService';
+import { AuthService } from '../../src/services/AuthService';
+import { ForbiddenError } from '../../src/utils/Errors';
+
+// Mock services
+jest.mock('../../src/services/UserService');
+jest.mock('../../src/services/AuthService');
+
+const MockedUserService = UserService as jest.MockedClass<typeof UserService>;
+const MockedAuthService = AuthService as jest.MockedClass<typeof AuthService>;
+
+const jane: User = {
+  userId: 'user-002',
+  tenantId: 'test-tenant',
+  email: 'jane@example.com',
+  role: 'tenant-user',
+  status: 'active',
+  createdAt: '2024-01-01T00:00:00Z'
+};
+
+describe('Users Handler Integration Tests', () => {
+  let mockUserService: jest.Mocked<UserService>;
+  let mockAuthService: jest.Mocked<AuthService>;
+
+  beforeAll(() => {
+    // The handler creates its services when the module loads
+    mockUserService = MockedUserService.mock.instances[0] as jest.Mocked<UserService>;
+    mockAuthService = MockedAuthService.mock.instances[0] as jest.Mocked<AuthService>;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAuthService.validateRequest.mockResolvedValue({
+      isValid: true,
+      userId: 'admin-user',
+      tenantId: 'test-tenant',
+      role: 'tenant-admin'
+    });
+  });
+
+  describe('GET /tenants/{tenantId}/users', () => {
+    it('should list the tenant users', async () => {
+      mockUserService.listUsers.mockResolvedValue([jane]);
+
+      const result = await handler(createMockEvent({
+        httpMethod: 'GET',
+        path: '/tenants/test-tenant/users',
+        pathParameters: { tenantId: 'test-tenant' }
+      }), createMockContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data.users).toEqual([jane]);
+      expect(mockUserService.listUsers).toHaveBeenCalledWith('test-tenant', 'tenant-admin');
+    });
+
+    it('should return 403 for regular users', async () => {
+      mockUserService.listUsers.mockRejectedValue(new ForbiddenError('Only tenant admins can manage users'));
+
+      const result = await handler(createMockEvent({
+        httpMethod: 'GET',
+        path: '/tenants/test-tenant/users',
+        pathParameters: { tenantId: 'test-tenant' }
+      }), createMockContext());
+
+      expect(result.statusCode).toBe(403);
+    });
+  });
+
+  describe('POST /tenants/{tenantId}/users', () => {
+    it('should invite a user', async () => {
+      mockUserService.inviteUser.mockResolvedValue(jane);
+
+      const result = await handler(createMockEvent({
+        httpMethod: 'POST',
+        path: '/tenants/test-tenant/users',
+        pathParameters: { tenantId: 'test-tenant' },
+        body: JSON.stringify({ email: 'jane@example.com' })
+      }), createMockContext());
+
+      expect(result.statusCode).toBe(201);
+      expect(mockUserService.inviteUser).toHaveBeenCalledWith('test-tenant', 'admin-user', 'tenant-admin', { email: 'jane@example.com' });
+    });
+  });
+
+  describe('PUT /tenants/{tenantId}/users/{userId}', () => {
+    it('should return 404 for unknown users', async () => {
+      mockUserService.changeRole.mockResolvedValue(null);
+
+      const result = await handler(createMockEvent({
+        httpMethod: 'PUT',
+        path: '/tenants/test-tenant/users/gone',
+        pathParameters: { tenantId: 'test-tenant', userId: 'gone' },
+        body: JSON.stringify({ role: 'tenant-admin' })
+      }), createMockContext());
+
+      expect(result.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /tenants/{tenantId}/users/{userId}/disable', () => {
+    it('should disable the user', async () => {
+      mockUserService.disableUser.mockResolvedValue({ ...jane, status: 'disabled' });
+
+      const result = await handler(createMockEvent({
+        httpMethod: 'POST',
+        path: '/tenants/test-tenant/users/user-002/disable',
+        pathParameters: { tenantId: 'test-tenant', userId: 'user-002' }
+      }), createMockContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data.status).toBe('disabled');
+      expect(mockUserService.disableUser).toHaveBeenCalledWith('test-tenant', 'user-002', 'admin-user', 'tenant-admin');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/// <reference path="../types.d.ts" />
+import { handler } from '../../src/handlers/waitlist';
+import { WaitlistService } from '../../src/services/WaitlistService';
+import { WaitlistBookingService } from '../../src/services/WaitlistBookingService';
+import { AuthService } from '../../src/services/AuthService';
+import { ConflictError } from '../../src/utils/Errors';
+
+// Mock services
+jest.mock('../../src/services/WaitlistService');
+jest.mock('../../src/services/WaitlistBookingService');
+jest.mock('../../src/services/AuthService');
+
+const MockedWaitlistService = WaitlistService as jest.MockedClass<typeof WaitlistService>;
+const MockedWaitlistBookingService = WaitlistBookingService as jest.MockedClass<typeof WaitlistBookingService>;
+const MockedAuthService = AuthService as jest.MockedClass<typeof AuthService>;
+
+describe('Waitlist Handler Integration Tests', () => {
+  let mockWaitlistService: jest.Mocked<WaitlistService>;
+  let mockWaitlistBookingService: jest.Mocked<WaitlistBookingService>;
+  let mockAuthService: jest.Mocked<AuthService>;
+
+  beforeAll(() => {
+    // The handler creates its services when the module loads
+    mockWaitlistService = MockedWaitlistService.mock.instances[0] as jest.Mocked<WaitlistService>;
+    mockWaitlistBookingService = MockedWaitlistBookingService.mock.instances[0] as jest.Mocked<WaitlistBookingService>;
+    mockAuthService = MockedAuthService.mock.instances[0] as jest.Mocked<AuthService>;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAuthService.validateRequest.mockResolvedValue({
+      isValid: true,
+      userId: 'patient-1',
+      tenantId: 'tenant-1',
+      role: 'tenant-user'
+    });
+  });
+
+  describe('POST /tenants/{tenantId}/waitlist', () => {
+    it('should add an entry', async () => {
+      mockWaitlistService.createEntry.mockResolvedValue({
+        entryId: 'entry-1',
+        tenantId: 'tenant-1',
+        userId: 'patient-1',
+        requestedBy: 'patient-1',
+        title: 'Check-up',
+        windowStart: '2024-01-16T08:00:00.000Z',
+        windowEnd: '2024-01-16T18:00:00.000Z',
+        durationMinutes: 30,
+        status: 'waiting',
+        createdAt: '2024-01-10T00:00:00.000Z',
+        updatedAt: '2024-01-10T00:00:00.000Z'
+      });
+
+      const body = {
+        title: 'Check-up',
+        windowStart: '2024-01-16T08:00:00Z',
+        windowEnd: '2024-01-16T18:00:00Z',
+        durationMinutes: 30
+      };
+      const event = createMockEvent({
+        httpMethod: 'POST',
+        path: '/tenants/tenant-1/waitlist',
+        pathParameters: { tenantId: 'tenant-1' },
+        body: JSON.stringify(body)
+      });
+
+      const result = await handler(event, createMockContext());
+
+      expect(result.statusCode).toBe(201);
+      expect(JSON.parse(result.body).data.entryId).toBe('entry-1');
+      expect(mockWaitlistService.createEntry).toHaveBeenCalledWith('tenant-1', 'patient-1', 'tenant-user', body);
+    });
+  });
+
+  describe('POST /tenants/{tenantId}/waitlist/{entryId}/accept', () => {
+    const acceptEvent = () => createMockEvent({
+      httpMethod: 'POST',
+      path: '/tenants/tenant-1/waitlist/entry-1/accept',
+      pathParameters: { tenantId: 'tenant-1', entryId: 'entry-1' }
+    });
+
+    it('should book the offered slot', async () => {
+      mockWaitlistBookingService.acceptWaitlistOffer.mockResolvedValue({
+        appointmentId: 'app-2',
+        tenantId: 'tenant-1',
+        userId: 'doctor-1',
+        title: 'Check-up',
+        startTime: '2024-01-16T10:00:00.000Z',
+        endTime: '2024-01-16T10:30:00.000Z',
+        status: 'scheduled',
+        reminderMinutes: 60,
+        createdAt: '2024-01-15T09:10:00.000Z',
+        updatedAt: '2024-01-15T09:10:00.000Z'
+      });
+
+      const result = await handler(acceptEvent(), createMockContext());
+
+      expect(result.statusCode).toBe(201);
+      expect(JSON.parse(result.body).data.appointmentId).toBe('app-2');
+      expect(mockWaitlistBookingService.acceptWaitlistOffer).toHaveBeenCalledWith(
+        'tenant-1', 'entry-1', 'patient-1', 'tenant-user', 'test-request-id'
+      );
+      expect(mockWaitlistService.createEntry).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when the offer was taken', async () => {
+      mockWaitlistBookingService.acceptWaitlistOffer.mockRejectedValue(new ConflictError('The offer is no longer available'));
+
+      const result = await handler(acceptEvent(), createMockContext());
+
+      expect(result.statusCode).toBe(409);
+    });
+
+    it('should return 404 for unknown entries', async () => {
+      mockWaitlistBookingService.acceptWaitlistOffer.mockResolvedValue(null);
+
+      const result = await handler(acceptEvent(), createMockContext());
+
+      expect(result.statusCode).toBe(404);
+    });
+  });
+});
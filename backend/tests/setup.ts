@@ -1,22 +1,18 @@
-// Mock AWS SDK
-jest.mock('aws-sdk', () => ({
-  DynamoDB: {
-    DocumentClient: jest.fn(() => ({
-      get: jest.fn().mockReturnThis(),
-      put: jest.fn().mockReturnThis(),
-      update: jest.fn().mockReturnThis(),
-      delete: jest.fn().mockReturnThis(),
-      query: jest.fn().mockReturnThis(),
-      scan: jest.fn().mockReturnThis(),
-      promise: jest.fn()
-    }))
-  },
-  CognitoIdentityServiceProvider: jest.fn(() => ({
-    adminGetUser: jest.fn().mockReturnThis(),
-    adminCreateUser: jest.fn().mockReturnThis(),
-    adminAddUserToGroup: jest.fn().mockReturnThis(),
-    promise: jest.fn()
-  }))
+// Mock AWS SDK with the shared clients from tests/helpers/aws
+jest.mock('aws-sdk', () => {
+  const { mockDynamoDB, mockCognito, mockSES } = require('./helpers/aws');
+  return {
+    DynamoDB: {
+      DocumentClient: jest.fn(() => mockDynamoDB)
+    },
+    CognitoIdentityServiceProvider: jest.fn(() => mockCognito),
+    SES: jest.fn(() => mockSES)
+  };
+});
+
+// X-Ray tracing needs the real SDK and a running daemon
+jest.mock('aws-xray-sdk-core', () => ({
+  captureAWS: jest.fn((sdk: any) => sdk)
 }));
 
 // Mock environment variables
@@ -24,6 +20,7 @@ process.env['APPOINTMENTS_TABLE_NAME'] = 'test-appointments';
 process.env['TENANTS_TABLE_NAME'] = 'test-tenants';
 process.env['USERS_TABLE_NAME'] = 'test-users';
 process.env['COGNITO_USER_POOL_ID'] = 'test-pool-id';
+process.env['TOKEN_SIGNING_SECRET'] = 'test-signing-secret';
 process.env['NODE_ENV'] = 'test';
 
 // Global test utilities
@@ -1,19 +1,29 @@
 import { AppointmentService, Appointment } from '../../src/services/AppointmentService';
+import { InvitationService } from '../../src/services/InvitationService';
+import { DEFAULT_TENANT_SETTINGS, TenantService } from '../../src/services/TenantService';
+import { WaitlistService } from '../../src/services/WaitlistService';
+import { Resource, ResourceService } from '../../src/services/ResourceService';
+import { BookableService, ServiceCatalogService } from '../../src/services/ServiceCatalogService';
+import { DelegationService } from '../../src/services/DelegationService';
+import { awsResponse, mockDynamoDB } from '../helpers/aws';
 
-// Mock DynamoDB
-const mockDynamoDB = {
-  get: jest.fn(),
-  put: jest.fn(),
-  update: jest.fn(),
-  delete: jest.fn(),
-  query: jest.fn()
-};
-
-jest.mock('aws-sdk', () => ({
-  DynamoDB: {
-    DocumentClient: jest.fn(() => mockDynamoDB)
-  }
+jest.mock('../../src/services/InvitationService');
+// Unknown tenants fall back to the real default settings, working hours included
+jest.mock('../../src/services/TenantService', () => ({
+  ...jest.createMockFromModule<object>('../../src/services/TenantService'),
+  DEFAULT_TENANT_SETTINGS: jest.requireActual('../../src/services/TenantService').DEFAULT_TENANT_SETTINGS
 }));
+jest.mock('../../src/services/WaitlistService');
+jest.mock('../../src/services/ResourceService');
+jest.mock('../../src/services/ServiceCatalogService');
+jest.mock('../../src/services/DelegationService');
+
+const MockedInvitationService = InvitationService as jest.MockedClass<typeof InvitationService>;
+const MockedTenantService = TenantService as jest.MockedClass<typeof TenantService>;
+const MockedWaitlistService = WaitlistService as jest.MockedClass<typeof WaitlistService>;
+const MockedResourceService = ResourceService as jest.MockedClass<typeof ResourceService>;
+const MockedServiceCatalogService = ServiceCatalogService as jest.MockedClass<typeof ServiceCatalogService>;
+const MockedDelegationService = DelegationService as jest.MockedClass<typeof DelegationService>;
 
 describe('AppointmentService', () => {
   let appointmentService: AppointmentService;
@@ -30,7 +40,7 @@ describe('AppointmentService', () => {
       startTime: '2024-01-15T10:00:00Z',
       endTime: '2024-01-15T11:00:00Z',
       location: 'Test Location',
-      attendees: ['test@example.com'],
+      attendees: [{ email: 'test@example.com', responseStatus: 'needs-action' }],
       status: 'scheduled',
       reminderMinutes: 60,
       createdAt: '2024-01-01T00:00:00Z',
@@ -43,9 +53,9 @@ describe('AppointmentService', () => {
 
   describe('getAppointment', () => {
     it('should return appointment when found', async () => {
-      mockDynamoDB.get.mockResolvedValue({
+      mockDynamoDB.get.mockReturnValue(awsResponse({
         Item: mockAppointment
-      });
+      }));
 
       const result = await appointmentService.getAppointment(
         'test-tenant',
@@ -65,7 +75,7 @@ describe('AppointmentService', () => {
     });
 
     it('should return null when appointment not found', async () => {
-      mockDynamoDB.get.mockResolvedValue({});
+      mockDynamoDB.get.mockReturnValue(awsResponse({}));
 
       const result = await appointmentService.getAppointment(
         'test-tenant',
@@ -79,9 +89,9 @@ describe('AppointmentService', () => {
 
     it('should throw error when user lacks access', async () => {
       const otherUserAppointment = { ...mockAppointment, userId: 'other-user' };
-      mockDynamoDB.get.mockResolvedValue({
+      mockDynamoDB.get.mockReturnValue(awsResponse({
         Item: otherUserAppointment
-      });
+      }));
 
       await expect(
         appointmentService.getAppointment(
@@ -95,9 +105,9 @@ describe('AppointmentService', () => {
 
     it('should allow super admin to access any appointment', async () => {
       const otherUserAppointment = { ...mockAppointment, userId: 'other-user' };
-      mockDynamoDB.get.mockResolvedValue({
+      mockDynamoDB.get.mockReturnValue(awsResponse({
         Item: otherUserAppointment
-      });
+      }));
 
       const result = await appointmentService.getAppointment(
         'test-tenant',
@@ -108,13 +118,26 @@ describe('AppointmentService', () => {
 
       expect(result).toEqual(otherUserAppointment);
     });
+
+    it('should allow tenant admin to access any appointment in the tenant', async () => {
+      const otherUserAppointment = { ...mockAppointment, userId: 'other-user' };
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: otherUserAppointment }));
+
+      const result = await appointmentService.getAppointment('test-tenant', 'test-appointment-123', 'admin-user', 'tenant-admin');
+
+      expect(result).toEqual(otherUserAppointment);
+    });
   });
 
   describe('listAppointments', () => {
+    afterEach(() => {
+      mockDynamoDB.query.mockReset();
+    });
+
     it('should return appointments for tenant user', async () => {
-      mockDynamoDB.query.mockResolvedValue({
-        Items: [mockAppointment]
-      });
+      mockDynamoDB.query.mockImplementation((params: any) =>
+        awsResponse({ Items: params.KeyConditionExpression.includes(':seriesPrefix') ? [] : [mockAppointment] })
+      );
 
       const result = await appointmentService.listAppointments(
         'test-tenant',
@@ -122,21 +145,22 @@ describe('AppointmentService', () => {
         'tenant-user'
       );
 
-      expect(result).toEqual([mockAppointment]);
+      expect(result).toEqual({ appointments: [mockAppointment], nextToken: undefined });
       expect(mockDynamoDB.query).toHaveBeenCalledWith({
         TableName: 'test-appointments',
         IndexName: 'GSI2',
         KeyConditionExpression: 'GSI2PK = :userKey',
         ExpressionAttributeValues: {
           ':userKey': 'TENANT#test-tenant#USER#test-user'
-        }
+        },
+        Limit: 50
       });
     });
 
     it('should return all appointments for super admin', async () => {
-      mockDynamoDB.query.mockResolvedValue({
-        Items: [mockAppointment]
-      });
+      mockDynamoDB.query.mockImplementation((params: any) =>
+        awsResponse({ Items: params.KeyConditionExpression.includes(':seriesPrefix') ? [] : [mockAppointment] })
+      );
 
       const result = await appointmentService.listAppointments(
         'test-tenant',
@@ -144,21 +168,53 @@ describe('AppointmentService', () => {
         'super-admin'
       );
 
-      expect(result).toEqual([mockAppointment]);
+      expect(result.appointments).toEqual([mockAppointment]);
       expect(mockDynamoDB.query).toHaveBeenCalledWith({
         TableName: 'test-appointments',
         IndexName: 'GSI1',
         KeyConditionExpression: 'GSI1PK = :tenantId',
         ExpressionAttributeValues: {
           ':tenantId': 'TENANT#test-tenant'
-        }
+        },
+        Limit: 50
       });
     });
 
+    it('should return all appointments for tenant admin', async () => {
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+
+      await appointmentService.listAppointments('test-tenant', 'admin-user', 'tenant-admin');
+
+      expect(mockDynamoDB.query).toHaveBeenCalledWith(expect.objectContaining({
+        IndexName: 'GSI1',
+        ExpressionAttributeValues: { ':tenantId': 'TENANT#test-tenant' }
+      }));
+    });
+
+    it('should let admins filter by user', async () => {
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+
+      await appointmentService.listAppointments('test-tenant', 'admin-user', 'tenant-admin', { userId: 'test-user' });
+
+      expect(mockDynamoDB.query).toHaveBeenCalledWith(expect.objectContaining({
+        IndexName: 'GSI2',
+        ExpressionAttributeValues: { ':userKey': 'TENANT#test-tenant#USER#test-user' }
+      }));
+    });
+
+    it('should not let users list someone else\'s appointments', async () => {
+      await expect(
+        appointmentService.listAppointments('test-tenant', 'test-user', 'tenant-user', { userId: 'other-user' })
+      ).rejects.toMatchObject({ statusCode: 403 });
+      expect(mockDynamoDB.query).not.toHaveBeenCalled();
+
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+      await appointmentService.listAppointments('test-tenant', 'test-user', 'tenant-user', { userId: 'test-user' });
+      expect(mockDynamoDB.query).toHaveBeenCalledWith(expect.objectContaining({ IndexName: 'GSI2' }));
+    });
+
     it('should apply filters correctly', async () => {
-      mockDynamoDB.query.mockResolvedValue({
-        Items: [mockAppointment]
-      });
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
 
       const filters = {
         startDate: '2024-01-01',
@@ -175,10 +231,11 @@ describe('AppointmentService', () => {
 
       expect(mockDynamoDB.query).toHaveBeenCalledWith(
         expect.objectContaining({
-          FilterExpression: 'startTime >= :startDate AND startTime <= :endDate AND #status = :status',
+          KeyConditionExpression: 'GSI2PK = :userKey AND GSI2SK BETWEEN :fromKey AND :toKey',
+          FilterExpression: '#status = :status',
           ExpressionAttributeValues: expect.objectContaining({
-            ':startDate': '2024-01-01',
-            ':endDate': '2024-01-31',
+            ':fromKey': 'DATE#2024-01-01#TIME#00:00:00',
+            ':toKey': 'DATE#2024-01-31#TIME#23:59:59',
             ':status': 'scheduled'
           }),
           ExpressionAttributeNames: {
@@ -187,11 +244,160 @@ describe('AppointmentService', () => {
         })
       );
     });
+
+    it('should leave the range open when only one bound is given', async () => {
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+
+      await appointmentService.listAppointments('test-tenant', 'test-user', 'super-admin', {
+        startDate: '2024-01-01'
+      });
+
+      expect(mockDynamoDB.query).toHaveBeenCalledWith(
+        expect.objectContaining({
+          KeyConditionExpression: 'GSI1PK = :tenantId AND GSI1SK BETWEEN :fromKey AND :toKey',
+          ExpressionAttributeValues: {
+            ':tenantId': 'TENANT#test-tenant',
+            ':fromKey': 'DATE#2024-01-01#TIME#00:00:00',
+            ':toKey': 'DATE#~'
+          }
+        })
+      );
+    });
+
+    it('should reject malformed dates', async () => {
+      await expect(
+        appointmentService.listAppointments('test-tenant', 'test-user', 'tenant-user', { startDate: 'next week' })
+      ).rejects.toThrow('startDate must be an ISO 8601 date');
+    });
+
+    it('should read whole days in the display timezone and add local times', async () => {
+      mockDynamoDB.query.mockImplementation((params: any) =>
+        awsResponse({ Items: params.KeyConditionExpression.includes(':seriesPrefix') ? [] : [mockAppointment] })
+      );
+
+      const result = await appointmentService.listAppointments('test-tenant', 'test-user', 'tenant-user', {
+        startDate: '2024-01-15',
+        endDate: '2024-01-15',
+        timezone: 'america/los_angeles'
+      });
+
+      expect(mockDynamoDB.query).toHaveBeenCalledWith(expect.objectContaining({
+        ExpressionAttributeValues: expect.objectContaining({
+          ':fromKey': 'DATE#2024-01-15#TIME#08:00:00',
+          ':toKey': 'DATE#2024-01-16#TIME#07:59:59'
+        })
+      }));
+      expect(result.timezone).toBe('America/Los_Angeles');
+      expect(result.appointments[0]).toEqual({
+        ...mockAppointment,
+        localStartTime: '2024-01-15T02:00:00-08:00',
+        localEndTime: '2024-01-15T03:00:00-08:00'
+      });
+    });
+
+    it('should reject unknown display timezones', async () => {
+      await expect(
+        appointmentService.listAppointments('test-tenant', 'test-user', 'tenant-user', { timezone: 'Mars/Olympus' })
+      ).rejects.toThrow('timezone must be an IANA time zone');
+    });
+  });
+
+  describe('pagination', () => {
+    const indexed = (id: string, startTime: string) => ({
+      ...mockAppointment,
+      appointmentId: id,
+      startTime,
+      PK: `TENANT#test-tenant#APPOINTMENT#${id}`,
+      SK: `APPOINTMENT#${id}`,
+      GSI2PK: 'TENANT#test-tenant#USER#test-user',
+      GSI2SK: `DATE#${startTime}`
+    });
+
+    const first = indexed('app-1', '2024-01-15T09:00:00.000Z');
+    const second = indexed('app-2', '2024-01-15T10:00:00.000Z');
+    const third = indexed('app-3', '2024-01-15T11:00:00.000Z');
+
+    // Filtered reads: the first page comes back short, the next read fills it
+    const mockPages = () => {
+      mockDynamoDB.query.mockImplementation((params: any) => {
+        if (params.KeyConditionExpression.includes(':seriesPrefix')) {
+          return awsResponse({ Items: [] });
+        }
+        if (!params.ExclusiveStartKey) {
+          return awsResponse({ Items: [first], LastEvaluatedKey: { PK: first.PK } });
+        }
+        if (params.ExclusiveStartKey.PK === first.PK) {
+          return awsResponse({ Items: [second, third], LastEvaluatedKey: { PK: third.PK } });
+        }
+        if (params.ExclusiveStartKey.PK === second.PK) {
+          return awsResponse({ Items: [third] });
+        }
+        return awsResponse({ Items: [] });
+      });
+    };
+
+    afterEach(() => {
+      mockDynamoDB.query.mockReset();
+    });
+
+    it('should keep reading until the page is filled and resume after the last returned item', async () => {
+      mockPages();
+
+      const page = await appointmentService.listAppointments('test-tenant', 'test-user', 'tenant-user', {}, { limit: 2 });
+
+      expect(page.appointments.map(appointment => appointment.appointmentId)).toEqual(['app-1', 'app-2']);
+      expect(page.nextToken).toEqual(expect.any(String));
+
+      const next = await appointmentService.listAppointments('test-tenant', 'test-user', 'tenant-user', {}, {
+        limit: 2,
+        nextToken: page.nextToken
+      });
+
+      expect(mockDynamoDB.query).toHaveBeenCalledWith(expect.objectContaining({
+        ExclusiveStartKey: {
+          PK: second.PK,
+          SK: second.SK,
+          GSI2PK: second.GSI2PK,
+          GSI2SK: second.GSI2SK
+        }
+      }));
+      expect(next.appointments.map(appointment => appointment.appointmentId)).toEqual(['app-3']);
+      expect(next.nextToken).toBeUndefined();
+    });
+
+    it('should reject a token issued for another tenant', async () => {
+      mockPages();
+
+      const page = await appointmentService.listAppointments('test-tenant', 'test-user', 'tenant-user', {}, { limit: 1 });
+
+      await expect(
+        appointmentService.listAppointments('other-tenant', 'test-user', 'tenant-user', {}, { nextToken: page.nextToken })
+      ).rejects.toThrow('Invalid nextToken');
+    });
+
+    it('should reject a modified token', async () => {
+      mockPages();
+
+      const page = await appointmentService.listAppointments('test-tenant', 'test-user', 'tenant-user', {}, { limit: 1 });
+      const [, signature] = page.nextToken!.split('.');
+      const forged = `${Buffer.from(JSON.stringify({ queryDone: true })).toString('base64url')}.${signature}`;
+
+      await expect(
+        appointmentService.listAppointments('test-tenant', 'test-user', 'tenant-user', {}, { nextToken: forged })
+      ).rejects.toThrow('Invalid nextToken');
+    });
+
+    it('should reject a limit outside the allowed range', async () => {
+      await expect(
+        appointmentService.listAppointments('test-tenant', 'test-user', 'tenant-user', {}, { limit: 500 })
+      ).rejects.toThrow('limit must be an integer between 1 and 100');
+    });
   });
 
   describe('createAppointment', () => {
     it('should create appointment successfully', async () => {
-      mockDynamoDB.put.mockResolvedValue({});
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
 
       const appointmentData = {
         title: 'New Appointment',
@@ -254,12 +460,12 @@ describe('AppointmentService', () => {
 
   describe('updateAppointment', () => {
     it('should update appointment successfully', async () => {
-      mockDynamoDB.get.mockResolvedValue({
+      mockDynamoDB.get.mockReturnValue(awsResponse({
         Item: mockAppointment
-      });
-      mockDynamoDB.update.mockResolvedValue({
+      }));
+      mockDynamoDB.update.mockReturnValue(awsResponse({
         Attributes: { ...mockAppointment, title: 'Updated Title' }
-      });
+      }));
 
       const updateData = { title: 'Updated Title' };
 
@@ -276,7 +482,7 @@ describe('AppointmentService', () => {
     });
 
     it('should return null when appointment not found', async () => {
-      mockDynamoDB.get.mockResolvedValue({});
+      mockDynamoDB.get.mockReturnValue(awsResponse({}));
 
       const result = await appointmentService.updateAppointment(
         'test-tenant',
@@ -291,9 +497,9 @@ describe('AppointmentService', () => {
 
     it('should throw error when user lacks permission', async () => {
       const otherUserAppointment = { ...mockAppointment, userId: 'other-user' };
-      mockDynamoDB.get.mockResolvedValue({
+      mockDynamoDB.get.mockReturnValue(awsResponse({
         Item: otherUserAppointment
-      });
+      }));
 
       await expect(
         appointmentService.updateAppointment(
@@ -309,10 +515,11 @@ describe('AppointmentService', () => {
 
   describe('deleteAppointment', () => {
     it('should delete appointment successfully', async () => {
-      mockDynamoDB.get.mockResolvedValue({
+      mockDynamoDB.get.mockReturnValue(awsResponse({
         Item: mockAppointment
-      });
-      mockDynamoDB.delete.mockResolvedValue({});
+      }));
+      mockDynamoDB.update.mockReturnValue(awsResponse({}));
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
 
       const result = await appointmentService.deleteAppointment(
         'test-tenant',
@@ -322,17 +529,18 @@ describe('AppointmentService', () => {
       );
 
       expect(result).toBe(true);
-      expect(mockDynamoDB.delete).toHaveBeenCalledWith({
+      expect(mockDynamoDB.update).toHaveBeenCalledWith(expect.objectContaining({
         TableName: 'test-appointments',
         Key: {
           PK: 'TENANT#test-tenant#APPOINTMENT#test-appointment-123',
           SK: 'APPOINTMENT#test-appointment-123'
         }
-      });
+      }));
+      expect(mockDynamoDB.delete).not.toHaveBeenCalled();
     });
 
     it('should return false when appointment not found', async () => {
-      mockDynamoDB.get.mockResolvedValue({});
+      mockDynamoDB.get.mockReturnValue(awsResponse({}));
 
       const result = await appointmentService.deleteAppointment(
         'test-tenant',
@@ -344,4 +552,1491 @@ describe('AppointmentService', () => {
       expect(result).toBe(false);
     });
   });
+
+  describe('trash', () => {
+    let trashed: any;
+
+    beforeEach(() => {
+      trashed = {
+        ...mockAppointment,
+        PK: 'TENANT#test-tenant#APPOINTMENT#test-appointment-123',
+        SK: 'APPOINTMENT#test-appointment-123',
+        GSI1PK: 'TENANT#test-tenant#TRASH',
+        GSI1SK: '2024-01-10T09:00:00.000Z#test-appointment-123',
+        version: 2,
+        deletedAt: '2024-01-10T09:00:00.000Z',
+        deletedBy: 'test-user'
+      };
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
+    });
+
+    afterEach(() => {
+      delete process.env['TRASH_RETENTION_DAYS'];
+    });
+
+    it('should move deleted appointments into the trash until the retention window ends', async () => {
+      process.env['TRASH_RETENTION_DAYS'] = '7';
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: mockAppointment }));
+      mockDynamoDB.update.mockReturnValue(awsResponse({}));
+
+      await appointmentService.deleteAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user');
+
+      const params = mockDynamoDB.update.mock.calls[0][0];
+      expect(params.UpdateExpression).toContain('REMOVE GSI2PK, GSI2SK');
+      expect(params.ExpressionAttributeValues).toMatchObject({
+        ':deletedBy': 'test-user',
+        ':trashKey': 'TENANT#test-tenant#TRASH',
+        ':trashSortKey': expect.stringMatching(/#test-appointment-123$/)
+      });
+      const deletedAt = Date.parse(params.ExpressionAttributeValues[':deletedAt']) / 1000;
+      expect(params.ExpressionAttributeValues[':ttl']).toBe(Math.floor(deletedAt) + 7 * 24 * 60 * 60);
+    });
+
+    it('should hide deleted appointments', async () => {
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: trashed }));
+
+      await expect(
+        appointmentService.getAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user')
+      ).resolves.toBeNull();
+      await expect(
+        appointmentService.deleteAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user')
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('conflict detection', () => {
+    const appointmentData = {
+      title: 'Overlapping Appointment',
+      startTime: '2024-01-15T10:30:00Z',
+      endTime: '2024-01-15T11:30:00Z'
+    };
+
+    it('should reject a create that overlaps an existing appointment', async () => {
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [mockAppointment] }));
+
+      const promise = appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', appointmentData);
+
+      await expect(promise).rejects.toMatchObject({
+        statusCode: 409,
+        details: {
+          conflicts: [expect.objectContaining({ appointmentId: 'test-appointment-123' })]
+        }
+      });
+      expect(mockDynamoDB.put).not.toHaveBeenCalled();
+      expect(mockDynamoDB.query).toHaveBeenCalledWith(expect.objectContaining({
+        IndexName: 'GSI2',
+        KeyConditionExpression: 'GSI2PK = :userKey AND GSI2SK BETWEEN :fromKey AND :toKey',
+        FilterExpression: '#status <> :cancelled'
+      }));
+    });
+
+    it('should ignore appointments that only touch the requested slot', async () => {
+      mockDynamoDB.query.mockReturnValue(awsResponse({
+        Items: [{ ...mockAppointment, startTime: '2024-01-15T09:30:00Z', endTime: '2024-01-15T10:30:00Z' }]
+      }));
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
+
+      const result = await appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', appointmentData);
+
+      expect(result.conflictOverride).toBeUndefined();
+      expect(mockDynamoDB.put).toHaveBeenCalled();
+    });
+
+    it('should not let regular users override conflicts', async () => {
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [mockAppointment] }));
+
+      await expect(
+        appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', {
+          ...appointmentData,
+          overrideConflicts: true
+        })
+      ).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should record the override when a tenant admin books over a conflict', async () => {
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [mockAppointment] }));
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
+
+      const result = await appointmentService.createAppointment('test-tenant', 'admin-user', 'tenant-admin', {
+        ...appointmentData,
+        overrideConflicts: true
+      });
+
+      expect(result.conflictOverride).toMatchObject({
+        overriddenBy: 'admin-user',
+        conflictingAppointmentIds: ['test-appointment-123']
+      });
+      expect(mockDynamoDB.put.mock.calls[0][0].Item).not.toHaveProperty('overrideConflicts');
+    });
+
+    it('should exclude the appointment itself when moving it', async () => {
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: mockAppointment }));
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [mockAppointment] }));
+      mockDynamoDB.update.mockReturnValue(awsResponse({ Attributes: mockAppointment }));
+
+      await appointmentService.updateAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user', {
+        startTime: '2024-01-15T10:30:00Z',
+        endTime: '2024-01-15T11:30:00Z'
+      });
+
+      expect(mockDynamoDB.update).toHaveBeenCalled();
+    });
+
+    it('should rewrite the date index keys when the start time changes', async () => {
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: mockAppointment }));
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+      mockDynamoDB.update.mockReturnValue(awsResponse({ Attributes: mockAppointment }));
+
+      await appointmentService.updateAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user', {
+        startTime: '2024-01-16T10:00:00',
+        endTime: '2024-01-16T11:00:00'
+      });
+
+      const { ExpressionAttributeNames, ExpressionAttributeValues } = mockDynamoDB.update.mock.calls[0][0];
+      const valueOf = (attribute: string) => {
+        const alias = Object.keys(ExpressionAttributeNames).find(key => ExpressionAttributeNames[key] === attribute)!;
+        return ExpressionAttributeValues[alias.replace('#attr', ':val')];
+      };
+      expect(valueOf('GSI1SK')).toBe('DATE#2024-01-16#TIME#10:00:00');
+      expect(valueOf('GSI2SK')).toBe('DATE#2024-01-16#TIME#10:00:00');
+    });
+  });
+
+  describe('status transitions', () => {
+    const withStatus = (status: string) => ({
+      ...mockAppointment,
+      status,
+      statusHistory: [{ from: null, to: 'scheduled', changedBy: 'test-user', changedByRole: 'tenant-user', changedAt: '2024-01-01T00:00:00Z' }]
+    });
+
+    beforeEach(() => {
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+      mockDynamoDB.update.mockImplementation((params: any) => awsResponse({ Attributes: params }));
+    });
+
+    it('should record the initial status on create', async () => {
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
+
+      const result = await appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', {
+        title: 'Intro call',
+        startTime: '2024-01-19T10:00:00Z',
+        endTime: '2024-01-19T10:30:00Z'
+      });
+
+      expect(result.statusHistory).toEqual([
+        { from: null, to: 'scheduled', changedBy: 'test-user', changedByRole: 'tenant-user', changedAt: result.createdAt }
+      ]);
+    });
+
+    it('should append an attributed entry when the status changes', async () => {
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: withStatus('scheduled') }));
+
+      await appointmentService.updateAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user', {
+        status: 'confirmed'
+      });
+
+      const { ExpressionAttributeNames, ExpressionAttributeValues } = mockDynamoDB.update.mock.calls[0][0];
+      const alias = Object.keys(ExpressionAttributeNames).find(key => ExpressionAttributeNames[key] === 'statusHistory')!;
+      expect(ExpressionAttributeValues[alias.replace('#attr', ':val')]).toEqual([
+        expect.objectContaining({ from: null, to: 'scheduled' }),
+        { from: 'scheduled', to: 'confirmed', changedBy: 'test-user', changedByRole: 'tenant-user', changedAt: expect.any(String) }
+      ]);
+    });
+
+    it('should reject transitions outside the state machine with a 422', async () => {
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: withStatus('cancelled') }));
+
+      const update = appointmentService.updateAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user', {
+        status: 'completed'
+      });
+
+      await expect(update).rejects.toMatchObject({
+        statusCode: 422,
+        message: 'Cannot change status from cancelled to completed',
+        details: { allowedTransitions: [] }
+      });
+      expect(mockDynamoDB.update).not.toHaveBeenCalled();
+    });
+
+    it('should only let admins reopen a cancelled appointment', async () => {
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: withStatus('cancelled') }));
+
+      await expect(
+        appointmentService.updateAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user', { status: 'scheduled' })
+      ).rejects.toMatchObject({ statusCode: 422 });
+
+      await appointmentService.updateAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-admin', {
+        status: 'scheduled'
+      });
+      expect(mockDynamoDB.update).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('optimistic concurrency', () => {
+    let versioned: Appointment;
+
+    beforeEach(() => {
+      versioned = { ...mockAppointment, version: 3 };
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: versioned }));
+    });
+
+    it('should bump the version only if nobody saved in between', async () => {
+      mockDynamoDB.update.mockReturnValue(awsResponse({ Attributes: { ...versioned, version: 4 } }));
+
+      const result = await appointmentService.updateAppointment(
+        'test-tenant', 'test-appointment-123', 'test-user', 'tenant-user', { title: 'Renamed' }, undefined, undefined, 3
+      );
+
+      expect(result?.version).toBe(4);
+      expect(mockDynamoDB.update).toHaveBeenCalledWith(expect.objectContaining({
+        UpdateExpression: expect.stringContaining('version = :nextVersion'),
+        ConditionExpression: 'attribute_exists(PK) AND (attribute_not_exists(version) OR version = :currentVersion)',
+        ExpressionAttributeValues: expect.objectContaining({ ':currentVersion': 3, ':nextVersion': 4 })
+      }));
+    });
+
+    it('should reject a stale version before writing', async () => {
+      await expect(
+        appointmentService.updateAppointment(
+          'test-tenant', 'test-appointment-123', 'test-user', 'tenant-user', { title: 'Renamed' }, undefined, undefined, 2
+        )
+      ).rejects.toMatchObject({ statusCode: 412, details: { currentVersion: 3 } });
+      expect(mockDynamoDB.update).not.toHaveBeenCalled();
+    });
+
+    it('should turn a failed write condition into a 412', async () => {
+      mockDynamoDB.update.mockReturnValue({
+        promise: () => Promise.reject(Object.assign(new Error('The conditional request failed'), { code: 'ConditionalCheckFailedException' }))
+      });
+
+      await expect(
+        appointmentService.deleteAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user')
+      ).rejects.toMatchObject({ statusCode: 412 });
+      expect(mockDynamoDB.update).toHaveBeenCalledWith(expect.objectContaining({
+        ExpressionAttributeValues: expect.objectContaining({ ':currentVersion': 3 })
+      }));
+    });
+  });
+
+  describe('audit trail', () => {
+    beforeEach(() => {
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
+    });
+
+    const auditItems = () => mockDynamoDB.put.mock.calls
+      .map(([params]: any[]) => params.Item)
+      .filter((item: any) => item.SK.startsWith('AUDIT#'));
+
+    it('should record who changed which fields and in which request', async () => {
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: mockAppointment }));
+      mockDynamoDB.update.mockReturnValue(awsResponse({ Attributes: { ...mockAppointment, title: 'Renamed' } }));
+
+      await appointmentService.updateAppointment(
+        'test-tenant',
+        'test-appointment-123',
+        'admin-1',
+        'super-admin',
+        { title: 'Renamed' },
+        undefined,
+        'request-123'
+      );
+
+      expect(auditItems()).toEqual([expect.objectContaining({
+        appointmentId: 'test-appointment-123',
+        ownerId: 'test-user',
+        action: 'update',
+        actorId: 'admin-1',
+        actorRole: 'super-admin',
+        requestId: 'request-123',
+        changes: { title: { before: 'Test Appointment', after: 'Renamed' } }
+      })]);
+    });
+
+    it('should keep the deleted values', async () => {
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: mockAppointment }));
+      mockDynamoDB.update.mockReturnValue(awsResponse({}));
+
+      await appointmentService.deleteAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user');
+
+      const [record] = auditItems();
+      expect(record.action).toBe('delete');
+      expect(record.changes.title).toEqual({ before: 'Test Appointment' });
+    });
+  });
+
+  describe('reminders', () => {
+    // Mid-morning UTC, when the tenant below is open every day
+    const inDays = (days: number, hours = 0) => {
+      const date = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+      date.setUTCHours(10 + hours, 0, 0, 0);
+      return date.toISOString();
+    };
+    let upcoming: Appointment;
+
+    beforeEach(() => {
+      appointmentService = new AppointmentService();
+      (MockedTenantService.mock.instances[0] as jest.Mocked<TenantService>).getSettings.mockResolvedValue({
+        timezone: 'UTC',
+        workingHours: { start: '09:00', end: '17:00', days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] }
+      });
+
+      upcoming = {
+        ...mockAppointment,
+        startTime: inDays(2),
+        endTime: inDays(2, 1),
+        version: 1,
+        reminder: { status: 'sent', dueAt: '', nextAttemptAt: '', attempts: 1 }
+      };
+      upcoming.reminder!.dueAt = new Date(Date.parse(upcoming.startTime) - 60 * 60 * 1000).toISOString();
+      upcoming.reminder!.nextAttemptAt = upcoming.reminder!.dueAt;
+
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: upcoming }));
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
+      mockDynamoDB.update.mockReturnValue(awsResponse({ Attributes: upcoming }));
+    });
+
+    it('should index the reminder of new appointments by its due time', async () => {
+      const startTime = inDays(3);
+      const result = await appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', {
+        title: 'Check-up',
+        startTime,
+        endTime: inDays(3, 1),
+        reminderMinutes: 30
+      });
+
+      const dueAt = new Date(Date.parse(startTime) - 30 * 60 * 1000).toISOString();
+      expect(result.reminder).toEqual({ status: 'pending', dueAt, nextAttemptAt: dueAt, attempts: 0 });
+
+      const { Item } = mockDynamoDB.put.mock.calls[0][0];
+      expect(Item.GSI3PK).toBe(`REMINDER#${dueAt.slice(0, 13)}`);
+      expect(Item.GSI3SK).toBe(`${dueAt}#test-tenant#${result.appointmentId}`);
+    });
+
+    it('should index the reminder of a new series for its next occurrence', async () => {
+      const startTime = inDays(3);
+      const result = await appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', {
+        title: 'Check-up',
+        startTime,
+        endTime: inDays(3, 1),
+        recurrenceRule: 'FREQ=DAILY;COUNT=3'
+      });
+
+      const dueAt = new Date(Date.parse(startTime) - 60 * 60 * 1000).toISOString();
+      expect(result.reminder).toEqual({ status: 'pending', dueAt, nextAttemptAt: dueAt, attempts: 0, recurrenceId: startTime });
+
+      const { Item } = mockDynamoDB.put.mock.calls[0][0];
+      expect(Item.GSI3SK).toBe(`${dueAt}#test-tenant#${result.appointmentId}`);
+    });
+
+    it('should not schedule a reminder without reminderMinutes', async () => {
+      await appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', {
+        title: 'No reminder',
+        startTime: inDays(3),
+        endTime: inDays(3, 1),
+        reminderMinutes: 0
+      });
+
+      const { Item } = mockDynamoDB.put.mock.calls[0][0];
+      expect(Item.reminder).toBeUndefined();
+      expect(Item.GSI3PK).toBeUndefined();
+    });
+
+    it('should keep a sent reminder when the due time stays the same', async () => {
+      await appointmentService.updateAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user', { status: 'confirmed' });
+
+      const params = mockDynamoDB.update.mock.calls[0][0];
+      expect(Object.values(params.ExpressionAttributeNames)).not.toContain('reminder');
+      expect(params.UpdateExpression).not.toContain('REMOVE');
+    });
+
+    it('should reschedule the reminder when the appointment moves', async () => {
+      const startTime = inDays(4);
+      await appointmentService.updateAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user', {
+        startTime,
+        endTime: inDays(4, 1)
+      });
+
+      const params = mockDynamoDB.update.mock.calls[0][0];
+      const values = Object.keys(params.ExpressionAttributeNames).reduce((changes: any, name) => ({
+        ...changes,
+        [params.ExpressionAttributeNames[name]]: params.ExpressionAttributeValues[name.replace('#attr', ':val')]
+      }), {});
+      const dueAt = new Date(Date.parse(startTime) - 60 * 60 * 1000).toISOString();
+      expect(values.reminder).toEqual({ status: 'pending', dueAt, nextAttemptAt: dueAt, attempts: 0 });
+      expect(values.GSI3SK).toBe(`${dueAt}#test-tenant#test-appointment-123`);
+    });
+
+    it('should drop pending reminders of cancelled appointments', async () => {
+      upcoming.reminder = { ...upcoming.reminder!, status: 'pending', attempts: 0 };
+
+      await appointmentService.updateAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user', { status: 'cancelled' });
+
+      expect(mockDynamoDB.update.mock.calls[0][0].UpdateExpression).toContain(' REMOVE reminder, GSI3PK, GSI3SK');
+    });
+
+    it('should take deleted appointments out of the reminder index', async () => {
+      await appointmentService.deleteAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user');
+
+      expect(mockDynamoDB.update.mock.calls[0][0].UpdateExpression).toContain('REMOVE GSI2PK, GSI2SK, GSI3PK, GSI3SK');
+    });
+  });
+
+  describe('invitations', () => {
+    let invitationService: jest.Mocked<InvitationService>;
+    let invited: Appointment;
+
+    beforeEach(() => {
+      appointmentService = new AppointmentService();
+      invitationService = MockedInvitationService.mock.instances[0] as jest.Mocked<InvitationService>;
+
+      invited = {
+        ...mockAppointment,
+        version: 2,
+        attendees: [
+          { name: 'Jane', email: 'jane@example.com', responseStatus: 'accepted', respondedAt: '2024-01-02T00:00:00.000Z' },
+          { email: 'john@example.com', responseStatus: 'declined', respondedAt: '2024-01-02T00:00:00.000Z' }
+        ]
+      };
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: invited }));
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
+      mockDynamoDB.update.mockReturnValue(awsResponse({ Attributes: invited }));
+    });
+
+    it('should invite the attendees of new appointments', async () => {
+      const result = await appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', {
+        title: 'Check-up',
+        startTime: '2024-01-15T10:00:00Z',
+        endTime: '2024-01-15T11:00:00Z',
+        attendees: ['jane@example.com', { name: 'John', email: 'john@example.com' }, 'JANE@example.com']
+      });
+
+      expect(result.attendees).toEqual([
+        { email: 'jane@example.com', responseStatus: 'needs-action' },
+        { name: 'John', email: 'john@example.com', responseStatus: 'needs-action' }
+      ]);
+      expect(invitationService.send).toHaveBeenCalledWith(result, 'invitation', result.attendees);
+    });
+
+    it('should keep responses and only invite new attendees when the list changes', async () => {
+      await appointmentService.updateAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user', {
+        attendees: [{ email: 'jane@example.com', responseStatus: 'declined' }, 'new@example.com']
+      });
+
+      const { ExpressionAttributeValues } = mockDynamoDB.update.mock.calls[0][0];
+      const attendees = Object.values(ExpressionAttributeValues).find(Array.isArray);
+      expect(attendees).toEqual([
+        { name: 'Jane', email: 'jane@example.com', responseStatus: 'accepted', respondedAt: '2024-01-02T00:00:00.000Z' },
+        { email: 'new@example.com', responseStatus: 'needs-action' }
+      ]);
+      expect(invitationService.send).toHaveBeenCalledTimes(1);
+      expect(invitationService.send).toHaveBeenCalledWith(expect.anything(), 'invitation', [
+        { email: 'new@example.com', responseStatus: 'needs-action' }
+      ]);
+    });
+
+    it('should ask everyone again when the appointment moves', async () => {
+      await appointmentService.updateAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user', {
+        startTime: '2024-01-15T14:00:00Z',
+        endTime: '2024-01-15T15:00:00Z'
+      });
+
+      const reset = [
+        { name: 'Jane', email: 'jane@example.com', responseStatus: 'needs-action' },
+        { email: 'john@example.com', responseStatus: 'needs-action' }
+      ];
+      const { ExpressionAttributeValues } = mockDynamoDB.update.mock.calls[0][0];
+      expect(Object.values(ExpressionAttributeValues)).toContainEqual(reset);
+      expect(invitationService.send).toHaveBeenCalledWith(expect.anything(), 'update', reset);
+    });
+
+    it('should tell attendees when the appointment is cancelled', async () => {
+      await appointmentService.updateAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user', {
+        status: 'cancelled'
+      });
+
+      expect(invitationService.send).toHaveBeenCalledTimes(1);
+      expect(invitationService.send).toHaveBeenCalledWith(expect.anything(), 'cancellation', invited.attendees);
+    });
+  });
+
+  describe('timezones', () => {
+    let tenantService: jest.Mocked<TenantService>;
+
+    beforeEach(() => {
+      appointmentService = new AppointmentService();
+      tenantService = MockedTenantService.mock.instances[0] as jest.Mocked<TenantService>;
+      tenantService.getSettings.mockResolvedValue({
+        ...DEFAULT_TENANT_SETTINGS,
+        timezone: 'America/Los_Angeles',
+        workingHours: { ...DEFAULT_TENANT_SETTINGS.workingHours, end: '20:00' }
+      });
+
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
+    });
+
+    it('should default to the tenant timezone and key the date indexes in UTC', async () => {
+      // 17:30 on Jan 15 in Los Angeles is already Jan 16 in UTC
+      const result = await appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', {
+        title: 'Evening call',
+        startTime: '2024-01-15T17:30:00-08:00',
+        endTime: '2024-01-15T18:00:00-08:00'
+      });
+
+      expect(result.timezone).toBe('America/Los_Angeles');
+      expect(result.startTime).toBe('2024-01-16T01:30:00.000Z');
+      const { Item } = mockDynamoDB.put.mock.calls[0][0];
+      expect(Item.GSI1SK).toBe('DATE#2024-01-16#TIME#01:30:00');
+      expect(Item.GSI2SK).toBe('DATE#2024-01-16#TIME#01:30:00');
+    });
+
+    it('should reject unknown timezones', async () => {
+      await expect(appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', {
+        title: 'Check-up',
+        startTime: '2024-01-15T10:00:00Z',
+        endTime: '2024-01-15T11:00:00Z',
+        timezone: 'Mars/Olympus'
+      })).rejects.toThrow('"Mars/Olympus" is not an IANA time zone');
+    });
+
+    it('should repeat series at the same local time across daylight saving changes', async () => {
+      const series = await appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', {
+        title: 'Weekly sync',
+        startTime: '2024-03-04T17:00:00Z', // 09:00 PST
+        endTime: '2024-03-04T17:30:00Z',
+        recurrenceRule: 'FREQ=WEEKLY;COUNT=3'
+      });
+      mockDynamoDB.query.mockImplementation((params: any) => awsResponse({
+        Items: params.ExpressionAttributeValues[':seriesPrefix'] ? [{ ...series, SK: `APPOINTMENT#${series.appointmentId}` }] : []
+      }));
+
+      const { appointments } = await appointmentService.listAppointments('test-tenant', 'test-user', 'tenant-user', {
+        startDate: '2024-03-01',
+        endDate: '2024-03-31'
+      });
+
+      // Daylight saving time starts on March 10 in the US
+      expect(appointments.map(occurrence => occurrence.startTime)).toEqual([
+        '2024-03-04T17:00:00.000Z',
+        '2024-03-11T16:00:00.000Z',
+        '2024-03-18T16:00:00.000Z'
+      ]);
+    });
+  });
+
+  describe('rescheduling', () => {
+    let invitationService: jest.Mocked<InvitationService>;
+    let booked: Appointment;
+
+    beforeEach(() => {
+      appointmentService = new AppointmentService();
+      invitationService = MockedInvitationService.mock.instances[0] as jest.Mocked<InvitationService>;
+      (MockedTenantService.mock.instances[0] as jest.Mocked<TenantService>).getSettings.mockResolvedValue({
+        timezone: 'UTC',
+        workingHours: { start: '09:00', end: '17:00', days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'] }
+      });
+
+      booked = {
+        ...mockAppointment,
+        version: 2,
+        attendees: [{ email: 'jane@example.com', responseStatus: 'accepted', respondedAt: '2024-01-02T00:00:00.000Z' }]
+      };
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: booked }));
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
+      mockDynamoDB.update.mockReturnValue(awsResponse({ Attributes: { ...booked, rescheduleCount: 1 } }));
+    });
+
+    it('should keep the previous slot and the reason, and count the move', async () => {
+      await appointmentService.rescheduleAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user', {
+        startTime: '2024-01-16T14:00:00Z',
+        reason: 'Doctor is ill'
+      }, 'request-1');
+
+      const params = mockDynamoDB.update.mock.calls[0][0];
+      const values = Object.values(params.ExpressionAttributeValues);
+      expect(values).toEqual(expect.arrayContaining([
+        '2024-01-16T14:00:00.000Z',
+        '2024-01-16T15:00:00.000Z', // Same duration as before
+        'DATE#2024-01-16#TIME#14:00:00',
+        1,
+        [expect.objectContaining({
+          previousStartTime: '2024-01-15T10:00:00Z',
+          previousEndTime: '2024-01-15T11:00:00Z',
+          startTime: '2024-01-16T14:00:00.000Z',
+          endTime: '2024-01-16T15:00:00.000Z',
+          reason: 'Doctor is ill',
+          rescheduledBy: 'test-user'
+        })]
+      ]));
+      expect(params.ExpressionAttributeValues[':currentVersion']).toBe(2);
+
+      const audit = mockDynamoDB.put.mock.calls[0][0].Item;
+      expect(audit).toEqual(expect.objectContaining({ action: 'reschedule', requestId: 'request-1' }));
+    });
+
+    it('should ask attendees again and tell them why', async () => {
+      await appointmentService.rescheduleAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user', {
+        startTime: '2024-01-16T14:00:00Z',
+        endTime: '2024-01-16T14:30:00Z',
+        reason: 'Doctor is ill'
+      });
+
+      expect(invitationService.send).toHaveBeenCalledWith(expect.anything(), 'reschedule', [
+        { email: 'jane@example.com', responseStatus: 'needs-action' }
+      ]);
+      expect(invitationService.send).not.toHaveBeenCalledWith(expect.anything(), 'update', expect.anything());
+    });
+
+    it('should only move into free slots within working hours', async () => {
+      await expect(appointmentService.rescheduleAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user', {
+        startTime: '2024-01-16T16:30:00Z',
+        reason: 'Running late'
+      })).rejects.toMatchObject({
+        statusCode: 400,
+        details: { errors: [expect.objectContaining({ code: 'outside_working_hours', startTime: '2024-01-16T16:30:00.000Z' })] }
+      });
+
+      mockDynamoDB.query.mockReturnValue(awsResponse({
+        Items: [{ ...mockAppointment, appointmentId: 'other', startTime: '2024-01-16T14:30:00Z', endTime: '2024-01-16T15:30:00Z' }]
+      }));
+      await expect(appointmentService.rescheduleAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user', {
+        startTime: '2024-01-16T14:00:00Z',
+        reason: 'Running late'
+      })).rejects.toMatchObject({ statusCode: 409 });
+
+      expect(mockDynamoDB.update).not.toHaveBeenCalled();
+    });
+
+    it('should require a reason and an open appointment', async () => {
+      await expect(appointmentService.rescheduleAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user', {
+        startTime: '2024-01-16T14:00:00Z',
+        reason: '  '
+      })).rejects.toThrow('"reason" is not allowed to be empty');
+
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: { ...booked, status: 'completed' } }));
+      await expect(appointmentService.rescheduleAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user', {
+        startTime: '2024-01-16T14:00:00Z',
+        reason: 'Running late'
+      })).rejects.toThrow('Cannot reschedule a completed appointment');
+    });
+  });
+
+  describe('business hours', () => {
+    beforeEach(() => {
+      appointmentService = new AppointmentService();
+      (MockedTenantService.mock.instances[0] as jest.Mocked<TenantService>).getSettings.mockResolvedValue({
+        timezone: 'America/New_York',
+        workingHours: { start: '09:00', end: '17:00', days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'] },
+        closures: [
+          { name: 'Christmas Day', startDate: '2023-12-25', annual: true },
+          { name: 'Team offsite', startDate: '2024-01-17', endDate: '2024-01-18', annual: false }
+        ]
+      });
+
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: { ...mockAppointment, startTime: '2024-01-15T15:00:00Z', endTime: '2024-01-15T16:00:00Z' } }));
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
+      mockDynamoDB.update.mockImplementation((params: any) => awsResponse({ Attributes: params }));
+    });
+
+    it('should reject appointments outside working hours or on closed days', async () => {
+      const book = (startTime: string, endTime: string) =>
+        appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', { title: 'Check-up', startTime, endTime });
+
+      // 8:00 - 9:00 in New York
+      await expect(book('2024-01-15T13:00:00Z', '2024-01-15T14:00:00Z')).rejects.toMatchObject({
+        statusCode: 400,
+        details: {
+          errors: [expect.objectContaining({ code: 'outside_working_hours', startTime: '2024-01-15T13:00:00.000Z' })],
+          timezone: 'America/New_York'
+        }
+      });
+      await expect(book('2024-01-13T15:00:00Z', '2024-01-13T16:00:00Z')).rejects.toMatchObject({
+        details: { errors: [expect.objectContaining({ code: 'non_working_day', message: 'Saturday is not a working day' })] }
+      });
+      await expect(book('2024-12-25T15:00:00Z', '2024-12-25T16:00:00Z')).rejects.toMatchObject({
+        details: { errors: [expect.objectContaining({ code: 'closed', closure: expect.objectContaining({ name: 'Christmas Day' }) })] }
+      });
+      await expect(book('2024-01-18T15:00:00Z', '2024-01-18T16:00:00Z')).rejects.toMatchObject({
+        details: { errors: [expect.objectContaining({ code: 'closed', message: 'Closed on Thursday, Jan 18, 2024: Team offsite' })] }
+      });
+      expect(mockDynamoDB.put).not.toHaveBeenCalled();
+    });
+
+    it('should list the occurrences of a series that fall on closed days', async () => {
+      await expect(appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', {
+        title: 'Stand-up',
+        startTime: '2024-01-15T14:00:00Z',
+        endTime: '2024-01-15T14:15:00Z',
+        recurrenceRule: 'FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR;COUNT=5'
+      })).rejects.toMatchObject({
+        details: {
+          errors: [
+            expect.objectContaining({ code: 'closed', startTime: '2024-01-17T14:00:00.000Z' }),
+            expect.objectContaining({ code: 'closed', startTime: '2024-01-18T14:00:00.000Z' })
+          ]
+        }
+      });
+    });
+
+    it('should let tenant admins book outside business hours and record the override', async () => {
+      const evening = { title: 'Late call', startTime: '2024-01-15T23:00:00Z', endTime: '2024-01-15T23:30:00Z', overrideBusinessHours: true };
+
+      await expect(appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', evening))
+        .rejects.toMatchObject({ statusCode: 403 });
+
+      const appointment = await appointmentService.createAppointment('test-tenant', 'admin-user', 'tenant-admin', evening);
+
+      expect(appointment.businessHoursOverride).toEqual({
+        overriddenBy: 'admin-user',
+        overriddenAt: expect.any(String),
+        violations: ['outside_working_hours']
+      });
+      expect(mockDynamoDB.put.mock.calls[0][0].Item).not.toHaveProperty('overrideBusinessHours');
+    });
+
+    it('should only check moved appointments', async () => {
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: { ...mockAppointment, startTime: '2024-01-13T15:00:00Z', endTime: '2024-01-13T16:00:00Z' } }));
+
+      await appointmentService.updateAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user', { title: 'Renamed' });
+      expect(mockDynamoDB.update).toHaveBeenCalledTimes(1);
+
+      await expect(appointmentService.updateAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user', {
+        startTime: '2024-01-20T15:00:00Z',
+        endTime: '2024-01-20T16:00:00Z'
+      })).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockDynamoDB.update).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('waitlist', () => {
+    let waitlistService: jest.Mocked<WaitlistService>;
+
+    beforeEach(() => {
+      appointmentService = new AppointmentService();
+      waitlistService = MockedWaitlistService.mock.instances[0] as jest.Mocked<WaitlistService>;
+      (MockedTenantService.mock.instances[0] as jest.Mocked<TenantService>).getSettings.mockResolvedValue(DEFAULT_TENANT_SETTINGS);
+
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
+      mockDynamoDB.update.mockReturnValue(awsResponse({}));
+    });
+
+    it('should offer the slot of a cancelled or deleted appointment', async () => {
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: mockAppointment }));
+
+      await appointmentService.deleteAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user');
+
+      expect(waitlistService.offerSlot).toHaveBeenCalledWith('test-tenant', {
+        slotId: 'test-appointment-123',
+        userId: 'test-user',
+        startTime: '2024-01-15T10:00:00Z',
+        endTime: '2024-01-15T11:00:00Z'
+      });
+    });
+
+    it('should not offer slots that stay taken', async () => {
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: { ...mockAppointment, status: 'completed' } }));
+
+      await appointmentService.deleteAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user');
+
+      expect(waitlistService.offerSlot).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resources', () => {
+    let resourceService: jest.Mocked<ResourceService>;
+    let room: Resource;
+    const booking = {
+      title: 'Planning',
+      startTime: '2024-01-16T10:00:00Z',
+      endTime: '2024-01-16T11:00:00Z',
+      resourceIds: ['room-1']
+    };
+
+    beforeEach(() => {
+      appointmentService = new AppointmentService();
+      resourceService = MockedResourceService.mock.instances[0] as jest.Mocked<ResourceService>;
+      (MockedTenantService.mock.instances[0] as jest.Mocked<TenantService>).getSettings.mockResolvedValue({
+        timezone: 'UTC',
+        workingHours: { start: '09:00', end: '17:00', days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'] }
+      });
+
+      room = {
+        resourceId: 'room-1',
+        tenantId: 'test-tenant',
+        name: 'Room A',
+        type: 'room',
+        capacity: 1,
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z'
+      };
+      resourceService.getResources.mockImplementation(async () => [room]);
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
+    });
+
+    // Another user's appointment holding the room from 10:30 to 11:30
+    const otherTeam = (overrides: Partial<Appointment> = {}): Appointment => ({
+      ...mockAppointment,
+      appointmentId: 'other-team',
+      userId: 'other-user',
+      startTime: '2024-01-16T10:30:00Z',
+      endTime: '2024-01-16T11:30:00Z',
+      resourceIds: ['room-1'],
+      ...overrides
+    });
+    const withTenantAppointments = (...appointments: Appointment[]) => {
+      mockDynamoDB.query.mockImplementation((params: any) => awsResponse({
+        Items: params.IndexName === 'GSI1' && !params.KeyConditionExpression.includes('begins_with') ? appointments : []
+      }));
+    };
+
+    it('should reserve free resources', async () => {
+      const result = await appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', booking);
+
+      expect(result.resourceIds).toEqual(['room-1']);
+      expect(resourceService.getResources).toHaveBeenCalledWith('test-tenant', ['room-1']);
+      expect(mockDynamoDB.query).toHaveBeenCalledWith(expect.objectContaining({
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :tenantKey AND GSI1SK BETWEEN :fromKey AND :toKey',
+        ExpressionAttributeValues: expect.objectContaining({ ':tenantKey': 'TENANT#test-tenant' })
+      }));
+    });
+
+    it('should reject resources booked by anyone else at the same time', async () => {
+      withTenantAppointments(otherTeam());
+
+      await expect(appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', booking))
+        .rejects.toMatchObject({
+          statusCode: 409,
+          details: {
+            conflicts: [expect.objectContaining({ appointmentId: 'other-team' })],
+            resources: [{ resourceId: 'room-1', name: 'Room A', capacity: 1 }]
+          }
+        });
+      expect(mockDynamoDB.put).not.toHaveBeenCalled();
+    });
+
+    it('should allow as many reservations at once as the resource has capacity', async () => {
+      room.capacity = 2;
+      withTenantAppointments(otherTeam(), otherTeam({ appointmentId: 'later', startTime: '2024-01-16T11:30:00Z', endTime: '2024-01-16T12:30:00Z' }));
+      await expect(appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', booking)).resolves.toBeDefined();
+
+      withTenantAppointments(otherTeam(), otherTeam({ appointmentId: 'second', startTime: '2024-01-16T10:45:00Z' }));
+      await expect(appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', booking))
+        .rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('should only book resources within their hours', async () => {
+      room.availability = { start: '13:00', end: '17:00', days: ['tuesday'] };
+
+      await expect(appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', booking))
+        .rejects.toMatchObject({ statusCode: 422, message: "Room A can't be booked at that time" });
+    });
+
+    it('should reject unknown resources', async () => {
+      resourceService.getResources.mockResolvedValue([]);
+
+      await expect(appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', booking))
+        .rejects.toThrow('unknown resources room-1');
+    });
+  });
+
+  describe('services', () => {
+    let serviceCatalogService: jest.Mocked<ServiceCatalogService>;
+    let consultation: BookableService;
+
+    beforeEach(() => {
+      appointmentService = new AppointmentService();
+      serviceCatalogService = MockedServiceCatalogService.mock.instances[0] as jest.Mocked<ServiceCatalogService>;
+      (MockedTenantService.mock.instances[0] as jest.Mocked<TenantService>).getSettings.mockResolvedValue({
+        timezone: 'UTC',
+        workingHours: { start: '09:00', end: '17:00', days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'] }
+      });
+      (MockedResourceService.mock.instances[0] as jest.Mocked<ResourceService>).getResources.mockResolvedValue([]);
+
+      consultation = {
+        serviceId: 'consultation',
+        tenantId: 'test-tenant',
+        name: 'Initial consultation',
+        durationMinutes: 45,
+        bufferBeforeMinutes: 0,
+        bufferAfterMinutes: 15,
+        price: { amount: 80, currency: 'USD' },
+        resourceIds: [],
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z'
+      };
+      serviceCatalogService.getService.mockResolvedValue(consultation);
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
+    });
+
+    // The user's own appointment from 9:00 to 9:45
+    const withNeighbour = (overrides: Partial<Appointment> = {}) => {
+      mockDynamoDB.query.mockImplementation((params: any) => awsResponse({
+        Items: params.IndexName === 'GSI2' && !params.KeyConditionExpression.includes('begins_with')
+          ? [{ ...mockAppointment, appointmentId: 'neighbour', startTime: '2024-01-16T09:00:00Z', endTime: '2024-01-16T09:45:00Z', ...overrides }]
+          : []
+      }));
+    };
+
+    it('should fill in the title and duration and keep the service on the appointment', async () => {
+      const result = await appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', {
+        serviceId: 'consultation',
+        startTime: '2024-01-16T10:00:00Z'
+      });
+
+      expect(result).toEqual(expect.objectContaining({
+        title: 'Initial consultation',
+        startTime: '2024-01-16T10:00:00.000Z',
+        endTime: '2024-01-16T10:45:00.000Z',
+        service: {
+          serviceId: 'consultation',
+          name: 'Initial consultation',
+          durationMinutes: 45,
+          bufferBeforeMinutes: 0,
+          bufferAfterMinutes: 15,
+          price: { amount: 80, currency: 'USD' }
+        }
+      }));
+    });
+
+    it('should reserve the resources the service needs', async () => {
+      consultation.resourceIds = ['room-1'];
+      (MockedResourceService.mock.instances[0] as jest.Mocked<ResourceService>).getResources.mockResolvedValue([{
+        resourceId: 'room-1',
+        tenantId: 'test-tenant',
+        name: 'Room A',
+        type: 'room',
+        capacity: 1,
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z'
+      }]);
+
+      const result = await appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', {
+        serviceId: 'consultation',
+        startTime: '2024-01-16T10:00:00Z'
+      });
+
+      expect(result.resourceIds).toEqual(['room-1']);
+    });
+
+    it('should keep the buffer after the service free', async () => {
+      withNeighbour({ startTime: '2024-01-16T10:50:00Z', endTime: '2024-01-16T11:30:00Z' });
+
+      await expect(appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', {
+        serviceId: 'consultation',
+        startTime: '2024-01-16T10:00:00Z'
+      })).rejects.toMatchObject({
+        statusCode: 409,
+        details: { conflicts: [expect.objectContaining({ appointmentId: 'neighbour' })] }
+      });
+    });
+
+    it('should respect the buffers of neighbouring appointments', async () => {
+      withNeighbour({ service: { ...consultation, bufferAfterMinutes: 30 } });
+
+      await expect(appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', {
+        title: 'Quick call',
+        startTime: '2024-01-16T10:00:00Z',
+        endTime: '2024-01-16T10:15:00Z'
+      })).rejects.toMatchObject({ statusCode: 409 });
+
+      await expect(appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', {
+        title: 'Quick call',
+        startTime: '2024-01-16T10:15:00Z',
+        endTime: '2024-01-16T10:30:00Z'
+      })).resolves.toBeDefined();
+    });
+
+    it('should reject unknown services and appointments without a title or end', async () => {
+      await expect(appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', {
+        startTime: '2024-01-16T10:00:00Z'
+      })).rejects.toThrow('"title" is required');
+
+      serviceCatalogService.getService.mockResolvedValue(null);
+      await expect(appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', {
+        serviceId: 'gone',
+        startTime: '2024-01-16T10:00:00Z'
+      })).rejects.toThrow('unknown service gone');
+    });
+  });
+
+  describe('booking on behalf', () => {
+    let delegationService: jest.Mocked<DelegationService>;
+    const booking = {
+      title: 'Check-up',
+      startTime: '2024-01-16T10:00:00Z',
+      endTime: '2024-01-16T10:30:00Z',
+      userId: 'doctor-1'
+    };
+
+    beforeEach(() => {
+      appointmentService = new AppointmentService();
+      delegationService = MockedDelegationService.mock.instances[0] as jest.Mocked<DelegationService>;
+      (MockedTenantService.mock.instances[0] as jest.Mocked<TenantService>).getSettings.mockResolvedValue({
+        timezone: 'UTC',
+        workingHours: { start: '09:00', end: '17:00', days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'] }
+      });
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
+    });
+
+    const auditItems = () => mockDynamoDB.put.mock.calls
+      .map(([params]: any[]) => params.Item)
+      .filter((item: any) => item.SK.startsWith('AUDIT#'));
+
+    it('should let delegates book into the owner\'s calendar', async () => {
+      delegationService.isDelegate.mockResolvedValue(true);
+
+      const result = await appointmentService.createAppointment('test-tenant', 'reception-1', 'tenant-user', booking);
+
+      expect(delegationService.isDelegate).toHaveBeenCalledWith('test-tenant', 'doctor-1', 'reception-1');
+      expect(result).toEqual(expect.objectContaining({ userId: 'doctor-1', createdBy: 'reception-1' }));
+      expect(result.statusHistory![0].changedBy).toBe('reception-1');
+      expect(mockDynamoDB.put.mock.calls[0][0].Item.GSI2PK).toBe('TENANT#test-tenant#USER#doctor-1');
+      expect(auditItems()).toEqual([expect.objectContaining({ ownerId: 'doctor-1', actorId: 'reception-1' })]);
+    });
+
+    it('should check conflicts in the owner\'s calendar', async () => {
+      delegationService.isDelegate.mockResolvedValue(true);
+      mockDynamoDB.query.mockImplementation((params: any) => awsResponse({
+        Items: params.ExpressionAttributeValues[':userKey'] === 'TENANT#test-tenant#USER#doctor-1' && !params.KeyConditionExpression.includes('begins_with')
+          ? [{ ...mockAppointment, userId: 'doctor-1', startTime: '2024-01-16T10:15:00Z', endTime: '2024-01-16T10:45:00Z' }]
+          : []
+      }));
+
+      await expect(appointmentService.createAppointment('test-tenant', 'reception-1', 'tenant-user', booking))
+        .rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('should reject users the calendar is not shared with', async () => {
+      delegationService.isDelegate.mockResolvedValue(false);
+
+      await expect(appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', booking))
+        .rejects.toMatchObject({ statusCode: 403 });
+      expect(mockDynamoDB.put).not.toHaveBeenCalled();
+    });
+
+    it('should let admins book into any calendar', async () => {
+      const result = await appointmentService.createAppointment('test-tenant', 'admin-1', 'tenant-admin', booking);
+
+      expect(result).toEqual(expect.objectContaining({ userId: 'doctor-1', createdBy: 'admin-1' }));
+      expect(delegationService.isDelegate).not.toHaveBeenCalled();
+    });
+
+    it('should book into the caller\'s own calendar by default', async () => {
+      const { userId, ...ownBooking } = booking;
+
+      const result = await appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', ownBooking);
+
+      expect(result).toEqual(expect.objectContaining({ userId: 'test-user', createdBy: 'test-user' }));
+      expect(delegationService.isDelegate).not.toHaveBeenCalled();
+    });
+
+    describe('delegated calendars', () => {
+      let owned: Appointment;
+
+      beforeEach(() => {
+        owned = { ...mockAppointment, userId: 'doctor-1', startTime: '2024-01-16T10:00:00Z', endTime: '2024-01-16T10:30:00Z', version: 1 };
+        mockDynamoDB.get.mockReturnValue(awsResponse({ Item: owned }));
+        mockDynamoDB.update.mockReturnValue(awsResponse({ Attributes: owned }));
+      });
+
+      it('should let delegates read appointments in the owner\'s calendar', async () => {
+        delegationService.isDelegate.mockResolvedValue(true);
+
+        const result = await appointmentService.getAppointment('test-tenant', 'test-appointment-123', 'reception-1', 'tenant-user');
+
+        expect(result).toEqual(owned);
+        expect(delegationService.isDelegate).toHaveBeenCalledWith('test-tenant', 'doctor-1', 'reception-1');
+      });
+
+      it('should hide appointments from users the calendar is not shared with', async () => {
+        delegationService.isDelegate.mockResolvedValue(false);
+
+        await expect(appointmentService.getAppointment('test-tenant', 'test-appointment-123', 'reception-1', 'tenant-user'))
+          .rejects.toMatchObject({ statusCode: 403 });
+      });
+
+      it('should let delegates list the owner\'s calendar', async () => {
+        delegationService.isDelegate.mockResolvedValue(true);
+
+        await appointmentService.listAppointments('test-tenant', 'reception-1', 'tenant-user', { userId: 'doctor-1' });
+
+        expect(mockDynamoDB.query).toHaveBeenCalledWith(expect.objectContaining({
+          IndexName: 'GSI2',
+          ExpressionAttributeValues: expect.objectContaining({ ':userKey': 'TENANT#test-tenant#USER#doctor-1' })
+        }));
+      });
+
+      it('should not list calendars that are not shared', async () => {
+        delegationService.isDelegate.mockResolvedValue(false);
+
+        await expect(appointmentService.listAppointments('test-tenant', 'reception-1', 'tenant-user', { userId: 'doctor-1' }))
+          .rejects.toMatchObject({ statusCode: 403 });
+        expect(mockDynamoDB.query).not.toHaveBeenCalled();
+      });
+
+      it('should let delegates update appointments in the owner\'s calendar', async () => {
+        delegationService.isDelegate.mockResolvedValue(true);
+
+        await appointmentService.updateAppointment('test-tenant', 'test-appointment-123', 'reception-1', 'tenant-user', { title: 'Follow-up' });
+
+        expect(mockDynamoDB.update).toHaveBeenCalledWith(expect.objectContaining({
+          Key: { PK: 'TENANT#test-tenant#APPOINTMENT#test-appointment-123', SK: 'APPOINTMENT#test-appointment-123' }
+        }));
+      });
+
+      it('should let delegates delete appointments in the owner\'s calendar', async () => {
+        delegationService.isDelegate.mockResolvedValue(true);
+
+        const result = await appointmentService.deleteAppointment('test-tenant', 'test-appointment-123', 'reception-1', 'tenant-user');
+
+        expect(result).toBe(true);
+        expect(auditItems()).toEqual([expect.objectContaining({ action: 'delete', ownerId: 'doctor-1', actorId: 'reception-1' })]);
+      });
+    });
+  });
+
+  describe('listCalendarEntries', () => {
+    it('should read the whole tenant including cancelled appointments', async () => {
+      const cancelled = { ...mockAppointment, appointmentId: 'app-2', status: 'cancelled' as const };
+      mockDynamoDB.query.mockImplementation((params: any) =>
+        awsResponse({ Items: params.ExpressionAttributeValues[':seriesPrefix'] ? [] : [cancelled, mockAppointment] })
+      );
+
+      const entries = await appointmentService.listCalendarEntries(
+        'test-tenant', undefined, '2024-01-01T00:00:00.000Z', '2024-02-01T00:00:00.000Z'
+      );
+
+      expect(entries.map(entry => entry.appointmentId)).toEqual(['app-2', 'test-appointment-123']);
+      expect(mockDynamoDB.query).toHaveBeenCalledWith(expect.objectContaining({
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :partitionKey AND GSI1SK BETWEEN :fromKey AND :toKey',
+        ExpressionAttributeValues: expect.objectContaining({ ':partitionKey': 'TENANT#test-tenant' })
+      }));
+    });
+  });
+
+  describe('recurring appointments', () => {
+    const seriesMaster = {
+      appointmentId: 'series-1',
+      seriesId: 'series-1',
+      tenantId: 'test-tenant',
+      userId: 'test-user',
+      title: 'Weekly Check-in',
+      startTime: '2024-01-15T10:00:00.000Z',
+      endTime: '2024-01-15T10:30:00.000Z',
+      status: 'scheduled',
+      reminderMinutes: 60,
+      recurrenceRule: 'FREQ=WEEKLY;COUNT=4',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z'
+    };
+
+    // Series masters and exceptions come from different key conditions
+    const mockSeriesQueries = (exceptions: any[] = [], masters: any[] = [seriesMaster]) => {
+      mockDynamoDB.query.mockImplementation((params: any) => {
+        if (params.KeyConditionExpression.includes(':seriesPrefix')) {
+          return awsResponse({ Items: masters });
+        }
+        if (params.KeyConditionExpression.includes(':occurrencePrefix') || params.KeyConditionExpression.includes(':exceptionsKey')) {
+          return awsResponse({ Items: exceptions });
+        }
+        return awsResponse({ Items: [] });
+      });
+    };
+
+    afterEach(() => {
+      mockDynamoDB.query.mockReset();
+    });
+
+    it('should store a series master under the series sort key', async () => {
+      mockSeriesQueries();
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
+
+      const result = await appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', {
+        title: 'Standup',
+        startTime: '2024-02-05T09:00:00Z',
+        endTime: '2024-02-05T09:15:00Z',
+        recurrenceRule: 'rrule:freq=daily;count=5'
+      });
+
+      expect(result.recurrenceRule).toBe('FREQ=DAILY;COUNT=5');
+      expect(result.seriesId).toBe(result.appointmentId);
+      expect(mockDynamoDB.put).toHaveBeenCalledWith(expect.objectContaining({
+        Item: expect.objectContaining({
+          GSI1SK: expect.stringMatching(/^SERIES#DATE#/),
+          GSI2SK: expect.stringMatching(/^SERIES#DATE#/)
+        })
+      }));
+    });
+
+    it('should reject an invalid recurrence rule', async () => {
+      await expect(
+        appointmentService.createAppointment('test-tenant', 'test-user', 'tenant-user', {
+          title: 'Standup',
+          startTime: '2024-02-05T09:00:00Z',
+          endTime: '2024-02-05T09:15:00Z',
+          recurrenceRule: 'FREQ=HOURLY'
+        })
+      ).rejects.toThrow('Validation error');
+    });
+
+    it('should expand series into occurrences with exceptions applied', async () => {
+      mockSeriesQueries([
+        { seriesId: 'series-1', recurrenceId: '2024-01-22T10:00:00.000Z', overrides: { title: 'Moved Check-in', startTime: '2024-01-23T10:00:00.000Z', endTime: '2024-01-23T10:30:00.000Z' } },
+        { seriesId: 'series-1', recurrenceId: '2024-01-29T10:00:00.000Z', overrides: {}, deleted: true }
+      ]);
+
+      const { appointments: result } = await appointmentService.listAppointments('test-tenant', 'test-user', 'tenant-user', {
+        startDate: '2024-01-01',
+        endDate: '2024-02-28'
+      });
+
+      expect(result.map(occurrence => [occurrence.appointmentId, occurrence.startTime, occurrence.title])).toEqual([
+        ['series-1_20240115T100000Z', '2024-01-15T10:00:00.000Z', 'Weekly Check-in'],
+        ['series-1_20240122T100000Z', '2024-01-23T10:00:00.000Z', 'Moved Check-in'],
+        ['series-1_20240205T100000Z', '2024-02-05T10:00:00.000Z', 'Weekly Check-in']
+      ]);
+      expect(result[1].isException).toBe(true);
+    });
+
+    it('should fetch the exceptions of all series in the partition in one query', async () => {
+      const otherMaster = { ...seriesMaster, appointmentId: 'series-2', seriesId: 'series-2', recurrenceRule: 'FREQ=WEEKLY;COUNT=1' };
+      mockSeriesQueries([
+        { seriesId: 'series-2', recurrenceId: '2024-01-15T10:00:00.000Z', overrides: { title: 'Renamed' } }
+      ], [seriesMaster, otherMaster]);
+
+      const { appointments: result } = await appointmentService.listAppointments('test-tenant', 'test-user', 'tenant-user', {
+        startDate: '2024-01-15',
+        endDate: '2024-01-16'
+      });
+
+      expect(result.map(occurrence => [occurrence.appointmentId, occurrence.title])).toEqual([
+        ['series-1_20240115T100000Z', 'Weekly Check-in'],
+        ['series-2_20240115T100000Z', 'Renamed']
+      ]);
+      const exceptionQueries = mockDynamoDB.query.mock.calls.filter(([params]: any[]) => params.ExpressionAttributeValues[':exceptionsKey']);
+      expect(exceptionQueries).toEqual([[expect.objectContaining({
+        IndexName: 'GSI2',
+        KeyConditionExpression: 'GSI2PK = :exceptionsKey',
+        ExpressionAttributeValues: { ':exceptionsKey': 'TENANT#test-tenant#USER#test-user#EXCEPTIONS' }
+      })]]);
+    });
+
+    it('should store an exception when editing a single occurrence', async () => {
+      mockSeriesQueries();
+      mockDynamoDB.get.mockImplementation((params: any) =>
+        awsResponse(params.Key.SK.startsWith('APPOINTMENT#') ? { Item: seriesMaster } : {})
+      );
+      mockDynamoDB.transactWrite.mockReturnValue(awsResponse({}));
+
+      const result = await appointmentService.updateAppointment(
+        'test-tenant',
+        'series-1_20240122T100000Z',
+        'test-user',
+        'tenant-user',
+        { status: 'cancelled' }
+      );
+
+      expect(result).toMatchObject({ appointmentId: 'series-1_20240122T100000Z', status: 'cancelled', isException: true });
+      const [versionBump, put] = mockDynamoDB.transactWrite.mock.calls[0][0].TransactItems;
+      expect(versionBump.Update.Key.SK).toBe('APPOINTMENT#series-1');
+      expect(put.Put.Item).toMatchObject({
+        PK: 'TENANT#test-tenant#APPOINTMENT#series-1',
+        SK: 'OCCURRENCE#2024-01-22T10:00:00.000Z',
+        GSI1PK: 'TENANT#test-tenant#EXCEPTIONS',
+        GSI2PK: 'TENANT#test-tenant#USER#test-user#EXCEPTIONS',
+        GSI2SK: 'series-1#2024-01-22T10:00:00.000Z',
+        overrides: expect.objectContaining({ status: 'cancelled' })
+      });
+      expect(mockDynamoDB.update).not.toHaveBeenCalled();
+    });
+
+    it('should split the series when editing this and following occurrences', async () => {
+      mockSeriesQueries();
+      mockDynamoDB.get.mockImplementation((params: any) =>
+        awsResponse(params.Key.SK.startsWith('APPOINTMENT#') ? { Item: seriesMaster } : {})
+      );
+      mockDynamoDB.transactWrite.mockReturnValue(awsResponse({}));
+
+      const result = await appointmentService.updateAppointment(
+        'test-tenant',
+        'series-1_20240129T100000Z',
+        'test-user',
+        'tenant-user',
+        { title: 'Renamed Check-in' },
+        'following'
+      );
+
+      expect(result).toMatchObject({
+        title: 'Renamed Check-in',
+        startTime: '2024-01-29T10:00:00.000Z',
+        recurrenceRule: 'FREQ=WEEKLY;COUNT=2'
+      });
+
+      const [put, update] = mockDynamoDB.transactWrite.mock.calls[0][0].TransactItems;
+      expect(put.Put.Item).toMatchObject({ appointmentId: result?.appointmentId, GSI2SK: expect.stringMatching(/^SERIES#DATE#/) });
+      expect(update.Update.ExpressionAttributeValues[':recurrenceRule']).toBe('FREQ=WEEKLY;UNTIL=20240129T095959Z');
+    });
+
+    it('should plan the reminder of a split off series from its own first occurrence', async () => {
+      mockSeriesQueries();
+      mockDynamoDB.get.mockImplementation((params: any) =>
+        awsResponse(params.Key.SK.startsWith('APPOINTMENT#') ? {
+          Item: {
+            ...seriesMaster,
+            startTime: '2099-01-05T10:00:00.000Z',
+            endTime: '2099-01-05T10:30:00.000Z',
+            reminder: {
+              status: 'pending',
+              dueAt: '2099-01-05T09:00:00.000Z',
+              nextAttemptAt: '2099-01-05T09:00:00.000Z',
+              attempts: 0,
+              recurrenceId: '2099-01-05T10:00:00.000Z'
+            },
+            GSI3PK: 'REMINDER#2099-01-05T09',
+            GSI3SK: '2099-01-05T09:00:00.000Z#test-tenant#series-1'
+          }
+        } : {})
+      );
+      mockDynamoDB.transactWrite.mockReturnValue(awsResponse({}));
+
+      const result = await appointmentService.updateAppointment(
+        'test-tenant',
+        'series-1_20990119T100000Z',
+        'test-user',
+        'tenant-user',
+        { title: 'Renamed Check-in' },
+        'following'
+      );
+
+      const [put] = mockDynamoDB.transactWrite.mock.calls[0][0].TransactItems;
+      expect(put.Put.Item).toMatchObject({
+        reminder: { status: 'pending', dueAt: '2099-01-19T09:00:00.000Z', recurrenceId: '2099-01-19T10:00:00.000Z' },
+        GSI3PK: 'REMINDER#2099-01-19T09',
+        GSI3SK: `2099-01-19T09:00:00.000Z#test-tenant#${result?.appointmentId}`
+      });
+    });
+
+    it('should reject unknown scopes', async () => {
+      await expect(
+        appointmentService.deleteAppointment('test-tenant', 'series-1', 'test-user', 'tenant-user', 'everything' as any)
+      ).rejects.toThrow('scope must be one of occurrence, following, series');
+    });
+
+    it('should hide a single deleted occurrence', async () => {
+      mockSeriesQueries();
+      mockDynamoDB.get.mockImplementation((params: any) =>
+        awsResponse(params.Key.SK.startsWith('APPOINTMENT#') ? { Item: seriesMaster } : {})
+      );
+      mockDynamoDB.transactWrite.mockReturnValue(awsResponse({}));
+
+      const result = await appointmentService.deleteAppointment('test-tenant', 'series-1_20240122T100000Z', 'test-user', 'tenant-user');
+
+      expect(result).toBe(true);
+      const [, put] = mockDynamoDB.transactWrite.mock.calls[0][0].TransactItems;
+      expect(put.Put.Item).toMatchObject({ SK: 'OCCURRENCE#2024-01-22T10:00:00.000Z', deleted: true });
+      expect(mockDynamoDB.delete).not.toHaveBeenCalled();
+    });
+
+    describe('editing a single occurrence', () => {
+      let invitationService: jest.Mocked<InvitationService>;
+      let waitlistService: jest.Mocked<WaitlistService>;
+
+      const withMaster = (master: any) => {
+        mockDynamoDB.get.mockImplementation((params: any) =>
+          awsResponse(params.Key.SK.startsWith('APPOINTMENT#') ? { Item: master } : {})
+        );
+      };
+
+      beforeEach(() => {
+        appointmentService = new AppointmentService();
+        invitationService = MockedInvitationService.mock.instances[0] as jest.Mocked<InvitationService>;
+        waitlistService = MockedWaitlistService.mock.instances[0] as jest.Mocked<WaitlistService>;
+        mockSeriesQueries();
+        mockDynamoDB.transactWrite.mockReturnValue(awsResponse({}));
+      });
+
+      it('should invite attendees added to the occurrence', async () => {
+        withMaster({ ...seriesMaster, attendees: [{ email: 'jane@example.com', responseStatus: 'accepted' }] });
+
+        const result = await appointmentService.updateAppointment('test-tenant', 'series-1_20240122T100000Z', 'test-user', 'tenant-user', {
+          attendees: ['jane@example.com', 'new@example.com']
+        });
+
+        expect(result?.attendees).toEqual([
+          { email: 'jane@example.com', responseStatus: 'accepted' },
+          { email: 'new@example.com', responseStatus: 'needs-action' }
+        ]);
+        expect(invitationService.send).toHaveBeenCalledWith(result, 'invitation', [
+          { email: 'new@example.com', responseStatus: 'needs-action' }
+        ]);
+      });
+
+      it('should schedule a reminder of its own and index it', async () => {
+        withMaster({ ...seriesMaster, startTime: '2099-01-05T10:00:00.000Z', endTime: '2099-01-05T10:30:00.000Z' });
+
+        const result = await appointmentService.updateAppointment('test-tenant', 'series-1_20990112T100000Z', 'test-user', 'tenant-user', {
+          reminderMinutes: 30
+        });
+
+        expect(result?.reminder).toMatchObject({ status: 'pending', dueAt: '2099-01-12T09:30:00.000Z' });
+        const [, put] = mockDynamoDB.transactWrite.mock.calls[0][0].TransactItems;
+        expect(put.Put.Item).toMatchObject({
+          reminder: { status: 'pending', dueAt: '2099-01-12T09:30:00.000Z' },
+          GSI3PK: 'REMINDER#2099-01-12T09',
+          GSI3SK: '2099-01-12T09:30:00.000Z#test-tenant#series-1_20990112T100000Z'
+        });
+      });
+
+      it('should take the reminder over from the series master once it was sent', async () => {
+        withMaster({
+          ...seriesMaster,
+          startTime: '2099-01-05T10:00:00.000Z',
+          endTime: '2099-01-05T10:30:00.000Z',
+          reminder: {
+            status: 'pending',
+            dueAt: '2099-01-19T09:00:00.000Z',
+            nextAttemptAt: '2099-01-19T09:00:00.000Z',
+            attempts: 0,
+            recurrenceId: '2099-01-19T10:00:00.000Z'
+          }
+        });
+
+        const result = await appointmentService.updateAppointment('test-tenant', 'series-1_20990112T100000Z', 'test-user', 'tenant-user', {
+          location: 'Room 2'
+        });
+
+        expect(result?.reminder).toMatchObject({ status: 'sent', dueAt: '2099-01-12T09:00:00.000Z' });
+        const [, put] = mockDynamoDB.transactWrite.mock.calls[0][0].TransactItems;
+        expect(put.Put.Item.GSI3PK).toBeUndefined();
+      });
+
+      it('should offer the slot of a cancelled occurrence to the waitlist', async () => {
+        withMaster(seriesMaster);
+
+        await appointmentService.updateAppointment('test-tenant', 'series-1_20240122T100000Z', 'test-user', 'tenant-user', {
+          status: 'cancelled'
+        });
+
+        expect(waitlistService.offerSlot).toHaveBeenCalledWith('test-tenant', {
+          slotId: 'series-1_20240122T100000Z',
+          userId: 'test-user',
+          startTime: '2024-01-22T10:00:00.000Z',
+          endTime: '2024-01-22T10:30:00.000Z'
+        });
+      });
+    });
+  });
 });
@@ -0,0 +1,161 @@
+import { AuditService } from '../../src/services/AuditService';
+import { awsResponse, mockDynamoDB } from '../helpers/aws';
+
+describe('AuditService', () => {
+  let auditService: AuditService;
+
+  const storedRecord = (overrides: any = {}) => ({
+    PK: 'TENANT#test-tenant#APPOINTMENT#app-1',
+    SK: 'AUDIT#2024-01-10T09:00:00.000Z#audit-1',
+    GSI1PK: 'TENANT#test-tenant#AUDIT',
+    GSI1SK: '2024-01-10T09:00:00.000Z#audit-1',
+    auditId: 'audit-1',
+    tenantId: 'test-tenant',
+    appointmentId: 'app-1',
+    ownerId: 'test-user',
+    action: 'update',
+    actorId: 'test-user',
+    actorRole: 'tenant-user',
+    changes: { title: { before: 'Old', after: 'New' } },
+    timestamp: '2024-01-10T09:00:00.000Z',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    auditService = new AuditService();
+  });
+
+  describe('record', () => {
+    it('should store a field-level diff in the appointment partition', async () => {
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
+
+      await auditService.record({
+        tenantId: 'test-tenant',
+        appointmentId: 'app-1',
+        ownerId: 'test-user',
+        action: 'update',
+        actorId: 'admin-1',
+        actorRole: 'tenant-admin',
+        requestId: 'request-1',
+        before: { title: 'Old', location: 'Room 1', updatedAt: '2024-01-01T00:00:00Z' },
+        after: { title: 'New', location: 'Room 1', description: 'Agenda', updatedAt: '2024-01-02T00:00:00Z' }
+      });
+
+      const { Item } = mockDynamoDB.put.mock.calls[0][0];
+      expect(Item).toMatchObject({
+        PK: 'TENANT#test-tenant#APPOINTMENT#app-1',
+        SK: expect.stringMatching(/^AUDIT#/),
+        GSI1PK: 'TENANT#test-tenant#AUDIT',
+        actorId: 'admin-1',
+        actorRole: 'tenant-admin',
+        requestId: 'request-1',
+        changes: {
+          title: { before: 'Old', after: 'New' },
+          description: { after: 'Agenda' }
+        }
+      });
+    });
+
+    it('should keep occurrence records with their series', async () => {
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
+
+      await auditService.record({
+        tenantId: 'test-tenant',
+        appointmentId: 'series-1_20240122T100000Z',
+        seriesId: 'series-1',
+        ownerId: 'test-user',
+        action: 'delete',
+        actorId: 'test-user',
+        actorRole: 'tenant-user',
+        before: { title: 'Check-in' }
+      });
+
+      expect(mockDynamoDB.put.mock.calls[0][0].Item).toMatchObject({
+        PK: 'TENANT#test-tenant#APPOINTMENT#series-1',
+        appointmentId: 'series-1_20240122T100000Z'
+      });
+    });
+
+    it('should skip updates that changed nothing', async () => {
+      await auditService.record({
+        tenantId: 'test-tenant',
+        appointmentId: 'app-1',
+        ownerId: 'test-user',
+        action: 'update',
+        actorId: 'test-user',
+        actorRole: 'tenant-user',
+        before: { title: 'Same' },
+        after: { title: 'Same' }
+      });
+
+      expect(mockDynamoDB.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAppointmentHistory', () => {
+    it('should return records without storage keys', async () => {
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [storedRecord()] }));
+
+      const history = await auditService.getAppointmentHistory('test-tenant', 'app-1', 'test-user', 'tenant-user');
+
+      expect(history).toHaveLength(1);
+      expect(history[0]).not.toHaveProperty('PK');
+      expect(history[0].changes).toEqual({ title: { before: 'Old', after: 'New' } });
+    });
+
+    it('should not show another user\'s history to regular users', async () => {
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [storedRecord({ ownerId: 'other-user' })] }));
+
+      await expect(
+        auditService.getAppointmentHistory('test-tenant', 'app-1', 'test-user', 'tenant-user')
+      ).rejects.toMatchObject({ statusCode: 403 });
+
+      await expect(
+        auditService.getAppointmentHistory('test-tenant', 'app-1', 'admin-1', 'tenant-admin')
+      ).resolves.toHaveLength(1);
+    });
+
+    it('should return 404 when there is no history', async () => {
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+
+      await expect(
+        auditService.getAppointmentHistory('test-tenant', 'missing', 'test-user', 'tenant-user')
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('listAuditRecords', () => {
+    it('should only be available to admins', async () => {
+      await expect(
+        auditService.listAuditRecords('test-tenant', 'tenant-user', {})
+      ).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should page through the tenant audit index newest first', async () => {
+      mockDynamoDB.query.mockReturnValue(awsResponse({
+        Items: [storedRecord()],
+        LastEvaluatedKey: { PK: 'a', SK: 'b', GSI1PK: 'c', GSI1SK: 'd' }
+      }));
+
+      const page = await auditService.listAuditRecords('test-tenant', 'tenant-admin', { limit: '1' });
+
+      expect(mockDynamoDB.query).toHaveBeenCalledWith(expect.objectContaining({
+        IndexName: 'GSI1',
+        ExpressionAttributeValues: expect.objectContaining({ ':auditKey': 'TENANT#test-tenant#AUDIT' }),
+        ScanIndexForward: false,
+        Limit: 1
+      }));
+      expect(page.records).toHaveLength(1);
+
+      await auditService.listAuditRecords('test-tenant', 'tenant-admin', { nextToken: page.nextToken });
+      expect(mockDynamoDB.query).toHaveBeenLastCalledWith(expect.objectContaining({
+        ExclusiveStartKey: { PK: 'a', SK: 'b', GSI1PK: 'c', GSI1SK: 'd' }
+      }));
+
+      await expect(
+        auditService.listAuditRecords('other-tenant', 'super-admin', { nextToken: page.nextToken })
+      ).rejects.toThrow('Invalid nextToken');
+    });
+  });
+});
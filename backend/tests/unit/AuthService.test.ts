@@ -1,15 +1,5 @@
 import { AuthService } from '../../src/services/AuthService';
-
-// Mock Cognito
-const mockCognito = {
-  adminGetUser: jest.fn(),
-  adminCreateUser: jest.fn(),
-  adminAddUserToGroup: jest.fn()
-};
-
-jest.mock('aws-sdk', () => ({
-  CognitoIdentityProvider: jest.fn(() => mockCognito)
-}));
+import { awsError, awsResponse, mockCognito, mockDynamoDB } from '../helpers/aws';
 
 // Mock JWT
 jest.mock('jsonwebtoken', () => ({
@@ -23,6 +13,9 @@ describe('AuthService', () => {
   beforeEach(() => {
     authService = new AuthService();
     jest.clearAllMocks();
+    // clearAllMocks keeps return values, so a token decoded in one test would leak into the next
+    mockJWT.decode.mockReset();
+    mockDynamoDB.get.mockReturnValue(awsResponse({ Item: { status: 'active' } }));
   });
 
   describe('validateRequest', () => {
@@ -34,7 +27,7 @@ describe('AuthService', () => {
         exp: Math.floor(Date.now() / 1000) + 3600
       };
 
-      mockJWT.decode.mockReturnValue(mockToken);
+      mockJWT.decode.mockReturnValue({ payload: mockToken });
 
       const event = {
         headers: { Authorization: 'Bearer valid-token' },
@@ -59,7 +52,7 @@ describe('AuthService', () => {
         exp: Math.floor(Date.now() / 1000) + 3600
       };
 
-      mockJWT.decode.mockReturnValue(mockToken);
+      mockJWT.decode.mockReturnValue({ payload: mockToken });
 
       const event = {
         headers: { Authorization: 'Bearer valid-token' },
@@ -114,7 +107,7 @@ describe('AuthService', () => {
         exp: Math.floor(Date.now() / 1000) - 3600 // Expired 1 hour ago
       };
 
-      mockJWT.decode.mockReturnValue(mockToken);
+      mockJWT.decode.mockReturnValue({ payload: mockToken });
 
       const event = {
         headers: { Authorization: 'Bearer expired-token' },
@@ -137,7 +130,7 @@ describe('AuthService', () => {
         exp: Math.floor(Date.now() / 1000) + 3600
       };
 
-      mockJWT.decode.mockReturnValue(mockToken);
+      mockJWT.decode.mockReturnValue({ payload: mockToken });
 
       const event = {
         headers: { Authorization: 'Bearer valid-token' },
@@ -152,6 +145,31 @@ describe('AuthService', () => {
       });
     });
 
+    it('should reject requests for suspended tenants except from super admins', async () => {
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: { status: 'suspended' } }));
+      const event = {
+        headers: { Authorization: 'Bearer valid-token' },
+        pathParameters: { tenantId: 'test-tenant' }
+      };
+
+      mockJWT.decode.mockReturnValue({
+        payload: { sub: 'test-user-id', 'cognito:groups': ['tenant-admin'], 'custom:tenant_id': 'test-tenant' }
+      });
+      expect(await authService.validateRequest(event, 'test-tenant')).toEqual({
+        isValid: false,
+        error: 'Tenant is suspended'
+      });
+      expect(mockDynamoDB.get).toHaveBeenCalledWith(expect.objectContaining({ Key: { tenantId: 'test-tenant' } }));
+
+      mockJWT.decode.mockReturnValue({
+        payload: { sub: 'admin-user-id', 'cognito:groups': ['super-admin'], 'custom:tenant_id': 'admin-tenant' }
+      });
+      expect(await authService.validateRequest(event, 'test-tenant')).toEqual(expect.objectContaining({
+        isValid: true,
+        role: 'super-admin'
+      }));
+    });
+
     it('should handle malformed authorization header', async () => {
       const event = {
         headers: { Authorization: 'InvalidFormat token' },
@@ -182,7 +200,7 @@ describe('AuthService', () => {
         ]
       };
 
-      mockCognito.adminGetUser.mockResolvedValue(mockUserData);
+      mockCognito.adminGetUser.mockReturnValue(awsResponse(mockUserData));
 
       const result = await authService.getUserInfo('test-user');
 
@@ -204,7 +222,7 @@ describe('AuthService', () => {
     });
 
     it('should handle user not found', async () => {
-      mockCognito.adminGetUser.mockRejectedValue(new Error('User not found'));
+      mockCognito.adminGetUser.mockReturnValue(awsError('UserNotFoundException', 'User not found'));
 
       await expect(authService.getUserInfo('nonexistent-user'))
         .rejects.toThrow('User not found');
@@ -220,8 +238,8 @@ describe('AuthService', () => {
         }
       };
 
-      mockCognito.adminCreateUser.mockResolvedValue(mockCreatedUser);
-      mockCognito.adminAddUserToGroup.mockResolvedValue({});
+      mockCognito.adminCreateUser.mockReturnValue(awsResponse(mockCreatedUser));
+      mockCognito.adminAddUserToGroup.mockReturnValue(awsResponse({}));
 
       const userData = {
         email: 'new@example.com',
@@ -253,7 +271,7 @@ describe('AuthService', () => {
     });
 
     it('should handle user creation failure', async () => {
-      mockCognito.adminCreateUser.mockRejectedValue(new Error('User already exists'));
+      mockCognito.adminCreateUser.mockReturnValue(awsError('UsernameExistsException', 'User already exists'));
 
       const userData = {
         email: 'existing@example.com',
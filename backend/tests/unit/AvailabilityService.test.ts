@@ -0,0 +1,175 @@
+import { AvailabilityService } from '../../src/services/AvailabilityService';
+import { AppointmentService } from '../../src/services/AppointmentService';
+import { TenantService } from '../../src/services/TenantService';
+import { ResourceService } from '../../src/services/ResourceService';
+
+jest.mock('../../src/services/AppointmentService');
+jest.mock('../../src/services/TenantService');
+jest.mock('../../src/services/ResourceService');
+
+const MockedAppointmentService = AppointmentService as jest.MockedClass<typeof AppointmentService>;
+const MockedTenantService = TenantService as jest.MockedClass<typeof TenantService>;
+const MockedResourceService = ResourceService as jest.MockedClass<typeof ResourceService>;
+
+describe('AvailabilityService', () => {
+  let availabilityService: AvailabilityService;
+  let mockAppointmentService: jest.Mocked<AppointmentService>;
+  let mockTenantService: jest.Mocked<TenantService>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    availabilityService = new AvailabilityService();
+    mockAppointmentService = MockedAppointmentService.mock.instances[0] as jest.Mocked<AppointmentService>;
+    mockTenantService = MockedTenantService.mock.instances[0] as jest.Mocked<TenantService>;
+
+    mockTenantService.getSettings.mockResolvedValue({
+      timezone: 'America/New_York',
+      workingHours: {
+        start: '09:00',
+        end: '17:00',
+        days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday']
+      }
+    });
+    mockAppointmentService.getBusySlots.mockResolvedValue([]);
+  });
+
+  it('should return slots inside working hours in the tenant timezone', async () => {
+    // 2030-01-07 is a Monday
+    const result = await availabilityService.findAvailableSlots('test-tenant', 'test-user', {
+      startDate: '2030-01-07',
+      endDate: '2030-01-07',
+      duration: '60',
+      interval: '60'
+    });
+
+    expect(result.timezone).toBe('America/New_York');
+    expect(result.userId).toBe('test-user');
+    expect(result.slots).toHaveLength(8);
+    expect(result.slots[0]).toEqual({
+      startTime: '2030-01-07T14:00:00.000Z',
+      endTime: '2030-01-07T15:00:00.000Z'
+    });
+    expect(result.slots[7].endTime).toBe('2030-01-07T22:00:00.000Z');
+  });
+
+  it('should leave out slots that overlap existing appointments', async () => {
+    mockAppointmentService.getBusySlots.mockResolvedValue([
+      { startTime: '2030-01-07T15:30:00.000Z', endTime: '2030-01-07T16:00:00.000Z' }
+    ]);
+
+    const result = await availabilityService.findAvailableSlots('test-tenant', 'test-user', {
+      startDate: '2030-01-07',
+      endDate: '2030-01-07',
+      duration: '60',
+      interval: '30',
+      userId: 'other-user'
+    });
+
+    const starts = result.slots.map(slot => slot.startTime);
+    expect(starts).toContain('2030-01-07T14:30:00.000Z');
+    expect(starts).not.toContain('2030-01-07T15:00:00.000Z');
+    expect(starts).not.toContain('2030-01-07T15:30:00.000Z');
+    expect(starts).toContain('2030-01-07T16:00:00.000Z');
+    expect(mockAppointmentService.getBusySlots).toHaveBeenCalledWith(
+      'test-tenant',
+      'other-user',
+      '2030-01-07T05:00:00.000Z',
+      '2030-01-08T04:59:59.999Z'
+    );
+  });
+
+  it('should only return slots in which the resource can be reserved', async () => {
+    const mockResourceService = MockedResourceService.mock.instances[0] as jest.Mocked<ResourceService>;
+    const room = {
+      resourceId: 'room-1',
+      tenantId: 'test-tenant',
+      name: 'Room A',
+      type: 'room' as const,
+      capacity: 1,
+      availability: { start: '13:00', end: '17:00', days: ['monday' as const] },
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z'
+    };
+    mockResourceService.getResource.mockResolvedValue(room);
+    mockAppointmentService.getResourceBusySlots.mockResolvedValue([
+      { startTime: '2030-01-07T19:00:00.000Z', endTime: '2030-01-07T20:00:00.000Z' }
+    ]);
+
+    const result = await availabilityService.findAvailableSlots('test-tenant', 'test-user', {
+      startDate: '2030-01-07',
+      endDate: '2030-01-07',
+      duration: '60',
+      interval: '60',
+      resourceId: 'room-1'
+    });
+
+    expect(result.resourceId).toBe('room-1');
+    expect(result.slots.map(slot => slot.startTime)).toEqual([
+      '2030-01-07T18:00:00.000Z',
+      '2030-01-07T20:00:00.000Z',
+      '2030-01-07T21:00:00.000Z'
+    ]);
+    expect(mockAppointmentService.getResourceBusySlots).toHaveBeenCalledWith(
+      'test-tenant',
+      room,
+      '2030-01-07T05:00:00.000Z',
+      '2030-01-08T04:59:59.999Z'
+    );
+
+    mockResourceService.getResource.mockResolvedValue(null);
+    await expect(availabilityService.findAvailableSlots('test-tenant', 'test-user', {
+      startDate: '2030-01-07',
+      endDate: '2030-01-07',
+      duration: '60',
+      resourceId: 'gone'
+    })).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should skip days outside the working week', async () => {
+    // 2030-01-05 and 2030-01-06 are a weekend
+    const result = await availabilityService.findAvailableSlots('test-tenant', 'test-user', {
+      startDate: '2030-01-05',
+      endDate: '2030-01-06',
+      duration: '30'
+    });
+
+    expect(result.slots).toEqual([]);
+  });
+
+  it('should skip days the tenant is closed', async () => {
+    mockTenantService.getSettings.mockResolvedValue({
+      timezone: 'America/New_York',
+      workingHours: { start: '09:00', end: '17:00', days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'] },
+      closures: [{ name: "New Year's Day", startDate: '2024-01-01', annual: true }]
+    });
+
+    // 2030-01-01 is a Tuesday
+    const result = await availabilityService.findAvailableSlots('test-tenant', 'test-user', {
+      startDate: '2030-01-01',
+      endDate: '2030-01-02',
+      duration: '60',
+      interval: '60'
+    });
+
+    expect(result.slots).toHaveLength(8);
+    expect(result.slots.every(slot => slot.startTime.startsWith('2030-01-02'))).toBe(true);
+  });
+
+  it('should reject missing duration and oversized ranges', async () => {
+    await expect(
+      availabilityService.findAvailableSlots('test-tenant', 'test-user', { startDate: '2030-01-07', endDate: '2030-01-07' })
+    ).rejects.toMatchObject({ statusCode: 400 });
+
+    await expect(
+      availabilityService.findAvailableSlots('test-tenant', 'test-user', { startDate: '2030-01-01', endDate: '2030-03-01', duration: '30' })
+    ).rejects.toThrow('Date range cannot exceed 31 days');
+  });
+
+  it('should return 404 for an unknown tenant', async () => {
+    mockTenantService.getSettings.mockResolvedValue(null);
+
+    await expect(
+      availabilityService.findAvailableSlots('missing-tenant', 'test-user', { startDate: '2030-01-07', endDate: '2030-01-07', duration: '30' })
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
@@ -0,0 +1,236 @@
+import { Appointment } from '../../src/services/AppointmentService';
+import { BatchService } from '../../src/services/BatchService';
+import { DEFAULT_TENANT_SETTINGS, TenantService } from '../../src/services/TenantService';
+import { awsResponse, mockDynamoDB } from '../helpers/aws';
+
+jest.mock('../../src/services/InvitationService');
+// Unknown tenants fall back to the real default settings, working hours included
+jest.mock('../../src/services/TenantService', () => ({
+  ...jest.createMockFromModule<object>('../../src/services/TenantService'),
+  DEFAULT_TENANT_SETTINGS: jest.requireActual('../../src/services/TenantService').DEFAULT_TENANT_SETTINGS
+}));
+jest.mock('../../src/services/WaitlistService');
+jest.mock('../../src/services/ResourceService');
+jest.mock('../../src/services/ServiceCatalogService');
+jest.mock('../../src/services/DelegationService');
+
+const MockedTenantService = TenantService as jest.MockedClass<typeof TenantService>;
+
+describe('BatchService', () => {
+  let batchService: BatchService;
+  let mockAppointment: Appointment;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    batchService = new BatchService();
+    mockAppointment = {
+      appointmentId: 'test-appointment-123',
+      tenantId: 'test-tenant',
+      userId: 'test-user',
+      title: 'Test Appointment',
+      description: 'Test Description',
+      startTime: '2024-01-15T10:00:00Z',
+      endTime: '2024-01-15T11:00:00Z',
+      location: 'Test Location',
+      attendees: [{ email: 'test@example.com', responseStatus: 'needs-action' }],
+      status: 'scheduled',
+      reminderMinutes: 60,
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z'
+    };
+  });
+
+  describe('executeBatch', () => {
+    let stored: { [appointmentId: string]: Appointment };
+
+    beforeEach(() => {
+      stored = {
+        'app-a': { ...mockAppointment, appointmentId: 'app-a', startTime: '2024-01-15T10:00:00Z', endTime: '2024-01-15T11:00:00Z', version: 1 },
+        'app-b': { ...mockAppointment, appointmentId: 'app-b', startTime: '2024-01-15T11:00:00Z', endTime: '2024-01-15T12:00:00Z', version: 1 }
+      };
+      mockDynamoDB.get.mockImplementation((params: any) =>
+        awsResponse({ Item: stored[params.Key.SK.replace('APPOINTMENT#', '')] })
+      );
+      // Conflict checks see both stored appointments
+      mockDynamoDB.query.mockImplementation((params: any) =>
+        awsResponse({ Items: params.ExpressionAttributeValues[':seriesPrefix'] ? [] : Object.values(stored) })
+      );
+      mockDynamoDB.update.mockReturnValue(awsResponse({}));
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
+      mockDynamoDB.batchWrite.mockReturnValue(awsResponse({}));
+      mockDynamoDB.transactWrite.mockReturnValue(awsResponse({}));
+    });
+
+    it('should report a result for every operation', async () => {
+      const result = await batchService.executeBatch('test-tenant', 'test-user', 'tenant-user', {
+        operations: [
+          { action: 'create', data: { title: 'New', startTime: '2024-01-16T10:00:00Z', endTime: '2024-01-16T11:00:00Z' } },
+          { action: 'cancel', appointmentId: 'app-a' },
+          { action: 'update', appointmentId: 'app-b', data: { title: 'Renamed' }, version: 0 },
+          { action: 'delete' },
+          { action: 'delete', appointmentId: 'missing' }
+        ]
+      }, 'request-1');
+
+      expect(result).toMatchObject({ atomic: false, succeeded: 2, failed: 3 });
+      expect(result.results.map(item => [item.index, item.status, item.statusCode])).toEqual([
+        [0, 'succeeded', 201],
+        [1, 'succeeded', 200],
+        [2, 'failed', 412],
+        [3, 'failed', 400],
+        [4, 'failed', 404]
+      ]);
+      expect(result.results[1].appointment?.status).toBe('cancelled');
+
+      // New appointments go out in one batch write, changes as conditional updates
+      expect(mockDynamoDB.batchWrite).toHaveBeenCalledTimes(1);
+      expect(mockDynamoDB.batchWrite.mock.calls[0][0].RequestItems['test-appointments']).toHaveLength(1);
+      expect(mockDynamoDB.update).toHaveBeenCalledTimes(1);
+      expect(mockDynamoDB.put.mock.calls.map(([params]: any[]) => params.Item.requestId)).toEqual(['request-1', 'request-1']);
+    });
+
+    it('should create many appointments, or only preview them in a dry run', async () => {
+      const items = [
+        { title: 'First', startTime: '2024-01-16T10:00:00Z', endTime: '2024-01-16T11:00:00Z' },
+        { title: 'Overlaps first', startTime: '2024-01-16T10:30:00Z', endTime: '2024-01-16T11:30:00Z' },
+        { title: '' }
+      ];
+
+      const preview = await batchService.createAppointments('test-tenant', 'test-user', 'tenant-user', items, { dryRun: true });
+
+      expect(preview.map(item => [item.index, item.status, item.statusCode])).toEqual([
+        [0, 'succeeded', 201],
+        [1, 'failed', 409],
+        [2, 'failed', 400]
+      ]);
+      expect(mockDynamoDB.batchWrite).not.toHaveBeenCalled();
+      expect(mockDynamoDB.put).not.toHaveBeenCalled();
+
+      const created = await batchService.createAppointments('test-tenant', 'test-user', 'tenant-user', items, {}, 'request-1');
+
+      expect(created.map(item => item.status)).toEqual(['succeeded', 'failed', 'failed']);
+      expect(created[0].appointmentId).toBeDefined();
+      expect(mockDynamoDB.batchWrite.mock.calls[0][0].RequestItems['test-appointments']).toHaveLength(1);
+    });
+
+    it('should check operations against each other instead of the slots they leave', async () => {
+      const result = await batchService.executeBatch('test-tenant', 'test-user', 'tenant-user', {
+        operations: [
+          { action: 'update', appointmentId: 'app-a', data: { startTime: '2024-01-15T11:00:00Z', endTime: '2024-01-15T12:00:00Z' } },
+          { action: 'update', appointmentId: 'app-b', data: { startTime: '2024-01-15T10:00:00Z', endTime: '2024-01-15T11:00:00Z' } },
+          { action: 'create', data: { title: 'Double booked', startTime: '2024-01-15T11:30:00Z', endTime: '2024-01-15T12:30:00Z' } }
+        ]
+      });
+
+      expect(result.results.map(item => item.statusCode)).toEqual([200, 200, 409]);
+      expect(result.results[2].error?.details.conflicts).toEqual([expect.objectContaining({ appointmentId: 'app-a' })]);
+    });
+
+    it('should check operations against the occurrences of a series created before them', async () => {
+      const result = await batchService.executeBatch('test-tenant', 'test-user', 'tenant-user', {
+        operations: [
+          {
+            action: 'create',
+            data: { title: 'Weekly', startTime: '2024-01-16T10:00:00Z', endTime: '2024-01-16T11:00:00Z', recurrenceRule: 'FREQ=WEEKLY;COUNT=4' }
+          },
+          { action: 'create', data: { title: 'Second week', startTime: '2024-01-23T10:30:00Z', endTime: '2024-01-23T11:30:00Z' } }
+        ]
+      });
+
+      expect(result.results.map(item => item.statusCode)).toEqual([201, 409]);
+      expect(result.results[1].error?.details.conflicts).toEqual([
+        expect.objectContaining({ appointmentId: `${result.results[0].appointmentId}_20240123T100000Z` })
+      ]);
+    });
+
+    it('should write nothing in all-or-nothing mode when an operation fails', async () => {
+      const result = await batchService.executeBatch('test-tenant', 'other-user', 'tenant-user', {
+        atomic: true,
+        operations: [
+          { action: 'create', data: { title: 'New', startTime: '2024-01-16T10:00:00Z', endTime: '2024-01-16T11:00:00Z' } },
+          { action: 'delete', appointmentId: 'app-a' }
+        ]
+      });
+
+      expect(result.results.map(item => [item.status, item.statusCode])).toEqual([['aborted', 424], ['failed', 403]]);
+      expect(mockDynamoDB.transactWrite).not.toHaveBeenCalled();
+      expect(mockDynamoDB.batchWrite).not.toHaveBeenCalled();
+      expect(mockDynamoDB.update).not.toHaveBeenCalled();
+    });
+
+    it('should write all-or-nothing batches in one transaction', async () => {
+      const result = await batchService.executeBatch('test-tenant', 'test-user', 'tenant-user', {
+        atomic: true,
+        operations: [
+          { action: 'create', data: { title: 'New', startTime: '2024-01-16T10:00:00Z', endTime: '2024-01-16T11:00:00Z' } },
+          { action: 'delete', appointmentId: 'app-a' }
+        ]
+      });
+
+      expect(result).toMatchObject({ atomic: true, succeeded: 2, failed: 0 });
+      const { TransactItems } = mockDynamoDB.transactWrite.mock.calls[0][0];
+      expect(TransactItems).toHaveLength(2);
+      expect(TransactItems[0].Put.ConditionExpression).toBe('attribute_not_exists(PK)');
+      expect(TransactItems[1].Update.ConditionExpression).toContain('version = :currentVersion');
+    });
+
+    it('should point out which operation cancelled the transaction', async () => {
+      mockDynamoDB.transactWrite.mockReturnValue({
+        promise: () => Promise.reject(Object.assign(
+          new Error('Transaction cancelled, please refer cancellation reasons for specific reasons [None, ConditionalCheckFailed]'),
+          { code: 'TransactionCanceledException' }
+        ))
+      });
+
+      const result = await batchService.executeBatch('test-tenant', 'test-user', 'tenant-user', {
+        atomic: true,
+        operations: [
+          { action: 'cancel', appointmentId: 'app-a' },
+          { action: 'cancel', appointmentId: 'app-b' }
+        ]
+      });
+
+      expect(result.results.map(item => [item.status, item.statusCode])).toEqual([['aborted', 424], ['failed', 412]]);
+      expect(mockDynamoDB.put).not.toHaveBeenCalled();
+    });
+
+    it('should reject oversized or malformed batches as a whole', async () => {
+      const operations = Array.from({ length: 26 }, () => ({ action: 'delete', appointmentId: 'app-a' }));
+
+      await expect(
+        batchService.executeBatch('test-tenant', 'test-user', 'tenant-user', { atomic: true, operations })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      await expect(
+        batchService.executeBatch('test-tenant', 'test-user', 'tenant-user', { operations: [] })
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('timezones', () => {
+    let tenantService: jest.Mocked<TenantService>;
+
+    beforeEach(() => {
+      tenantService = MockedTenantService.mock.instances[0] as jest.Mocked<TenantService>;
+      tenantService.getSettings.mockResolvedValue({
+        ...DEFAULT_TENANT_SETTINGS,
+        timezone: 'America/Los_Angeles',
+        workingHours: { ...DEFAULT_TENANT_SETTINGS.workingHours, end: '20:00' }
+      });
+
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
+    });
+
+    it('should read the tenant settings once per batch', async () => {
+      mockDynamoDB.batchWrite.mockReturnValue(awsResponse({}));
+
+      await batchService.createAppointments('test-tenant', 'test-user', 'tenant-user', [
+        { title: 'First', startTime: '2024-01-15T09:00:00Z', endTime: '2024-01-15T10:00:00Z' },
+        { title: 'Second', startTime: '2024-01-15T10:00:00Z', endTime: '2024-01-15T11:00:00Z', timezone: 'Europe/Berlin' },
+        { title: 'Third', startTime: '2024-01-15T11:00:00Z', endTime: '2024-01-15T12:00:00Z' }
+      ], { dryRun: true });
+
+      expect(tenantService.getSettings).toHaveBeenCalledTimes(1);
+    });
+  });
+});
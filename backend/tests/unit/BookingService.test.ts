@@ -0,0 +1,222 @@
+import { BookingService } from '../../src/services/BookingService';
+import { TenantService } from '../../src/services/TenantService';
+import { ServiceCatalogService } from '../../src/services/ServiceCatalogService';
+import { AvailabilityService } from '../../src/services/AvailabilityService';
+import { Appointment, AppointmentService } from '../../src/services/AppointmentService';
+import { RsvpService } from '../../src/services/RsvpService';
+import { MailTransport } from '../../src/notifications/MailTransport';
+import { ConflictError } from '../../src/utils/Errors';
+
+jest.mock('../../src/services/TenantService');
+jest.mock('../../src/services/ServiceCatalogService');
+jest.mock('../../src/services/AvailabilityService');
+jest.mock('../../src/services/AppointmentService');
+jest.mock('../../src/services/RsvpService');
+
+const MockedTenantService = TenantService as jest.MockedClass<typeof TenantService>;
+const MockedServiceCatalogService = ServiceCatalogService as jest.MockedClass<typeof ServiceCatalogService>;
+const MockedAvailabilityService = AvailabilityService as jest.MockedClass<typeof AvailabilityService>;
+const MockedAppointmentService = AppointmentService as jest.MockedClass<typeof AppointmentService>;
+const MockedRsvpService = RsvpService as jest.MockedClass<typeof RsvpService>;
+
+const now = new Date('2024-01-15T09:00:00.000Z');
+
+const consultation = {
+  serviceId: 'consultation',
+  tenantId: 'tenant-1',
+  name: 'Initial consultation',
+  durationMinutes: 45,
+  bufferBeforeMinutes: 0,
+  bufferAfterMinutes: 15,
+  price: { amount: 80, currency: 'USD' },
+  resourceIds: [],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+};
+
+const booked: Appointment = {
+  appointmentId: 'app-1',
+  tenantId: 'tenant-1',
+  userId: 'host-1',
+  title: 'Initial consultation',
+  startTime: '2024-01-16T10:00:00.000Z',
+  endTime: '2024-01-16T10:45:00.000Z',
+  timezone: 'Europe/Berlin',
+  customer: { name: 'Jane Doe', email: 'jane@example.com' },
+  status: 'scheduled',
+  reminderMinutes: 60,
+  createdAt: '2024-01-15T09:00:00.000Z',
+  updatedAt: '2024-01-15T09:00:00.000Z'
+};
+
+describe('BookingService', () => {
+  let bookingService: BookingService;
+  let mailTransport: jest.Mocked<MailTransport>;
+  let tenantService: jest.Mocked<TenantService>;
+  let serviceCatalogService: jest.Mocked<ServiceCatalogService>;
+  let availabilityService: jest.Mocked<AvailabilityService>;
+  let appointmentService: jest.Mocked<AppointmentService>;
+  let rsvpService: jest.Mocked<RsvpService>;
+
+  // A form token handed out with the page some time before `now`
+  const formToken = async (secondsBefore: number) => {
+    const page = await bookingService.getBookingPage('acme', new Date(now.getTime() - secondsBefore * 1000));
+    return page.formToken;
+  };
+
+  const bookingData = async (overrides: any = {}) => ({
+    serviceId: 'consultation',
+    startTime: '2024-01-16T10:00:00.000Z',
+    name: 'Jane Doe',
+    email: 'jane@example.com',
+    formToken: await formToken(30),
+    website: '',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mailTransport = { send: jest.fn().mockResolvedValue(undefined) };
+    bookingService = new BookingService(mailTransport);
+    tenantService = MockedTenantService.mock.instances[0] as jest.Mocked<TenantService>;
+    serviceCatalogService = MockedServiceCatalogService.mock.instances[0] as jest.Mocked<ServiceCatalogService>;
+    availabilityService = MockedAvailabilityService.mock.instances[0] as jest.Mocked<AvailabilityService>;
+    appointmentService = MockedAppointmentService.mock.instances[0] as jest.Mocked<AppointmentService>;
+    rsvpService = MockedRsvpService.mock.instances[0] as jest.Mocked<RsvpService>;
+
+    tenantService.getTenantBySlug.mockResolvedValue({
+      tenantId: 'tenant-1',
+      name: 'Acme Clinic',
+      slug: 'acme',
+      plan: 'basic',
+      status: 'active',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      settings: {} as any
+    });
+    tenantService.getSettings.mockResolvedValue({
+      timezone: 'Europe/Berlin',
+      workingHours: { start: '09:00', end: '17:00', days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'] },
+      publicBooking: { enabled: true, userId: 'host-1' }
+    });
+    serviceCatalogService.listServices.mockResolvedValue([consultation]);
+    serviceCatalogService.getService.mockResolvedValue(consultation);
+    appointmentService.createAppointment.mockResolvedValue(booked);
+  });
+
+  describe('getBookingPage', () => {
+    it('should show the services without their internals', async () => {
+      const page = await bookingService.getBookingPage('acme');
+
+      expect(page.tenant).toEqual({ name: 'Acme Clinic', slug: 'acme', timezone: 'Europe/Berlin' });
+      expect(page.services).toEqual([{
+        serviceId: 'consultation',
+        name: 'Initial consultation',
+        durationMinutes: 45,
+        price: { amount: 80, currency: 'USD' }
+      }]);
+      expect(page.formToken).toEqual(expect.any(String));
+    });
+
+    it('should not find tenants without public booking', async () => {
+      tenantService.getSettings.mockResolvedValue({
+        timezone: 'UTC',
+        workingHours: { start: '09:00', end: '17:00', days: ['monday'] }
+      });
+
+      await expect(bookingService.getBookingPage('acme')).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('findSlots', () => {
+    it('should only offer slots in which every resource of the service is free', async () => {
+      serviceCatalogService.getService.mockResolvedValue({ ...consultation, resourceIds: ['room-1', 'laser'] });
+      const slot = (startTime: string) => ({ startTime, endTime: startTime });
+      availabilityService.findAvailableSlots.mockImplementation(async (_tenantId, _requesterId, query) => ({
+        userId: 'host-1',
+        timezone: 'Europe/Berlin',
+        durationMinutes: 45,
+        slots: query.resourceId === 'room-1'
+          ? [slot('2024-01-16T09:00:00.000Z'), slot('2024-01-16T10:00:00.000Z')]
+          : [slot('2024-01-16T10:00:00.000Z'), slot('2024-01-16T11:00:00.000Z')]
+      }));
+
+      const result = await bookingService.findSlots('acme', {
+        serviceId: 'consultation',
+        startDate: '2024-01-16',
+        endDate: '2024-01-16'
+      });
+
+      expect(result.slots).toEqual([slot('2024-01-16T10:00:00.000Z')]);
+      expect(availabilityService.findAvailableSlots).toHaveBeenCalledWith('tenant-1', 'host-1', {
+        startDate: '2024-01-16',
+        endDate: '2024-01-16',
+        duration: 45,
+        userId: 'host-1',
+        resourceId: 'laser'
+      });
+    });
+  });
+
+  describe('book', () => {
+    it('should book into the host calendar and mail a confirmation link', async () => {
+      const booking = await bookingService.book('acme', await bookingData({ phone: '+49 30 123456' }), 'request-1', now);
+
+      expect(booking).toEqual({
+        appointmentId: 'app-1',
+        title: 'Initial consultation',
+        startTime: '2024-01-16T10:00:00.000Z',
+        endTime: '2024-01-16T10:45:00.000Z',
+        timezone: 'Europe/Berlin',
+        status: 'scheduled'
+      });
+      expect(appointmentService.createAppointment).toHaveBeenCalledWith('tenant-1', 'host-1', 'tenant-user', {
+        serviceId: 'consultation',
+        startTime: new Date('2024-01-16T10:00:00.000Z'),
+        timezone: 'Europe/Berlin',
+        customer: { name: 'Jane Doe', email: 'jane@example.com', phone: '+49 30 123456' }
+      }, 'request-1');
+
+      const mail = mailTransport.send.mock.calls[0][0];
+      expect(mail.to).toBe('Jane Doe <jane@example.com>');
+      expect(mail.text).toMatch(/\/book\/acme\/\?appointmentId=app-1&token=/);
+    });
+
+    it('should turn away bots that fill in the honeypot or send the form right away', async () => {
+      await expect(bookingService.book('acme', await bookingData({ website: 'http://spam.example' }), undefined, now))
+        .rejects.toMatchObject({ statusCode: 400 });
+      await expect(bookingService.book('acme', await bookingData({ formToken: await formToken(1) }), undefined, now))
+        .rejects.toMatchObject({ statusCode: 400 });
+      await expect(bookingService.book('acme', await bookingData({ formToken: await formToken(3 * 60 * 60) }), undefined, now))
+        .rejects.toMatchObject({ statusCode: 400 });
+
+      expect(appointmentService.createAppointment).not.toHaveBeenCalled();
+    });
+
+    it('should not tell customers whose appointments are in the way', async () => {
+      appointmentService.createAppointment.mockRejectedValue(
+        new ConflictError('Appointment conflicts with existing appointments', { conflicts: [{ title: 'Private' }] })
+      );
+
+      await expect(bookingService.book('acme', await bookingData(), undefined, now)).rejects.toMatchObject({
+        statusCode: 409,
+        message: 'That time is no longer available',
+        details: undefined
+      });
+      expect(mailTransport.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirm', () => {
+    it('should confirm the booking with the token from the mail', async () => {
+      await bookingService.book('acme', await bookingData(), undefined, now);
+      const token = new URL(mailTransport.send.mock.calls[0][0].text.split('\n').pop()!).searchParams.get('token')!;
+      rsvpService.confirmBooking.mockResolvedValue({ ...booked, status: 'confirmed' });
+
+      const booking = await bookingService.confirm('acme', 'app-1', token, 'request-1');
+
+      expect(booking?.status).toBe('confirmed');
+      expect(rsvpService.confirmBooking).toHaveBeenCalledWith('tenant-1', 'app-1', 'jane@example.com', 'request-1');
+      await expect(bookingService.confirm('acme', 'app-2', token)).resolves.toBeNull();
+    });
+  });
+});
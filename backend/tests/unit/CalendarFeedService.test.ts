@@ -0,0 +1,146 @@
+import { CalendarFeedService } from '../../src/services/CalendarFeedService';
+import { AppointmentService } from '../../src/services/AppointmentService';
+import { TenantService } from '../../src/services/TenantService';
+import { awsResponse, mockDynamoDB } from '../helpers/aws';
+
+jest.mock('../../src/services/AppointmentService');
+jest.mock('../../src/services/TenantService');
+
+const MockedAppointmentService = AppointmentService as jest.MockedClass<typeof AppointmentService>;
+const MockedTenantService = TenantService as jest.MockedClass<typeof TenantService>;
+
+describe('CalendarFeedService', () => {
+  let calendarFeedService: CalendarFeedService;
+  let mockAppointmentService: jest.Mocked<AppointmentService>;
+  let mockTenantService: jest.Mocked<TenantService>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    calendarFeedService = new CalendarFeedService();
+    mockAppointmentService = MockedAppointmentService.mock.instances[0] as jest.Mocked<AppointmentService>;
+    mockTenantService = MockedTenantService.mock.instances[0] as jest.Mocked<TenantService>;
+
+    mockDynamoDB.put.mockReturnValue(awsResponse({}));
+    mockDynamoDB.delete.mockReturnValue(awsResponse({}));
+    mockAppointmentService.listCalendarEntries.mockResolvedValue([]);
+    mockTenantService.getTenant.mockResolvedValue(null);
+  });
+
+  // The feed owner as stored in the users table
+  let owner: any;
+
+  // Stores the feed created by `createFeed` so it can be read back
+  const createStoredFeed = async (scope: 'user' | 'tenant' = 'user') => {
+    const feed = await calendarFeedService.createFeed('test-tenant', 'test-user', 'tenant-admin', { scope });
+    const { Item } = mockDynamoDB.put.mock.calls[mockDynamoDB.put.mock.calls.length - 1][0];
+    owner = { userId: 'test-user', tenantId: 'test-tenant', role: 'tenant-admin', status: 'active' };
+    mockDynamoDB.get.mockImplementation((params: any) => awsResponse({ Item: params.Key.userId ? owner : Item }));
+    return { feed, Item };
+  };
+
+  describe('createFeed', () => {
+    it('should store a hash of the token rather than the token itself', async () => {
+      const { feed, Item } = await createStoredFeed();
+
+      expect(feed.token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(Item).toMatchObject({
+        PK: `TENANT#test-tenant#FEED#${feed.feedId}`,
+        GSI1PK: 'TENANT#test-tenant#FEEDS',
+        scope: 'user',
+        userId: 'test-user'
+      });
+      expect(JSON.stringify(Item)).not.toContain(feed.token);
+    });
+
+    it('should only let admins subscribe to the whole tenant', async () => {
+      await expect(
+        calendarFeedService.createFeed('test-tenant', 'test-user', 'tenant-user', { scope: 'tenant' })
+      ).rejects.toMatchObject({ statusCode: 403 });
+      expect(mockDynamoDB.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('renderFeed', () => {
+    it('should render the owner\'s appointments for user feeds', async () => {
+      const { feed } = await createStoredFeed('user');
+      mockTenantService.getTenant.mockResolvedValue({ name: 'Acme Clinic' } as any);
+
+      const calendar = await calendarFeedService.renderFeed('test-tenant', feed.feedId, feed.token);
+
+      expect(calendar).toContain('X-WR-CALNAME:Acme Clinic appointments');
+      expect(mockAppointmentService.listCalendarEntries).toHaveBeenCalledWith(
+        'test-tenant', 'test-user', expect.any(String), expect.any(String)
+      );
+    });
+
+    it('should render the whole tenant for tenant feeds', async () => {
+      const { feed } = await createStoredFeed('tenant');
+
+      await calendarFeedService.renderFeed('test-tenant', feed.feedId, feed.token);
+
+      expect(mockAppointmentService.listCalendarEntries).toHaveBeenCalledWith(
+        'test-tenant', undefined, expect.any(String), expect.any(String)
+      );
+    });
+
+    it('should not tell wrong tokens and unknown feeds apart', async () => {
+      const { feed } = await createStoredFeed();
+
+      await expect(calendarFeedService.renderFeed('test-tenant', feed.feedId, 'wrong-token')).rejects.toMatchObject({ statusCode: 404 });
+      await expect(calendarFeedService.renderFeed('test-tenant', feed.feedId, undefined)).rejects.toMatchObject({ statusCode: 404 });
+
+      mockDynamoDB.get.mockReturnValue(awsResponse({}));
+      await expect(calendarFeedService.renderFeed('test-tenant', feed.feedId, feed.token)).rejects.toMatchObject({ statusCode: 404 });
+      expect(mockAppointmentService.listCalendarEntries).not.toHaveBeenCalled();
+    });
+
+    it('should stop serving feeds of disabled owners', async () => {
+      const { feed } = await createStoredFeed();
+      owner.status = 'disabled';
+
+      await expect(calendarFeedService.renderFeed('test-tenant', feed.feedId, feed.token)).rejects.toMatchObject({ statusCode: 404 });
+      expect(mockAppointmentService.listCalendarEntries).not.toHaveBeenCalled();
+    });
+
+    it('should stop serving tenant feeds once the owner is no longer an admin', async () => {
+      const { feed } = await createStoredFeed('tenant');
+      owner.role = 'tenant-user';
+
+      await expect(calendarFeedService.renderFeed('test-tenant', feed.feedId, feed.token)).rejects.toMatchObject({ statusCode: 404 });
+      expect(mockAppointmentService.listCalendarEntries).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeFeed', () => {
+    it('should delete the feed for its owner', async () => {
+      const { feed, Item } = await createStoredFeed();
+
+      await expect(calendarFeedService.revokeFeed('test-tenant', feed.feedId, 'test-user', 'tenant-user')).resolves.toBe(true);
+      expect(mockDynamoDB.delete).toHaveBeenCalledWith(expect.objectContaining({ Key: { PK: Item.PK, SK: Item.SK } }));
+    });
+
+    it('should not let other users revoke it', async () => {
+      const { feed } = await createStoredFeed();
+
+      await expect(
+        calendarFeedService.revokeFeed('test-tenant', feed.feedId, 'other-user', 'tenant-user')
+      ).rejects.toMatchObject({ statusCode: 403 });
+      expect(mockDynamoDB.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listFeeds', () => {
+    it('should list a user\'s own feeds without token hashes', async () => {
+      const { Item } = await createStoredFeed();
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [Item] }));
+
+      const feeds = await calendarFeedService.listFeeds('test-tenant', 'test-user', 'tenant-user');
+
+      expect(feeds[0]).not.toHaveProperty('tokenHash');
+      expect(mockDynamoDB.query).toHaveBeenCalledWith(expect.objectContaining({
+        KeyConditionExpression: 'GSI1PK = :feedsKey AND begins_with(GSI1SK, :userPrefix)',
+        ExpressionAttributeValues: { ':feedsKey': 'TENANT#test-tenant#FEEDS', ':userPrefix': 'USER#test-user#' }
+      }));
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { CalendarImportService } from '../../src/services/CalendarImportService';
+import { BatchService } from '../../src/services/BatchService';
+import { TenantService } from '../../src/services/TenantService';
+import { NotFoundError, ValidationError } from '../../src/utils/Errors';
+
+jest.mock('../../src/services/BatchService');
+jest.mock('../../src/services/TenantService');
+
+const MockedBatchService = BatchService as jest.MockedClass<typeof BatchService>;
+const MockedTenantService = TenantService as jest.MockedClass<typeof TenantService>;
+
+const calendar = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'UID:ok@example.com',
+  'SUMMARY:Check-up',
+  'DTSTART:20240115T100000',
+  'DTEND:20240115T103000',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:busy@example.com',
+  'SUMMARY:Follow-up',
+  'DTSTART:20240115T101500Z',
+  'DTEND:20240115T104500Z',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:zone@example.com',
+  'SUMMARY:Elsewhere',
+  'DTSTART;TZID=Mars/Olympus:20240116T100000',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:ok@example.com',
+  'RECURRENCE-ID:20240122T100000Z',
+  'SUMMARY:Moved check-up',
+  'DTSTART:20240123T100000Z',
+  'DTEND:20240123T103000Z',
+  'END:VEVENT',
+  'END:VCALENDAR'
+].join('\r\n');
+
+describe('CalendarImportService', () => {
+  let calendarImportService: CalendarImportService;
+  let mockBatchService: jest.Mocked<BatchService>;
+  let mockTenantService: jest.Mocked<TenantService>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    calendarImportService = new CalendarImportService();
+    mockBatchService = MockedBatchService.mock.instances[0] as jest.Mocked<BatchService>;
+    mockTenantService = MockedTenantService.mock.instances[0] as jest.Mocked<TenantService>;
+
+    mockTenantService.getSettings.mockResolvedValue({
+      timezone: 'Europe/Berlin',
+      workingHours: { start: '09:00', end: '17:00', days: ['monday'] }
+    });
+    mockBatchService.createAppointments.mockResolvedValue([
+      { index: 0, action: 'create', status: 'succeeded', statusCode: 201, appointmentId: 'app-1' },
+      {
+        index: 1,
+        action: 'create',
+        status: 'failed',
+        statusCode: 409,
+        error: {
+          message: 'Appointment conflicts with existing appointments',
+          details: { conflicts: [{ appointmentId: 'app-1', title: 'Check-up' }] }
+        }
+      }
+    ]);
+  });
+
+  it('should preview the import without committing by default', async () => {
+    const report = await calendarImportService.importCalendar('test-tenant', 'test-user', 'tenant-user', { calendar });
+
+    expect(mockBatchService.createAppointments).toHaveBeenCalledWith(
+      'test-tenant',
+      'test-user',
+      'tenant-user',
+      [
+        expect.objectContaining({
+          title: 'Check-up',
+          startTime: '2024-01-15T09:00:00.000Z', // Floating times are in the tenant's zone
+          endTime: '2024-01-15T09:30:00.000Z',
+          overrideConflicts: false
+        }),
+        expect.objectContaining({ title: 'Follow-up', startTime: '2024-01-15T10:15:00.000Z' })
+      ],
+      { dryRun: true, sendInvitations: false },
+      undefined
+    );
+
+    expect(report.dryRun).toBe(true);
+    expect(report.timezone).toBe('Europe/Berlin');
+    expect(report.summary).toEqual({ total: 4, ready: 1, created: 0, conflict: 1, invalid: 1, skipped: 1, failed: 0 });
+    expect(report.items.map(item => item.status)).toEqual(['ready', 'conflict', 'invalid', 'skipped']);
+    expect(report.items[1].conflicts).toEqual([{ appointmentId: 'app-1', title: 'Check-up' }]);
+    expect(report.items[2].errors).toEqual(['Unknown time zone "Mars/Olympus" in DTSTART']);
+  });
+
+  it('should report created appointments when committing', async () => {
+    const report = await calendarImportService.importCalendar(
+      'test-tenant', 'test-user', 'tenant-user', { calendar, dryRun: false }, 'request-1'
+    );
+
+    expect(mockBatchService.createAppointments).toHaveBeenCalledWith(
+      'test-tenant', 'test-user', 'tenant-user', expect.any(Array), { dryRun: false, sendInvitations: false }, 'request-1'
+    );
+    expect(report.items[0]).toMatchObject({ uid: 'ok@example.com', status: 'created', appointmentId: 'app-1' });
+    expect(report.summary.created).toBe(1);
+  });
+
+  it('should reject files that are not iCalendar documents', async () => {
+    await expect(
+      calendarImportService.importCalendar('test-tenant', 'test-user', 'tenant-user', { calendar: 'Subject,Start\nReview,2024-01-15' })
+    ).rejects.toThrow(ValidationError);
+    expect(mockBatchService.createAppointments).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown tenants', async () => {
+    mockTenantService.getSettings.mockResolvedValue(null);
+
+    await expect(
+      calendarImportService.importCalendar('missing-tenant', 'test-user', 'tenant-user', { calendar })
+    ).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,114 @@
+import { DelegationService } from '../../src/services/DelegationService';
+import { User, UserService } from '../../src/services/UserService';
+import { awsResponse, mockDynamoDB } from '../helpers/aws';
+
+jest.mock('../../src/services/UserService');
+
+const MockedUserService = UserService as jest.MockedClass<typeof UserService>;
+
+const grant = {
+  tenantId: 'test-tenant',
+  ownerId: 'doctor-1',
+  delegateId: 'reception-1',
+  grantedBy: 'doctor-1',
+  createdAt: '2024-01-01T00:00:00.000Z'
+};
+
+describe('DelegationService', () => {
+  let delegationService: DelegationService;
+  let userService: jest.Mocked<UserService>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delegationService = new DelegationService();
+    userService = MockedUserService.mock.instances[0] as jest.Mocked<UserService>;
+    userService.findMember.mockResolvedValue({ userId: 'reception-1', tenantId: 'test-tenant' } as User);
+    mockDynamoDB.put.mockReturnValue(awsResponse({}));
+  });
+
+  describe('grantDelegate', () => {
+    it('should share the owner\'s calendar with the delegate', async () => {
+      const delegation = await delegationService.grantDelegate('test-tenant', 'doctor-1', 'doctor-1', 'tenant-user', {
+        delegateId: 'reception-1'
+      });
+
+      expect(delegation).toEqual(expect.objectContaining({ ownerId: 'doctor-1', delegateId: 'reception-1', grantedBy: 'doctor-1' }));
+      expect(mockDynamoDB.put.mock.calls[0][0].Item).toEqual(expect.objectContaining({
+        PK: 'TENANT#test-tenant#USER#doctor-1#DELEGATES',
+        SK: 'DELEGATE#reception-1',
+        GSI1PK: 'TENANT#test-tenant#DELEGATE#reception-1',
+        GSI1SK: 'OWNER#doctor-1'
+      }));
+    });
+
+    it('should let admins share other users\' calendars', async () => {
+      const delegation = await delegationService.grantDelegate('test-tenant', 'doctor-1', 'admin-1', 'tenant-admin', {
+        delegateId: 'reception-1'
+      });
+
+      expect(delegation.grantedBy).toBe('admin-1');
+    });
+
+    it('should keep users out of other users\' calendars', async () => {
+      await expect(delegationService.grantDelegate('test-tenant', 'doctor-1', 'reception-1', 'tenant-user', {
+        delegateId: 'reception-1'
+      })).rejects.toMatchObject({ statusCode: 403 });
+      expect(mockDynamoDB.put).not.toHaveBeenCalled();
+    });
+
+    it('should not delegate to the owner', async () => {
+      await expect(delegationService.grantDelegate('test-tenant', 'doctor-1', 'doctor-1', 'tenant-user', {
+        delegateId: 'doctor-1'
+      })).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should only delegate to users of the tenant', async () => {
+      userService.findMember.mockResolvedValue(null);
+
+      await expect(delegationService.grantDelegate('test-tenant', 'doctor-1', 'doctor-1', 'tenant-user', {
+        delegateId: 'someone-else'
+      })).rejects.toMatchObject({ statusCode: 422 });
+      expect(userService.findMember).toHaveBeenCalledWith('test-tenant', 'someone-else');
+      expect(mockDynamoDB.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeDelegate', () => {
+    it('should remove the grant', async () => {
+      mockDynamoDB.delete.mockReturnValue(awsResponse({ Attributes: grant }));
+
+      expect(await delegationService.revokeDelegate('test-tenant', 'doctor-1', 'reception-1', 'doctor-1', 'tenant-user')).toBe(true);
+      expect(mockDynamoDB.delete).toHaveBeenCalledWith(expect.objectContaining({
+        Key: { PK: 'TENANT#test-tenant#USER#doctor-1#DELEGATES', SK: 'DELEGATE#reception-1' }
+      }));
+    });
+
+    it('should report grants that do not exist', async () => {
+      mockDynamoDB.delete.mockReturnValue(awsResponse({}));
+
+      expect(await delegationService.revokeDelegate('test-tenant', 'doctor-1', 'nobody', 'doctor-1', 'tenant-user')).toBe(false);
+    });
+  });
+
+  describe('listing', () => {
+    it('should list the delegates and the calendars delegated', async () => {
+      mockDynamoDB.query.mockReturnValue(awsResponse({
+        Items: [{ PK: 'x', SK: 'y', GSI1PK: 'z', GSI1SK: 'w', ...grant }]
+      }));
+
+      expect(await delegationService.listDelegates('test-tenant', 'doctor-1', 'doctor-1', 'tenant-user')).toEqual([grant]);
+      expect(await delegationService.listDelegatedCalendars('test-tenant', 'reception-1')).toEqual([grant]);
+      expect(mockDynamoDB.query.mock.calls[1][0]).toEqual(expect.objectContaining({
+        IndexName: 'GSI1',
+        ExpressionAttributeValues: { ':delegateKey': 'TENANT#test-tenant#DELEGATE#reception-1' }
+      }));
+    });
+
+    it('should check grants', async () => {
+      mockDynamoDB.get.mockReturnValueOnce(awsResponse({ Item: grant })).mockReturnValueOnce(awsResponse({}));
+
+      expect(await delegationService.isDelegate('test-tenant', 'doctor-1', 'reception-1')).toBe(true);
+      expect(await delegationService.isDelegate('test-tenant', 'doctor-1', 'someone')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { ICalendar } from '../../src/utils/ICalendar';
+import { Appointment } from '../../src/services/AppointmentService';
+
+const appointment = (overrides: Partial<Appointment> = {}): Appointment => ({
+  appointmentId: 'app-1',
+  tenantId: 'test-tenant',
+  userId: 'test-user',
+  title: 'Check-up',
+  startTime: '2024-01-15T10:00:00.000Z',
+  endTime: '2024-01-15T10:30:00.000Z',
+  status: 'confirmed',
+  reminderMinutes: 15,
+  createdAt: '2024-01-01T08:00:00.000Z',
+  updatedAt: '2024-01-02T09:30:00.000Z',
+  version: 3,
+  ...overrides
+});
+
+const unfold = (calendar: string) => calendar.replace(/\r\n /g, '');
+
+const document = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+describe('ICalendar', () => {
+  it('should serialize appointments as VEVENTs with CRLF line endings', () => {
+    const calendar = ICalendar.serialize([
+      appointment({
+        location: 'Room 1',
+        attendees: [{ name: 'Pat', email: 'patient@example.com', responseStatus: 'accepted' }, { email: 'guest@example.com', responseStatus: 'needs-action' }]
+      })
+    ], { name: 'Clinic appointments' });
+
+    expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(calendar).toContain('X-WR-CALNAME:Clinic appointments\r\n');
+    expect(calendar).toContain('UID:app-1@appointifyx\r\n');
+    expect(calendar).toContain('DTSTART:20240115T100000Z\r\nDTEND:20240115T103000Z\r\n');
+    expect(calendar).toContain('STATUS:CONFIRMED\r\n');
+    expect(calendar).toContain('SEQUENCE:3\r\n');
+    expect(calendar).toContain('LOCATION:Room 1\r\n');
+    expect(calendar).toContain('ATTENDEE;CN="Pat";ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED:mailto:patient@exa\r\n mple.com\r\n');
+    expect(calendar).toContain('ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION:mailto:guest@example.co\r\n m\r\n');
+    expect(calendar).toContain('BEGIN:VALARM\r\nACTION:DISPLAY\r\nDESCRIPTION:Check-up\r\nTRIGGER:-PT15M\r\nEND:VALARM\r\n');
+  });
+
+  it('should map statuses and leave out alarms for cancelled appointments', () => {
+    const calendar = ICalendar.serialize([
+      appointment({ appointmentId: 'app-1', status: 'scheduled' }),
+      appointment({ appointmentId: 'app-2', status: 'cancelled' })
+    ], { name: 'Appointments' });
+
+    expect(calendar).toContain('STATUS:TENTATIVE');
+    expect(calendar).toContain('STATUS:CANCELLED');
+    expect(calendar.match(/BEGIN:VALARM/g)).toHaveLength(1);
+  });
+
+  it('should escape text and fold long lines', () => {
+    const description = 'Bring: forms, insurance card; arrive early\nAsk about the follow-up – ' + 'ü'.repeat(60);
+    const calendar = ICalendar.serialize([appointment({ description })], { name: 'Appointments' });
+
+    calendar.split('\r\n').forEach(line => expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75));
+    expect(unfold(calendar)).toContain(
+      'DESCRIPTION:Bring: forms\\, insurance card\\; arrive early\\nAsk about the follow-up – ' + 'ü'.repeat(60)
+    );
+  });
+
+  it('should quote attendee names and keep line breaks out of every line', () => {
+    const calendar = ICalendar.serialize([appointment({
+      title: 'Check-up\rSTATUS:CANCELLED',
+      attendees: [{ name: 'Pat "P" Doe\r\nATTENDEE:mailto:intruder@example.com', email: 'pat@example.com', responseStatus: 'accepted' }]
+    })], { name: 'Appointments' });
+    const lines = unfold(calendar).split('\r\n');
+
+    expect(lines).toContain('ATTENDEE;CN="Pat \'P\' Doe  ATTENDEE:mailto:intruder@example.com";ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED:mailto:pat@example.com');
+    expect(lines).toContain('SUMMARY:Check-upSTATUS:CANCELLED');
+    expect(lines.filter(line => line.startsWith('ATTENDEE'))).toHaveLength(1);
+    expect(lines.filter(line => line.startsWith('STATUS'))).toEqual(['STATUS:CONFIRMED']);
+  });
+
+  it('should read events with zones, recurrence, attendees and alarms', () => {
+    const [event] = ICalendar.parse(document(
+      'BEGIN:VEVENT',
+      'UID:abc@example.com',
+      'SUMMARY:Weekly review\\, team',
+      'DESCRIPTION:Line one\\nLine two with a very long text that the exporting client fol',
+      ' ded onto a second line',
+      'DTSTART;TZID=Europe/Berlin:20240115T100000',
+      'DTEND;TZID="Europe/Berlin":20240115T110000',
+      'RRULE:FREQ=WEEKLY;COUNT=4;WKST=MO',
+      'STATUS:CONFIRMED',
+      'ATTENDEE;CN="Doe; Jane";PARTSTAT=ACCEPTED:mailto:jane@example.com',
+      'ATTENDEE:MAILTO:john@example.com',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'TRIGGER:-PT30M',
+      'END:VALARM',
+      'END:VEVENT'
+    ));
+
+    expect(event.uid).toBe('abc@example.com');
+    expect(event.errors).toEqual([]);
+    expect(event.data).toEqual({
+      title: 'Weekly review, team',
+      description: 'Line one\nLine two with a very long text that the exporting client folded onto a second line',
+      startTime: '2024-01-15T09:00:00.000Z',
+      endTime: '2024-01-15T10:00:00.000Z',
+      timezone: 'Europe/Berlin',
+      recurrenceRule: 'FREQ=WEEKLY;COUNT=4',
+      status: 'confirmed',
+      attendees: [{ name: 'Doe; Jane', email: 'jane@example.com' }, { email: 'john@example.com' }],
+      reminderMinutes: 30
+    });
+  });
+
+  it('should read floating times and all-day dates in the default zone', () => {
+    const [timed, allDay, windows] = ICalendar.parse(document(
+      'BEGIN:VEVENT',
+      'SUMMARY:Floating',
+      'DTSTART:20240701T090000',
+      'DURATION:PT45M',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'SUMMARY:Holiday',
+      'DTSTART;VALUE=DATE:20240704',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'SUMMARY:Outlook',
+      'DTSTART;TZID=Pacific Standard Time:20240701T090000',
+      'DTEND;TZID=Pacific Standard Time:20240701T100000',
+      'END:VEVENT'
+    ), 'America/New_York');
+
+    expect(timed.data).toMatchObject({ startTime: '2024-07-01T13:00:00.000Z', endTime: '2024-07-01T13:45:00.000Z' });
+    expect(allDay.data).toMatchObject({ startTime: '2024-07-04T04:00:00.000Z', endTime: '2024-07-05T04:00:00.000Z' });
+    expect(windows.data).toMatchObject({
+      startTime: '2024-07-01T16:00:00.000Z',
+      endTime: '2024-07-01T17:00:00.000Z',
+      timezone: 'America/Los_Angeles'
+    });
+    expect(timed.data.timezone).toBeUndefined();
+  });
+
+  it('should report events it cannot read and mark occurrence overrides', () => {
+    const [unknownZone, override] = ICalendar.parse(document(
+      'BEGIN:VTIMEZONE',
+      'TZID:Custom',
+      'BEGIN:STANDARD',
+      'DTSTART:19701025T030000',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+      'BEGIN:VEVENT',
+      'SUMMARY:Somewhere',
+      'DTSTART;TZID=Custom:20240115T100000',
+      'EXDATE:20240122T100000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:abc@example.com',
+      'RECURRENCE-ID:20240122T090000Z',
+      'SUMMARY:Moved',
+      'DTSTART:20240123T090000Z',
+      'DTEND:20240123T100000Z',
+      'END:VEVENT'
+    ));
+
+    expect(unknownZone.errors).toEqual(['Unknown time zone "Custom" in DTSTART']);
+    expect(unknownZone.warnings).toEqual(['EXDATE is not supported; those dates are left as they are in the series']);
+    expect(override.recurrenceId).toBe('20240122T090000Z');
+  });
+
+  it('should reject text that is not an iCalendar document', () => {
+    expect(() => ICalendar.parse('Subject,Start Date\nReview,01/15/2024')).toThrow('Not an iCalendar document');
+  });
+});
@@ -0,0 +1,109 @@
+import { InvitationService } from '../../src/services/InvitationService';
+import { TenantService } from '../../src/services/TenantService';
+import type { Appointment } from '../../src/services/AppointmentService';
+import { MailMessage } from '../../src/notifications/MailTransport';
+
+jest.mock('../../src/services/TenantService');
+
+const MockedTenantService = TenantService as jest.MockedClass<typeof TenantService>;
+
+const appointment: Appointment = {
+  appointmentId: 'app-1',
+  tenantId: 'test-tenant',
+  userId: 'test-user',
+  title: 'Check-up',
+  startTime: '2024-01-15T10:00:00.000Z',
+  endTime: '2024-01-15T10:30:00.000Z',
+  location: 'Room 1',
+  attendees: [],
+  status: 'scheduled',
+  reminderMinutes: 15,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+};
+
+describe('InvitationService', () => {
+  let invitationService: InvitationService;
+  let sent: MailMessage[];
+  let send: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sent = [];
+    send = jest.fn(async (message: MailMessage) => {
+      sent.push(message);
+    });
+    invitationService = new InvitationService({ send });
+
+    const mockTenantService = MockedTenantService.mock.instances[0] as jest.Mocked<TenantService>;
+    mockTenantService.getSettings.mockResolvedValue({ timezone: 'Europe/Berlin' } as any);
+  });
+
+  it('should mail each attendee signed RSVP links in the tenant timezone', async () => {
+    await invitationService.send(appointment, 'invitation', [
+      { name: 'Jane', email: 'jane@example.com', responseStatus: 'needs-action' },
+      { email: 'john@example.com', responseStatus: 'needs-action' }
+    ]);
+
+    expect(sent.map(message => message.to)).toEqual(['Jane <jane@example.com>', 'john@example.com']);
+    expect(sent[0].subject).toBe('Invitation: Check-up @ Jan 15, 2024 11:00 AM CET');
+    expect(sent[0].text).toContain('When: Monday, January 15, 2024 11:00 AM - 11:30 AM CET');
+    expect(sent[0].text).toContain('Where: Room 1');
+
+    const link = /Yes: (\S+)/.exec(sent[0].text)![1];
+    const params = new URL(link).searchParams;
+    expect(params.get('response')).toBe('accepted');
+    expect(invitationService.verifyRsvpToken('test-tenant', 'app-1', params.get('token')!)).toBe('jane@example.com');
+  });
+
+  it('should not put RSVP links in cancellations', async () => {
+    await invitationService.send(appointment, 'cancellation', [{ email: 'jane@example.com', responseStatus: 'accepted' }]);
+
+    expect(sent[0].subject).toMatch(/^Cancelled: Check-up/);
+    expect(sent[0].text).not.toContain('/rsvp?');
+  });
+
+  it('should tell attendees where a rescheduled appointment was and why it moved', async () => {
+    await invitationService.send({
+      ...appointment,
+      startTime: '2024-01-16T13:00:00.000Z',
+      endTime: '2024-01-16T13:30:00.000Z',
+      rescheduleHistory: [{
+        previousStartTime: appointment.startTime,
+        previousEndTime: appointment.endTime,
+        startTime: '2024-01-16T13:00:00.000Z',
+        endTime: '2024-01-16T13:30:00.000Z',
+        reason: 'Doctor is ill',
+        rescheduledBy: 'test-user',
+        rescheduledByRole: 'tenant-user',
+        rescheduledAt: '2024-01-14T00:00:00.000Z'
+      }]
+    }, 'reschedule', [{ email: 'jane@example.com', responseStatus: 'needs-action' }]);
+
+    expect(sent[0].subject).toBe('Rescheduled: Check-up @ Jan 16, 2024 2:00 PM CET');
+    expect(sent[0].text).toContain('Previously: Monday, January 15, 2024 11:00 AM - 11:30 AM CET');
+    expect(sent[0].text).toContain('Reason: Doctor is ill');
+    expect(sent[0].text).toContain('Yes: ');
+  });
+
+  it('should keep going when a mail cannot be sent', async () => {
+    send.mockRejectedValueOnce(new Error('Mailbox unavailable'));
+
+    await expect(invitationService.send(appointment, 'update', [
+      { email: 'jane@example.com', responseStatus: 'needs-action' },
+      { email: 'john@example.com', responseStatus: 'needs-action' }
+    ])).resolves.toBeUndefined();
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(sent.map(message => message.to)).toEqual(['john@example.com']);
+  });
+
+  it('should only accept tokens for the appointment they were issued for', () => {
+    const token = invitationService.rsvpToken('test-tenant', 'app-1', 'jane@example.com');
+
+    expect(invitationService.verifyRsvpToken('test-tenant', 'app-1', token)).toBe('jane@example.com');
+    expect(invitationService.verifyRsvpToken('test-tenant', 'app-2', token)).toBeNull();
+    expect(invitationService.verifyRsvpToken('other-tenant', 'app-1', token)).toBeNull();
+    expect(invitationService.verifyRsvpToken('test-tenant', 'app-1', 'forged.token')).toBeNull();
+  });
+});
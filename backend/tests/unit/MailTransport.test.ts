@@ -0,0 +1,46 @@
+import { ConsoleMailTransport, SesMailTransport, createMailTransport } from '../../src/notifications/MailTransport';
+import { awsResponse, mockSES } from '../helpers/aws';
+
+describe('MailTransport', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSES.sendEmail.mockReturnValue(awsResponse({ MessageId: 'message-1' }));
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('should send through SES from MAIL_FROM when deployed', async () => {
+    process.env['MAIL_TRANSPORT'] = 'ses';
+    process.env['MAIL_FROM'] = 'AppointifyX <no-reply@example.com>';
+
+    const transport = createMailTransport();
+    await transport.send({ to: 'Jane <jane@example.com>', subject: 'Hello', text: 'Hi Jane' });
+
+    expect(transport).toBeInstanceOf(SesMailTransport);
+    expect(mockSES.sendEmail).toHaveBeenCalledWith({
+      Source: 'AppointifyX <no-reply@example.com>',
+      Destination: { ToAddresses: ['Jane <jane@example.com>'] },
+      Message: {
+        Subject: { Data: 'Hello', Charset: 'UTF-8' },
+        Body: { Text: { Data: 'Hi Jane', Charset: 'UTF-8' } }
+      }
+    });
+  });
+
+  it('should need a sender for SES', () => {
+    process.env['MAIL_TRANSPORT'] = 'ses';
+    delete process.env['MAIL_FROM'];
+
+    expect(() => createMailTransport()).toThrow('MAIL_FROM is required');
+  });
+
+  it('should log mail by default', () => {
+    delete process.env['MAIL_TRANSPORT'];
+
+    expect(createMailTransport()).toBeInstanceOf(ConsoleMailTransport);
+  });
+});
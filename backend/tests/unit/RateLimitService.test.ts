@@ -0,0 +1,35 @@
+import { RateLimitService } from '../../src/services/RateLimitService';
+import { awsError, awsResponse, mockDynamoDB } from '../helpers/aws';
+
+describe('RateLimitService', () => {
+  let rateLimitService: RateLimitService;
+  const now = new Date('2024-01-15T09:00:45.000Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    rateLimitService = new RateLimitService();
+  });
+
+  it('should count requests per window without storing the key', async () => {
+    mockDynamoDB.update.mockReturnValue(awsResponse({}));
+
+    await rateLimitService.consume('booking', 'acme#203.0.113.7', { limit: 5, windowSeconds: 60 }, now);
+
+    const params = mockDynamoDB.update.mock.calls[0][0];
+    expect(params.Key.PK).toMatch(/^RATE_LIMIT#booking#[0-9a-f]{64}$/);
+    expect(params.Key.PK).not.toContain('203.0.113.7');
+    expect(params.Key.SK).toBe(`WINDOW#${Date.parse('2024-01-15T09:00:00.000Z') / 1000}`);
+    expect(params.ExpressionAttributeValues).toEqual({
+      ':one': 1,
+      ':limit': 5,
+      ':ttl': Date.parse('2024-01-15T09:01:00.000Z') / 1000
+    });
+  });
+
+  it('should reject requests once the window is used up', async () => {
+    mockDynamoDB.update.mockReturnValue(awsError('ConditionalCheckFailedException'));
+
+    await expect(rateLimitService.consume('booking', 'acme#203.0.113.7', { limit: 5, windowSeconds: 60 }, now))
+      .rejects.toMatchObject({ statusCode: 429, details: { retryAfterSeconds: 15 } });
+  });
+});
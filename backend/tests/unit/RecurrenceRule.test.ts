@@ -0,0 +1,162 @@
+import { RecurrenceRule } from '../../src/utils/RecurrenceRule';
+
+const iso = (dates: Date[]) => dates.map(date => date.toISOString());
+
+describe('RecurrenceRule', () => {
+  describe('parse', () => {
+    it('should parse a weekly rule with BYDAY and COUNT', () => {
+      const rule = RecurrenceRule.parse('RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4');
+
+      expect(rule.frequency).toBe('WEEKLY');
+      expect(rule.count).toBe(4);
+      expect(rule.byDay).toEqual([{ weekday: 1, ordinal: undefined }, { weekday: 3, ordinal: undefined }]);
+      expect(rule.toString()).toBe('FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4');
+    });
+
+    it('should reject unsupported frequencies and parts', () => {
+      expect(() => RecurrenceRule.parse('FREQ=YEARLY')).toThrow('FREQ must be DAILY, WEEKLY or MONTHLY');
+      expect(() => RecurrenceRule.parse('FREQ=DAILY;BYHOUR=9')).toThrow('Unsupported recurrence rule parts: BYHOUR');
+    });
+
+    it('should reject COUNT combined with UNTIL', () => {
+      expect(() => RecurrenceRule.parse('FREQ=DAILY;COUNT=2;UNTIL=20240201')).toThrow('both COUNT and UNTIL');
+    });
+
+    it('should only allow BYDAY ordinals for monthly rules', () => {
+      expect(() => RecurrenceRule.parse('FREQ=WEEKLY;BYDAY=2MO')).toThrow('only supported for MONTHLY');
+      expect(RecurrenceRule.parse('FREQ=MONTHLY;BYDAY=-1FR').byDay).toEqual([{ weekday: 5, ordinal: -1 }]);
+    });
+  });
+
+  describe('between', () => {
+    it('should expand daily rules with an interval until COUNT is reached', () => {
+      const rule = RecurrenceRule.parse('FREQ=DAILY;INTERVAL=2;COUNT=3');
+
+      expect(iso(rule.between('2024-01-15T10:00:00.000Z'))).toEqual([
+        '2024-01-15T10:00:00.000Z',
+        '2024-01-17T10:00:00.000Z',
+        '2024-01-19T10:00:00.000Z'
+      ]);
+    });
+
+    it('should expand weekly rules on the requested weekdays', () => {
+      // 2024-01-15 is a Monday
+      const rule = RecurrenceRule.parse('FREQ=WEEKLY;BYDAY=MO,FR;COUNT=4');
+
+      expect(iso(rule.between('2024-01-15T09:00:00.000Z'))).toEqual([
+        '2024-01-15T09:00:00.000Z',
+        '2024-01-19T09:00:00.000Z',
+        '2024-01-22T09:00:00.000Z',
+        '2024-01-26T09:00:00.000Z'
+      ]);
+    });
+
+    it('should keep the local time of the series start in its timezone', () => {
+      // 09:00 in New York; daylight saving time starts on 2024-03-10
+      const rule = RecurrenceRule.parse('FREQ=DAILY;COUNT=3');
+
+      expect(iso(rule.between('2024-03-09T14:00:00.000Z', undefined, undefined, 'America/New_York'))).toEqual([
+        '2024-03-09T14:00:00.000Z',
+        '2024-03-10T13:00:00.000Z',
+        '2024-03-11T13:00:00.000Z'
+      ]);
+    });
+
+    it('should pick weekdays in the series timezone', () => {
+      // Monday 20:00 in Los Angeles is Tuesday in UTC
+      const rule = RecurrenceRule.parse('FREQ=WEEKLY;BYDAY=MO;COUNT=2');
+
+      expect(iso(rule.between('2024-01-16T04:00:00.000Z', undefined, undefined, 'America/Los_Angeles'))).toEqual([
+        '2024-01-16T04:00:00.000Z',
+        '2024-01-23T04:00:00.000Z'
+      ]);
+    });
+
+    it('should stop at UNTIL', () => {
+      const rule = RecurrenceRule.parse('FREQ=WEEKLY;UNTIL=20240129');
+
+      expect(rule.between('2024-01-15T09:00:00.000Z')).toHaveLength(3);
+    });
+
+    it('should expand monthly rules by day of month and skip short months', () => {
+      const rule = RecurrenceRule.parse('FREQ=MONTHLY;COUNT=3');
+
+      expect(iso(rule.between('2024-01-31T12:00:00.000Z'))).toEqual([
+        '2024-01-31T12:00:00.000Z',
+        '2024-03-31T12:00:00.000Z',
+        '2024-05-31T12:00:00.000Z'
+      ]);
+    });
+
+    it('should expand monthly rules by weekday ordinal', () => {
+      const rule = RecurrenceRule.parse('FREQ=MONTHLY;BYDAY=-1FR;COUNT=2');
+
+      expect(iso(rule.between('2024-01-26T15:00:00.000Z'))).toEqual([
+        '2024-01-26T15:00:00.000Z',
+        '2024-02-23T15:00:00.000Z'
+      ]);
+    });
+
+    it('should only return occurrences inside the window', () => {
+      const rule = RecurrenceRule.parse('FREQ=DAILY');
+
+      expect(iso(rule.between('2024-01-01T08:00:00.000Z', '2024-03-01T00:00:00.000Z', '2024-03-02T23:59:59.000Z'))).toEqual([
+        '2024-03-01T08:00:00.000Z',
+        '2024-03-02T08:00:00.000Z'
+      ]);
+    });
+
+    it('should expand windows more than 730 occurrences into an open-ended series', () => {
+      const rule = RecurrenceRule.parse('FREQ=DAILY');
+
+      expect(iso(rule.between('2024-01-01T08:00:00.000Z', '2030-06-01T00:00:00.000Z', '2030-06-02T23:59:59.000Z'))).toEqual([
+        '2030-06-01T08:00:00.000Z',
+        '2030-06-02T08:00:00.000Z'
+      ]);
+    });
+
+    it('should honour COUNT past the 730th occurrence', () => {
+      const rule = RecurrenceRule.parse('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;COUNT=1000');
+
+      expect(iso(rule.between('2024-01-01T08:00:00.000Z', '2027-10-28T00:00:00.000Z'))).toEqual([
+        '2027-10-28T08:00:00.000Z',
+        '2027-10-29T08:00:00.000Z'
+      ]);
+    });
+
+    it('should cap the occurrences returned for one window', () => {
+      const rule = RecurrenceRule.parse('FREQ=DAILY');
+
+      expect(rule.between('2024-01-01T08:00:00.000Z', '2024-01-01T00:00:00.000Z')).toHaveLength(730);
+    });
+  });
+
+  describe('series edits', () => {
+    it('should count occurrences before a point in the series', () => {
+      const rule = RecurrenceRule.parse('FREQ=DAILY;COUNT=10');
+
+      expect(rule.countBefore('2024-01-01T08:00:00.000Z', '2024-01-04T08:00:00.000Z')).toBe(3);
+    });
+
+    it('should check whether a time is an occurrence', () => {
+      const rule = RecurrenceRule.parse('FREQ=WEEKLY;BYDAY=TU');
+
+      expect(rule.includes('2024-01-16T08:00:00.000Z', '2024-01-23T08:00:00.000Z')).toBe(true);
+      expect(rule.includes('2024-01-16T08:00:00.000Z', '2024-01-24T08:00:00.000Z')).toBe(false);
+    });
+
+    it('should find the next occurrence after a time', () => {
+      const rule = RecurrenceRule.parse('FREQ=WEEKLY;BYDAY=TU;COUNT=3');
+
+      expect(rule.next('2024-01-16T08:00:00.000Z', '2024-01-16T08:00:00.000Z')).toEqual(new Date('2024-01-23T08:00:00.000Z'));
+      expect(rule.next('2024-01-16T08:00:00.000Z', '2024-01-10T00:00:00.000Z')).toEqual(new Date('2024-01-16T08:00:00.000Z'));
+      expect(rule.next('2024-01-16T08:00:00.000Z', '2024-01-30T08:00:00.000Z')).toBeUndefined();
+    });
+
+    it('should replace COUNT when truncating with UNTIL', () => {
+      const rule = RecurrenceRule.parse('FREQ=DAILY;COUNT=10').withUntil(new Date('2024-01-05T00:00:00.000Z'));
+
+      expect(rule.toString()).toBe('FREQ=DAILY;UNTIL=20240105T000000Z');
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { ConsoleNotifier, MailNotifier, createReminderNotifier } from '../../src/notifications/ReminderNotifier';
+import { SesMailTransport } from '../../src/notifications/MailTransport';
+import { awsError, awsResponse, mockSES } from '../helpers/aws';
+
+describe('ReminderNotifier', () => {
+  const env = { ...process.env };
+  const message = {
+    tenantId: 'test-tenant',
+    appointmentId: 'app-1',
+    userId: 'test-user',
+    attendees: ['pat@example.com', 'sam@example.com'],
+    title: 'Check-up',
+    startTime: '2024-01-15T10:00:00.000Z',
+    endTime: '2024-01-15T10:30:00.000Z',
+    location: 'Room 2',
+    timezone: 'Europe/Berlin',
+    reminderMinutes: 60
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSES.sendEmail.mockReturnValue(awsResponse({ MessageId: 'message-1' }));
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('should mail each attendee through SES when deployed', async () => {
+    process.env['REMINDER_NOTIFIER'] = 'mail';
+    process.env['MAIL_TRANSPORT'] = 'ses';
+    process.env['MAIL_FROM'] = 'no-reply@example.com';
+
+    const notifier = createReminderNotifier();
+    await notifier.send(message);
+
+    expect(notifier).toBeInstanceOf(MailNotifier);
+    expect(mockSES.sendEmail).toHaveBeenCalledTimes(2);
+    expect(mockSES.sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+      Source: 'no-reply@example.com',
+      Destination: { ToAddresses: ['pat@example.com'] },
+      Message: expect.objectContaining({
+        Subject: { Data: 'Reminder: Check-up @ Jan 15, 2024 11:00 AM CET', Charset: 'UTF-8' }
+      })
+    }));
+    expect(mockSES.sendEmail.mock.calls[0][0].Message.Body.Text.Data).toContain('Where: Room 2');
+  });
+
+  it('should fail the attempt when a mail is not sent', async () => {
+    const transport = new SesMailTransport('no-reply@example.com');
+    mockSES.sendEmail.mockReturnValue(awsError('Throttling'));
+
+    await expect(new MailNotifier(transport).send(message)).rejects.toThrow('Throttling');
+  });
+
+  it('should log reminders by default', () => {
+    delete process.env['REMINDER_NOTIFIER'];
+
+    expect(createReminderNotifier()).toBeInstanceOf(ConsoleNotifier);
+  });
+});
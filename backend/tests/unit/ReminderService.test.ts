@@ -0,0 +1,246 @@
+import { ReminderService } from '../../src/services/ReminderService';
+import { ReminderNotifier } from '../../src/notifications/ReminderNotifier';
+import { Appointment } from '../../src/services/AppointmentService';
+import { awsError, awsResponse, mockDynamoDB } from '../helpers/aws';
+
+const now = new Date('2024-01-15T09:00:30.000Z');
+
+const dueAppointment = (overrides: Partial<Appointment> = {}): Appointment => ({
+  appointmentId: 'app-1',
+  tenantId: 'test-tenant',
+  userId: 'test-user',
+  title: 'Check-up',
+  startTime: '2024-01-15T10:00:00.000Z',
+  endTime: '2024-01-15T10:30:00.000Z',
+  attendees: [{ name: 'Pat', email: 'patient@example.com', responseStatus: 'accepted' }],
+  status: 'confirmed',
+  reminderMinutes: 60,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  reminder: {
+    status: 'pending',
+    dueAt: '2024-01-15T09:00:00.000Z',
+    nextAttemptAt: '2024-01-15T09:00:00.000Z',
+    attempts: 0
+  },
+  ...overrides
+});
+
+describe('ReminderService', () => {
+  let reminderService: ReminderService;
+  let notifier: jest.Mocked<ReminderNotifier>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    notifier = { send: jest.fn().mockResolvedValue(undefined) };
+    reminderService = new ReminderService(notifier);
+
+    mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+    mockDynamoDB.update.mockReturnValue(awsResponse({}));
+  });
+
+  // Only the partition of the current hour has something due
+  const withDue = (...appointments: Appointment[]) => {
+    mockDynamoDB.query.mockImplementation((params: any) => awsResponse({
+      Items: params.ExpressionAttributeValues[':partition'] === 'REMINDER#2024-01-15T09' ? appointments : []
+    }));
+  };
+
+  const settled = (call: number) => mockDynamoDB.update.mock.calls[call][0];
+
+  it('should read due reminders from the index instead of scanning', async () => {
+    await reminderService.dispatchDueReminders(now);
+
+    expect(mockDynamoDB.query).toHaveBeenCalledTimes(25);
+    expect(mockDynamoDB.query).toHaveBeenLastCalledWith(expect.objectContaining({
+      IndexName: 'GSI3',
+      KeyConditionExpression: 'GSI3PK = :partition AND GSI3SK <= :until',
+      ExpressionAttributeValues: { ':partition': 'REMINDER#2024-01-15T09', ':until': '2024-01-15T09:00:30.000Z#\uffff' }
+    }));
+  });
+
+  it('should claim the reminder, send it and record the delivery', async () => {
+    withDue(dueAppointment());
+
+    const summary = await reminderService.dispatchDueReminders(now);
+
+    expect(summary).toEqual({ sent: 1, retried: 0, failed: 0, skipped: 0 });
+    expect(notifier.send).toHaveBeenCalledWith(expect.objectContaining({
+      appointmentId: 'app-1',
+      userId: 'test-user',
+      attendees: ['patient@example.com'],
+      title: 'Check-up'
+    }));
+
+    // The claim moves the reminder out by a lease, so a crashed run is retried
+    expect(settled(0).ExpressionAttributeValues).toMatchObject({
+      ':reminder': { status: 'pending', attempts: 1, nextAttemptAt: '2024-01-15T09:05:30.000Z' },
+      ':attempts': 0,
+      ':reminderKey': 'REMINDER#2024-01-15T09'
+    });
+    expect(settled(1).UpdateExpression).toBe('SET #reminder = :reminder REMOVE GSI3PK, GSI3SK');
+    expect(settled(1).ExpressionAttributeValues[':reminder']).toMatchObject({
+      status: 'sent',
+      attempts: 1,
+      sentAt: now.toISOString()
+    });
+  });
+
+  it('should not send reminders another run has claimed', async () => {
+    withDue(dueAppointment());
+    mockDynamoDB.update.mockReturnValueOnce(awsError('ConditionalCheckFailedException'));
+
+    const summary = await reminderService.dispatchDueReminders(now);
+
+    expect(summary.sent).toBe(0);
+    expect(notifier.send).not.toHaveBeenCalled();
+  });
+
+  it('should retry failed deliveries with backoff and give up after the last attempt', async () => {
+    notifier.send.mockRejectedValue(new Error('SMTP unavailable'));
+    const retrying = dueAppointment();
+    const lastAttempt = dueAppointment({ appointmentId: 'app-2' });
+    lastAttempt.reminder = { ...lastAttempt.reminder!, attempts: 4 };
+    withDue(retrying, lastAttempt);
+
+    const summary = await reminderService.dispatchDueReminders(now);
+
+    expect(summary).toEqual({ sent: 0, retried: 1, failed: 1, skipped: 0 });
+    expect(settled(1).ExpressionAttributeValues).toMatchObject({
+      ':reminder': { status: 'pending', attempts: 1, lastError: 'SMTP unavailable', nextAttemptAt: '2024-01-15T09:02:30.000Z' },
+      ':reminderSortKey': '2024-01-15T09:02:30.000Z#test-tenant#app-1'
+    });
+    expect(settled(3).ExpressionAttributeValues[':reminder']).toMatchObject({ status: 'failed', attempts: 5 });
+    expect(settled(3).UpdateExpression).toContain('REMOVE GSI3PK, GSI3SK');
+  });
+
+  it('should skip reminders of appointments that already started', async () => {
+    withDue(dueAppointment({ startTime: '2024-01-15T09:00:00.000Z' }));
+
+    const summary = await reminderService.dispatchDueReminders(now);
+
+    expect(summary.skipped).toBe(1);
+    expect(notifier.send).not.toHaveBeenCalled();
+    expect(settled(0).ExpressionAttributeValues[':reminder'].status).toBe('skipped');
+  });
+
+  describe('occurrences', () => {
+    const master = dueAppointment({ appointmentId: 'series-1', recurrenceRule: 'FREQ=WEEKLY', reminder: undefined });
+    const exception = {
+      PK: 'TENANT#test-tenant#APPOINTMENT#series-1',
+      SK: 'OCCURRENCE#2024-01-15T10:00:00.000Z',
+      tenantId: 'test-tenant',
+      seriesId: 'series-1',
+      recurrenceId: '2024-01-15T10:00:00.000Z',
+      overrides: { location: 'Room 2' },
+      reminder: dueAppointment().reminder
+    };
+
+    beforeEach(() => {
+      withDue(exception as any);
+    });
+
+    it('should send the reminder of an edited occurrence with the details of its series', async () => {
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: master }));
+
+      const summary = await reminderService.dispatchDueReminders(now);
+
+      expect(summary.sent).toBe(1);
+      expect(mockDynamoDB.get).toHaveBeenCalledWith(expect.objectContaining({
+        Key: { PK: 'TENANT#test-tenant#APPOINTMENT#series-1', SK: 'APPOINTMENT#series-1' }
+      }));
+      expect(notifier.send).toHaveBeenCalledWith(expect.objectContaining({
+        appointmentId: 'series-1_20240115T100000Z',
+        title: 'Check-up',
+        location: 'Room 2',
+        startTime: '2024-01-15T10:00:00.000Z'
+      }));
+      expect(settled(1).Key).toEqual({ PK: 'TENANT#test-tenant#APPOINTMENT#series-1', SK: 'OCCURRENCE#2024-01-15T10:00:00.000Z' });
+    });
+
+    it('should skip the reminder once the series is cancelled', async () => {
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: { ...master, status: 'cancelled' } }));
+
+      const summary = await reminderService.dispatchDueReminders(now);
+
+      expect(summary.skipped).toBe(1);
+      expect(notifier.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('series', () => {
+    const series = dueAppointment({
+      appointmentId: 'series-1',
+      startTime: '2024-01-08T10:00:00.000Z',
+      endTime: '2024-01-08T10:30:00.000Z',
+      recurrenceRule: 'FREQ=WEEKLY;COUNT=3',
+      reminder: { ...dueAppointment().reminder!, recurrenceId: '2024-01-15T10:00:00.000Z' }
+    });
+
+    beforeEach(() => {
+      withDue(series);
+      mockDynamoDB.get.mockReturnValue(awsResponse({}));
+    });
+
+    it('should remind of the next occurrence and index the master for the one after it', async () => {
+      const summary = await reminderService.dispatchDueReminders(now);
+
+      expect(summary.sent).toBe(1);
+      expect(mockDynamoDB.get).toHaveBeenCalledWith(expect.objectContaining({
+        Key: { PK: 'TENANT#test-tenant#APPOINTMENT#series-1', SK: 'OCCURRENCE#2024-01-15T10:00:00.000Z' }
+      }));
+      expect(notifier.send).toHaveBeenCalledWith(expect.objectContaining({
+        appointmentId: 'series-1_20240115T100000Z',
+        startTime: '2024-01-15T10:00:00.000Z'
+      }));
+
+      const { Key, UpdateExpression, ExpressionAttributeValues } = settled(1);
+      expect(Key).toEqual({ PK: 'TENANT#test-tenant#APPOINTMENT#series-1', SK: 'APPOINTMENT#series-1' });
+      expect(UpdateExpression).toContain('GSI3PK = :reminderKey');
+      expect(ExpressionAttributeValues).toMatchObject({
+        ':reminder': {
+          status: 'pending',
+          dueAt: '2024-01-22T09:00:00.000Z',
+          nextAttemptAt: '2024-01-22T09:00:00.000Z',
+          attempts: 0,
+          recurrenceId: '2024-01-22T10:00:00.000Z'
+        },
+        ':reminderKey': 'REMINDER#2024-01-22T09',
+        ':reminderSortKey': '2024-01-22T09:00:00.000Z#test-tenant#series-1'
+      });
+    });
+
+    it('should leave the index after the last occurrence', async () => {
+      withDue({ ...series, recurrenceRule: 'FREQ=WEEKLY;COUNT=2' });
+
+      await reminderService.dispatchDueReminders(now);
+
+      const { UpdateExpression, ExpressionAttributeValues } = settled(1);
+      expect(UpdateExpression).toContain('REMOVE GSI3PK, GSI3SK');
+      expect(ExpressionAttributeValues[':reminder']).toMatchObject({ status: 'sent', recurrenceId: '2024-01-15T10:00:00.000Z' });
+    });
+
+    it('should leave edited occurrences to their own reminder and move on', async () => {
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: { recurrenceId: '2024-01-15T10:00:00.000Z', overrides: {} } }));
+
+      const summary = await reminderService.dispatchDueReminders(now);
+
+      expect(summary.skipped).toBe(1);
+      expect(notifier.send).not.toHaveBeenCalled();
+      expect(settled(0).ExpressionAttributeValues[':reminder']).toMatchObject({
+        status: 'pending',
+        recurrenceId: '2024-01-22T10:00:00.000Z'
+      });
+    });
+
+    it('should move on when the occurrence was cut from the series', async () => {
+      withDue({ ...series, recurrenceRule: 'FREQ=WEEKLY;UNTIL=20240110T000000Z' });
+
+      const summary = await reminderService.dispatchDueReminders(now);
+
+      expect(summary.skipped).toBe(1);
+      expect(notifier.send).not.toHaveBeenCalled();
+      expect(settled(0).UpdateExpression).toContain('REMOVE GSI3PK, GSI3SK');
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { ResourceService } from '../../src/services/ResourceService';
+import { awsResponse, mockDynamoDB } from '../helpers/aws';
+
+const room = {
+  resourceId: 'room-1',
+  tenantId: 'test-tenant',
+  name: 'Room A',
+  type: 'room',
+  capacity: 1,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+};
+
+describe('ResourceService', () => {
+  let resourceService: ResourceService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resourceService = new ResourceService();
+    mockDynamoDB.put.mockReturnValue(awsResponse({}));
+  });
+
+  describe('createResource', () => {
+    it('should add the resource to the tenant catalog', async () => {
+      const resource = await resourceService.createResource('test-tenant', 'admin-1', 'tenant-admin', {
+        name: 'Projector',
+        type: 'equipment',
+        capacity: 3,
+        availability: { start: '08:00', end: '12:00', days: ['monday'] }
+      });
+
+      expect(resource).toEqual(expect.objectContaining({ name: 'Projector', type: 'equipment', capacity: 3 }));
+      expect(mockDynamoDB.put.mock.calls[0][0].Item).toEqual(expect.objectContaining({
+        PK: `TENANT#test-tenant#RESOURCE#${resource.resourceId}`,
+        GSI1PK: 'TENANT#test-tenant#RESOURCES',
+        GSI1SK: `projector#${resource.resourceId}`
+      }));
+    });
+
+    it('should default to a capacity of one', async () => {
+      const resource = await resourceService.createResource('test-tenant', 'admin-1', 'tenant-admin', { name: 'Room A', type: 'room' });
+
+      expect(resource.capacity).toBe(1);
+      expect(resource.availability).toBeUndefined();
+    });
+
+    it('should only let admins add valid resources', async () => {
+      await expect(resourceService.createResource('test-tenant', 'user-1', 'tenant-user', { name: 'Room A', type: 'room' }))
+        .rejects.toMatchObject({ statusCode: 403 });
+      await expect(resourceService.createResource('test-tenant', 'admin-1', 'tenant-admin', {
+        name: 'Room A',
+        type: 'room',
+        availability: { start: '17:00', end: '09:00', days: ['monday'] }
+      })).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockDynamoDB.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getResources', () => {
+    it('should return the resources that exist, in the order asked for', async () => {
+      mockDynamoDB.batchGet.mockReturnValue(awsResponse({
+        Responses: {
+          'test-appointments': [
+            { ...room, resourceId: 'room-2', PK: 'TENANT#test-tenant#RESOURCE#room-2', SK: 'RESOURCE#room-2' },
+            { ...room, PK: 'TENANT#test-tenant#RESOURCE#room-1', SK: 'RESOURCE#room-1' }
+          ]
+        }
+      }));
+
+      const resources = await resourceService.getResources('test-tenant', ['room-1', 'gone', 'room-2']);
+
+      expect(resources.map(resource => resource.resourceId)).toEqual(['room-1', 'room-2']);
+      expect(resources[0]).not.toHaveProperty('PK');
+    });
+  });
+
+  describe('updateResource', () => {
+    it('should fall back to the tenant working hours when availability is cleared', async () => {
+      mockDynamoDB.get.mockReturnValue(awsResponse({
+        Item: { ...room, availability: { start: '08:00', end: '12:00', days: ['monday'] } }
+      }));
+
+      const resource = await resourceService.updateResource('test-tenant', 'room-1', 'admin-1', 'tenant-admin', {
+        capacity: 2,
+        availability: null
+      });
+
+      expect(resource).toEqual(expect.objectContaining({ capacity: 2 }));
+      expect(resource).not.toHaveProperty('availability');
+      expect(mockDynamoDB.put.mock.calls[0][0].ConditionExpression).toBe('attribute_exists(PK)');
+    });
+  });
+});
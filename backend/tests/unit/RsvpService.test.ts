@@ -0,0 +1,137 @@
+import { Appointment } from '../../src/services/AppointmentService';
+import { RsvpService } from '../../src/services/RsvpService';
+import { awsResponse, mockDynamoDB } from '../helpers/aws';
+
+describe('RsvpService', () => {
+  let rsvpService: RsvpService;
+  let mockAppointment: Appointment;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    rsvpService = new RsvpService();
+    mockAppointment = {
+      appointmentId: 'test-appointment-123',
+      tenantId: 'test-tenant',
+      userId: 'test-user',
+      title: 'Test Appointment',
+      description: 'Test Description',
+      startTime: '2024-01-15T10:00:00Z',
+      endTime: '2024-01-15T11:00:00Z',
+      location: 'Test Location',
+      attendees: [{ email: 'test@example.com', responseStatus: 'needs-action' }],
+      status: 'scheduled',
+      reminderMinutes: 60,
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z'
+    };
+  });
+
+  describe('respondToInvitation', () => {
+    let invited: Appointment;
+
+    beforeEach(() => {
+      invited = {
+        ...mockAppointment,
+        version: 2,
+        attendees: [
+          { name: 'Jane', email: 'jane@example.com', responseStatus: 'accepted', respondedAt: '2024-01-02T00:00:00.000Z' },
+          { email: 'john@example.com', responseStatus: 'declined', respondedAt: '2024-01-02T00:00:00.000Z' }
+        ]
+      };
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: invited }));
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
+      mockDynamoDB.update.mockReturnValue(awsResponse({}));
+    });
+
+    it('should record an RSVP without changing the version', async () => {
+      mockDynamoDB.update.mockReturnValue(awsResponse({}));
+
+      const invitation = await rsvpService.respondToInvitation(
+        'test-tenant', 'test-appointment-123', 'John@Example.com', 'tentative', 'request-1'
+      );
+
+      expect(invitation).toEqual(expect.objectContaining({
+        appointmentId: 'test-appointment-123',
+        title: 'Test Appointment',
+        attendee: expect.objectContaining({ email: 'john@example.com', responseStatus: 'tentative' })
+      }));
+
+      const params = mockDynamoDB.update.mock.calls[0][0];
+      expect(params.UpdateExpression).toBe('SET attendees = :attendees');
+      expect(params.ConditionExpression).toBe('attendees = :previous AND attribute_not_exists(deletedAt)');
+      expect(params.ExpressionAttributeValues[':previous']).toBe(invited.attendees);
+      expect(params.ExpressionAttributeValues[':attendees'][0]).toEqual(invited.attendees![0]);
+
+      const audit = mockDynamoDB.put.mock.calls[0][0].Item;
+      expect(audit).toEqual(expect.objectContaining({ action: 'rsvp', actorId: 'john@example.com', actorRole: 'attendee' }));
+    });
+
+    it('should retry an RSVP that raced with another change', async () => {
+      mockDynamoDB.update
+        .mockReturnValueOnce({ promise: () => Promise.reject(Object.assign(new Error('Conditional'), { code: 'ConditionalCheckFailedException' })) })
+        .mockReturnValueOnce(awsResponse({}));
+
+      await rsvpService.respondToInvitation('test-tenant', 'test-appointment-123', 'jane@example.com', 'declined');
+
+      expect(mockDynamoDB.get).toHaveBeenCalledTimes(2);
+      expect(mockDynamoDB.update).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not find invitations for people who are not invited', async () => {
+      const invitation = await rsvpService.respondToInvitation(
+        'test-tenant', 'test-appointment-123', 'stranger@example.com', 'accepted'
+      );
+
+      expect(invitation).toBeNull();
+      expect(mockDynamoDB.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject answers to cancelled appointments', async () => {
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: { ...invited, status: 'cancelled' } }));
+
+      await expect(
+        rsvpService.respondToInvitation('test-tenant', 'test-appointment-123', 'jane@example.com', 'accepted')
+      ).rejects.toThrow('The appointment has been cancelled');
+    });
+  });
+
+  describe('confirmBooking', () => {
+    let booked: Appointment;
+
+    beforeEach(() => {
+      booked = { ...mockAppointment, attendees: [], customer: { name: 'Jane', email: 'jane@example.com' } };
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: booked }));
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
+      mockDynamoDB.update.mockReturnValue(awsResponse({ Attributes: { ...booked, status: 'confirmed' } }));
+    });
+
+    it('should let the customer confirm the booking', async () => {
+      const confirmed = await rsvpService.confirmBooking('test-tenant', 'test-appointment-123', 'Jane@Example.com', 'request-1');
+
+      expect(confirmed?.status).toBe('confirmed');
+      const params = mockDynamoDB.update.mock.calls[0][0];
+      expect(params.ConditionExpression).toBe('#status = :scheduled AND attribute_not_exists(deletedAt)');
+      expect(params.ExpressionAttributeValues[':change']).toEqual([expect.objectContaining({
+        from: 'scheduled',
+        to: 'confirmed',
+        changedBy: 'jane@example.com',
+        changedByRole: 'customer'
+      })]);
+      expect(mockDynamoDB.put.mock.calls[0][0].Item).toEqual(expect.objectContaining({ actorRole: 'customer', requestId: 'request-1' }));
+    });
+
+    it('should only confirm scheduled bookings of the same customer', async () => {
+      await expect(rsvpService.confirmBooking('test-tenant', 'test-appointment-123', 'john@example.com')).resolves.toBeNull();
+
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: { ...booked, status: 'confirmed' } }));
+      await expect(rsvpService.confirmBooking('test-tenant', 'test-appointment-123', 'jane@example.com'))
+        .resolves.toEqual(expect.objectContaining({ status: 'confirmed' }));
+
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: { ...booked, status: 'cancelled' } }));
+      await expect(rsvpService.confirmBooking('test-tenant', 'test-appointment-123', 'jane@example.com'))
+        .rejects.toMatchObject({ statusCode: 422 });
+
+      expect(mockDynamoDB.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { ServiceCatalogService } from '../../src/services/ServiceCatalogService';
+import { ResourceService } from '../../src/services/ResourceService';
+import { awsResponse, mockDynamoDB } from '../helpers/aws';
+
+jest.mock('../../src/services/ResourceService');
+
+const MockedResourceService = ResourceService as jest.MockedClass<typeof ResourceService>;
+
+const room = {
+  resourceId: 'room-1',
+  tenantId: 'test-tenant',
+  name: 'Room A',
+  type: 'room' as const,
+  capacity: 1,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+};
+
+describe('ServiceCatalogService', () => {
+  let serviceCatalogService: ServiceCatalogService;
+  let resourceService: jest.Mocked<ResourceService>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    serviceCatalogService = new ServiceCatalogService();
+    resourceService = MockedResourceService.mock.instances[0] as jest.Mocked<ResourceService>;
+    resourceService.getResources.mockResolvedValue([room]);
+    mockDynamoDB.put.mockReturnValue(awsResponse({}));
+  });
+
+  describe('createService', () => {
+    it('should add the service to the tenant catalog', async () => {
+      const service = await serviceCatalogService.createService('test-tenant', 'admin-1', 'tenant-admin', {
+        name: 'Initial consultation',
+        durationMinutes: 45,
+        bufferAfterMinutes: 15,
+        price: { amount: 80, currency: 'usd' },
+        resourceIds: ['room-1']
+      });
+
+      expect(service).toEqual(expect.objectContaining({
+        name: 'Initial consultation',
+        durationMinutes: 45,
+        bufferBeforeMinutes: 0,
+        bufferAfterMinutes: 15,
+        price: { amount: 80, currency: 'USD' },
+        resourceIds: ['room-1']
+      }));
+      expect(mockDynamoDB.put.mock.calls[0][0].Item).toEqual(expect.objectContaining({
+        PK: `TENANT#test-tenant#SERVICE#${service.serviceId}`,
+        GSI1PK: 'TENANT#test-tenant#SERVICES',
+        GSI1SK: `initial consultation#${service.serviceId}`
+      }));
+    });
+
+    it('should only let admins add services, with resources that exist', async () => {
+      const data = { name: 'Follow-up', durationMinutes: 30, resourceIds: ['room-1', 'gone'] };
+
+      await expect(serviceCatalogService.createService('test-tenant', 'user-1', 'tenant-user', data))
+        .rejects.toMatchObject({ statusCode: 403 });
+      await expect(serviceCatalogService.createService('test-tenant', 'admin-1', 'tenant-admin', data))
+        .rejects.toMatchObject({ statusCode: 400, details: { errors: ['Unknown resources: gone'] } });
+      expect(mockDynamoDB.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateService', () => {
+    it('should remove the price when it is cleared', async () => {
+      mockDynamoDB.get.mockReturnValue(awsResponse({
+        Item: {
+          serviceId: 'service-1',
+          tenantId: 'test-tenant',
+          name: 'Follow-up',
+          durationMinutes: 30,
+          bufferBeforeMinutes: 0,
+          bufferAfterMinutes: 0,
+          price: { amount: 40, currency: 'USD' },
+          resourceIds: [],
+          createdAt: '2024-01-01T00:00:00.000Z',
+          updatedAt: '2024-01-01T00:00:00.000Z'
+        }
+      }));
+
+      const service = await serviceCatalogService.updateService('test-tenant', 'service-1', 'admin-1', 'tenant-admin', {
+        durationMinutes: 20,
+        price: null
+      });
+
+      expect(service).toEqual(expect.objectContaining({ durationMinutes: 20 }));
+      expect(service).not.toHaveProperty('price');
+      expect(resourceService.getResources).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { Tenant, TenantService } from '../../src/services/TenantService';
+import { User, UserService } from '../../src/services/UserService';
+import { awsResponse, mockDynamoDB } from '../helpers/aws';
+
+jest.mock('../../src/services/UserService');
+
+const MockedUserService = UserService as jest.MockedClass<typeof UserService>;
+
+const acme: Tenant = {
+  tenantId: 'tenant-1',
+  name: 'Acme Corporation',
+  slug: 'acme',
+  domain: 'acme.com',
+  plan: 'premium',
+  status: 'active',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  settings: {
+    timezone: 'America/New_York',
+    workingHours: { start: '09:00', end: '17:00', days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'] },
+    publicBooking: { enabled: true, userId: 'user-1' }
+  }
+};
+
+describe('TenantService', () => {
+  let tenantService: TenantService;
+  let userService: jest.Mocked<UserService>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tenantService = new TenantService();
+    userService = MockedUserService.mock.instances[0] as jest.Mocked<UserService>;
+    userService.findMember.mockResolvedValue({ userId: 'user-2', tenantId: 'tenant-1' } as User);
+    mockDynamoDB.get.mockReturnValue(awsResponse({ Item: acme }));
+    mockDynamoDB.put.mockReturnValue(awsResponse({}));
+    mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+  });
+
+  describe('createTenant', () => {
+    it('should create an active tenant with default settings', async () => {
+      const tenant = await tenantService.createTenant('root', 'super-admin', {
+        name: 'TechStart Inc',
+        slug: 'TechStart',
+        settings: { timezone: 'america/los_angeles' }
+      });
+
+      expect(tenant).toEqual(expect.objectContaining({
+        name: 'TechStart Inc',
+        slug: 'techstart',
+        plan: 'basic',
+        status: 'active',
+        settings: {
+          timezone: 'America/Los_Angeles',
+          workingHours: { start: '09:00', end: '17:00', days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'] }
+        }
+      }));
+      expect(mockDynamoDB.put.mock.calls[0][0]).toEqual(expect.objectContaining({
+        Item: tenant,
+        ConditionExpression: 'attribute_not_exists(tenantId)'
+      }));
+    });
+
+    it('should only let super admins create tenants with a free slug', async () => {
+      await expect(tenantService.createTenant('admin-1', 'tenant-admin', { name: 'Other' }))
+        .rejects.toMatchObject({ statusCode: 403 });
+
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [acme] }));
+      await expect(tenantService.createTenant('root', 'super-admin', { name: 'Acme 2', slug: 'acme' }))
+        .rejects.toMatchObject({ statusCode: 409 });
+
+      expect(mockDynamoDB.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateTenant', () => {
+    it('should let tenant admins change settings key by key', async () => {
+      const tenant = await tenantService.updateTenant('tenant-1', 'admin-1', 'tenant-admin', {
+        settings: { workingHours: { start: '08:00', end: '16:00', days: ['monday'] }, publicBooking: null }
+      });
+
+      expect(tenant!.settings).toEqual({
+        timezone: 'America/New_York',
+        workingHours: { start: '08:00', end: '16:00', days: ['monday'] }
+      });
+      expect(tenant!.updatedAt).toEqual(expect.any(String));
+    });
+
+    it('should only take public bookings into the calendar of a user of the tenant', async () => {
+      const tenant = await tenantService.updateTenant('tenant-1', 'admin-1', 'tenant-admin', {
+        settings: { publicBooking: { enabled: true, userId: 'user-2' } }
+      });
+      expect(tenant!.settings.publicBooking).toEqual({ enabled: true, userId: 'user-2' });
+      expect(userService.findMember).toHaveBeenCalledWith('tenant-1', 'user-2');
+
+      userService.findMember.mockResolvedValue(null);
+      await expect(tenantService.updateTenant('tenant-1', 'admin-1', 'tenant-admin', {
+        settings: { publicBooking: { enabled: true, userId: 'someone-else' } }
+      })).rejects.toMatchObject({ statusCode: 422 });
+      expect(mockDynamoDB.put).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep the plan and domain to super admins', async () => {
+      await expect(tenantService.updateTenant('tenant-1', 'user-1', 'tenant-user', { name: 'Acme' }))
+        .rejects.toMatchObject({ statusCode: 403 });
+      await expect(tenantService.updateTenant('tenant-1', 'admin-1', 'tenant-admin', { plan: 'premium' }))
+        .rejects.toMatchObject({ statusCode: 403 });
+
+      const tenant = await tenantService.updateTenant('tenant-1', 'root', 'super-admin', { plan: 'basic' });
+      expect(tenant!.plan).toBe('basic');
+    });
+
+    it('should keep a list of closures that replaces the stored one', async () => {
+      const tenant = await tenantService.updateTenant('tenant-1', 'admin-1', 'tenant-admin', {
+        settings: { closures: [{ name: 'Christmas', startDate: '2024-12-24', endDate: '2024-12-26', annual: true }] }
+      });
+      expect(tenant!.settings.closures).toEqual([{ name: 'Christmas', startDate: '2024-12-24', endDate: '2024-12-26', annual: true }]);
+
+      await expect(tenantService.updateTenant('tenant-1', 'admin-1', 'tenant-admin', {
+        settings: { closures: [{ name: 'Retreat', startDate: '2024-06-10', endDate: '2024-06-03' }, { name: 'Typo', startDate: '2024-02-30' }] }
+      })).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should reject working hours that end before they start', async () => {
+      await expect(tenantService.updateTenant('tenant-1', 'admin-1', 'tenant-admin', {
+        settings: { workingHours: { start: '17:00', end: '09:00', days: ['monday'] } }
+      })).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('suspendTenant', () => {
+    it('should suspend and reactivate tenants', async () => {
+      const suspended = await tenantService.suspendTenant('tenant-1', 'root', 'super-admin', { reason: 'Unpaid invoices' });
+
+      expect(suspended).toEqual(expect.objectContaining({
+        status: 'suspended',
+        suspendedBy: 'root',
+        suspensionReason: 'Unpaid invoices'
+      }));
+
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: suspended }));
+      const reactivated = await tenantService.reactivateTenant('tenant-1', 'root', 'super-admin');
+
+      expect(reactivated!.status).toBe('active');
+      expect(reactivated).not.toHaveProperty('suspendedAt');
+      expect(reactivated).not.toHaveProperty('suspensionReason');
+    });
+
+    it('should only let super admins suspend tenants', async () => {
+      await expect(tenantService.suspendTenant('tenant-1', 'admin-1', 'tenant-admin', {}))
+        .rejects.toMatchObject({ statusCode: 403 });
+      expect(mockDynamoDB.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSettings', () => {
+    it('should fill in defaults the record leaves out', async () => {
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: { ...acme, settings: { timezone: 'Europe/Berlin' } } }));
+
+      const settings = await tenantService.getSettings('tenant-1');
+
+      expect(settings).toEqual({
+        timezone: 'Europe/Berlin',
+        workingHours: { start: '09:00', end: '17:00', days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'] }
+      });
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { Appointment } from '../../src/services/AppointmentService';
+import { TrashService } from '../../src/services/TrashService';
+import { awsResponse, mockDynamoDB } from '../helpers/aws';
+
+jest.mock('../../src/services/InvitationService');
+// Unknown tenants fall back to the real default settings, working hours included
+jest.mock('../../src/services/TenantService', () => ({
+  ...jest.createMockFromModule<object>('../../src/services/TenantService'),
+  DEFAULT_TENANT_SETTINGS: jest.requireActual('../../src/services/TenantService').DEFAULT_TENANT_SETTINGS
+}));
+jest.mock('../../src/services/WaitlistService');
+jest.mock('../../src/services/ResourceService');
+jest.mock('../../src/services/ServiceCatalogService');
+jest.mock('../../src/services/DelegationService');
+
+describe('TrashService', () => {
+  let trashService: TrashService;
+  let mockAppointment: Appointment;
+  let trashed: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    trashService = new TrashService();
+    mockAppointment = {
+      appointmentId: 'test-appointment-123',
+      tenantId: 'test-tenant',
+      userId: 'test-user',
+      title: 'Test Appointment',
+      description: 'Test Description',
+      startTime: '2024-01-15T10:00:00Z',
+      endTime: '2024-01-15T11:00:00Z',
+      location: 'Test Location',
+      attendees: [{ email: 'test@example.com', responseStatus: 'needs-action' }],
+      status: 'scheduled',
+      reminderMinutes: 60,
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z'
+    };
+
+    trashed = {
+      ...mockAppointment,
+      PK: 'TENANT#test-tenant#APPOINTMENT#test-appointment-123',
+      SK: 'APPOINTMENT#test-appointment-123',
+      GSI1PK: 'TENANT#test-tenant#TRASH',
+      GSI1SK: '2024-01-10T09:00:00.000Z#test-appointment-123',
+      version: 2,
+      deletedAt: '2024-01-10T09:00:00.000Z',
+      deletedBy: 'test-user'
+    };
+    mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+    mockDynamoDB.put.mockReturnValue(awsResponse({}));
+  });
+
+  it('should restore the date index keys and the original expiry', async () => {
+    mockDynamoDB.get.mockReturnValue(awsResponse({ Item: trashed }));
+    mockDynamoDB.update.mockReturnValue(awsResponse({ Attributes: { ...mockAppointment, version: 3 } }));
+
+    const result = await trashService.restoreAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user');
+
+    expect(result?.version).toBe(3);
+    const params = mockDynamoDB.update.mock.calls[0][0];
+    expect(params.UpdateExpression).toContain('REMOVE deletedAt, deletedBy');
+    expect(params.ConditionExpression).toContain('attribute_exists(deletedAt)');
+    expect(params.ExpressionAttributeValues).toMatchObject({
+      ':tenantKey': 'TENANT#test-tenant',
+      ':userKey': 'TENANT#test-tenant#USER#test-user',
+      ':sortKey': expect.stringMatching(/^DATE#2024-01-15#TIME#/),
+      ':ttl': Date.parse('2024-12-31T00:00:00Z') / 1000, // 365 days after creation
+      ':currentVersion': 2
+    });
+    expect(mockDynamoDB.put.mock.calls[0][0].Item).toMatchObject({ action: 'restore', actorId: 'test-user' });
+  });
+
+  it('should not restore over an appointment booked in the meantime', async () => {
+    mockDynamoDB.get.mockReturnValue(awsResponse({ Item: trashed }));
+    mockDynamoDB.query.mockReturnValue(awsResponse({
+      Items: [{ ...mockAppointment, appointmentId: 'other-appointment' }]
+    }));
+
+    await expect(
+      trashService.restoreAppointment('test-tenant', 'test-appointment-123', 'test-user', 'tenant-user')
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(mockDynamoDB.update).not.toHaveBeenCalled();
+  });
+
+  it('should only let owners and admins restore', async () => {
+    mockDynamoDB.get.mockReturnValue(awsResponse({ Item: trashed }));
+
+    await expect(
+      trashService.restoreAppointment('test-tenant', 'test-appointment-123', 'other-user', 'tenant-user')
+    ).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('should list the tenant trash for admins only, most recent first', async () => {
+    mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [trashed] }));
+
+    const page = await trashService.listTrash('test-tenant', 'tenant-admin');
+
+    expect(page.appointments).toEqual([trashed]);
+    expect(mockDynamoDB.query).toHaveBeenCalledWith(expect.objectContaining({
+      IndexName: 'GSI1',
+      ExpressionAttributeValues: { ':trashKey': 'TENANT#test-tenant#TRASH' },
+      ScanIndexForward: false
+    }));
+    await expect(trashService.listTrash('test-tenant', 'tenant-user')).rejects.toMatchObject({ statusCode: 403 });
+  });
+});
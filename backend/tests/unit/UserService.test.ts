@@ -0,0 +1,161 @@
+import { User, UserService } from '../../src/services/UserService';
+import { awsError, awsResponse, mockCognito, mockDynamoDB } from '../helpers/aws';
+
+// Stands in for the Cognito user pool
+
+const jane: User = {
+  userId: 'user-002',
+  tenantId: 'tenant-001',
+  email: 'jane@acme.com',
+  name: 'Jane User',
+  role: 'tenant-user',
+  status: 'active',
+  createdAt: '2024-01-01T00:00:00.000Z'
+};
+
+describe('UserService', () => {
+  let userService: UserService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    userService = new UserService();
+    Object.values(mockCognito).forEach(fn => fn.mockReturnValue(awsResponse({})));
+    mockDynamoDB.get.mockReturnValue(awsResponse({ Item: jane }));
+    mockDynamoDB.put.mockReturnValue(awsResponse({}));
+  });
+
+  describe('listUsers', () => {
+    it('should list the tenant users across pages', async () => {
+      mockDynamoDB.query
+        .mockReturnValueOnce(awsResponse({ Items: [jane], LastEvaluatedKey: { userId: 'user-002' } }))
+        .mockReturnValueOnce(awsResponse({ Items: [{ ...jane, userId: 'user-001', email: 'admin@acme.com' }] }));
+
+      const users = await userService.listUsers('tenant-001', 'tenant-admin');
+
+      expect(users.map(user => user.email)).toEqual(['admin@acme.com', 'jane@acme.com']);
+      expect(mockDynamoDB.query.mock.calls[0][0]).toEqual(expect.objectContaining({
+        IndexName: 'TenantIndex',
+        ExpressionAttributeValues: { ':tenantId': 'tenant-001' }
+      }));
+    });
+
+    it('should be for admins only', async () => {
+      await expect(userService.listUsers('tenant-001', 'tenant-user')).rejects.toMatchObject({ statusCode: 403 });
+      expect(mockDynamoDB.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('inviteUser', () => {
+    it('should create the Cognito user with an emailed invitation and list them', async () => {
+      mockCognito.adminCreateUser.mockReturnValue(awsResponse({ User: { Username: 'new-sub' } }));
+
+      const user = await userService.inviteUser('tenant-001', 'user-001', 'tenant-admin', {
+        email: 'Bob@Acme.com',
+        name: 'Bob',
+        role: 'tenant-admin'
+      });
+
+      const request = mockCognito.adminCreateUser.mock.calls[0][0];
+      expect(request.Username).toBe('bob@acme.com');
+      expect(request).not.toHaveProperty('MessageAction');
+      expect(request.UserAttributes).toEqual(expect.arrayContaining([
+        { Name: 'custom:tenant_id', Value: 'tenant-001' },
+        { Name: 'custom:role', Value: 'tenant-admin' }
+      ]));
+      expect(mockCognito.adminAddUserToGroup).toHaveBeenCalledWith(expect.objectContaining({ GroupName: 'tenant-admin' }));
+      expect(user).toEqual(expect.objectContaining({ userId: 'new-sub', email: 'bob@acme.com', status: 'active', invitedBy: 'user-001' }));
+      expect(mockDynamoDB.put.mock.calls[0][0].Item).toEqual(user);
+    });
+
+    it('should keep the super-admin role to super admins', async () => {
+      await expect(userService.inviteUser('tenant-001', 'user-001', 'tenant-admin', { email: 'root@acme.com', role: 'super-admin' }))
+        .rejects.toMatchObject({ statusCode: 403 });
+      expect(mockCognito.adminCreateUser).not.toHaveBeenCalled();
+    });
+
+    it('should report taken emails as conflicts', async () => {
+      mockCognito.adminCreateUser.mockReturnValue(awsError('UsernameExistsException'));
+
+      await expect(userService.inviteUser('tenant-001', 'user-001', 'tenant-admin', { email: 'jane@acme.com' }))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(mockDynamoDB.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getUser', () => {
+    it('should add the Cognito status', async () => {
+      mockCognito.adminGetUser.mockReturnValue(awsResponse({ Username: 'user-002', Enabled: true, UserStatus: 'FORCE_CHANGE_PASSWORD' }));
+
+      const user = await userService.getUser('tenant-001', 'user-002', 'tenant-admin');
+
+      expect(user).toEqual({ ...jane, enabled: true, cognitoStatus: 'FORCE_CHANGE_PASSWORD' });
+    });
+
+    it('should not find users of other tenants', async () => {
+      expect(await userService.getUser('tenant-002', 'user-002', 'tenant-admin')).toBeNull();
+      expect(mockCognito.adminGetUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findMember', () => {
+    it('should find members of the tenant for any caller', async () => {
+      expect(await userService.findMember('tenant-001', 'user-002')).toEqual(jane);
+      expect(await userService.findMember('tenant-002', 'user-002')).toBeNull();
+      expect(mockCognito.adminGetUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changeRole', () => {
+    it('should move the user to the group of the new role', async () => {
+      const user = await userService.changeRole('tenant-001', 'user-002', 'user-001', 'tenant-admin', { role: 'tenant-admin' });
+
+      expect(user!.role).toBe('tenant-admin');
+      expect(mockCognito.adminAddUserToGroup).toHaveBeenCalledWith(expect.objectContaining({ Username: 'user-002', GroupName: 'tenant-admin' }));
+      expect(mockCognito.adminRemoveUserFromGroup).toHaveBeenCalledWith(expect.objectContaining({ Username: 'user-002', GroupName: 'tenant-user' }));
+      expect(mockCognito.adminUpdateUserAttributes).toHaveBeenCalledWith(expect.objectContaining({
+        UserAttributes: [{ Name: 'custom:role', Value: 'tenant-admin' }]
+      }));
+    });
+
+    it('should keep super admins out of tenant admins\' reach', async () => {
+      await expect(userService.changeRole('tenant-001', 'user-002', 'user-001', 'tenant-admin', { role: 'super-admin' }))
+        .rejects.toMatchObject({ statusCode: 403 });
+
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: { ...jane, role: 'super-admin' } }));
+      await expect(userService.changeRole('tenant-001', 'user-002', 'user-001', 'tenant-admin', { role: 'tenant-user' }))
+        .rejects.toMatchObject({ statusCode: 403 });
+
+      expect(mockCognito.adminAddUserToGroup).not.toHaveBeenCalled();
+    });
+
+    it('should not let admins change their own role', async () => {
+      await expect(userService.changeRole('tenant-001', 'user-002', 'user-002', 'tenant-admin', { role: 'tenant-user' }))
+        .rejects.toMatchObject({ statusCode: 422 });
+    });
+  });
+
+  describe('disableUser', () => {
+    it('should disable and re-enable the login', async () => {
+      const disabled = await userService.disableUser('tenant-001', 'user-002', 'user-001', 'tenant-admin');
+
+      expect(disabled).toEqual(expect.objectContaining({ status: 'disabled', disabledBy: 'user-001' }));
+      expect(mockCognito.adminDisableUser).toHaveBeenCalledWith(expect.objectContaining({ Username: 'user-002' }));
+      expect(mockCognito.adminUserGlobalSignOut).toHaveBeenCalledWith(expect.objectContaining({ Username: 'user-002' }));
+
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: disabled }));
+      const enabled = await userService.enableUser('tenant-001', 'user-002', 'user-001', 'tenant-admin');
+
+      expect(enabled!.status).toBe('active');
+      expect(enabled).not.toHaveProperty('disabledAt');
+      expect(mockCognito.adminEnableUser).toHaveBeenCalledWith(expect.objectContaining({ Username: 'user-002' }));
+    });
+
+    it('should reject users that are already disabled', async () => {
+      mockDynamoDB.get.mockReturnValue(awsResponse({ Item: { ...jane, status: 'disabled' } }));
+
+      await expect(userService.disableUser('tenant-001', 'user-002', 'user-001', 'tenant-admin'))
+        .rejects.toMatchObject({ statusCode: 422 });
+      expect(mockCognito.adminDisableUser).not.toHaveBeenCalled();
+    });
+  });
+});
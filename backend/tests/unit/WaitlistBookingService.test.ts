@@ -0,0 +1,126 @@
+import { Appointment } from '../../src/services/AppointmentService';
+import { WaitlistBookingService } from '../../src/services/WaitlistBookingService';
+import { DEFAULT_TENANT_SETTINGS, TenantService } from '../../src/services/TenantService';
+import { WaitlistEntry, WaitlistService } from '../../src/services/WaitlistService';
+import { awsResponse, mockDynamoDB } from '../helpers/aws';
+
+jest.mock('../../src/services/InvitationService');
+// Unknown tenants fall back to the real default settings, working hours included
+jest.mock('../../src/services/TenantService', () => ({
+  ...jest.createMockFromModule<object>('../../src/services/TenantService'),
+  DEFAULT_TENANT_SETTINGS: jest.requireActual('../../src/services/TenantService').DEFAULT_TENANT_SETTINGS
+}));
+jest.mock('../../src/services/WaitlistService');
+jest.mock('../../src/services/ResourceService');
+jest.mock('../../src/services/ServiceCatalogService');
+jest.mock('../../src/services/DelegationService');
+
+const MockedTenantService = TenantService as jest.MockedClass<typeof TenantService>;
+const MockedWaitlistService = WaitlistService as jest.MockedClass<typeof WaitlistService>;
+
+describe('WaitlistBookingService', () => {
+  let waitlistBookingService: WaitlistBookingService;
+  let mockAppointment: Appointment;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    waitlistBookingService = new WaitlistBookingService();
+    mockAppointment = {
+      appointmentId: 'test-appointment-123',
+      tenantId: 'test-tenant',
+      userId: 'test-user',
+      title: 'Test Appointment',
+      description: 'Test Description',
+      startTime: '2024-01-15T10:00:00Z',
+      endTime: '2024-01-15T11:00:00Z',
+      location: 'Test Location',
+      attendees: [{ email: 'test@example.com', responseStatus: 'needs-action' }],
+      status: 'scheduled',
+      reminderMinutes: 60,
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z'
+    };
+  });
+
+  describe('acceptWaitlistOffer', () => {
+    let waitlistService: jest.Mocked<WaitlistService>;
+    let offered: WaitlistEntry;
+
+    beforeEach(() => {
+      // The first instance belongs to the AppointmentService
+      waitlistService = MockedWaitlistService.mock.instances[1] as jest.Mocked<WaitlistService>;
+      (MockedTenantService.mock.instances[0] as jest.Mocked<TenantService>).getSettings.mockResolvedValue(DEFAULT_TENANT_SETTINGS);
+
+      offered = {
+        entryId: 'entry-1',
+        tenantId: 'test-tenant',
+        userId: 'test-user',
+        requestedBy: 'patient-1',
+        title: 'Check-up',
+        windowStart: '2030-01-15T08:00:00.000Z',
+        windowEnd: '2030-01-15T18:00:00.000Z',
+        durationMinutes: 30,
+        status: 'offered',
+        offer: {
+          slotId: 'test-appointment-123',
+          startTime: '2030-01-15T10:00:00.000Z',
+          endTime: '2030-01-15T10:30:00.000Z',
+          offeredAt: '2030-01-14T10:00:00.000Z',
+          expiresAt: '2099-01-01T00:00:00.000Z'
+        },
+        createdAt: '2030-01-01T00:00:00.000Z',
+        updatedAt: '2030-01-14T10:00:00.000Z'
+      };
+      waitlistService.getEntry.mockResolvedValue(offered);
+      waitlistService.canManage.mockReturnValue(true);
+      waitlistService.acceptanceWrites.mockReturnValue([{ Put: { TableName: 'test-appointments', Item: { PK: 'claim' } } }]);
+
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+      mockDynamoDB.put.mockReturnValue(awsResponse({}));
+      mockDynamoDB.update.mockReturnValue(awsResponse({}));
+      mockDynamoDB.transactWrite.mockReturnValue(awsResponse({}));
+    });
+
+    it('should book the offer and claim it in one transaction', async () => {
+      const appointment = await waitlistBookingService.acceptWaitlistOffer('test-tenant', 'entry-1', 'admin-1', 'tenant-admin');
+
+      expect(appointment).toEqual(expect.objectContaining({
+        userId: 'test-user',
+        title: 'Check-up',
+        startTime: '2030-01-15T10:00:00.000Z',
+        endTime: '2030-01-15T10:30:00.000Z'
+      }));
+      expect(waitlistService.acceptanceWrites).toHaveBeenCalledWith(offered, appointment!.appointmentId, expect.any(Date));
+
+      const items = mockDynamoDB.transactWrite.mock.calls[0][0].TransactItems;
+      expect(items).toHaveLength(2);
+      expect(items[0].Put.Item).toEqual(expect.objectContaining({ appointmentId: appointment!.appointmentId }));
+      expect(items[1]).toEqual({ Put: { TableName: 'test-appointments', Item: { PK: 'claim' } } });
+
+      const audit = mockDynamoDB.put.mock.calls[0][0].Item;
+      expect(audit).toEqual(expect.objectContaining({ action: 'create', ownerId: 'test-user', actorId: 'admin-1' }));
+    });
+
+    it('should reject offers that were claimed, expired or never made', async () => {
+      mockDynamoDB.transactWrite.mockReturnValue({
+        promise: () => Promise.reject(Object.assign(new Error('Transaction cancelled [None, ConditionalCheckFailed, None]'), {
+          code: 'TransactionCanceledException'
+        }))
+      });
+      await expect(waitlistBookingService.acceptWaitlistOffer('test-tenant', 'entry-1', 'test-user', 'tenant-user'))
+        .rejects.toMatchObject({ statusCode: 409, message: 'The offer is no longer available' });
+
+      waitlistService.getEntry.mockResolvedValue({ ...offered, offer: { ...offered.offer!, expiresAt: '2020-01-01T00:00:00.000Z' } });
+      await expect(waitlistBookingService.acceptWaitlistOffer('test-tenant', 'entry-1', 'patient-1', 'tenant-user'))
+        .rejects.toMatchObject({ statusCode: 422, message: 'The offer has expired' });
+
+      waitlistService.getEntry.mockResolvedValue({ ...offered, status: 'waiting', offer: undefined });
+      await expect(waitlistBookingService.acceptWaitlistOffer('test-tenant', 'entry-1', 'patient-1', 'tenant-user'))
+        .rejects.toMatchObject({ statusCode: 422 });
+
+      waitlistService.canManage.mockReturnValue(false);
+      await expect(waitlistBookingService.acceptWaitlistOffer('test-tenant', 'entry-1', 'someone-else', 'tenant-user'))
+        .rejects.toMatchObject({ statusCode: 403 });
+    });
+  });
+});
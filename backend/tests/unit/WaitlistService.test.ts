@@ -0,0 +1,184 @@
+import { WaitlistEntry, WaitlistService } from '../../src/services/WaitlistService';
+import { TenantService } from '../../src/services/TenantService';
+import { MailTransport } from '../../src/notifications/MailTransport';
+import { awsError, awsResponse, mockDynamoDB } from '../helpers/aws';
+
+jest.mock('../../src/services/TenantService');
+
+const MockedTenantService = TenantService as jest.MockedClass<typeof TenantService>;
+
+const now = new Date('2024-01-15T09:00:00.000Z');
+
+const waitingEntry = (overrides: Partial<WaitlistEntry> = {}): WaitlistEntry => ({
+  entryId: 'entry-1',
+  tenantId: 'test-tenant',
+  userId: 'doctor-1',
+  requestedBy: 'patient-1',
+  title: 'Check-up',
+  windowStart: '2024-01-16T08:00:00.000Z',
+  windowEnd: '2024-01-16T18:00:00.000Z',
+  durationMinutes: 30,
+  email: 'patient@example.com',
+  status: 'waiting',
+  createdAt: '2024-01-10T00:00:00.000Z',
+  updatedAt: '2024-01-10T00:00:00.000Z',
+  ...overrides
+});
+
+const freedSlot = {
+  slotId: 'app-1',
+  userId: 'doctor-1',
+  startTime: '2024-01-16T10:00:00.000Z',
+  endTime: '2024-01-16T11:00:00.000Z'
+};
+
+describe('WaitlistService', () => {
+  let waitlistService: WaitlistService;
+  let mailTransport: jest.Mocked<MailTransport>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mailTransport = { send: jest.fn().mockResolvedValue(undefined) };
+    waitlistService = new WaitlistService(mailTransport);
+    (MockedTenantService.mock.instances[0] as jest.Mocked<TenantService>).getSettings.mockResolvedValue({
+      timezone: 'UTC',
+      workingHours: { start: '09:00', end: '17:00', days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'] }
+    });
+
+    mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [] }));
+    mockDynamoDB.put.mockReturnValue(awsResponse({}));
+    mockDynamoDB.update.mockReturnValue(awsResponse({}));
+  });
+
+  describe('createEntry', () => {
+    it('should add the requester to the waitlist of their own calendar', async () => {
+      const entry = await waitlistService.createEntry('test-tenant', 'patient-1', 'tenant-user', {
+        title: 'Check-up',
+        windowStart: '2024-01-16T08:00:00Z',
+        windowEnd: '2024-01-16T18:00:00Z',
+        durationMinutes: 30
+      });
+
+      expect(entry).toEqual(expect.objectContaining({ userId: 'patient-1', requestedBy: 'patient-1', status: 'waiting' }));
+      expect(mockDynamoDB.put.mock.calls[0][0].Item).toEqual(expect.objectContaining({
+        PK: `TENANT#test-tenant#WAITLIST#${entry.entryId}`,
+        GSI1PK: 'TENANT#test-tenant#WAITLIST',
+        GSI2PK: 'TENANT#test-tenant#USER#patient-1#WAITLIST',
+        GSI2SK: `2024-01-16T18:00:00.000Z#${entry.entryId}`
+      }));
+    });
+
+    it('should only let admins wait in other calendars, for durations that fit the window', async () => {
+      const data = {
+        userId: 'doctor-1',
+        title: 'Check-up',
+        windowStart: '2024-01-16T08:00:00Z',
+        windowEnd: '2024-01-16T08:20:00Z',
+        durationMinutes: 30
+      };
+
+      await expect(waitlistService.createEntry('test-tenant', 'patient-1', 'tenant-user', data))
+        .rejects.toMatchObject({ statusCode: 403 });
+      await expect(waitlistService.createEntry('test-tenant', 'admin-1', 'tenant-admin', data))
+        .rejects.toMatchObject({ statusCode: 400 });
+      expect(mockDynamoDB.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('offerSlot', () => {
+    it('should offer the slot to the longest-waiting entry it fits', async () => {
+      mockDynamoDB.query.mockReturnValue(awsResponse({
+        Items: [
+          waitingEntry({ entryId: 'entry-2', createdAt: '2024-01-11T00:00:00.000Z' }),
+          waitingEntry({ entryId: 'too-long', durationMinutes: 90 }),
+          waitingEntry({ entryId: 'too-late', windowStart: '2024-01-16T12:00:00.000Z' }),
+          waitingEntry()
+        ]
+      }));
+
+      const offered = await waitlistService.offerSlot('test-tenant', freedSlot, now);
+
+      expect(mockDynamoDB.query).toHaveBeenCalledWith(expect.objectContaining({
+        IndexName: 'GSI2',
+        KeyConditionExpression: 'GSI2PK = :waitingKey AND GSI2SK > :slotStart',
+        ExpressionAttributeValues: { ':waitingKey': 'TENANT#test-tenant#USER#doctor-1#WAITLIST', ':slotStart': '2024-01-16T10:00:00.000Z' }
+      }));
+      expect(mockDynamoDB.query.mock.calls[0][0].FilterExpression).toBeUndefined();
+      expect(offered?.entryId).toBe('entry-1');
+      expect(offered?.offer).toEqual({
+        slotId: 'app-1',
+        startTime: '2024-01-16T10:00:00.000Z',
+        endTime: '2024-01-16T10:30:00.000Z',
+        offeredAt: '2024-01-15T09:00:00.000Z',
+        expiresAt: '2024-01-15T10:00:00.000Z'
+      });
+      expect(mockDynamoDB.update).toHaveBeenCalledTimes(1);
+      expect(mockDynamoDB.update.mock.calls[0][0].ExpressionAttributeValues).toEqual(expect.objectContaining({
+        ':status': 'offered',
+        ':current': 'waiting',
+        ':offerPartition': 'WAITLIST_OFFER#2024-01-15T10',
+        ':offerSortKey': '2024-01-15T10:00:00.000Z#test-tenant#entry-1'
+      }));
+      expect(mockDynamoDB.update.mock.calls[0][0].UpdateExpression).toContain('REMOVE GSI2PK, GSI2SK');
+      expect(mailTransport.send).toHaveBeenCalledWith(expect.objectContaining({ to: 'patient@example.com' }));
+    });
+
+    it('should move on when another release claimed the entry first', async () => {
+      mockDynamoDB.query.mockReturnValue(awsResponse({ Items: [waitingEntry(), waitingEntry({ entryId: 'entry-2' })] }));
+      mockDynamoDB.update
+        .mockReturnValueOnce(awsError('ConditionalCheckFailedException'))
+        .mockReturnValueOnce(awsResponse({}));
+
+      const offered = await waitlistService.offerSlot('test-tenant', freedSlot, now);
+
+      expect(offered?.entryId).toBe('entry-2');
+    });
+
+    it('should not offer slots that have already started', async () => {
+      const offered = await waitlistService.offerSlot('test-tenant', freedSlot, new Date('2024-01-16T10:00:00.000Z'));
+
+      expect(offered).toBeNull();
+      expect(mockDynamoDB.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acceptanceWrites', () => {
+    it('should only book an unexpired offer, and each slot once', () => {
+      const entry = waitingEntry({
+        status: 'offered',
+        offer: { ...freedSlot, offeredAt: '2024-01-15T09:00:00.000Z', expiresAt: '2024-01-15T10:00:00.000Z' }
+      });
+
+      const [accept, claim] = waitlistService.acceptanceWrites(entry, 'app-2', now);
+
+      expect(accept.Update!.ConditionExpression).toBe('#status = :offered AND offer.slotId = :slotId AND offer.expiresAt > :now');
+      expect(accept.Update!.ExpressionAttributeValues).toEqual(expect.objectContaining({
+        ':appointmentId': 'app-2',
+        ':slotId': 'app-1',
+        ':now': '2024-01-15T09:00:00.000Z'
+      }));
+      expect(claim.Put!.Item).toEqual(expect.objectContaining({ PK: 'TENANT#test-tenant#WAITLIST_CLAIM#app-1', entryId: 'entry-1' }));
+      expect(claim.Put!.ConditionExpression).toBe('attribute_not_exists(PK)');
+    });
+  });
+
+  describe('expireOffers', () => {
+    it('should expire unanswered offers and pass the slot on', async () => {
+      const expired = waitingEntry({
+        status: 'offered',
+        offer: { ...freedSlot, offeredAt: '2024-01-15T07:00:00.000Z', expiresAt: '2024-01-15T08:00:00.000Z' }
+      });
+      mockDynamoDB.query.mockImplementation((params: any) => awsResponse({
+        Items: params.IndexName === 'GSI3'
+          ? (params.ExpressionAttributeValues[':partition'] === 'WAITLIST_OFFER#2024-01-15T08' ? [expired] : [])
+          : [waitingEntry({ entryId: 'entry-2' })]
+      }));
+
+      const summary = await waitlistService.expireOffers(now);
+
+      expect(summary).toEqual({ expired: 1, reoffered: 1 });
+      expect(mockDynamoDB.update.mock.calls[0][0].ExpressionAttributeValues[':status']).toBe('expired');
+      expect(mockDynamoDB.update.mock.calls[1][0].Key.PK).toBe('TENANT#test-tenant#WAITLIST#entry-2');
+    });
+  });
+});
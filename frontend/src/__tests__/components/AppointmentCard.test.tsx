@@ -33,6 +33,7 @@ describe('AppointmentCard', () => {
     location: 'Test Location',
     attendees: ['test@example.com'],
     status: 'scheduled',
+    version: 3,
     reminderMinutes: 60,
     createdAt: '2024-01-01T00:00:00Z',
     updatedAt: '2024-01-01T00:00:00Z'
@@ -170,6 +171,58 @@ describe('AppointmentCard', () => {
     expect(screen.getByText('3 attendees')).toBeInTheDocument()
   })
 
+  it('shows the RSVP state of each attendee', () => {
+    const appointmentWithResponses = {
+      ...mockAppointment,
+      attendees: [
+        { name: 'Jane Doe', email: 'jane@example.com', responseStatus: 'accepted' as const },
+        { email: 'john@example.com', responseStatus: 'declined' as const },
+        'legacy@example.com'
+      ]
+    }
+
+    render(
+      <AppointmentCard
+        appointment={appointmentWithResponses}
+        onUpdate={mockOnUpdate}
+        onDelete={mockOnDelete}
+      />
+    )
+
+    expect(screen.getByText('Jane Doe')).toBeInTheDocument()
+    expect(screen.getByText('Accepted')).toBeInTheDocument()
+    expect(screen.getByText('Declined')).toBeInTheDocument()
+    expect(screen.getByText('legacy@example.com')).toBeInTheDocument()
+    expect(screen.getByText('Awaiting reply')).toBeInTheDocument()
+  })
+
+  it('shows how often the appointment was rescheduled and why', () => {
+    const rescheduled = {
+      ...mockAppointment,
+      rescheduleCount: 2,
+      rescheduleHistory: [{
+        previousStartTime: '2024-01-14T10:00:00Z',
+        previousEndTime: '2024-01-14T11:00:00Z',
+        startTime: '2024-01-15T10:00:00Z',
+        endTime: '2024-01-15T11:00:00Z',
+        reason: 'Doctor is ill',
+        rescheduledBy: 'test-user',
+        rescheduledByRole: 'tenant-user',
+        rescheduledAt: '2024-01-13T00:00:00Z'
+      }]
+    }
+
+    render(
+      <AppointmentCard
+        appointment={rescheduled}
+        onUpdate={mockOnUpdate}
+        onDelete={mockOnDelete}
+      />
+    )
+
+    expect(screen.getByText('Rescheduled 2 times')).toHaveAttribute('title', 'Last reason: Doctor is ill')
+  })
+
   it('calls onUpdate when status is changed to confirmed', async () => {
     const mockUpdateAppointment = apiService.updateAppointment as jest.MockedFunction<typeof apiService.updateAppointment>
     mockUpdateAppointment.mockResolvedValue(undefined)
@@ -186,7 +239,7 @@ describe('AppointmentCard', () => {
     fireEvent.click(confirmButton)
 
     await waitFor(() => {
-      expect(mockUpdateAppointment).toHaveBeenCalledWith('test-appointment-123', { status: 'confirmed' })
+      expect(mockUpdateAppointment).toHaveBeenCalledWith('test-appointment-123', { status: 'confirmed' }, undefined, mockAppointment.version)
       expect(mockOnUpdate).toHaveBeenCalled()
     })
   })
@@ -207,7 +260,7 @@ describe('AppointmentCard', () => {
     fireEvent.click(cancelButton)
 
     await waitFor(() => {
-      expect(mockUpdateAppointment).toHaveBeenCalledWith('test-appointment-123', { status: 'cancelled' })
+      expect(mockUpdateAppointment).toHaveBeenCalledWith('test-appointment-123', { status: 'cancelled' }, undefined, mockAppointment.version)
       expect(mockOnUpdate).toHaveBeenCalled()
     })
   })
@@ -232,7 +285,7 @@ describe('AppointmentCard', () => {
 
     await waitFor(() => {
       expect(window.confirm).toHaveBeenCalledWith('Are you sure you want to delete this appointment?')
-      expect(mockDeleteAppointment).toHaveBeenCalledWith('test-appointment-123')
+      expect(mockDeleteAppointment).toHaveBeenCalledWith('test-appointment-123', undefined, mockAppointment.version)
       expect(mockOnDelete).toHaveBeenCalled()
     })
   })
@@ -289,6 +342,35 @@ describe('AppointmentCard', () => {
     expect(screen.queryByText('Cancel')).not.toBeInTheDocument()
   })
 
+  it('shows the times in the appointment\'s zone unless another one is given', () => {
+    const { format } = require('date-fns')
+    const appointment = { ...mockAppointment, timezone: 'America/New_York' }
+
+    const { rerender } = render(
+      <AppointmentCard
+        appointment={appointment}
+        onUpdate={mockOnUpdate}
+        onDelete={mockOnDelete}
+      />
+    )
+
+    expect(screen.getByText('EST')).toHaveAttribute('title', 'America/New_York')
+    expect(format.mock.calls[0][0].getHours()).toBe(5)
+
+    format.mockClear()
+    rerender(
+      <AppointmentCard
+        appointment={appointment}
+        timezone="Asia/Tokyo"
+        onUpdate={mockOnUpdate}
+        onDelete={mockOnDelete}
+      />
+    )
+
+    expect(screen.getByText('GMT+9')).toHaveAttribute('title', 'Asia/Tokyo')
+    expect(format.mock.calls[0][0].getHours()).toBe(19)
+  })
+
   it('handles API errors gracefully', async () => {
     const mockUpdateAppointment = apiService.updateAppointment as jest.MockedFunction<typeof apiService.updateAppointment>
     mockUpdateAppointment.mockRejectedValue(new Error('API Error'))
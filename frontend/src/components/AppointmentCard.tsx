@@ -1,5 +1,5 @@
 import { useState } from 'react'
-import { format, parseISO } from 'date-fns'
+import { format } from 'date-fns'
 import { 
   CalendarIcon, 
   ClockIcon, 
@@ -8,9 +8,11 @@ import {
   PencilIcon,
   TrashIcon,
   CheckCircleIcon,
-  XCircleIcon
+  XCircleIcon,
+  ArrowPathIcon
 } from '@heroicons/react/24/outline'
-import { apiService } from '../services/apiService'
+import { apiService, Attendee, AttendeeResponse, Reschedule } from '../services/apiService'
+import { toZonedTime, viewerTimezone, zoneLabel } from '../utils/timezones'
 import toast from 'react-hot-toast'
 
 interface Appointment {
@@ -19,19 +21,33 @@ interface Appointment {
   description?: string
   startTime: string
   endTime: string
+  timezone?: string
   location?: string
   status: 'scheduled' | 'confirmed' | 'cancelled' | 'completed'
-  attendees?: string[]
+  attendees?: (Attendee | string)[] // Appointments from before RSVPs list plain emails
+  rescheduleHistory?: Reschedule[]
+  rescheduleCount?: number
+  version?: number
+}
+
+const RESPONSE_BADGES: { [response in AttendeeResponse]: { label: string; className: string } } = {
+  'needs-action': { label: 'Awaiting reply', className: 'bg-gray-100 text-gray-700' },
+  accepted: { label: 'Accepted', className: 'bg-green-100 text-green-800' },
+  tentative: { label: 'Maybe', className: 'bg-yellow-100 text-yellow-800' },
+  declined: { label: 'Declined', className: 'bg-red-100 text-red-800' }
 }
 
 interface AppointmentCardProps {
   appointment: Appointment
   onUpdate: () => void
   onDelete: () => void
+  // Zone to show the times in; defaults to the appointment's own zone
+  timezone?: string
 }
 
-export function AppointmentCard({ appointment, onUpdate, onDelete }: AppointmentCardProps) {
+export function AppointmentCard({ appointment, onUpdate, onDelete, timezone }: AppointmentCardProps) {
   const [isLoading, setIsLoading] = useState(false)
+  const zone = timezone || appointment.timezone || viewerTimezone()
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -64,12 +80,22 @@ export function AppointmentCard({ appointment, onUpdate, onDelete }: Appointment
     try {
       await apiService.updateAppointment(
         appointment.appointmentId,
-        { status: newStatus }
+        { status: newStatus },
+        undefined,
+        appointment.version
       )
       toast.success('Appointment status updated')
       onUpdate()
-    } catch (error) {
-      toast.error('Failed to update appointment status')
+    } catch (error: any) {
+      if (error.response?.status === 412) {
+        toast.error('This appointment was changed by someone else. Please review it and try again.')
+        onUpdate()
+      } else {
+        // 422 carries the reason the transition isn't allowed
+        toast.error(error.response?.status === 422
+          ? error.response.data.error.message
+          : 'Failed to update appointment status')
+      }
     } finally {
       setIsLoading(false)
     }
@@ -82,16 +108,45 @@ export function AppointmentCard({ appointment, onUpdate, onDelete }: Appointment
 
     setIsLoading(true)
     try {
-      await apiService.deleteAppointment(appointment.appointmentId)
-      toast.success('Appointment deleted')
+      await apiService.deleteAppointment(appointment.appointmentId, undefined, appointment.version)
+      toast.success((t) => (
+        <span className="flex items-center gap-3">
+          Appointment deleted
+          <button
+            onClick={() => handleUndoDelete(t.id)}
+            className="text-sm font-medium text-primary-600 hover:text-primary-700"
+          >
+            Undo
+          </button>
+        </span>
+      ))
       onDelete()
-    } catch (error) {
-      toast.error('Failed to delete appointment')
+    } catch (error: any) {
+      if (error.response?.status === 412) {
+        toast.error('This appointment was changed by someone else. Please review it and try again.')
+        onUpdate()
+      } else {
+        toast.error('Failed to delete appointment')
+      }
     } finally {
       setIsLoading(false)
     }
   }
 
+  // Deletes only move the appointment to the trash, so they can be taken back
+  const handleUndoDelete = async (toastId: string) => {
+    toast.dismiss(toastId)
+    try {
+      await apiService.restoreAppointment(appointment.appointmentId)
+      toast.success('Appointment restored')
+      onUpdate()
+    } catch (error: any) {
+      toast.error(error.response?.status === 409
+        ? 'The time slot has been booked in the meantime'
+        : 'Failed to restore appointment')
+    }
+  }
+
   return (
     <div className="card hover:shadow-lg transition-shadow duration-200">
       <div className="card-body">
@@ -110,14 +165,27 @@ export function AppointmentCard({ appointment, onUpdate, onDelete }: Appointment
         <div className="space-y-2 mb-4">
           <div className="flex items-center text-sm text-gray-500">
             <CalendarIcon className="h-4 w-4 mr-2" />
-            {format(parseISO(appointment.startTime), 'MMM dd, yyyy')}
+            {format(toZonedTime(appointment.startTime, zone), 'MMM dd, yyyy')}
           </div>
           
           <div className="flex items-center text-sm text-gray-500">
             <ClockIcon className="h-4 w-4 mr-2" />
-            {format(parseISO(appointment.startTime), 'h:mm a')} - {format(parseISO(appointment.endTime), 'h:mm a')}
+            {format(toZonedTime(appointment.startTime, zone), 'h:mm a')} - {format(toZonedTime(appointment.endTime, zone), 'h:mm a')}
+            <span className="ml-1 text-xs text-gray-400" title={zone}>{zoneLabel(appointment.startTime, zone)}</span>
           </div>
 
+          {!!appointment.rescheduleCount && (
+            <div
+              className="flex items-center text-sm text-gray-500"
+              title={appointment.rescheduleHistory?.length
+                ? `Last reason: ${appointment.rescheduleHistory[appointment.rescheduleHistory.length - 1].reason}`
+                : undefined}
+            >
+              <ArrowPathIcon className="h-4 w-4 mr-2" />
+              Rescheduled {appointment.rescheduleCount} time{appointment.rescheduleCount !== 1 ? 's' : ''}
+            </div>
+          )}
+
           {appointment.location && (
             <div className="flex items-center text-sm text-gray-500">
               <MapPinIcon className="h-4 w-4 mr-2" />
@@ -126,9 +194,25 @@ export function AppointmentCard({ appointment, onUpdate, onDelete }: Appointment
           )}
 
           {appointment.attendees && appointment.attendees.length > 0 && (
-            <div className="flex items-center text-sm text-gray-500">
-              <UserGroupIcon className="h-4 w-4 mr-2" />
-              {appointment.attendees.length} attendee{appointment.attendees.length !== 1 ? 's' : ''}
+            <div className="text-sm text-gray-500">
+              <div className="flex items-center">
+                <UserGroupIcon className="h-4 w-4 mr-2" />
+                {appointment.attendees.length} attendee{appointment.attendees.length !== 1 ? 's' : ''}
+              </div>
+              <ul className="mt-1 ml-6 space-y-1">
+                {appointment.attendees.map(entry => {
+                  const attendee = typeof entry === 'string' ? { email: entry, responseStatus: 'needs-action' as const } : entry
+                  const badge = RESPONSE_BADGES[attendee.responseStatus] || RESPONSE_BADGES['needs-action']
+                  return (
+                    <li key={attendee.email} className="flex items-center justify-between">
+                      <span className="truncate" title={attendee.email}>{attendee.name || attendee.email}</span>
+                      <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${badge.className}`}>
+                        {badge.label}
+                      </span>
+                    </li>
+                  )
+                })}
+              </ul>
             </div>
           )}
         </div>
@@ -145,7 +229,17 @@ export function AppointmentCard({ appointment, onUpdate, onDelete }: Appointment
               </button>
             )}
             
-            {appointment.status !== 'cancelled' && (
+            {appointment.status === 'confirmed' && (
+              <button
+                onClick={() => handleStatusChange('completed')}
+                disabled={isLoading}
+                className="text-xs px-3 py-1 bg-blue-100 text-blue-700 rounded-full hover:bg-blue-200 transition-colors disabled:opacity-50"
+              >
+                Complete
+              </button>
+            )}
+            
+            {(appointment.status === 'scheduled' || appointment.status === 'confirmed') && (
               <button
                 onClick={() => handleStatusChange('cancelled')}
                 disabled={isLoading}
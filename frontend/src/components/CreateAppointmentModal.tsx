@@ -1,19 +1,24 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { XMarkIcon } from '@heroicons/react/24/outline'
 import DatePicker from 'react-datepicker'
-import { apiService } from '../services/apiService'
+import { BookableService, Resource, apiService } from '../services/apiService'
 import toast from 'react-hot-toast'
+import { COMMON_TIMEZONES, fromZonedTime, toZonedTime, viewerTimezone } from '../utils/timezones'
 import 'react-datepicker/dist/react-datepicker.css'
 
 interface CreateAppointmentForm {
+  serviceId: string
   title: string
   description?: string
   startTime: Date
   endTime: Date
   location?: string
+  resourceIds: string[]
   attendees?: string
   reminderMinutes: number
+  repeat: '' | 'DAILY' | 'WEEKLY' | 'MONTHLY'
+  repeatCount: number
 }
 
 interface CreateAppointmentModalProps {
@@ -24,15 +29,43 @@ interface CreateAppointmentModalProps {
 
 export function CreateAppointmentModal({ tenantId, onClose, onSuccess }: CreateAppointmentModalProps) {
   const [isLoading, setIsLoading] = useState(false)
-  const [startDate, setStartDate] = useState<Date | null>(new Date())
-  const [endDate, setEndDate] = useState<Date | null>(new Date(Date.now() + 60 * 60 * 1000)) // 1 hour later
+  // The pickers edit wall-clock times in this zone; they are converted on submit
+  const [timezone, setTimezone] = useState(viewerTimezone())
+  const [startDate, setStartDate] = useState<Date | null>(() => toZonedTime(new Date(), timezone))
+  const [endDate, setEndDate] = useState<Date | null>(() => toZonedTime(new Date(Date.now() + 60 * 60 * 1000), timezone)) // 1 hour later
+  const timezones = COMMON_TIMEZONES.includes(timezone) ? COMMON_TIMEZONES : [timezone, ...COMMON_TIMEZONES]
+  const [resources, setResources] = useState<Resource[]>([])
+  const [services, setServices] = useState<BookableService[]>([])
+
+  useEffect(() => {
+    apiService.getResources(tenantId)
+      .then(setResources)
+      .catch(() => setResources([])) // Booking works without the catalog
+    apiService.getServices(tenantId)
+      .then(setServices)
+      .catch(() => setServices([]))
+  }, [tenantId])
 
   const { register, handleSubmit, formState: { errors }, setValue, watch } = useForm<CreateAppointmentForm>({
     defaultValues: {
-      reminderMinutes: 60
+      serviceId: '',
+      reminderMinutes: 60,
+      resourceIds: [],
+      repeat: '',
+      repeatCount: 10
     }
   })
 
+  // A service sets the title and how long the appointment runs
+  const selectService = (serviceId: string) => {
+    const service = services.find(candidate => candidate.serviceId === serviceId)
+    if (!service) return
+    setValue('title', service.name)
+    if (startDate) {
+      setEndDate(new Date(startDate.getTime() + service.durationMinutes * 60 * 1000))
+    }
+  }
+
   const onSubmit = async (data: CreateAppointmentForm) => {
     if (!startDate || !endDate) {
       toast.error('Please select start and end times')
@@ -46,17 +79,42 @@ export function CreateAppointmentModal({ tenantId, onClose, onSuccess }: CreateA
 
     setIsLoading(true)
     try {
+      const { repeat, repeatCount, serviceId, ...fields } = data
       const appointmentData = {
-        ...data,
-        startTime: startDate.toISOString(),
-        endTime: endDate.toISOString(),
-        attendees: data.attendees ? data.attendees.split(',').map(email => email.trim()) : []
+        ...fields,
+        serviceId: serviceId || undefined,
+        startTime: fromZonedTime(startDate, timezone).toISOString(),
+        endTime: fromZonedTime(endDate, timezone).toISOString(),
+        timezone,
+        attendees: data.attendees ? data.attendees.split(',').map(email => email.trim()) : [],
+        // A single checkbox comes back as its value or false rather than a list
+        resourceIds: ([] as unknown[]).concat(data.resourceIds || []).filter((id): id is string => typeof id === 'string'),
+        recurrenceRule: repeat ? `FREQ=${repeat};COUNT=${repeatCount}` : undefined
       }
 
       await apiService.createAppointment(tenantId, appointmentData)
       toast.success('Appointment created successfully!')
       onSuccess()
-    } catch (error) {
+    } catch (error: any) {
+      if (error.response?.status === 409) {
+        const details = error.response.data?.error?.details || {}
+        const conflicts = details.conflicts || []
+        const busy: { name: string }[] = details.resources || []
+        toast.error(busy.length > 0
+          ? `${busy.map(resource => resource.name).join(', ')} ${busy.length !== 1 ? 'are' : 'is'} already booked at this time`
+          : `This time overlaps ${conflicts.length} existing appointment${conflicts.length !== 1 ? 's' : ''}`)
+        return
+      }
+      if (error.response?.status === 422) {
+        toast.error(error.response.data?.error?.message || 'This time cannot be booked')
+        return
+      }
+      // Outside business hours: each slot in the way says why
+      const violations: { message: string }[] = (error.response?.data?.error?.details?.errors || []).filter((item: any) => item?.message)
+      if (error.response?.status === 400 && violations.length > 0) {
+        toast.error(violations.length > 1 ? `${violations[0].message} (and ${violations.length - 1} more)` : violations[0].message)
+        return
+      }
       toast.error('Failed to create appointment')
     } finally {
       setIsLoading(false)
@@ -77,6 +135,23 @@ export function CreateAppointmentModal({ tenantId, onClose, onSuccess }: CreateA
         </div>
 
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {services.length > 0 && (
+            <div>
+              <label className="label">Service</label>
+              <select
+                {...register('serviceId', { onChange: (e) => selectService(e.target.value) })}
+                className="input"
+              >
+                <option value="">None</option>
+                {services.map(service => (
+                  <option key={service.serviceId} value={service.serviceId}>
+                    {service.name} ({service.durationMinutes} min)
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div>
             <label className="label">Title *</label>
             <input
@@ -111,7 +186,7 @@ export function CreateAppointmentModal({ tenantId, onClose, onSuccess }: CreateA
                 timeIntervals={15}
                 dateFormat="MMMM d, yyyy h:mm aa"
                 className="input w-full"
-                minDate={new Date()}
+                minDate={toZonedTime(new Date(), timezone)}
               />
             </div>
 
@@ -125,11 +200,27 @@ export function CreateAppointmentModal({ tenantId, onClose, onSuccess }: CreateA
                 timeIntervals={15}
                 dateFormat="MMMM d, yyyy h:mm aa"
                 className="input w-full"
-                minDate={startDate || new Date()}
+                minDate={startDate || toZonedTime(new Date(), timezone)}
               />
             </div>
           </div>
 
+          <div>
+            <label className="label">Time Zone</label>
+            <select
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              className="input"
+            >
+              {timezones.map(zone => (
+                <option key={zone} value={zone}>{zone}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              The times above are in this zone, and repeats stay at that time of day
+            </p>
+          </div>
+
           <div>
             <label className="label">Location</label>
             <input
@@ -140,6 +231,28 @@ export function CreateAppointmentModal({ tenantId, onClose, onSuccess }: CreateA
             />
           </div>
 
+          {resources.length > 0 && (
+            <div>
+              <label className="label">Rooms and equipment</label>
+              <div className="space-y-1">
+                {resources.map(resource => (
+                  <label key={resource.resourceId} className="flex items-center text-sm text-gray-700">
+                    <input
+                      {...register('resourceIds')}
+                      type="checkbox"
+                      value={resource.resourceId}
+                      className="mr-2"
+                    />
+                    {resource.name}
+                    {resource.capacity > 1 && (
+                      <span className="ml-1 text-xs text-gray-500">({resource.capacity} available)</span>
+                    )}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div>
             <label className="label">Attendees</label>
             <input
@@ -153,6 +266,29 @@ export function CreateAppointmentModal({ tenantId, onClose, onSuccess }: CreateA
             </p>
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="label">Repeat</label>
+              <select {...register('repeat')} className="input">
+                <option value="">Does not repeat</option>
+                <option value="DAILY">Daily</option>
+                <option value="WEEKLY">Weekly</option>
+                <option value="MONTHLY">Monthly</option>
+              </select>
+            </div>
+
+            {watch('repeat') && (
+              <div>
+                <label className="label">Occurrences</label>
+                <input
+                  {...register('repeatCount', { valueAsNumber: true, min: 1, max: 730 })}
+                  type="number"
+                  className="input"
+                />
+              </div>
+            )}
+          </div>
+
           <div>
             <label className="label">Reminder (minutes before)</label>
             <select
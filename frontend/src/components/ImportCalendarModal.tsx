@@ -0,0 +1,160 @@
+import { useState } from 'react'
+import { XMarkIcon, ArrowUpTrayIcon } from '@heroicons/react/24/outline'
+import { format, parseISO } from 'date-fns'
+import { apiService, ImportItemStatus, ImportReport } from '../services/apiService'
+import toast from 'react-hot-toast'
+
+interface ImportCalendarModalProps {
+  tenantId: string
+  onClose: () => void
+  onSuccess: () => void
+}
+
+const STATUS_STYLES: Record<ImportItemStatus, { label: string; className: string }> = {
+  ready: { label: 'Ready', className: 'bg-green-100 text-green-800' },
+  created: { label: 'Created', className: 'bg-green-100 text-green-800' },
+  conflict: { label: 'Conflict', className: 'bg-yellow-100 text-yellow-800' },
+  invalid: { label: 'Invalid', className: 'bg-red-100 text-red-800' },
+  skipped: { label: 'Skipped', className: 'bg-gray-100 text-gray-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' }
+}
+
+export function ImportCalendarModal({ tenantId, onClose, onSuccess }: ImportCalendarModalProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [calendar, setCalendar] = useState<string | null>(null)
+  const [preview, setPreview] = useState<ImportReport | null>(null)
+
+  // Every picked file is previewed first; nothing is saved until the user confirms
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    setIsLoading(true)
+    setPreview(null)
+    try {
+      const text = await file.text()
+      setFileName(file.name)
+      setCalendar(text)
+      setPreview(await apiService.importCalendar(tenantId, text, { dryRun: true }))
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || 'Failed to read calendar file')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!calendar) return
+
+    setIsLoading(true)
+    try {
+      const report = await apiService.importCalendar(tenantId, calendar, { dryRun: false })
+      const { created, total } = report.summary
+      if (created === total) {
+        toast.success(`Imported ${created} appointment${created !== 1 ? 's' : ''}`)
+      } else {
+        toast.success(`Imported ${created} of ${total} events; the others were left out`)
+      }
+      onSuccess()
+    } catch (error) {
+      toast.error('Failed to import calendar')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const formatTime = (time?: string) => (time ? format(parseISO(time), 'MMM dd, yyyy h:mm a') : '')
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-2xl shadow-lg rounded-md bg-white">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Import Calendar</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="calendar-file" className="label">Calendar file (.ics)</label>
+            <input
+              id="calendar-file"
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={handleFileChange}
+              disabled={isLoading}
+              className="block w-full text-sm text-gray-700"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Export the calendar from Google Calendar, Outlook or Apple Calendar as an .ics file
+            </p>
+          </div>
+
+          {isLoading && !preview && (
+            <p className="text-sm text-gray-500">Reading {fileName || 'calendar'}...</p>
+          )}
+
+          {preview && (
+            <>
+              <p className="text-sm text-gray-700">
+                {preview.summary.ready} of {preview.summary.total} events can be imported
+                {preview.summary.conflict > 0 && `, ${preview.summary.conflict} conflict with existing appointments`}
+                {preview.summary.invalid + preview.summary.skipped > 0 &&
+                  `, ${preview.summary.invalid + preview.summary.skipped} can't be imported`}
+                . Times without a time zone are read as {preview.timezone}.
+              </p>
+
+              <ul className="divide-y divide-gray-200 max-h-80 overflow-y-auto border rounded-md">
+                {preview.items.map(item => (
+                  <li key={item.index} className="px-3 py-2">
+                    <div className="flex items-center justify-between">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">{item.title || 'Untitled event'}</p>
+                        <p className="text-xs text-gray-500">
+                          {formatTime(item.startTime)}
+                          {item.recurrenceRule && ' · repeats'}
+                        </p>
+                      </div>
+                      <span className={`ml-3 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[item.status].className}`}>
+                        {STATUS_STYLES[item.status].label}
+                      </span>
+                    </div>
+                    {[...(item.errors || []), ...(item.warnings || [])].map(message => (
+                      <p key={message} className="mt-1 text-xs text-gray-600">{message}</p>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="btn-secondary"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={isLoading || !preview || preview.summary.ready === 0}
+              className="btn-primary"
+            >
+              <ArrowUpTrayIcon className="h-5 w-5 mr-2" />
+              {preview && preview.summary.ready > 0
+                ? `Import ${preview.summary.ready} appointment${preview.summary.ready !== 1 ? 's' : ''}`
+                : 'Import'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,292 @@
+import { useEffect, useState } from 'react'
+import Head from 'next/head'
+import { useRouter } from 'next/router'
+import { useForm } from 'react-hook-form'
+import { addDays, format } from 'date-fns'
+import toast from 'react-hot-toast'
+import { CalendarIcon, CheckCircleIcon, ClockIcon } from '@heroicons/react/24/outline'
+import { apiService, Booking, BookingPage, BookingSlots, PublicService } from '../../services/apiService'
+import { toZonedTime, zoneLabel } from '../../utils/timezones'
+
+// Slots are listed a week at a time
+const DAYS_SHOWN = 7
+
+interface ContactForm {
+  name: string
+  email: string
+  phone?: string
+  notes?: string
+  website: string
+}
+
+// Errors the public API answers with that customers can act on
+function bookingError(error: any, fallback: string): string {
+  switch (error.response?.status) {
+    case 404: return 'This booking page does not exist.'
+    case 409: return 'Sorry, that time was just taken. Please pick another one.'
+    case 429: return 'Too many requests. Please wait a moment and try again.'
+    case 400: return error.response.data?.error?.message || fallback
+    default: return fallback
+  }
+}
+
+function formatPrice(service: PublicService): string | null {
+  if (!service.price) return null
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency: service.price.currency }).format(service.price.amount)
+}
+
+// The tenant's public booking page. Customers pick a service and a slot, leave
+// their contact details and confirm the booking from the link mailed to them,
+// which opens this page again. Like RSVP links, the confirmation is only saved
+// once the button is pressed, so mail scanners don't confirm for the customer.
+export default function Book() {
+  const router = useRouter()
+  const { tenantSlug, appointmentId, token } = router.query as { [key: string]: string | undefined }
+  const [page, setPage] = useState<BookingPage | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [service, setService] = useState<PublicService | null>(null)
+  const [weekStart, setWeekStart] = useState<Date | null>(null)
+  const [slots, setSlots] = useState<BookingSlots | null>(null)
+  const [slot, setSlot] = useState<string | null>(null)
+  const [booking, setBooking] = useState<Booking | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const { register, handleSubmit, formState: { errors } } = useForm<ContactForm>({ defaultValues: { website: '' } })
+
+  useEffect(() => {
+    if (!router.isReady || !tenantSlug) {
+      return
+    }
+
+    apiService.getBookingPage(tenantSlug)
+      .then(loaded => {
+        setPage(loaded)
+        // Weeks start today in the tenant's timezone
+        setWeekStart(toZonedTime(new Date(), loaded.tenant.timezone))
+      })
+      .catch((error: any) => setError(bookingError(error, 'The booking page could not be loaded. Please try again later.')))
+  }, [router.isReady, tenantSlug])
+
+  useEffect(() => {
+    if (!page || !service || !weekStart) {
+      return
+    }
+
+    setSlots(null)
+    setSlot(null)
+    apiService.getBookingSlots(
+      page.tenant.slug,
+      service.serviceId,
+      format(weekStart, 'yyyy-MM-dd'),
+      format(addDays(weekStart, DAYS_SHOWN - 1), 'yyyy-MM-dd')
+    )
+      .then(setSlots)
+      .catch((error: any) => toast.error(bookingError(error, 'Open times could not be loaded')))
+  }, [page, service, weekStart])
+
+  const handleBook = async (data: ContactForm) => {
+    if (!page || !service || !slot) {
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const booked = await apiService.createBooking(page.tenant.slug, {
+        ...data,
+        serviceId: service.serviceId,
+        startTime: slot,
+        formToken: page.formToken
+      })
+      setBooking(booked)
+    } catch (error: any) {
+      toast.error(bookingError(error, 'Your booking could not be saved'))
+      if (error.response?.status === 409) {
+        setWeekStart(current => current && new Date(current))
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleConfirm = async () => {
+    setIsSaving(true)
+    try {
+      setBooking(await apiService.confirmBooking(tenantSlug!, appointmentId!, token!))
+    } catch (error: any) {
+      toast.error(error.response?.status === 403
+        ? 'This link is not valid. Please open it again from your confirmation mail.'
+        : error.response?.status === 422
+          ? error.response.data.error.message
+          : bookingError(error, 'Your booking could not be confirmed'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const timezone = page?.tenant.timezone || 'UTC'
+  const formatSlot = (startTime: string, pattern: string) => format(toZonedTime(startTime, timezone), pattern)
+  const days = (slots?.slots || []).reduce<{ [day: string]: string[] }>((grouped, open) => {
+    const day = formatSlot(open.startTime, 'yyyy-MM-dd')
+    grouped[day] = [...(grouped[day] || []), open.startTime]
+    return grouped
+  }, {})
+
+  return (
+    <>
+      <Head>
+        <title>{page ? `Book with ${page.tenant.name}` : 'Book an appointment'} - AppointifyX</title>
+      </Head>
+
+      <div className="min-h-screen bg-gray-50 flex justify-center py-12 px-4">
+        <div className="card max-w-2xl w-full">
+          <div className="card-body">
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            {!error && !page && <p className="text-sm text-gray-500">Loading...</p>}
+
+            {page && (
+              <h1 className="text-xl font-semibold text-gray-900 mb-4">Book with {page.tenant.name}</h1>
+            )}
+
+            {page && booking && (
+              <div className="text-center py-6">
+                <CheckCircleIcon className="h-12 w-12 text-green-600 mx-auto mb-3" />
+                <p className="text-gray-900 font-medium">{booking.title}</p>
+                <p className="text-sm text-gray-500 mb-4">
+                  {formatSlot(booking.startTime, 'EEEE, MMM dd, yyyy h:mm a')} {zoneLabel(booking.startTime, timezone)}
+                </p>
+                <p className="text-sm text-gray-700">
+                  {booking.status === 'confirmed'
+                    ? 'Your booking is confirmed. See you then!'
+                    : 'Almost done: we have sent you an email. Please open the link in it to confirm your booking.'}
+                </p>
+              </div>
+            )}
+
+            {page && !booking && appointmentId && token && (
+              <div className="text-center py-6">
+                <p className="text-sm text-gray-700 mb-4">Please confirm your booking.</p>
+                <button onClick={handleConfirm} disabled={isSaving} className="btn-primary disabled:opacity-50">
+                  {isSaving ? 'Confirming...' : 'Confirm booking'}
+                </button>
+              </div>
+            )}
+
+            {page && !booking && !appointmentId && (
+              <>
+                {page.services.length === 0 && (
+                  <p className="text-sm text-gray-500">There is nothing to book at the moment.</p>
+                )}
+
+                <div className="space-y-2 mb-6">
+                  {page.services.map(candidate => (
+                    <button
+                      key={candidate.serviceId}
+                      onClick={() => setService(candidate)}
+                      className={`w-full text-left border rounded-md p-3 hover:border-primary-500 ${
+                        service?.serviceId === candidate.serviceId ? 'border-primary-500 ring-1 ring-primary-500' : 'border-gray-200'
+                      }`}
+                    >
+                      <div className="flex justify-between">
+                        <span className="font-medium text-gray-900">{candidate.name}</span>
+                        {formatPrice(candidate) && <span className="text-sm text-gray-700">{formatPrice(candidate)}</span>}
+                      </div>
+                      <div className="flex items-center text-sm text-gray-500">
+                        <ClockIcon className="h-4 w-4 mr-1" />
+                        {candidate.durationMinutes} min
+                      </div>
+                      {candidate.description && <p className="text-sm text-gray-600 mt-1">{candidate.description}</p>}
+                    </button>
+                  ))}
+                </div>
+
+                {service && weekStart && (
+                  <div className="mb-6">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="flex items-center text-sm font-medium text-gray-700">
+                        <CalendarIcon className="h-4 w-4 mr-1" />
+                        {format(weekStart, 'MMM d')} - {format(addDays(weekStart, DAYS_SHOWN - 1), 'MMM d')}
+                        <span className="ml-1 text-gray-500">({zoneLabel(new Date(), timezone)})</span>
+                      </span>
+                      <div className="space-x-2">
+                        <button
+                          onClick={() => setWeekStart(addDays(weekStart, -DAYS_SHOWN))}
+                          disabled={weekStart <= toZonedTime(new Date(), timezone)}
+                          className="btn-secondary text-sm disabled:opacity-50"
+                        >
+                          Earlier
+                        </button>
+                        <button onClick={() => setWeekStart(addDays(weekStart, DAYS_SHOWN))} className="btn-secondary text-sm">
+                          Later
+                        </button>
+                      </div>
+                    </div>
+
+                    {!slots && <p className="text-sm text-gray-500">Loading open times...</p>}
+                    {slots && slots.slots.length === 0 && (
+                      <p className="text-sm text-gray-500">No open times this week. Please try a later week.</p>
+                    )}
+                    {Object.entries(days).map(([day, starts]) => (
+                      <div key={day} className="mb-3">
+                        <p className="text-sm text-gray-700 mb-1">{formatSlot(starts[0], 'EEEE, MMM dd')}</p>
+                        <div className="flex flex-wrap gap-2">
+                          {starts.map(start => (
+                            <button
+                              key={start}
+                              onClick={() => setSlot(start)}
+                              className={`px-3 py-1 rounded-md text-sm border ${
+                                slot === start ? 'bg-primary-600 text-white border-primary-600' : 'border-gray-300 text-gray-700'
+                              }`}
+                            >
+                              {formatSlot(start, 'h:mm a')}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {slot && (
+                  <form onSubmit={handleSubmit(handleBook)} className="space-y-4">
+                    <div>
+                      <label className="label">Name *</label>
+                      <input {...register('name', { required: 'Name is required' })} type="text" className="input" />
+                      {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>}
+                    </div>
+
+                    <div>
+                      <label className="label">Email *</label>
+                      <input {...register('email', { required: 'Email is required' })} type="email" className="input" />
+                      {errors.email && <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>}
+                    </div>
+
+                    <div>
+                      <label className="label">Phone</label>
+                      <input {...register('phone')} type="tel" className="input" />
+                    </div>
+
+                    <div>
+                      <label className="label">Notes</label>
+                      <textarea {...register('notes')} rows={3} className="input" />
+                    </div>
+
+                    {/* Honeypot: hidden from people, filled in by bots */}
+                    <div className="hidden" aria-hidden="true">
+                      <label>Website</label>
+                      <input {...register('website')} type="text" tabIndex={-1} autoComplete="off" />
+                    </div>
+
+                    <button type="submit" disabled={isSaving} className="btn-primary w-full disabled:opacity-50">
+                      {isSaving ? 'Booking...' : `Book ${formatSlot(slot, 'EEE, MMM dd h:mm a')}`}
+                    </button>
+                  </form>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
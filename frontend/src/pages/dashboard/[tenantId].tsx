@@ -5,6 +5,7 @@ import { useQuery } from 'react-query'
 import { 
   CalendarIcon, 
   PlusIcon, 
+  ArrowUpTrayIcon,
   UserGroupIcon,
   ClockIcon,
   CheckCircleIcon,
@@ -12,7 +13,9 @@ import {
 } from '@heroicons/react/24/outline'
 import { AppointmentCard } from '../../components/AppointmentCard'
 import { CreateAppointmentModal } from '../../components/CreateAppointmentModal'
-import { apiService } from '../../services/apiService'
+import { ImportCalendarModal } from '../../components/ImportCalendarModal'
+import { apiService, Attendee } from '../../services/apiService'
+import { viewerTimezone } from '../../utils/timezones'
 
 interface Appointment {
   appointmentId: string
@@ -20,15 +23,19 @@ interface Appointment {
   description?: string
   startTime: string
   endTime: string
+  timezone?: string
   location?: string
   status: 'scheduled' | 'confirmed' | 'cancelled' | 'completed'
-  attendees?: string[]
+  attendees?: (Attendee | string)[]
 }
 
 export default function Dashboard() {
   const router = useRouter()
   const { tenantId } = router.query
   const [showCreateModal, setShowCreateModal] = useState(false)
+  const [showImportModal, setShowImportModal] = useState(false)
+  // Times are shown where each appointment takes place, or all in the viewer's zone
+  const [showViewerZone, setShowViewerZone] = useState(false)
 
   const { data: appointments, isLoading, refetch } = useQuery(
     ['appointments', tenantId],
@@ -44,6 +51,11 @@ export default function Dashboard() {
     refetch()
   }
 
+  const handleCalendarImported = () => {
+    setShowImportModal(false)
+    refetch()
+  }
+
   const handleAppointmentUpdated = () => {
     refetch()
   }
@@ -75,13 +87,22 @@ export default function Dashboard() {
                   <p className="text-sm text-gray-500">Tenant: {tenantId}</p>
                 </div>
               </div>
-              <button
-                onClick={() => setShowCreateModal(true)}
-                className="btn-primary"
-              >
-                <PlusIcon className="h-5 w-5 mr-2" />
-                New Appointment
-              </button>
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => setShowImportModal(true)}
+                  className="btn-secondary"
+                >
+                  <ArrowUpTrayIcon className="h-5 w-5 mr-2" />
+                  Import
+                </button>
+                <button
+                  onClick={() => setShowCreateModal(true)}
+                  className="btn-primary"
+                >
+                  <PlusIcon className="h-5 w-5 mr-2" />
+                  New Appointment
+                </button>
+              </div>
             </div>
           </div>
         </header>
@@ -157,8 +178,16 @@ export default function Dashboard() {
 
           {/* Appointments List */}
           <div className="card">
-            <div className="card-header">
+            <div className="card-header flex items-center justify-between">
               <h2 className="text-lg font-medium text-gray-900">Recent Appointments</h2>
+              <select
+                value={showViewerZone ? 'viewer' : 'appointment'}
+                onChange={(e) => setShowViewerZone(e.target.value === 'viewer')}
+                className="input w-auto text-sm"
+              >
+                <option value="appointment">Times where they take place</option>
+                <option value="viewer">Times in my zone ({viewerTimezone()})</option>
+              </select>
             </div>
             <div className="card-body">
               {isLoading ? (
@@ -172,6 +201,7 @@ export default function Dashboard() {
                     <AppointmentCard
                       key={appointment.appointmentId}
                       appointment={appointment}
+                      timezone={showViewerZone ? viewerTimezone() : undefined}
                       onUpdate={handleAppointmentUpdated}
                       onDelete={handleAppointmentDeleted}
                     />
@@ -203,6 +233,15 @@ export default function Dashboard() {
             onSuccess={handleAppointmentCreated}
           />
         )}
+
+        {/* Import Calendar Modal */}
+        {showImportModal && (
+          <ImportCalendarModal
+            tenantId={tenantId as string}
+            onClose={() => setShowImportModal(false)}
+            onSuccess={handleCalendarImported}
+          />
+        )}
       </div>
     </>
   )
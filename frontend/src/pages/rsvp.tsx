@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react'
+import Head from 'next/head'
+import { useRouter } from 'next/router'
+import { format, parseISO } from 'date-fns'
+import toast from 'react-hot-toast'
+import { CalendarIcon, ClockIcon, MapPinIcon } from '@heroicons/react/24/outline'
+import { apiService, AttendeeResponse, Invitation } from '../services/apiService'
+
+type Answer = Exclude<AttendeeResponse, 'needs-action'>
+
+const ANSWERS: { response: Answer; label: string; className: string }[] = [
+  { response: 'accepted', label: 'Yes, I will attend', className: 'bg-green-600 hover:bg-green-700' },
+  { response: 'tentative', label: 'Maybe', className: 'bg-yellow-500 hover:bg-yellow-600' },
+  { response: 'declined', label: 'No, I can\'t attend', className: 'bg-red-600 hover:bg-red-700' }
+]
+
+const ANSWERED: { [response in AttendeeResponse]: string } = {
+  'needs-action': 'You haven\'t answered yet.',
+  accepted: 'You are attending.',
+  tentative: 'You might attend.',
+  declined: 'You are not attending.'
+}
+
+// Opened from the links in invitation mails. The token in the link identifies
+// the attendee, so no login is needed. The answer in the link is only
+// preselected and is saved once confirmed, so mail scanners opening the link
+// don't answer for the attendee.
+export default function Rsvp() {
+  const router = useRouter()
+  const { tenantId, appointmentId, token, response } = router.query as { [key: string]: string | undefined }
+  const [invitation, setInvitation] = useState<Invitation | null>(null)
+  const [selected, setSelected] = useState<Answer | undefined>()
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (!router.isReady) {
+      return
+    }
+    if (!tenantId || !appointmentId || !token) {
+      setError('This link is incomplete. Please open it again from your invitation.')
+      return
+    }
+
+    setSelected(ANSWERS.find(answer => answer.response === response)?.response)
+    apiService.getInvitation(tenantId, appointmentId, token)
+      .then(setInvitation)
+      .catch((error: any) => {
+        setError(error.response?.status === 404
+          ? 'This invitation no longer exists.'
+          : error.response?.status === 403
+            ? 'This link is not valid. Please open it again from your invitation.'
+            : 'The invitation could not be loaded. Please try again later.')
+      })
+  }, [router.isReady, tenantId, appointmentId, token, response])
+
+  const handleRespond = async (answer: Answer) => {
+    setIsSaving(true)
+    try {
+      const updated = await apiService.respondToInvitation(tenantId!, appointmentId!, token!, answer)
+      setInvitation(updated)
+      setSelected(undefined)
+      toast.success('Thanks, your answer has been saved')
+    } catch (error: any) {
+      toast.error(error.response?.status === 422
+        ? error.response.data.error.message
+        : 'Your answer could not be saved')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Invitation - AppointifyX</title>
+      </Head>
+
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4">
+        <div className="card max-w-md w-full">
+          <div className="card-body">
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            {!error && !invitation && <p className="text-sm text-gray-500">Loading invitation...</p>}
+
+            {invitation && (
+              <>
+                <h1 className="text-xl font-semibold text-gray-900 mb-1">{invitation.title}</h1>
+                <p className="text-sm text-gray-500 mb-4">
+                  Invitation for {invitation.attendee.name || invitation.attendee.email}
+                </p>
+
+                {invitation.description && (
+                  <p className="text-gray-600 text-sm mb-4">{invitation.description}</p>
+                )}
+
+                <div className="space-y-2 mb-6">
+                  <div className="flex items-center text-sm text-gray-500">
+                    <CalendarIcon className="h-4 w-4 mr-2" />
+                    {format(parseISO(invitation.startTime), 'EEEE, MMM dd, yyyy')}
+                  </div>
+                  <div className="flex items-center text-sm text-gray-500">
+                    <ClockIcon className="h-4 w-4 mr-2" />
+                    {format(parseISO(invitation.startTime), 'h:mm a')} - {format(parseISO(invitation.endTime), 'h:mm a')}
+                  </div>
+                  {invitation.location && (
+                    <div className="flex items-center text-sm text-gray-500">
+                      <MapPinIcon className="h-4 w-4 mr-2" />
+                      {invitation.location}
+                    </div>
+                  )}
+                </div>
+
+                {invitation.status === 'cancelled' ? (
+                  <p className="text-sm text-red-600">This appointment has been cancelled.</p>
+                ) : (
+                  <>
+                    <p className="text-sm text-gray-700 mb-3">{ANSWERED[invitation.attendee.responseStatus]}</p>
+                    <div className="flex flex-col space-y-2">
+                      {ANSWERS.map(answer => (
+                        <button
+                          key={answer.response}
+                          onClick={() => handleRespond(answer.response)}
+                          disabled={isSaving}
+                          className={`px-4 py-2 rounded-md text-sm font-medium text-white disabled:opacity-50 ${answer.className} ${
+                            selected === answer.response ? 'ring-2 ring-offset-2 ring-primary-500' : ''
+                          }`}
+                        >
+                          {answer.label}
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -38,30 +38,122 @@ apiClient.interceptors.response.use(
   }
 )
 
+export type AppointmentStatus = 'scheduled' | 'confirmed' | 'cancelled' | 'completed'
+
+export interface StatusChange {
+  from: AppointmentStatus | null
+  to: AppointmentStatus
+  changedBy: string
+  changedByRole: string
+  changedAt: string
+}
+
+export type AttendeeResponse = 'needs-action' | 'accepted' | 'declined' | 'tentative'
+
+export interface Attendee {
+  name?: string
+  email: string
+  responseStatus: AttendeeResponse
+  respondedAt?: string
+}
+
+// Attendees are sent as emails or with a name; their responses are only
+// changed by the attendees themselves, through their RSVP links
+export type AttendeeInput = string | { name?: string; email: string }
+
 export interface Appointment {
   appointmentId: string
   tenantId: string
   userId: string
+  createdBy?: string // Differs from userId when booked on someone's behalf
   title: string
   description?: string
   startTime: string
   endTime: string
+  // IANA zone the appointment is shown and repeated in
+  timezone?: string
+  // Start and end in the zone requested with AppointmentFilters.timezone
+  localStartTime?: string
+  localEndTime?: string
   location?: string
-  attendees?: string[]
-  status: 'scheduled' | 'confirmed' | 'cancelled' | 'completed'
+  // Rooms and equipment the appointment reserves
+  resourceIds?: string[]
+  // The service it was booked for, as it was at the time
+  service?: ServiceSnapshot
+  // Who booked it through the public booking page
+  customer?: Customer
+  attendees?: Attendee[]
+  status: AppointmentStatus
+  statusHistory?: StatusChange[]
   reminderMinutes: number
   createdAt: string
   updatedAt: string
+  version?: number
+  deletedAt?: string
+  deletedBy?: string
+  conflictOverride?: {
+    overriddenBy: string
+    overriddenAt: string
+    conflictingAppointmentIds: string[]
+  }
+  businessHoursOverride?: {
+    overriddenBy: string
+    overriddenAt: string
+    violations: ('closed' | 'non_working_day' | 'outside_working_hours')[]
+  }
+  recurrenceRule?: string
+  seriesId?: string
+  recurrenceId?: string
+  isException?: boolean
+  reminder?: {
+    status: 'pending' | 'sent' | 'failed' | 'skipped'
+    dueAt: string
+    attempts: number
+    sentAt?: string
+    lastError?: string
+  }
+  rescheduleHistory?: Reschedule[]
+  rescheduleCount?: number
 }
 
+export interface Reschedule {
+  previousStartTime: string
+  previousEndTime: string
+  startTime: string
+  endTime: string
+  reason: string
+  rescheduledBy: string
+  rescheduledByRole: string
+  rescheduledAt: string
+}
+
+export interface RescheduleData {
+  startTime: string
+  endTime?: string // Keeps the duration when left out
+  reason: string
+  overrideConflicts?: boolean
+  overrideBusinessHours?: boolean // Tenant admins only
+}
+
+export type RecurrenceScope = 'occurrence' | 'following' | 'series'
+
 export interface CreateAppointmentData {
   title: string
   description?: string
   startTime: string
   endTime: string
+  timezone?: string
   location?: string
-  attendees?: string[]
+  resourceIds?: string[]
+  // Fills in the title and end time when they are left out
+  serviceId?: string
+  attendees?: AttendeeInput[]
   reminderMinutes?: number
+  recurrenceRule?: string
+  // Books into someone else's calendar; admins and their delegates only
+  userId?: string
+  overrideConflicts?: boolean
+  overrideBusinessHours?: boolean // Tenant admins only
 }
 
 export interface UpdateAppointmentData {
@@ -69,10 +161,15 @@ export interface UpdateAppointmentData {
   description?: string
   startTime?: string
   endTime?: string
+  timezone?: string
   location?: string
-  attendees?: string[]
+  resourceIds?: string[] // Empty releases them all
+  attendees?: AttendeeInput[]
   status?: 'scheduled' | 'confirmed' | 'cancelled' | 'completed'
   reminderMinutes?: number
+  recurrenceRule?: string
+  overrideConflicts?: boolean
+  overrideBusinessHours?: boolean // Tenant admins only
 }
 
 export interface AppointmentFilters {
@@ -80,19 +177,279 @@ export interface AppointmentFilters {
   endDate?: string
   status?: string
   userId?: string
+  // Date-only bounds are whole days in this zone
+  timezone?: string
+}
+
+export interface AppointmentPage {
+  appointments: Appointment[]
+  nextToken?: string
+  timezone?: string
+}
+
+export type BatchOperation =
+  | { action: 'create'; data: CreateAppointmentData }
+  | { action: 'update'; appointmentId: string; data: UpdateAppointmentData; version?: number }
+  | { action: 'cancel' | 'delete'; appointmentId: string; version?: number }
+
+export interface BatchItemResult {
+  index: number
+  action?: BatchOperation['action']
+  appointmentId?: string
+  status: 'succeeded' | 'failed' | 'aborted'
+  statusCode: number
+  appointment?: Appointment
+  error?: { message: string; details?: any }
+}
+
+export interface BatchResult {
+  atomic: boolean
+  succeeded: number
+  failed: number
+  results: BatchItemResult[]
+}
+
+export interface CalendarFeed {
+  feedId: string
+  tenantId: string
+  scope: 'user' | 'tenant'
+  userId: string
+  name?: string
+  createdAt: string
+  token?: string // Only returned when the feed is created
+  path?: string
+}
+
+export type ImportItemStatus = 'ready' | 'created' | 'conflict' | 'invalid' | 'skipped' | 'failed'
+
+export interface ImportItem {
+  index: number
+  uid?: string
+  title?: string
+  startTime?: string
+  endTime?: string
+  recurrenceRule?: string
+  status: ImportItemStatus
+  appointmentId?: string
+  errors?: string[]
+  warnings?: string[]
+  conflicts?: { appointmentId: string; title: string; startTime: string; endTime: string }[]
+}
+
+export interface ImportReport {
+  dryRun: boolean
+  timezone: string
+  summary: { total: number } & Record<ImportItemStatus, number>
+  items: ImportItem[]
+}
+
+export interface Invitation {
+  tenantId: string
+  appointmentId: string
+  title: string
+  description?: string
+  startTime: string
+  endTime: string
+  location?: string
+  status: AppointmentStatus
+  attendee: Attendee
+}
+
+export interface AvailabilityQuery {
+  startDate: string
+  endDate: string
+  duration: number
+  interval?: number
+  userId?: string
+  // Only slots in which the resource can be reserved too
+  resourceId?: string
 }
 
+export interface Availability {
+  userId: string
+  resourceId?: string
+  timezone: string
+  durationMinutes: number
+  slots: { startTime: string; endTime: string }[]
+}
+
+export type ResourceType = 'room' | 'equipment'
+
+export interface WorkingHours {
+  start: string // HH:mm in the tenant timezone
+  end: string
+  days: ('monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday')[]
+}
+
+export interface Resource {
+  resourceId: string
+  tenantId: string
+  name: string
+  type: ResourceType
+  // Appointments that can hold the resource at the same time
+  capacity: number
+  description?: string
+  // Defaults to the tenant's working hours
+  availability?: WorkingHours
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ResourceData {
+  name: string
+  type: ResourceType
+  capacity?: number
+  description?: string
+  availability?: WorkingHours | null
+}
+
+export interface Price {
+  amount: number
+  currency: string // ISO 4217, e.g. USD
+}
+
+export interface ServiceSnapshot {
+  serviceId: string
+  name: string
+  durationMinutes: number
+  bufferBeforeMinutes: number
+  bufferAfterMinutes: number
+  price?: Price
+}
+
+export interface BookableService extends ServiceSnapshot {
+  tenantId: string
+  description?: string
+  // Reserved by every appointment booked for the service
+  resourceIds: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ServiceData {
+  name: string
+  description?: string
+  durationMinutes: number
+  bufferBeforeMinutes?: number
+  bufferAfterMinutes?: number
+  price?: Price | null
+  resourceIds?: string[]
+}
+
+export interface Customer {
+  name: string
+  email: string
+  phone?: string
+}
+
+// The public booking page; none of it needs a login
+export interface PublicService {
+  serviceId: string
+  name: string
+  description?: string
+  durationMinutes: number
+  price?: Price
+}
+
+export interface BookingPage {
+  tenant: { name: string; slug: string; timezone: string }
+  services: PublicService[]
+  // Sent back with the booking
+  formToken: string
+}
+
+export interface BookingSlots {
+  serviceId: string
+  timezone: string
+  durationMinutes: number
+  slots: { startTime: string; endTime: string }[]
+}
+
+export interface BookingData {
+  serviceId: string
+  startTime: string
+  name: string
+  email: string
+  phone?: string
+  notes?: string
+  formToken: string
+  // Honeypot; left empty by people
+  website: string
+}
+
+export interface Booking {
+  appointmentId: string
+  title: string
+  startTime: string
+  endTime: string
+  timezone: string
+  status: AppointmentStatus
+}
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'booked' | 'expired' | 'cancelled'
+
+export interface WaitlistEntry {
+  entryId: string
+  tenantId: string
+  userId: string
+  requestedBy: string
+  title: string
+  windowStart: string
+  windowEnd: string
+  durationMinutes: number
+  email?: string
+  status: WaitlistStatus
+  offer?: { slotId: string; startTime: string; endTime: string; offeredAt: string; expiresAt: string }
+  appointmentId?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface JoinWaitlistData {
+  title: string
+  windowStart: string
+  windowEnd: string
+  durationMinutes: number
+  userId?: string
+  email?: string
+}
+
+const ifMatch = (version?: number) => (version !== undefined ? { 'If-Match': `"${version}"` } : undefined)
+
 class ApiService {
   // Appointments
-  async getAppointments(tenantId: string, filters?: AppointmentFilters): Promise<Appointment[]> {
+  async getAppointmentsPage(
+    tenantId: string,
+    filters?: AppointmentFilters,
+    page?: { limit?: number; nextToken?: string }
+  ): Promise<AppointmentPage> {
     const params = new URLSearchParams()
     if (filters?.startDate) params.append('startDate', filters.startDate)
     if (filters?.endDate) params.append('endDate', filters.endDate)
     if (filters?.status) params.append('status', filters.status)
     if (filters?.userId) params.append('userId', filters.userId)
+    if (filters?.timezone) params.append('timezone', filters.timezone)
+    if (page?.limit) params.append('limit', String(page.limit))
+    if (page?.nextToken) params.append('nextToken', page.nextToken)
 
     const response = await apiClient.get(`/tenants/${tenantId}/appointments?${params.toString()}`)
-    return response.data.data.appointments
+    return {
+      appointments: response.data.data.appointments,
+      nextToken: response.data.data.nextToken,
+      timezone: response.data.data.timezone
+    }
+  }
+
+  // Follows nextToken until every matching appointment has been loaded
+  async getAppointments(tenantId: string, filters?: AppointmentFilters): Promise<Appointment[]> {
+    const appointments: Appointment[] = []
+    let nextToken: string | undefined
+    do {
+      const page = await this.getAppointmentsPage(tenantId, filters, { nextToken })
+      appointments.push(...page.appointments)
+      nextToken = page.nextToken
+    } while (nextToken)
+    return appointments
   }
 
   async getAppointment(tenantId: string, appointmentId: string): Promise<Appointment> {
@@ -105,17 +462,215 @@ class ApiService {
     return response.data.data
   }
 
-  async updateAppointment(appointmentId: string, updateData: UpdateAppointmentData): Promise<Appointment> {
+  // `scope` picks which occurrences of a recurring series the change applies to.
+  // `version` is the one the appointment was loaded with; the API answers 412
+  // if someone else saved it since.
+  async updateAppointment(
+    appointmentId: string,
+    updateData: UpdateAppointmentData,
+    scope?: RecurrenceScope,
+    version?: number
+  ): Promise<Appointment> {
     // Extract tenantId from the appointmentId or pass it as parameter
     // For now, we'll assume tenantId is available in the context
     const tenantId = 'tenant-001' // TODO: Get from context
-    const response = await apiClient.put(`/tenants/${tenantId}/appointments/${appointmentId}`, updateData)
+    const response = await apiClient.put(`/tenants/${tenantId}/appointments/${appointmentId}`, updateData, {
+      params: scope ? { scope } : undefined,
+      headers: ifMatch(version)
+    })
+    return response.data.data
+  }
+
+  // Moves the appointment to a free slot within working hours, keeping the
+  // previous times and the reason; attendees are asked again
+  async rescheduleAppointment(appointmentId: string, data: RescheduleData, version?: number): Promise<Appointment> {
+    const tenantId = 'tenant-001' // TODO: Get from context
+    const response = await apiClient.post(`/tenants/${tenantId}/appointments/${appointmentId}/reschedule`, data, {
+      headers: ifMatch(version)
+    })
     return response.data.data
   }
 
-  async deleteAppointment(appointmentId: string): Promise<void> {
+  async deleteAppointment(appointmentId: string, scope?: RecurrenceScope, version?: number): Promise<void> {
     const tenantId = 'tenant-001' // TODO: Get from context
-    await apiClient.delete(`/tenants/${tenantId}/appointments/${appointmentId}`)
+    await apiClient.delete(`/tenants/${tenantId}/appointments/${appointmentId}`, {
+      params: scope ? { scope } : undefined,
+      headers: ifMatch(version)
+    })
+  }
+
+  // Applies many changes in one request. With `atomic` either all of them are
+  // saved or none; otherwise each result says whether its operation went through.
+  async batchAppointments(tenantId: string, operations: BatchOperation[], atomic = false): Promise<BatchResult> {
+    const response = await apiClient.post(`/tenants/${tenantId}/appointments/batch`, { operations, atomic }, {
+      // Partly failed batches come back as 207 with per-operation results
+      validateStatus: status => status === 200 || status === 207
+    })
+    return response.data.data
+  }
+
+  // Deleted appointments stay in the trash until the tenant's purge window passes
+  async restoreAppointment(appointmentId: string): Promise<Appointment> {
+    const tenantId = 'tenant-001' // TODO: Get from context
+    const response = await apiClient.post(`/tenants/${tenantId}/appointments/${appointmentId}/restore`)
+    return response.data.data
+  }
+
+  async getTrashPage(tenantId: string, page?: { limit?: number; nextToken?: string }): Promise<AppointmentPage> {
+    const params = new URLSearchParams()
+    if (page?.limit) params.append('limit', String(page.limit))
+    if (page?.nextToken) params.append('nextToken', page.nextToken)
+
+    const response = await apiClient.get(`/tenants/${tenantId}/appointments/trash?${params.toString()}`)
+    return {
+      appointments: response.data.data.appointments,
+      nextToken: response.data.data.nextToken
+    }
+  }
+
+  // Calendar feeds. The subscription URL embeds a secret token and is only
+  // shown once, when the feed is created.
+  async createCalendarFeed(tenantId: string, scope: CalendarFeed['scope'] = 'user'): Promise<CalendarFeed & { subscriptionUrl: string }> {
+    const response = await apiClient.post(`/tenants/${tenantId}/feeds`, { scope })
+    const feed: CalendarFeed = response.data.data
+    return { ...feed, subscriptionUrl: `${API_BASE_URL}${feed.path}` }
+  }
+
+  async getCalendarFeeds(tenantId: string): Promise<CalendarFeed[]> {
+    const response = await apiClient.get(`/tenants/${tenantId}/feeds`)
+    return response.data.data.feeds
+  }
+
+  async revokeCalendarFeed(tenantId: string, feedId: string): Promise<void> {
+    await apiClient.delete(`/tenants/${tenantId}/feeds/${feedId}`)
+  }
+
+  // Imports the events of an .ics file. A dry run only reports what would be
+  // created, which events conflict and which can't be imported.
+  async importCalendar(
+    tenantId: string,
+    calendar: string,
+    options: { dryRun: boolean; overrideConflicts?: boolean; overrideBusinessHours?: boolean }
+  ): Promise<ImportReport> {
+    const response = await apiClient.post(`/tenants/${tenantId}/appointments/import`, { calendar, ...options })
+    return response.data.data
+  }
+
+  // Invitations. Attendees open them from the link in their invitation mail,
+  // whose token stands in for a login.
+  async getInvitation(tenantId: string, appointmentId: string, token: string): Promise<Invitation> {
+    const response = await apiClient.get(`/tenants/${tenantId}/appointments/${appointmentId}/rsvp`, {
+      params: { token }
+    })
+    return response.data.data
+  }
+
+  async respondToInvitation(
+    tenantId: string,
+    appointmentId: string,
+    token: string,
+    response: Exclude<AttendeeResponse, 'needs-action'>
+  ): Promise<Invitation> {
+    const result = await apiClient.post(`/tenants/${tenantId}/appointments/${appointmentId}/rsvp`, { token, response })
+    return result.data.data
+  }
+
+  // Public booking. Customers confirm their booking from the link in the
+  // confirmation mail, whose token stands in for a login.
+  async getBookingPage(tenantSlug: string): Promise<BookingPage> {
+    const response = await apiClient.get(`/public/${tenantSlug}`)
+    return response.data.data
+  }
+
+  async getBookingSlots(tenantSlug: string, serviceId: string, startDate: string, endDate: string): Promise<BookingSlots> {
+    const response = await apiClient.get(`/public/${tenantSlug}/slots`, { params: { serviceId, startDate, endDate } })
+    return response.data.data
+  }
+
+  async createBooking(tenantSlug: string, data: BookingData): Promise<Booking> {
+    const response = await apiClient.post(`/public/${tenantSlug}/bookings`, data)
+    return response.data.data
+  }
+
+  async confirmBooking(tenantSlug: string, appointmentId: string, token: string): Promise<Booking> {
+    const response = await apiClient.post(`/public/${tenantSlug}/bookings/${appointmentId}/confirm`, { token })
+    return response.data.data
+  }
+
+  // Availability
+  async getAvailability(tenantId: string, query: AvailabilityQuery): Promise<Availability> {
+    const params = new URLSearchParams()
+    params.append('startDate', query.startDate)
+    params.append('endDate', query.endDate)
+    params.append('duration', String(query.duration))
+    if (query.interval) params.append('interval', String(query.interval))
+    if (query.userId) params.append('userId', query.userId)
+    if (query.resourceId) params.append('resourceId', query.resourceId)
+
+    const response = await apiClient.get(`/tenants/${tenantId}/availability?${params.toString()}`)
+    return response.data.data
+  }
+
+  // Resources. Everyone can read the catalog; only tenant admins change it.
+  async getResources(tenantId: string, type?: ResourceType): Promise<Resource[]> {
+    const response = await apiClient.get(`/tenants/${tenantId}/resources`, { params: type ? { type } : undefined })
+    return response.data.data.resources
+  }
+
+  async createResource(tenantId: string, data: ResourceData): Promise<Resource> {
+    const response = await apiClient.post(`/tenants/${tenantId}/resources`, data)
+    return response.data.data
+  }
+
+  async updateResource(tenantId: string, resourceId: string, data: Partial<ResourceData>): Promise<Resource> {
+    const response = await apiClient.put(`/tenants/${tenantId}/resources/${resourceId}`, data)
+    return response.data.data
+  }
+
+  async deleteResource(tenantId: string, resourceId: string): Promise<void> {
+    await apiClient.delete(`/tenants/${tenantId}/resources/${resourceId}`)
+  }
+
+  // Services. Everyone can read the catalog; only tenant admins change it.
+  async getServices(tenantId: string): Promise<BookableService[]> {
+    const response = await apiClient.get(`/tenants/${tenantId}/services`)
+    return response.data.data.services
+  }
+
+  async createService(tenantId: string, data: ServiceData): Promise<BookableService> {
+    const response = await apiClient.post(`/tenants/${tenantId}/services`, data)
+    return response.data.data
+  }
+
+  async updateService(tenantId: string, serviceId: string, data: Partial<ServiceData>): Promise<BookableService> {
+    const response = await apiClient.put(`/tenants/${tenantId}/services/${serviceId}`, data)
+    return response.data.data
+  }
+
+  async deleteService(tenantId: string, serviceId: string): Promise<void> {
+    await apiClient.delete(`/tenants/${tenantId}/services/${serviceId}`)
+  }
+
+  // Waitlist. A freed slot is held for the first matching entry until the
+  // offer expires; accepting it books the appointment.
+  async getWaitlist(tenantId: string): Promise<WaitlistEntry[]> {
+    const response = await apiClient.get(`/tenants/${tenantId}/waitlist`)
+    return response.data.data.entries
+  }
+
+  async joinWaitlist(tenantId: string, data: JoinWaitlistData): Promise<WaitlistEntry> {
+    const response = await apiClient.post(`/tenants/${tenantId}/waitlist`, data)
+    return response.data.data
+  }
+
+  async acceptWaitlistOffer(tenantId: string, entryId: string): Promise<Appointment> {
+    const response = await apiClient.post(`/tenants/${tenantId}/waitlist/${entryId}/accept`)
+    return response.data.data
+  }
+
+  async leaveWaitlist(tenantId: string, entryId: string): Promise<WaitlistEntry> {
+    const response = await apiClient.delete(`/tenants/${tenantId}/waitlist/${entryId}`)
+    return response.data.data
   }
 
   // Authentication
@@ -0,0 +1,74 @@
+// Appointments are stored in UTC and carry the IANA zone they take place in.
+// Dates in the browser only know the viewer's zone, so these helpers move
+// between an instant and its wall-clock time in a given zone with Intl, which
+// also backs the DatePicker: it edits a Date whose local fields are the
+// wall-clock time in the chosen zone.
+
+export const COMMON_TIMEZONES = [
+  'UTC',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney'
+]
+
+export function viewerTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+// Wall-clock time of the instant in the zone, as milliseconds since the epoch
+// as if that wall-clock time were UTC
+function wallClock(instant: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(instant)
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value)
+  return Date.UTC(part('year'), part('month') - 1, part('day'), part('hour') % 24, part('minute'), part('second'))
+}
+
+// Milliseconds the zone is ahead of UTC at the instant
+function zoneOffset(instant: Date, timezone: string): number {
+  return wallClock(instant, timezone) - Math.floor(instant.getTime() / 1000) * 1000
+}
+
+// A Date whose local fields show the instant's wall-clock time in the zone
+export function toZonedTime(instant: string | Date, timezone: string): Date {
+  const time = new Date(instant)
+  const shown = new Date(time.getTime() + zoneOffset(time, timezone))
+  return new Date(
+    shown.getUTCFullYear(), shown.getUTCMonth(), shown.getUTCDate(),
+    shown.getUTCHours(), shown.getUTCMinutes(), shown.getUTCSeconds(), shown.getUTCMilliseconds()
+  )
+}
+
+// The instant at which the zone shows the local fields of the Date; the
+// offset is looked up twice so times next to a DST change come out right
+export function fromZonedTime(shown: Date, timezone: string): Date {
+  const asUtc = Date.UTC(
+    shown.getFullYear(), shown.getMonth(), shown.getDate(),
+    shown.getHours(), shown.getMinutes(), shown.getSeconds(), shown.getMilliseconds()
+  )
+  const guess = new Date(asUtc - zoneOffset(new Date(asUtc), timezone))
+  return new Date(asUtc - zoneOffset(guess, timezone))
+}
+
+// Short zone name at the instant, e.g. EST or GMT+1
+export function zoneLabel(instant: string | Date, timezone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone: timezone, timeZoneName: 'short' })
+    .formatToParts(new Date(instant))
+  return parts.find(p => p.type === 'timeZoneName')?.value || timezone
+}
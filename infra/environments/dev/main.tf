@@ -7,6 +7,8 @@ module "appointifyx" {
   aws_region  = "us-east-1"
   domain_name = ""  # No custom domain for dev
 
+  mail_from_address = var.mail_from_address
+
   tags = {
     Environment = "dev"
     Project     = "AppointifyX"
@@ -14,6 +16,11 @@ module "appointifyx" {
   }
 }
 
+variable "mail_from_address" {
+  description = "Sender of the mail AppointifyX sends; must be verified in SES"
+  type        = string
+}
+
 # Outputs for development
 output "api_url" {
   description = "API Gateway URL for development"
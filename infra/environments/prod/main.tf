@@ -7,6 +7,8 @@ module "appointifyx" {
   aws_region  = "us-east-1"
   domain_name = var.domain_name
 
+  mail_from_address = var.mail_from_address
+
   tags = {
     Environment = "prod"
     Project     = "AppointifyX"
@@ -15,6 +17,11 @@ module "appointifyx" {
 }
 
 # Variables for production
+variable "mail_from_address" {
+  description = "Sender of the mail AppointifyX sends; must be verified in SES"
+  type        = string
+}
+
 variable "domain_name" {
   description = "Custom domain name for production"
   type        = string
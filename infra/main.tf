@@ -61,6 +61,17 @@ variable "domain_name" {
   default     = ""
 }
 
+variable "mail_from_address" {
+  description = "Sender of invitations, RSVP and booking mail; verified as an SES identity"
+  type        = string
+}
+
+variable "trash_retention_days" {
+  description = "Days deleted appointments stay restorable before they are purged"
+  type        = number
+  default     = 30
+}
+
 # Networking Module
 module "networking" {
   source = "./modules/networking"
@@ -77,6 +88,8 @@ module "security" {
   project_name = local.project_name
   environment  = var.environment
   tags         = local.common_tags
+
+  mail_from_address = var.mail_from_address
 }
 
 # Storage Module
@@ -108,6 +121,9 @@ module "compute" {
   
   s3_bucket_name = module.storage.s3_bucket_name
   s3_bucket_arn  = module.storage.s3_bucket_arn
+  
+  trash_retention_days = var.trash_retention_days
+  mail_from_address    = var.mail_from_address
 }
 
 # Outputs
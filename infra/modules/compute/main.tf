@@ -34,216 +34,2004 @@ resource "aws_api_gateway_resource" "tenant_id" {
   path_part   = "{tenantId}"
 }
 
+resource "aws_api_gateway_resource" "tenant_suspend" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.tenant_id.id
+  path_part   = "suspend"
+}
+
+resource "aws_api_gateway_resource" "tenant_reactivate" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.tenant_id.id
+  path_part   = "reactivate"
+}
+
+resource "aws_api_gateway_resource" "users" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.tenant_id.id
+  path_part   = "users"
+}
+
+resource "aws_api_gateway_resource" "user_id" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.users.id
+  path_part   = "{userId}"
+}
+
+resource "aws_api_gateway_resource" "user_disable" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.user_id.id
+  path_part   = "disable"
+}
+
+resource "aws_api_gateway_resource" "user_enable" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.user_id.id
+  path_part   = "enable"
+}
+
 resource "aws_api_gateway_resource" "appointments" {
   rest_api_id = aws_api_gateway_rest_api.main.id
-  parent_id   = aws_api_gateway_resource.tenant_id.id
-  path_part   = "appointments"
+  parent_id   = aws_api_gateway_resource.tenant_id.id
+  path_part   = "appointments"
+}
+
+resource "aws_api_gateway_resource" "appointment_id" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.appointments.id
+  path_part   = "{appointmentId}"
+}
+
+resource "aws_api_gateway_resource" "availability" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.tenant_id.id
+  path_part   = "availability"
+}
+
+resource "aws_api_gateway_resource" "audit" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.tenant_id.id
+  path_part   = "audit"
+}
+
+resource "aws_api_gateway_resource" "feeds" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.tenant_id.id
+  path_part   = "feeds"
+}
+
+resource "aws_api_gateway_resource" "feed_id" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.feeds.id
+  path_part   = "{feedId}"
+}
+
+resource "aws_api_gateway_resource" "feed_calendar" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.feed_id.id
+  path_part   = "calendar.ics"
+}
+
+resource "aws_api_gateway_resource" "appointments_import" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.appointments.id
+  path_part   = "import"
+}
+
+resource "aws_api_gateway_resource" "appointment_rsvp" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.appointment_id.id
+  path_part   = "rsvp"
+}
+
+resource "aws_api_gateway_resource" "waitlist" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.tenant_id.id
+  path_part   = "waitlist"
+}
+
+resource "aws_api_gateway_resource" "waitlist_entry_id" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.waitlist.id
+  path_part   = "{entryId}"
+}
+
+resource "aws_api_gateway_resource" "waitlist_entry_accept" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.waitlist_entry_id.id
+  path_part   = "accept"
+}
+
+resource "aws_api_gateway_resource" "resources" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.tenant_id.id
+  path_part   = "resources"
+}
+
+resource "aws_api_gateway_resource" "resource_id" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.resources.id
+  path_part   = "{resourceId}"
+}
+
+resource "aws_api_gateway_resource" "services" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.tenant_id.id
+  path_part   = "services"
+}
+
+resource "aws_api_gateway_resource" "service_id" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.services.id
+  path_part   = "{serviceId}"
+}
+
+resource "aws_api_gateway_resource" "delegates" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.tenant_id.id
+  path_part   = "delegates"
+}
+
+resource "aws_api_gateway_resource" "delegate_id" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.delegates.id
+  path_part   = "{delegateId}"
+}
+
+resource "aws_api_gateway_resource" "appointment_history" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.appointment_id.id
+  path_part   = "history"
+}
+
+resource "aws_api_gateway_resource" "appointments_trash" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.appointments.id
+  path_part   = "trash"
+}
+
+resource "aws_api_gateway_resource" "appointment_restore" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.appointment_id.id
+  path_part   = "restore"
+}
+
+resource "aws_api_gateway_resource" "appointments_batch" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.appointments.id
+  path_part   = "batch"
+}
+
+resource "aws_api_gateway_resource" "appointment_reschedule" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.appointment_id.id
+  path_part   = "reschedule"
+}
+
+# Public booking page API; unauthenticated, throttled by aws_api_gateway_method_settings.public_booking
+resource "aws_api_gateway_resource" "public" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_rest_api.main.root_resource_id
+  path_part   = "public"
+}
+
+resource "aws_api_gateway_resource" "public_tenant_slug" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.public.id
+  path_part   = "{tenantSlug}"
+}
+
+resource "aws_api_gateway_resource" "public_slots" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.public_tenant_slug.id
+  path_part   = "slots"
+}
+
+resource "aws_api_gateway_resource" "public_bookings" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.public_tenant_slug.id
+  path_part   = "bookings"
+}
+
+resource "aws_api_gateway_resource" "public_booking_id" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.public_bookings.id
+  path_part   = "{appointmentId}"
+}
+
+resource "aws_api_gateway_resource" "public_booking_confirm" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  parent_id   = aws_api_gateway_resource.public_booking_id.id
+  path_part   = "confirm"
+}
+
+# Lambda Functions
+resource "aws_lambda_function" "appointments_handler" {
+  function_name = "${var.project_name}-appointments-${var.environment}"
+  role          = var.lambda_execution_role_arn
+  handler       = "index.handler"
+  runtime       = "nodejs18.x"
+  timeout       = 30
+  memory_size   = 256
+
+  s3_bucket = var.lambda_deployments_bucket_name
+  s3_key    = "appointments-handler.zip"
+
+  environment {
+    variables = {
+      APPOINTMENTS_TABLE_NAME = var.appointments_table_name
+      TENANTS_TABLE_NAME      = var.tenants_table_name
+      USERS_TABLE_NAME        = var.users_table_name
+      COGNITO_USER_POOL_ID    = var.cognito_user_pool_id
+      TOKEN_SIGNING_SECRET    = random_password.token_signing_secret.result
+      TRASH_RETENTION_DAYS    = var.trash_retention_days
+      APP_BASE_URL            = "https://${aws_cloudfront_distribution.main.domain_name}"
+      MAIL_TRANSPORT          = "ses"
+      MAIL_FROM               = var.mail_from_address
+      NODE_ENV                = var.environment
+    }
+  }
+
+  vpc_config {
+    subnet_ids         = var.private_subnet_ids
+    security_group_ids = [aws_security_group.lambda.id]
+  }
+
+  tracing_config {
+    mode = "Active"
+  }
+
+  tags = var.tags
+
+  depends_on = [
+    aws_cloudwatch_log_group.appointments_handler
+  ]
+}
+
+# Signs opaque tokens handed to API clients (e.g. pagination cursors)
+resource "random_password" "token_signing_secret" {
+  length  = 48
+  special = false
+}
+
+resource "aws_lambda_function" "tenants_handler" {
+  function_name = "${var.project_name}-tenants-${var.environment}"
+  role          = var.lambda_execution_role_arn
+  handler       = "index.tenantsHandler"
+  runtime       = "nodejs18.x"
+  timeout       = 30
+  memory_size   = 256
+
+  s3_bucket = var.lambda_deployments_bucket_name
+  s3_key    = "appointments-handler.zip"
+
+  environment {
+    variables = {
+      TENANTS_TABLE_NAME   = var.tenants_table_name
+      USERS_TABLE_NAME     = var.users_table_name
+      COGNITO_USER_POOL_ID = var.cognito_user_pool_id
+      NODE_ENV             = var.environment
+    }
+  }
+
+  vpc_config {
+    subnet_ids         = var.private_subnet_ids
+    security_group_ids = [aws_security_group.lambda.id]
+  }
+
+  tracing_config {
+    mode = "Active"
+  }
+
+  tags = var.tags
+
+  depends_on = [
+    aws_cloudwatch_log_group.tenants_handler
+  ]
+}
+
+resource "aws_lambda_function" "users_handler" {
+  function_name = "${var.project_name}-users-${var.environment}"
+  role          = var.lambda_execution_role_arn
+  handler       = "index.usersHandler"
+  runtime       = "nodejs18.x"
+  timeout       = 30
+  memory_size   = 256
+
+  s3_bucket = var.lambda_deployments_bucket_name
+  s3_key    = "appointments-handler.zip"
+
+  environment {
+    variables = {
+      TENANTS_TABLE_NAME   = var.tenants_table_name
+      USERS_TABLE_NAME     = var.users_table_name
+      COGNITO_USER_POOL_ID = var.cognito_user_pool_id
+      NODE_ENV             = var.environment
+    }
+  }
+
+  vpc_config {
+    subnet_ids         = var.private_subnet_ids
+    security_group_ids = [aws_security_group.lambda.id]
+  }
+
+  tracing_config {
+    mode = "Active"
+  }
+
+  tags = var.tags
+
+  depends_on = [
+    aws_cloudwatch_log_group.users_handler
+  ]
+}
+
+# Serves the public booking page API
+resource "aws_lambda_function" "booking_handler" {
+  function_name = "${var.project_name}-booking-${var.environment}"
+  role          = var.lambda_execution_role_arn
+  handler       = "index.bookingHandler"
+  runtime       = "nodejs18.x"
+  timeout       = 30
+  memory_size   = 256
+
+  s3_bucket = var.lambda_deployments_bucket_name
+  s3_key    = "appointments-handler.zip"
+
+  environment {
+    variables = {
+      APPOINTMENTS_TABLE_NAME = var.appointments_table_name
+      TENANTS_TABLE_NAME      = var.tenants_table_name
+      TOKEN_SIGNING_SECRET    = random_password.token_signing_secret.result
+      APP_BASE_URL            = "https://${aws_cloudfront_distribution.main.domain_name}"
+      MAIL_TRANSPORT          = "ses"
+      MAIL_FROM               = var.mail_from_address
+      NODE_ENV                = var.environment
+    }
+  }
+
+  vpc_config {
+    subnet_ids         = var.private_subnet_ids
+    security_group_ids = [aws_security_group.lambda.id]
+  }
+
+  tracing_config {
+    mode = "Active"
+  }
+
+  tags = var.tags
+
+  depends_on = [
+    aws_cloudwatch_log_group.booking_handler
+  ]
+}
+
+# Serves free/busy availability across calendars
+resource "aws_lambda_function" "availability_handler" {
+  function_name = "${var.project_name}-availability-${var.environment}"
+  role          = var.lambda_execution_role_arn
+  handler       = "index.availabilityHandler"
+  runtime       = "nodejs18.x"
+  timeout       = 30
+  memory_size   = 256
+
+  s3_bucket = var.lambda_deployments_bucket_name
+  s3_key    = "appointments-handler.zip"
+
+  environment {
+    variables = {
+      APPOINTMENTS_TABLE_NAME = var.appointments_table_name
+      TENANTS_TABLE_NAME      = var.tenants_table_name
+      USERS_TABLE_NAME        = var.users_table_name
+      COGNITO_USER_POOL_ID    = var.cognito_user_pool_id
+      TOKEN_SIGNING_SECRET    = random_password.token_signing_secret.result
+      TRASH_RETENTION_DAYS    = var.trash_retention_days
+      APP_BASE_URL            = "https://${aws_cloudfront_distribution.main.domain_name}"
+      MAIL_TRANSPORT          = "ses"
+      MAIL_FROM               = var.mail_from_address
+      NODE_ENV                = var.environment
+    }
+  }
+
+  vpc_config {
+    subnet_ids         = var.private_subnet_ids
+    security_group_ids = [aws_security_group.lambda.id]
+  }
+
+  tracing_config {
+    mode = "Active"
+  }
+
+  tags = var.tags
+
+  depends_on = [
+    aws_cloudwatch_log_group.availability_handler
+  ]
+}
+
+# Serves the tenant audit log
+resource "aws_lambda_function" "audit_handler" {
+  function_name = "${var.project_name}-audit-${var.environment}"
+  role          = var.lambda_execution_role_arn
+  handler       = "index.auditHandler"
+  runtime       = "nodejs18.x"
+  timeout       = 30
+  memory_size   = 256
+
+  s3_bucket = var.lambda_deployments_bucket_name
+  s3_key    = "appointments-handler.zip"
+
+  environment {
+    variables = {
+      APPOINTMENTS_TABLE_NAME = var.appointments_table_name
+      TENANTS_TABLE_NAME      = var.tenants_table_name
+      COGNITO_USER_POOL_ID    = var.cognito_user_pool_id
+      TOKEN_SIGNING_SECRET    = random_password.token_signing_secret.result
+      NODE_ENV                = var.environment
+    }
+  }
+
+  vpc_config {
+    subnet_ids         = var.private_subnet_ids
+    security_group_ids = [aws_security_group.lambda.id]
+  }
+
+  tracing_config {
+    mode = "Active"
+  }
+
+  tags = var.tags
+
+  depends_on = [
+    aws_cloudwatch_log_group.audit_handler
+  ]
+}
+
+# Manages and serves iCalendar feeds; calendar.ics authenticates with the token in the feed URL
+resource "aws_lambda_function" "calendar_feeds_handler" {
+  function_name = "${var.project_name}-calendar-feeds-${var.environment}"
+  role          = var.lambda_execution_role_arn
+  handler       = "index.calendarFeedsHandler"
+  runtime       = "nodejs18.x"
+  timeout       = 30
+  memory_size   = 256
+
+  s3_bucket = var.lambda_deployments_bucket_name
+  s3_key    = "appointments-handler.zip"
+
+  environment {
+    variables = {
+      APPOINTMENTS_TABLE_NAME = var.appointments_table_name
+      TENANTS_TABLE_NAME      = var.tenants_table_name
+      USERS_TABLE_NAME        = var.users_table_name
+      COGNITO_USER_POOL_ID    = var.cognito_user_pool_id
+      TOKEN_SIGNING_SECRET    = random_password.token_signing_secret.result
+      TRASH_RETENTION_DAYS    = var.trash_retention_days
+      APP_BASE_URL            = "https://${aws_cloudfront_distribution.main.domain_name}"
+      MAIL_TRANSPORT          = "ses"
+      MAIL_FROM               = var.mail_from_address
+      NODE_ENV                = var.environment
+    }
+  }
+
+  vpc_config {
+    subnet_ids         = var.private_subnet_ids
+    security_group_ids = [aws_security_group.lambda.id]
+  }
+
+  tracing_config {
+    mode = "Active"
+  }
+
+  tags = var.tags
+
+  depends_on = [
+    aws_cloudwatch_log_group.calendar_feeds_handler
+  ]
+}
+
+# Imports appointments from an iCalendar export
+resource "aws_lambda_function" "calendar_import_handler" {
+  function_name = "${var.project_name}-calendar-import-${var.environment}"
+  role          = var.lambda_execution_role_arn
+  handler       = "index.calendarImportHandler"
+  runtime       = "nodejs18.x"
+  timeout       = 30
+  memory_size   = 256
+
+  s3_bucket = var.lambda_deployments_bucket_name
+  s3_key    = "appointments-handler.zip"
+
+  environment {
+    variables = {
+      APPOINTMENTS_TABLE_NAME = var.appointments_table_name
+      TENANTS_TABLE_NAME      = var.tenants_table_name
+      USERS_TABLE_NAME        = var.users_table_name
+      COGNITO_USER_POOL_ID    = var.cognito_user_pool_id
+      TOKEN_SIGNING_SECRET    = random_password.token_signing_secret.result
+      TRASH_RETENTION_DAYS    = var.trash_retention_days
+      APP_BASE_URL            = "https://${aws_cloudfront_distribution.main.domain_name}"
+      MAIL_TRANSPORT          = "ses"
+      MAIL_FROM               = var.mail_from_address
+      NODE_ENV                = var.environment
+    }
+  }
+
+  vpc_config {
+    subnet_ids         = var.private_subnet_ids
+    security_group_ids = [aws_security_group.lambda.id]
+  }
+
+  tracing_config {
+    mode = "Active"
+  }
+
+  tags = var.tags
+
+  depends_on = [
+    aws_cloudwatch_log_group.calendar_import_handler
+  ]
+}
+
+# Answers invitations; attendees authenticate with the token in their invitation link
+resource "aws_lambda_function" "rsvp_handler" {
+  function_name = "${var.project_name}-rsvp-${var.environment}"
+  role          = var.lambda_execution_role_arn
+  handler       = "index.rsvpHandler"
+  runtime       = "nodejs18.x"
+  timeout       = 30
+  memory_size   = 256
+
+  s3_bucket = var.lambda_deployments_bucket_name
+  s3_key    = "appointments-handler.zip"
+
+  environment {
+    variables = {
+      APPOINTMENTS_TABLE_NAME = var.appointments_table_name
+      TENANTS_TABLE_NAME      = var.tenants_table_name
+      USERS_TABLE_NAME        = var.users_table_name
+      COGNITO_USER_POOL_ID    = var.cognito_user_pool_id
+      TOKEN_SIGNING_SECRET    = random_password.token_signing_secret.result
+      TRASH_RETENTION_DAYS    = var.trash_retention_days
+      APP_BASE_URL            = "https://${aws_cloudfront_distribution.main.domain_name}"
+      MAIL_TRANSPORT          = "ses"
+      MAIL_FROM               = var.mail_from_address
+      NODE_ENV                = var.environment
+    }
+  }
+
+  vpc_config {
+    subnet_ids         = var.private_subnet_ids
+    security_group_ids = [aws_security_group.lambda.id]
+  }
+
+  tracing_config {
+    mode = "Active"
+  }
+
+  tags = var.tags
+
+  depends_on = [
+    aws_cloudwatch_log_group.rsvp_handler
+  ]
+}
+
+# Manages waitlist entries and accepts offered slots
+resource "aws_lambda_function" "waitlist_handler" {
+  function_name = "${var.project_name}-waitlist-${var.environment}"
+  role          = var.lambda_execution_role_arn
+  handler       = "index.waitlistHandler"
+  runtime       = "nodejs18.x"
+  timeout       = 30
+  memory_size   = 256
+
+  s3_bucket = var.lambda_deployments_bucket_name
+  s3_key    = "appointments-handler.zip"
+
+  environment {
+    variables = {
+      APPOINTMENTS_TABLE_NAME = var.appointments_table_name
+      TENANTS_TABLE_NAME      = var.tenants_table_name
+      USERS_TABLE_NAME        = var.users_table_name
+      COGNITO_USER_POOL_ID    = var.cognito_user_pool_id
+      TOKEN_SIGNING_SECRET    = random_password.token_signing_secret.result
+      TRASH_RETENTION_DAYS    = var.trash_retention_days
+      APP_BASE_URL            = "https://${aws_cloudfront_distribution.main.domain_name}"
+      MAIL_TRANSPORT          = "ses"
+      MAIL_FROM               = var.mail_from_address
+      NODE_ENV                = var.environment
+    }
+  }
+
+  vpc_config {
+    subnet_ids         = var.private_subnet_ids
+    security_group_ids = [aws_security_group.lambda.id]
+  }
+
+  tracing_config {
+    mode = "Active"
+  }
+
+  tags = var.tags
+
+  depends_on = [
+    aws_cloudwatch_log_group.waitlist_handler
+  ]
+}
+
+# Manages bookable resources such as rooms and equipment
+resource "aws_lambda_function" "resources_handler" {
+  function_name = "${var.project_name}-resources-${var.environment}"
+  role          = var.lambda_execution_role_arn
+  handler       = "index.resourcesHandler"
+  runtime       = "nodejs18.x"
+  timeout       = 30
+  memory_size   = 256
+
+  s3_bucket = var.lambda_deployments_bucket_name
+  s3_key    = "appointments-handler.zip"
+
+  environment {
+    variables = {
+      APPOINTMENTS_TABLE_NAME = var.appointments_table_name
+      TENANTS_TABLE_NAME      = var.tenants_table_name
+      COGNITO_USER_POOL_ID    = var.cognito_user_pool_id
+      NODE_ENV                = var.environment
+    }
+  }
+
+  vpc_config {
+    subnet_ids         = var.private_subnet_ids
+    security_group_ids = [aws_security_group.lambda.id]
+  }
+
+  tracing_config {
+    mode = "Active"
+  }
+
+  tags = var.tags
+
+  depends_on = [
+    aws_cloudwatch_log_group.resources_handler
+  ]
+}
+
+# Manages the service catalog
+resource "aws_lambda_function" "services_handler" {
+  function_name = "${var.project_name}-services-${var.environment}"
+  role          = var.lambda_execution_role_arn
+  handler       = "index.servicesHandler"
+  runtime       = "nodejs18.x"
+  timeout       = 30
+  memory_size   = 256
+
+  s3_bucket = var.lambda_deployments_bucket_name
+  s3_key    = "appointments-handler.zip"
+
+  environment {
+    variables = {
+      APPOINTMENTS_TABLE_NAME = var.appointments_table_name
+      TENANTS_TABLE_NAME      = var.tenants_table_name
+      COGNITO_USER_POOL_ID    = var.cognito_user_pool_id
+      NODE_ENV                = var.environment
+    }
+  }
+
+  vpc_config {
+    subnet_ids         = var.private_subnet_ids
+    security_group_ids = [aws_security_group.lambda.id]
+  }
+
+  tracing_config {
+    mode = "Active"
+  }
+
+  tags = var.tags
+
+  depends_on = [
+    aws_cloudwatch_log_group.services_handler
+  ]
+}
+
+# Manages who may book into whose calendar
+resource "aws_lambda_function" "delegates_handler" {
+  function_name = "${var.project_name}-delegates-${var.environment}"
+  role          = var.lambda_execution_role_arn
+  handler       = "index.delegatesHandler"
+  runtime       = "nodejs18.x"
+  timeout       = 30
+  memory_size   = 256
+
+  s3_bucket = var.lambda_deployments_bucket_name
+  s3_key    = "appointments-handler.zip"
+
+  environment {
+    variables = {
+      APPOINTMENTS_TABLE_NAME = var.appointments_table_name
+      TENANTS_TABLE_NAME      = var.tenants_table_name
+      USERS_TABLE_NAME        = var.users_table_name
+      COGNITO_USER_POOL_ID    = var.cognito_user_pool_id
+      NODE_ENV                = var.environment
+    }
+  }
+
+  vpc_config {
+    subnet_ids         = var.private_subnet_ids
+    security_group_ids = [aws_security_group.lambda.id]
+  }
+
+  tracing_config {
+    mode = "Active"
+  }
+
+  tags = var.tags
+
+  depends_on = [
+    aws_cloudwatch_log_group.delegates_handler
+  ]
+}
+
+# Sends appointment reminders that are due; runs every minute
+resource "aws_lambda_function" "reminders_worker" {
+  function_name = "${var.project_name}-reminders-${var.environment}"
+  role          = var.lambda_execution_role_arn
+  handler       = "index.remindersHandler"
+  runtime       = "nodejs18.x"
+  timeout       = 60
+  memory_size   = 256
+
+  s3_bucket = var.lambda_deployments_bucket_name
+  s3_key    = "appointments-handler.zip"
+
+  environment {
+    variables = {
+      APPOINTMENTS_TABLE_NAME = var.appointments_table_name
+      REMINDER_NOTIFIER       = "mail"
+      MAIL_TRANSPORT          = "ses"
+      MAIL_FROM               = var.mail_from_address
+      NODE_ENV                = var.environment
+    }
+  }
+
+  vpc_config {
+    subnet_ids         = var.private_subnet_ids
+    security_group_ids = [aws_security_group.lambda.id]
+  }
+
+  tracing_config {
+    mode = "Active"
+  }
+
+  tags = var.tags
+
+  depends_on = [
+    aws_cloudwatch_log_group.reminders_worker
+  ]
+}
+
+resource "aws_cloudwatch_event_rule" "reminders_schedule" {
+  name                = "${var.project_name}-reminders-${var.environment}"
+  description         = "Dispatches due appointment reminders"
+  schedule_expression = "rate(1 minute)"
+
+  tags = var.tags
+}
+
+resource "aws_cloudwatch_event_target" "reminders_worker" {
+  rule = aws_cloudwatch_event_rule.reminders_schedule.name
+  arn  = aws_lambda_function.reminders_worker.arn
+}
+
+# Expires waitlist offers nobody accepted and passes the slots on; runs every five minutes
+resource "aws_lambda_function" "waitlist_offers_worker" {
+  function_name = "${var.project_name}-waitlist-offers-${var.environment}"
+  role          = var.lambda_execution_role_arn
+  handler       = "index.waitlistOffersHandler"
+  runtime       = "nodejs18.x"
+  timeout       = 60
+  memory_size   = 256
+
+  s3_bucket = var.lambda_deployments_bucket_name
+  s3_key    = "appointments-handler.zip"
+
+  environment {
+    variables = {
+      APPOINTMENTS_TABLE_NAME = var.appointments_table_name
+      TENANTS_TABLE_NAME      = var.tenants_table_name
+      APP_BASE_URL            = "https://${aws_cloudfront_distribution.main.domain_name}"
+      MAIL_TRANSPORT          = "ses"
+      MAIL_FROM               = var.mail_from_address
+      NODE_ENV                = var.environment
+    }
+  }
+
+  vpc_config {
+    subnet_ids         = var.private_subnet_ids
+    security_group_ids = [aws_security_group.lambda.id]
+  }
+
+  tracing_config {
+    mode = "Active"
+  }
+
+  tags = var.tags
+
+  depends_on = [
+    aws_cloudwatch_log_group.waitlist_offers_worker
+  ]
+}
+
+resource "aws_cloudwatch_event_rule" "waitlist_offers_schedule" {
+  name                = "${var.project_name}-waitlist-offers-${var.environment}"
+  description         = "Expires unanswered waitlist offers"
+  schedule_expression = "rate(5 minutes)"
+
+  tags = var.tags
+}
+
+resource "aws_cloudwatch_event_target" "waitlist_offers_worker" {
+  rule = aws_cloudwatch_event_rule.waitlist_offers_schedule.name
+  arn  = aws_lambda_function.waitlist_offers_worker.arn
+}
+
+# CloudWatch Log Groups
+resource "aws_cloudwatch_log_group" "appointments_handler" {
+  name              = "/aws/lambda/${var.project_name}-appointments-${var.environment}"
+  retention_in_days = 14  # Free tier friendly
+
+  tags = var.tags
+}
+
+resource "aws_cloudwatch_log_group" "tenants_handler" {
+  name              = "/aws/lambda/${var.project_name}-tenants-${var.environment}"
+  retention_in_days = 14  # Free tier friendly
+
+  tags = var.tags
+}
+
+resource "aws_cloudwatch_log_group" "users_handler" {
+  name              = "/aws/lambda/${var.project_name}-users-${var.environment}"
+  retention_in_days = 14  # Free tier friendly
+
+  tags = var.tags
+}
+
+resource "aws_cloudwatch_log_group" "booking_handler" {
+  name              = "/aws/lambda/${var.project_name}-booking-${var.environment}"
+  retention_in_days = 14  # Free tier friendly
+
+  tags = var.tags
+}
+
+resource "aws_cloudwatch_log_group" "availability_handler" {
+  name              = "/aws/lambda/${var.project_name}-availability-${var.environment}"
+  retention_in_days = 14  # Free tier friendly
+
+  tags = var.tags
+}
+
+resource "aws_cloudwatch_log_group" "audit_handler" {
+  name              = "/aws/lambda/${var.project_name}-audit-${var.environment}"
+  retention_in_days = 14  # Free tier friendly
+
+  tags = var.tags
+}
+
+resource "aws_cloudwatch_log_group" "calendar_feeds_handler" {
+  name              = "/aws/lambda/${var.project_name}-calendar-feeds-${var.environment}"
+  retention_in_days = 14  # Free tier friendly
+
+  tags = var.tags
+}
+
+resource "aws_cloudwatch_log_group" "calendar_import_handler" {
+  name              = "/aws/lambda/${var.project_name}-calendar-import-${var.environment}"
+  retention_in_days = 14  # Free tier friendly
+
+  tags = var.tags
+}
+
+resource "aws_cloudwatch_log_group" "rsvp_handler" {
+  name              = "/aws/lambda/${var.project_name}-rsvp-${var.environment}"
+  retention_in_days = 14  # Free tier friendly
+
+  tags = var.tags
+}
+
+resource "aws_cloudwatch_log_group" "waitlist_handler" {
+  name              = "/aws/lambda/${var.project_name}-waitlist-${var.environment}"
+  retention_in_days = 14  # Free tier friendly
+
+  tags = var.tags
+}
+
+resource "aws_cloudwatch_log_group" "resources_handler" {
+  name              = "/aws/lambda/${var.project_name}-resources-${var.environment}"
+  retention_in_days = 14  # Free tier friendly
+
+  tags = var.tags
+}
+
+resource "aws_cloudwatch_log_group" "services_handler" {
+  name              = "/aws/lambda/${var.project_name}-services-${var.environment}"
+  retention_in_days = 14  # Free tier friendly
+
+  tags = var.tags
+}
+
+resource "aws_cloudwatch_log_group" "delegates_handler" {
+  name              = "/aws/lambda/${var.project_name}-delegates-${var.environment}"
+  retention_in_days = 14  # Free tier friendly
+
+  tags = var.tags
+}
+
+resource "aws_cloudwatch_log_group" "reminders_worker" {
+  name              = "/aws/lambda/${var.project_name}-reminders-${var.environment}"
+  retention_in_days = 14  # Free tier friendly
+
+  tags = var.tags
+}
+
+resource "aws_cloudwatch_log_group" "waitlist_offers_worker" {
+  name              = "/aws/lambda/${var.project_name}-waitlist-offers-${var.environment}"
+  retention_in_days = 14  # Free tier friendly
+
+  tags = var.tags
+}
+
+# Lambda Permissions
+resource "aws_lambda_permission" "eventbridge_reminders" {
+  statement_id  = "AllowExecutionFromEventBridge"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.reminders_worker.function_name
+  principal     = "events.amazonaws.com"
+  source_arn    = aws_cloudwatch_event_rule.reminders_schedule.arn
+}
+
+resource "aws_lambda_permission" "eventbridge_waitlist_offers" {
+  statement_id  = "AllowExecutionFromEventBridge"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.waitlist_offers_worker.function_name
+  principal     = "events.amazonaws.com"
+  source_arn    = aws_cloudwatch_event_rule.waitlist_offers_schedule.arn
+}
+
+resource "aws_lambda_permission" "api_gateway_appointments" {
+  statement_id  = "AllowExecutionFromAPIGateway"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.appointments_handler.function_name
+  principal     = "apigateway.amazonaws.com"
+  source_arn    = "${aws_api_gateway_rest_api.main.execution_arn}/*/*"
+}
+
+resource "aws_lambda_permission" "api_gateway_tenants" {
+  statement_id  = "AllowExecutionFromAPIGateway"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.tenants_handler.function_name
+  principal     = "apigateway.amazonaws.com"
+  source_arn    = "${aws_api_gateway_rest_api.main.execution_arn}/*/*"
+}
+
+resource "aws_lambda_permission" "api_gateway_users" {
+  statement_id  = "AllowExecutionFromAPIGateway"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.users_handler.function_name
+  principal     = "apigateway.amazonaws.com"
+  source_arn    = "${aws_api_gateway_rest_api.main.execution_arn}/*/*"
+}
+
+resource "aws_lambda_permission" "api_gateway_booking" {
+  statement_id  = "AllowExecutionFromAPIGateway"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.booking_handler.function_name
+  principal     = "apigateway.amazonaws.com"
+  source_arn    = "${aws_api_gateway_rest_api.main.execution_arn}/*/*"
+}
+
+resource "aws_lambda_permission" "api_gateway_availability" {
+  statement_id  = "AllowExecutionFromAPIGateway"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.availability_handler.function_name
+  principal     = "apigateway.amazonaws.com"
+  source_arn    = "${aws_api_gateway_rest_api.main.execution_arn}/*/*"
+}
+
+resource "aws_lambda_permission" "api_gateway_audit" {
+  statement_id  = "AllowExecutionFromAPIGateway"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.audit_handler.function_name
+  principal     = "apigateway.amazonaws.com"
+  source_arn    = "${aws_api_gateway_rest_api.main.execution_arn}/*/*"
+}
+
+resource "aws_lambda_permission" "api_gateway_calendar_feeds" {
+  statement_id  = "AllowExecutionFromAPIGateway"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.calendar_feeds_handler.function_name
+  principal     = "apigateway.amazonaws.com"
+  source_arn    = "${aws_api_gateway_rest_api.main.execution_arn}/*/*"
+}
+
+resource "aws_lambda_permission" "api_gateway_calendar_import" {
+  statement_id  = "AllowExecutionFromAPIGateway"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.calendar_import_handler.function_name
+  principal     = "apigateway.amazonaws.com"
+  source_arn    = "${aws_api_gateway_rest_api.main.execution_arn}/*/*"
+}
+
+resource "aws_lambda_permission" "api_gateway_rsvp" {
+  statement_id  = "AllowExecutionFromAPIGateway"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.rsvp_handler.function_name
+  principal     = "apigateway.amazonaws.com"
+  source_arn    = "${aws_api_gateway_rest_api.main.execution_arn}/*/*"
+}
+
+resource "aws_lambda_permission" "api_gateway_waitlist" {
+  statement_id  = "AllowExecutionFromAPIGateway"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.waitlist_handler.function_name
+  principal     = "apigateway.amazonaws.com"
+  source_arn    = "${aws_api_gateway_rest_api.main.execution_arn}/*/*"
+}
+
+resource "aws_lambda_permission" "api_gateway_resources" {
+  statement_id  = "AllowExecutionFromAPIGateway"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.resources_handler.function_name
+  principal     = "apigateway.amazonaws.com"
+  source_arn    = "${aws_api_gateway_rest_api.main.execution_arn}/*/*"
+}
+
+resource "aws_lambda_permission" "api_gateway_services" {
+  statement_id  = "AllowExecutionFromAPIGateway"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.services_handler.function_name
+  principal     = "apigateway.amazonaws.com"
+  source_arn    = "${aws_api_gateway_rest_api.main.execution_arn}/*/*"
+}
+
+resource "aws_lambda_permission" "api_gateway_delegates" {
+  statement_id  = "AllowExecutionFromAPIGateway"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.delegates_handler.function_name
+  principal     = "apigateway.amazonaws.com"
+  source_arn    = "${aws_api_gateway_rest_api.main.execution_arn}/*/*"
+}
+
+# API Gateway Methods
+resource "aws_api_gateway_method" "appointments_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.appointments.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "appointments_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.appointments.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "appointment_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.appointment_id.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "appointment_put" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.appointment_id.id
+  http_method   = "PUT"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "appointment_delete" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.appointment_id.id
+  http_method   = "DELETE"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "tenants_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.tenants.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "tenant_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.tenant_id.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "tenant_put" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.tenant_id.id
+  http_method   = "PUT"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "tenant_suspend_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.tenant_suspend.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "tenant_reactivate_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.tenant_reactivate.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "users_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.users.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "users_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.users.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "user_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.user_id.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "user_put" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.user_id.id
+  http_method   = "PUT"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "user_disable_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.user_disable.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "user_enable_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.user_enable.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "availability_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.availability.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "audit_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.audit.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "feeds_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.feeds.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "feeds_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.feeds.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "feed_delete" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.feed_id.id
+  http_method   = "DELETE"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "feed_calendar_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.feed_calendar.id
+  http_method   = "GET"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_method" "appointments_import_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.appointments_import.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "appointment_rsvp_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.appointment_rsvp.id
+  http_method   = "GET"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_method" "appointment_rsvp_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.appointment_rsvp.id
+  http_method   = "POST"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_method" "waitlist_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.waitlist.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "waitlist_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.waitlist.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "waitlist_entry_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.waitlist_entry_id.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "waitlist_entry_delete" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.waitlist_entry_id.id
+  http_method   = "DELETE"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "waitlist_entry_accept_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.waitlist_entry_accept.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "resources_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.resources.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "resources_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.resources.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "resource_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.resource_id.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "resource_put" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.resource_id.id
+  http_method   = "PUT"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "resource_delete" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.resource_id.id
+  http_method   = "DELETE"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "services_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.services.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "services_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.services.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "service_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.service_id.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "service_put" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.service_id.id
+  http_method   = "PUT"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "service_delete" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.service_id.id
+  http_method   = "DELETE"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "delegates_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.delegates.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "delegates_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.delegates.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "delegate_delete" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.delegate_id.id
+  http_method   = "DELETE"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "appointment_history_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.appointment_history.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "appointments_trash_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.appointments_trash.id
+  http_method   = "GET"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "appointment_restore_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.appointment_restore.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "appointments_batch_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.appointments_batch.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "appointment_reschedule_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.appointment_reschedule.id
+  http_method   = "POST"
+  authorization = "COGNITO_USER_POOLS"
+  authorizer_id = aws_api_gateway_authorizer.cognito.id
+}
+
+resource "aws_api_gateway_method" "public_booking_page_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.public_tenant_slug.id
+  http_method   = "GET"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_method" "public_slots_get" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.public_slots.id
+  http_method   = "GET"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_method" "public_bookings_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.public_bookings.id
+  http_method   = "POST"
+  authorization = "NONE"
+}
+
+resource "aws_api_gateway_method" "public_booking_confirm_post" {
+  rest_api_id   = aws_api_gateway_rest_api.main.id
+  resource_id   = aws_api_gateway_resource.public_booking_confirm.id
+  http_method   = "POST"
+  authorization = "NONE"
+}
+
+# API Gateway Integrations
+resource "aws_api_gateway_integration" "appointments_get" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.appointments.id
+  http_method = aws_api_gateway_method.appointments_get.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.appointments_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "appointments_post" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.appointments.id
+  http_method = aws_api_gateway_method.appointments_post.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.appointments_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "appointment_get" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.appointment_id.id
+  http_method = aws_api_gateway_method.appointment_get.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.appointments_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "appointment_put" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.appointment_id.id
+  http_method = aws_api_gateway_method.appointment_put.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.appointments_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "appointment_delete" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.appointment_id.id
+  http_method = aws_api_gateway_method.appointment_delete.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.appointments_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "tenants_post" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.tenants.id
+  http_method = aws_api_gateway_method.tenants_post.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.tenants_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "tenant_get" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.tenant_id.id
+  http_method = aws_api_gateway_method.tenant_get.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.tenants_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "tenant_put" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.tenant_id.id
+  http_method = aws_api_gateway_method.tenant_put.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.tenants_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "tenant_suspend_post" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.tenant_suspend.id
+  http_method = aws_api_gateway_method.tenant_suspend_post.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.tenants_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "tenant_reactivate_post" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.tenant_reactivate.id
+  http_method = aws_api_gateway_method.tenant_reactivate_post.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.tenants_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "users_get" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.users.id
+  http_method = aws_api_gateway_method.users_get.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.users_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "users_post" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.users.id
+  http_method = aws_api_gateway_method.users_post.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.users_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "user_get" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_id.id
+  http_method = aws_api_gateway_method.user_get.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.users_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "user_put" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_id.id
+  http_method = aws_api_gateway_method.user_put.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.users_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "user_disable_post" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_disable.id
+  http_method = aws_api_gateway_method.user_disable_post.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.users_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "user_enable_post" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.user_enable.id
+  http_method = aws_api_gateway_method.user_enable_post.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.users_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "availability_get" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.availability.id
+  http_method = aws_api_gateway_method.availability_get.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.availability_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "audit_get" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.audit.id
+  http_method = aws_api_gateway_method.audit_get.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.audit_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "feeds_get" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.feeds.id
+  http_method = aws_api_gateway_method.feeds_get.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.calendar_feeds_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "feeds_post" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.feeds.id
+  http_method = aws_api_gateway_method.feeds_post.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.calendar_feeds_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "feed_delete" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.feed_id.id
+  http_method = aws_api_gateway_method.feed_delete.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.calendar_feeds_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "feed_calendar_get" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.feed_calendar.id
+  http_method = aws_api_gateway_method.feed_calendar_get.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.calendar_feeds_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "appointments_import_post" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.appointments_import.id
+  http_method = aws_api_gateway_method.appointments_import_post.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.calendar_import_handler.invoke_arn
 }
 
-resource "aws_api_gateway_resource" "appointment_id" {
+resource "aws_api_gateway_integration" "appointment_rsvp_get" {
   rest_api_id = aws_api_gateway_rest_api.main.id
-  parent_id   = aws_api_gateway_resource.appointments.id
-  path_part   = "{appointmentId}"
+  resource_id = aws_api_gateway_resource.appointment_rsvp.id
+  http_method = aws_api_gateway_method.appointment_rsvp_get.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.rsvp_handler.invoke_arn
 }
 
-# Lambda Functions
-resource "aws_lambda_function" "appointments_handler" {
-  function_name = "${var.project_name}-appointments-${var.environment}"
-  role          = var.lambda_execution_role_arn
-  handler       = "index.handler"
-  runtime       = "nodejs18.x"
-  timeout       = 30
-  memory_size   = 256
+resource "aws_api_gateway_integration" "appointment_rsvp_post" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.appointment_rsvp.id
+  http_method = aws_api_gateway_method.appointment_rsvp_post.http_method
 
-  s3_bucket = var.lambda_deployments_bucket_name
-  s3_key    = "appointments-handler.zip"
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.rsvp_handler.invoke_arn
+}
 
-  environment {
-    variables = {
-      APPOINTMENTS_TABLE_NAME = var.appointments_table_name
-      TENANTS_TABLE_NAME      = var.tenants_table_name
-      USERS_TABLE_NAME        = var.users_table_name
-      COGNITO_USER_POOL_ID    = var.cognito_user_pool_id
-      NODE_ENV                = var.environment
-    }
-  }
+resource "aws_api_gateway_integration" "waitlist_get" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.waitlist.id
+  http_method = aws_api_gateway_method.waitlist_get.http_method
 
-  vpc_config {
-    subnet_ids         = var.private_subnet_ids
-    security_group_ids = [aws_security_group.lambda.id]
-  }
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.waitlist_handler.invoke_arn
+}
 
-  tracing_config {
-    mode = "Active"
-  }
+resource "aws_api_gateway_integration" "waitlist_post" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.waitlist.id
+  http_method = aws_api_gateway_method.waitlist_post.http_method
 
-  tags = var.tags
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.waitlist_handler.invoke_arn
+}
 
-  depends_on = [
-    aws_cloudwatch_log_group.appointments_handler
-  ]
+resource "aws_api_gateway_integration" "waitlist_entry_get" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.waitlist_entry_id.id
+  http_method = aws_api_gateway_method.waitlist_entry_get.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.waitlist_handler.invoke_arn
 }
 
-resource "aws_lambda_function" "tenants_handler" {
-  function_name = "${var.project_name}-tenants-${var.environment}"
-  role          = var.lambda_execution_role_arn
-  handler       = "index.handler"
-  runtime       = "nodejs18.x"
-  timeout       = 30
-  memory_size   = 256
+resource "aws_api_gateway_integration" "waitlist_entry_delete" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.waitlist_entry_id.id
+  http_method = aws_api_gateway_method.waitlist_entry_delete.http_method
 
-  s3_bucket = var.lambda_deployments_bucket_name
-  s3_key    = "tenants-handler.zip"
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.waitlist_handler.invoke_arn
+}
 
-  environment {
-    variables = {
-      TENANTS_TABLE_NAME   = var.tenants_table_name
-      USERS_TABLE_NAME     = var.users_table_name
-      COGNITO_USER_POOL_ID = var.cognito_user_pool_id
-      NODE_ENV             = var.environment
-    }
-  }
+resource "aws_api_gateway_integration" "waitlist_entry_accept_post" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.waitlist_entry_accept.id
+  http_method = aws_api_gateway_method.waitlist_entry_accept_post.http_method
 
-  vpc_config {
-    subnet_ids         = var.private_subnet_ids
-    security_group_ids = [aws_security_group.lambda.id]
-  }
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.waitlist_handler.invoke_arn
+}
 
-  tracing_config {
-    mode = "Active"
-  }
+resource "aws_api_gateway_integration" "resources_get" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.resources.id
+  http_method = aws_api_gateway_method.resources_get.http_method
 
-  tags = var.tags
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.resources_handler.invoke_arn
+}
 
-  depends_on = [
-    aws_cloudwatch_log_group.tenants_handler
-  ]
+resource "aws_api_gateway_integration" "resources_post" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.resources.id
+  http_method = aws_api_gateway_method.resources_post.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.resources_handler.invoke_arn
 }
 
-# CloudWatch Log Groups
-resource "aws_cloudwatch_log_group" "appointments_handler" {
-  name              = "/aws/lambda/${var.project_name}-appointments-${var.environment}"
-  retention_in_days = 14  # Free tier friendly
+resource "aws_api_gateway_integration" "resource_get" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.resource_id.id
+  http_method = aws_api_gateway_method.resource_get.http_method
 
-  tags = var.tags
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.resources_handler.invoke_arn
 }
 
-resource "aws_cloudwatch_log_group" "tenants_handler" {
-  name              = "/aws/lambda/${var.project_name}-tenants-${var.environment}"
-  retention_in_days = 14  # Free tier friendly
+resource "aws_api_gateway_integration" "resource_put" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.resource_id.id
+  http_method = aws_api_gateway_method.resource_put.http_method
 
-  tags = var.tags
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.resources_handler.invoke_arn
 }
 
-# Lambda Permissions
-resource "aws_lambda_permission" "api_gateway_appointments" {
-  statement_id  = "AllowExecutionFromAPIGateway"
-  action        = "lambda:InvokeFunction"
-  function_name = aws_lambda_function.appointments_handler.function_name
-  principal     = "apigateway.amazonaws.com"
-  source_arn    = "${aws_api_gateway_rest_api.main.execution_arn}/*/*"
+resource "aws_api_gateway_integration" "resource_delete" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.resource_id.id
+  http_method = aws_api_gateway_method.resource_delete.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.resources_handler.invoke_arn
 }
 
-resource "aws_lambda_permission" "api_gateway_tenants" {
-  statement_id  = "AllowExecutionFromAPIGateway"
-  action        = "lambda:InvokeFunction"
-  function_name = aws_lambda_function.tenants_handler.function_name
-  principal     = "apigateway.amazonaws.com"
-  source_arn    = "${aws_api_gateway_rest_api.main.execution_arn}/*/*"
+resource "aws_api_gateway_integration" "services_get" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.services.id
+  http_method = aws_api_gateway_method.services_get.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.services_handler.invoke_arn
 }
 
-# API Gateway Methods
-resource "aws_api_gateway_method" "appointments_get" {
-  rest_api_id   = aws_api_gateway_rest_api.main.id
-  resource_id   = aws_api_gateway_resource.appointments.id
-  http_method   = "GET"
-  authorization = "COGNITO_USER_POOLS"
-  authorizer_id = aws_api_gateway_authorizer.cognito.id
+resource "aws_api_gateway_integration" "services_post" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.services.id
+  http_method = aws_api_gateway_method.services_post.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.services_handler.invoke_arn
 }
 
-resource "aws_api_gateway_method" "appointments_post" {
-  rest_api_id   = aws_api_gateway_rest_api.main.id
-  resource_id   = aws_api_gateway_resource.appointments.id
-  http_method   = "POST"
-  authorization = "COGNITO_USER_POOLS"
-  authorizer_id = aws_api_gateway_authorizer.cognito.id
+resource "aws_api_gateway_integration" "service_get" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.service_id.id
+  http_method = aws_api_gateway_method.service_get.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.services_handler.invoke_arn
 }
 
-resource "aws_api_gateway_method" "appointment_get" {
-  rest_api_id   = aws_api_gateway_rest_api.main.id
-  resource_id   = aws_api_gateway_resource.appointment_id.id
-  http_method   = "GET"
-  authorization = "COGNITO_USER_POOLS"
-  authorizer_id = aws_api_gateway_authorizer.cognito.id
+resource "aws_api_gateway_integration" "service_put" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.service_id.id
+  http_method = aws_api_gateway_method.service_put.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.services_handler.invoke_arn
 }
 
-resource "aws_api_gateway_method" "appointment_put" {
-  rest_api_id   = aws_api_gateway_rest_api.main.id
-  resource_id   = aws_api_gateway_resource.appointment_id.id
-  http_method   = "PUT"
-  authorization = "COGNITO_USER_POOLS"
-  authorizer_id = aws_api_gateway_authorizer.cognito.id
+resource "aws_api_gateway_integration" "service_delete" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.service_id.id
+  http_method = aws_api_gateway_method.service_delete.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.services_handler.invoke_arn
 }
 
-resource "aws_api_gateway_method" "appointment_delete" {
-  rest_api_id   = aws_api_gateway_rest_api.main.id
-  resource_id   = aws_api_gateway_resource.appointment_id.id
-  http_method   = "DELETE"
-  authorization = "COGNITO_USER_POOLS"
-  authorizer_id = aws_api_gateway_authorizer.cognito.id
+resource "aws_api_gateway_integration" "delegates_get" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.delegates.id
+  http_method = aws_api_gateway_method.delegates_get.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.delegates_handler.invoke_arn
 }
 
-# API Gateway Integrations
-resource "aws_api_gateway_integration" "appointments_get" {
+resource "aws_api_gateway_integration" "delegates_post" {
   rest_api_id = aws_api_gateway_rest_api.main.id
-  resource_id = aws_api_gateway_resource.appointments.id
-  http_method = aws_api_gateway_method.appointments_get.http_method
+  resource_id = aws_api_gateway_resource.delegates.id
+  http_method = aws_api_gateway_method.delegates_post.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.delegates_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "delegate_delete" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.delegate_id.id
+  http_method = aws_api_gateway_method.delegate_delete.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.delegates_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "appointment_history_get" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.appointment_history.id
+  http_method = aws_api_gateway_method.appointment_history_get.http_method
 
   integration_http_method = "POST"
   type                   = "AWS_PROXY"
   uri                    = aws_lambda_function.appointments_handler.invoke_arn
 }
 
-resource "aws_api_gateway_integration" "appointments_post" {
+resource "aws_api_gateway_integration" "appointments_trash_get" {
   rest_api_id = aws_api_gateway_rest_api.main.id
-  resource_id = aws_api_gateway_resource.appointments.id
-  http_method = aws_api_gateway_method.appointments_post.http_method
+  resource_id = aws_api_gateway_resource.appointments_trash.id
+  http_method = aws_api_gateway_method.appointments_trash_get.http_method
 
   integration_http_method = "POST"
   type                   = "AWS_PROXY"
   uri                    = aws_lambda_function.appointments_handler.invoke_arn
 }
 
-resource "aws_api_gateway_integration" "appointment_get" {
+resource "aws_api_gateway_integration" "appointment_restore_post" {
   rest_api_id = aws_api_gateway_rest_api.main.id
-  resource_id = aws_api_gateway_resource.appointment_id.id
-  http_method = aws_api_gateway_method.appointment_get.http_method
+  resource_id = aws_api_gateway_resource.appointment_restore.id
+  http_method = aws_api_gateway_method.appointment_restore_post.http_method
 
   integration_http_method = "POST"
   type                   = "AWS_PROXY"
   uri                    = aws_lambda_function.appointments_handler.invoke_arn
 }
 
-resource "aws_api_gateway_integration" "appointment_put" {
+resource "aws_api_gateway_integration" "appointments_batch_post" {
   rest_api_id = aws_api_gateway_rest_api.main.id
-  resource_id = aws_api_gateway_resource.appointment_id.id
-  http_method = aws_api_gateway_method.appointment_put.http_method
+  resource_id = aws_api_gateway_resource.appointments_batch.id
+  http_method = aws_api_gateway_method.appointments_batch_post.http_method
 
   integration_http_method = "POST"
   type                   = "AWS_PROXY"
   uri                    = aws_lambda_function.appointments_handler.invoke_arn
 }
 
-resource "aws_api_gateway_integration" "appointment_delete" {
+resource "aws_api_gateway_integration" "appointment_reschedule_post" {
   rest_api_id = aws_api_gateway_rest_api.main.id
-  resource_id = aws_api_gateway_resource.appointment_id.id
-  http_method = aws_api_gateway_method.appointment_delete.http_method
+  resource_id = aws_api_gateway_resource.appointment_reschedule.id
+  http_method = aws_api_gateway_method.appointment_reschedule_post.http_method
 
   integration_http_method = "POST"
   type                   = "AWS_PROXY"
   uri                    = aws_lambda_function.appointments_handler.invoke_arn
 }
 
+resource "aws_api_gateway_integration" "public_booking_page_get" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.public_tenant_slug.id
+  http_method = aws_api_gateway_method.public_booking_page_get.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.booking_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "public_slots_get" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.public_slots.id
+  http_method = aws_api_gateway_method.public_slots_get.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.booking_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "public_bookings_post" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.public_bookings.id
+  http_method = aws_api_gateway_method.public_bookings_post.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.booking_handler.invoke_arn
+}
+
+resource "aws_api_gateway_integration" "public_booking_confirm_post" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  resource_id = aws_api_gateway_resource.public_booking_confirm.id
+  http_method = aws_api_gateway_method.public_booking_confirm_post.http_method
+
+  integration_http_method = "POST"
+  type                   = "AWS_PROXY"
+  uri                    = aws_lambda_function.booking_handler.invoke_arn
+}
+
 # API Gateway Deployment
 resource "aws_api_gateway_deployment" "main" {
   depends_on = [
@@ -251,7 +2039,54 @@ resource "aws_api_gateway_deployment" "main" {
     aws_api_gateway_integration.appointments_post,
     aws_api_gateway_integration.appointment_get,
     aws_api_gateway_integration.appointment_put,
-    aws_api_gateway_integration.appointment_delete
+    aws_api_gateway_integration.appointment_delete,
+    aws_api_gateway_integration.tenants_post,
+    aws_api_gateway_integration.tenant_get,
+    aws_api_gateway_integration.tenant_put,
+    aws_api_gateway_integration.tenant_suspend_post,
+    aws_api_gateway_integration.tenant_reactivate_post,
+    aws_api_gateway_integration.users_get,
+    aws_api_gateway_integration.users_post,
+    aws_api_gateway_integration.user_get,
+    aws_api_gateway_integration.user_put,
+    aws_api_gateway_integration.user_disable_post,
+    aws_api_gateway_integration.user_enable_post,
+    aws_api_gateway_integration.availability_get,
+    aws_api_gateway_integration.audit_get,
+    aws_api_gateway_integration.feeds_get,
+    aws_api_gateway_integration.feeds_post,
+    aws_api_gateway_integration.feed_delete,
+    aws_api_gateway_integration.feed_calendar_get,
+    aws_api_gateway_integration.appointments_import_post,
+    aws_api_gateway_integration.appointment_rsvp_get,
+    aws_api_gateway_integration.appointment_rsvp_post,
+    aws_api_gateway_integration.waitlist_get,
+    aws_api_gateway_integration.waitlist_post,
+    aws_api_gateway_integration.waitlist_entry_get,
+    aws_api_gateway_integration.waitlist_entry_delete,
+    aws_api_gateway_integration.waitlist_entry_accept_post,
+    aws_api_gateway_integration.resources_get,
+    aws_api_gateway_integration.resources_post,
+    aws_api_gateway_integration.resource_get,
+    aws_api_gateway_integration.resource_put,
+    aws_api_gateway_integration.resource_delete,
+    aws_api_gateway_integration.services_get,
+    aws_api_gateway_integration.services_post,
+    aws_api_gateway_integration.service_get,
+    aws_api_gateway_integration.service_put,
+    aws_api_gateway_integration.service_delete,
+    aws_api_gateway_integration.delegates_get,
+    aws_api_gateway_integration.delegates_post,
+    aws_api_gateway_integration.delegate_delete,
+    aws_api_gateway_integration.appointment_history_get,
+    aws_api_gateway_integration.appointments_trash_get,
+    aws_api_gateway_integration.appointment_restore_post,
+    aws_api_gateway_integration.appointments_batch_post,
+    aws_api_gateway_integration.appointment_reschedule_post,
+    aws_api_gateway_integration.public_booking_page_get,
+    aws_api_gateway_integration.public_slots_get,
+    aws_api_gateway_integration.public_bookings_post,
+    aws_api_gateway_integration.public_booking_confirm_post
   ]
 
   rest_api_id = aws_api_gateway_rest_api.main.id
@@ -262,6 +2097,29 @@ resource "aws_api_gateway_deployment" "main" {
   }
 }
 
+# Caps the public booking API as a whole; the handler also limits each client
+resource "aws_api_gateway_method_settings" "public_booking" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  stage_name  = aws_api_gateway_deployment.main.stage_name
+  method_path = "public/*"
+
+  settings {
+    throttling_rate_limit  = 20
+    throttling_burst_limit = 40
+  }
+}
+
+resource "aws_api_gateway_method_settings" "public_bookings_post" {
+  rest_api_id = aws_api_gateway_rest_api.main.id
+  stage_name  = aws_api_gateway_deployment.main.stage_name
+  method_path = "public/{tenantSlug}/bookings/POST"
+
+  settings {
+    throttling_rate_limit  = 2
+    throttling_burst_limit = 5
+  }
+}
+
 # CloudFront Distribution
 resource "aws_cloudfront_distribution" "main" {
   origin {
@@ -451,6 +2309,12 @@ variable "lambda_deployments_bucket_name" {
   type        = string
 }
 
+variable "trash_retention_days" {
+  description = "Days deleted appointments stay restorable before they are purged"
+  type        = number
+  default     = 30
+}
+
 variable "tags" {
   description = "Tags to apply to resources"
   type        = map(string)
@@ -136,6 +136,11 @@ resource "aws_cognito_user_pool_group" "tenant_user" {
   precedence   = 3
 }
 
+# Sender of the mail the Lambdas send; SES mails a verification link to it
+resource "aws_ses_email_identity" "mail_from" {
+  email = var.mail_from_address
+}
+
 # IAM Role for Lambda functions
 resource "aws_iam_role" "lambda_execution" {
   name = "${var.project_name}-lambda-role-${var.environment}"
@@ -195,10 +200,22 @@ resource "aws_iam_role_policy" "lambda_execution" {
           "cognito-idp:ListUsers",
           "cognito-idp:AdminCreateUser",
           "cognito-idp:AdminUpdateUserAttributes",
-          "cognito-idp:AdminDeleteUser"
+          "cognito-idp:AdminDeleteUser",
+          "cognito-idp:AdminAddUserToGroup",
+          "cognito-idp:AdminRemoveUserFromGroup",
+          "cognito-idp:AdminDisableUser",
+          "cognito-idp:AdminEnableUser",
+          "cognito-idp:AdminUserGlobalSignOut"
         ]
         Resource = aws_cognito_user_pool.main.arn
       },
+      {
+        Effect = "Allow"
+        Action = [
+          "ses:SendEmail"
+        ]
+        Resource = aws_ses_email_identity.mail_from.arn
+      },
       {
         Effect = "Allow"
         Action = [
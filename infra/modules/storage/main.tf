@@ -14,13 +14,23 @@ resource "aws_dynamodb_table" "appointments" {
     range_key = "GSI1SK"
   }
 
-  # Global Secondary Index for user-based queries
+  # Global Secondary Index for user-based queries, and waiting waitlist entries
+  # per calendar
   global_secondary_index {
     name     = "GSI2"
     hash_key = "GSI2PK"
     range_key = "GSI2SK"
   }
 
+  # Sparse index of pending reminders and open waitlist offers by due time,
+  # read by the reminder and waitlist offer workers
+  global_secondary_index {
+    name            = "GSI3"
+    hash_key        = "GSI3PK"
+    range_key       = "GSI3SK"
+    projection_type = "ALL"
+  }
+
   # Point-in-time recovery (free tier includes this)
   point_in_time_recovery {
     enabled = true
@@ -48,6 +58,12 @@ resource "aws_dynamodb_table" "tenants" {
   billing_mode   = "PAY_PER_REQUEST"
   hash_key       = "tenantId"
 
+  # Global Secondary Index for public booking pages, which are found by slug
+  global_secondary_index {
+    name     = "SlugIndex"
+    hash_key = "slug"
+  }
+
   # Point-in-time recovery
   point_in_time_recovery {
     enabled = true
@@ -0,0 +1,120 @@
+#!/usr/bin/env node
+
+/**
+ * Date Key Migration Script for AppointifyX
+ * Rewrites the date index keys (GSI1SK/GSI2SK) of stored appointments in UTC
+ * and gives appointments without a timezone the one of their tenant.
+ * Keys used to be formatted in the local zone of whatever wrote them.
+ *
+ * Usage: node scripts/migrate-date-keys.js [--dry-run]
+ */
+
+const { DynamoDB } = require('aws-sdk');
+
+const dynamodb = new DynamoDB.DocumentClient();
+
+// Configuration
+const CONFIG = {
+  region: process.env.AWS_REGION || 'us-east-1',
+  appointmentsTable: process.env.APPOINTMENTS_TABLE_NAME || 'appointifyx-appointments-dev',
+  tenantsTable: process.env.TENANTS_TABLE_NAME || 'appointifyx-tenants-dev',
+  dryRun: process.argv.includes('--dry-run')
+};
+
+// Same format as AppointmentService.buildDateKey / buildSeriesKey
+function dateKey(appointment) {
+  const [date, time] = new Date(appointment.startTime).toISOString().slice(0, 19).split('T');
+  return `${appointment.recurrenceRule ? 'SERIES#' : ''}DATE#${date}#TIME#${time}`;
+}
+
+const tenantZones = new Map();
+
+async function tenantTimezone(tenantId) {
+  if (!tenantZones.has(tenantId)) {
+    const result = await dynamodb.get({ TableName: CONFIG.tenantsTable, Key: { tenantId } }).promise();
+    tenantZones.set(tenantId, (result.Item && result.Item.settings && result.Item.settings.timezone) || 'UTC');
+  }
+  return tenantZones.get(tenantId);
+}
+
+async function migrateItem(item) {
+  const sortKey = dateKey(item);
+  // Trashed appointments are keyed by deletion time on GSI1 and have no GSI2 keys
+  const rekey = !item.deletedAt && (item.GSI1SK !== sortKey || item.GSI2SK !== sortKey);
+  const timezone = item.timezone ? undefined : await tenantTimezone(item.tenantId);
+  if (!rekey && !timezone) {
+    return false;
+  }
+
+  const assignments = [];
+  const values = { ':startTime': item.startTime };
+  if (rekey) {
+    assignments.push('GSI1SK = :sortKey', 'GSI2SK = :sortKey');
+    values[':sortKey'] = sortKey;
+  }
+  if (timezone) {
+    assignments.push('#timezone = :timezone');
+    values[':timezone'] = timezone;
+  }
+
+  if (!CONFIG.dryRun) {
+    try {
+      // Skipped if the appointment moved since it was read; the API wrote UTC keys then
+      await dynamodb.update({
+        TableName: CONFIG.appointmentsTable,
+        Key: { PK: item.PK, SK: item.SK },
+        UpdateExpression: `SET ${assignments.join(', ')}`,
+        ConditionExpression: 'startTime = :startTime',
+        ...(timezone && { ExpressionAttributeNames: { '#timezone': 'timezone' } }),
+        ExpressionAttributeValues: values
+      }).promise();
+    } catch (error) {
+      if (error.code !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      return false;
+    }
+  }
+  return true;
+}
+
+// Main migration function
+async function migrateDateKeys() {
+  console.log('🕒 Starting date key migration...');
+  console.log(`📍 Region: ${CONFIG.region}`);
+  console.log(`📊 Table: ${CONFIG.appointmentsTable}${CONFIG.dryRun ? ' (dry run)' : ''}`);
+
+  let scanned = 0;
+  let migrated = 0;
+
+  try {
+    const params = {
+      TableName: CONFIG.appointmentsTable,
+      FilterExpression: 'begins_with(SK, :appointmentPrefix)',
+      ExpressionAttributeValues: { ':appointmentPrefix': 'APPOINTMENT#' }
+    };
+
+    do {
+      const result = await dynamodb.scan(params).promise();
+      for (const item of result.Items || []) {
+        scanned++;
+        if (await migrateItem(item)) {
+          migrated++;
+        }
+      }
+      params.ExclusiveStartKey = result.LastEvaluatedKey;
+    } while (params.ExclusiveStartKey);
+
+    console.log(`\n🎉 ${CONFIG.dryRun ? 'Would migrate' : 'Migrated'} ${migrated} of ${scanned} appointments`);
+  } catch (error) {
+    console.error('❌ Error migrating date keys:', error);
+    process.exit(1);
+  }
+}
+
+// Run the migration
+if (require.main === module) {
+  migrateDateKeys();
+}
+
+module.exports = { migrateDateKeys, dateKey };
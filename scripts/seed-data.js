@@ -23,6 +23,7 @@ const SAMPLE_TENANTS = [
   {
     tenantId: 'tenant-001',
     name: 'Acme Corporation',
+    slug: 'acme',
     domain: 'acme.com',
     plan: 'premium',
     status: 'active',
@@ -33,12 +34,16 @@ const SAMPLE_TENANTS = [
         start: '09:00',
         end: '17:00',
         days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday']
-      }
+      },
+      closures: [
+        { name: 'Christmas Day', startDate: '2024-12-25', annual: true }
+      ]
     }
   },
   {
     tenantId: 'tenant-002',
     name: 'TechStart Inc',
+    slug: 'techstart',
     domain: 'techstart.io',
     plan: 'basic',
     status: 'active',
@@ -142,10 +147,10 @@ function createDynamoDBItem(tableName, item) {
   return dynamodb.put(params).promise();
 }
 
+// Date index keys are in UTC, like the ones the API writes
 function createAppointmentItem(appointment) {
-  const startDate = new Date(appointment.startTime);
-  const dateStr = startDate.toISOString().split('T')[0];
-  const timeStr = startDate.toTimeString().split(' ')[0];
+  const [dateStr, timeStr] = new Date(appointment.startTime).toISOString().slice(0, 19).split('T');
+  const tenant = SAMPLE_TENANTS.find(t => t.tenantId === appointment.tenantId);
 
   return {
     PK: `TENANT#${appointment.tenantId}#APPOINTMENT#${appointment.appointmentId}`,
@@ -155,6 +160,7 @@ function createAppointmentItem(appointment) {
     GSI2PK: `TENANT#${appointment.tenantId}#USER#${appointment.userId}`,
     GSI2SK: `DATE#${dateStr}#TIME#${timeStr}`,
     ttl: Math.floor(Date.now() / 1000) + (365 * 24 * 60 * 60), // 1 year TTL
+    timezone: tenant ? tenant.settings.timezone : 'UTC',
     ...appointment
   };
 }